@@ -13,7 +13,10 @@ import NewContract from "./pages/NewContract";
 import ContractDetail from "./pages/ContractDetail";
 import PlansSettings from "./pages/PlansSettings";
 import TemplateEditorPage from "./pages/TemplateEditorPage";
+import AmendmentTemplateEditorPage from "./pages/AmendmentTemplateEditorPage";
+import IndexRatesSettings from "./pages/IndexRatesSettings";
 import WebhookSettings from "./pages/WebhookSettings";
+import UsersSettings from "./pages/UsersSettings";
 import ClientContractForm from "./pages/ClientContractForm";
 import NotFound from "./pages/NotFound";
 
@@ -32,11 +35,15 @@ const App = () => (
             <Route path="/unauthorized" element={<Unauthorized />} />
             <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
             <Route path="/contracts" element={<ProtectedRoute><ContractsList /></ProtectedRoute>} />
-            <Route path="/contracts/new" element={<ProtectedRoute><NewContract /></ProtectedRoute>} />
+            <Route path="/contracts/new" element={<ProtectedRoute permission="contracts.create"><NewContract /></ProtectedRoute>} />
             <Route path="/contracts/:id" element={<ProtectedRoute><ContractDetail /></ProtectedRoute>} />
-            <Route path="/settings/plans" element={<ProtectedRoute><PlansSettings /></ProtectedRoute>} />
-            <Route path="/settings/plans/:planId/template" element={<ProtectedRoute><TemplateEditorPage /></ProtectedRoute>} />
-            <Route path="/settings/webhooks" element={<ProtectedRoute><WebhookSettings /></ProtectedRoute>} />
+            <Route path="/contracts/:id/edit" element={<ProtectedRoute permission="contracts.edit"><NewContract /></ProtectedRoute>} />
+            <Route path="/settings/plans" element={<ProtectedRoute permission="templates.manage"><PlansSettings /></ProtectedRoute>} />
+            <Route path="/settings/plans/:planId/template" element={<ProtectedRoute permission="templates.manage"><TemplateEditorPage /></ProtectedRoute>} />
+            <Route path="/settings/plans/:planId/amendment-template" element={<ProtectedRoute permission="templates.manage"><AmendmentTemplateEditorPage /></ProtectedRoute>} />
+            <Route path="/settings/index-rates" element={<ProtectedRoute permission="index_rates.manage"><IndexRatesSettings /></ProtectedRoute>} />
+            <Route path="/settings/webhooks" element={<ProtectedRoute permission="webhooks.manage"><WebhookSettings /></ProtectedRoute>} />
+            <Route path="/settings/users" element={<ProtectedRoute permission="users.manage"><UsersSettings /></ProtectedRoute>} />
             <Route path="/client-form/:token" element={<ClientContractForm />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
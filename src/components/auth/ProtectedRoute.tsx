@@ -1,13 +1,16 @@
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { Permission } from '@/lib/permissions';
 import { Loader2 } from 'lucide-react';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Required on top of having a role; omit for pages every role can see
+  permission?: Permission;
 }
 
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { user, loading, isAuthorizedDomain } = useAuth();
+export function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+  const { user, loading, role, can } = useAuth();
 
   if (loading) {
     return (
@@ -21,7 +24,7 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     return <Navigate to="/auth" replace />;
   }
 
-  if (!isAuthorizedDomain) {
+  if (!role || (permission && !can(permission))) {
     return <Navigate to="/unauthorized" replace />;
   }
 
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { Address, AddressPart, BRAZILIAN_STATES, EMPTY_ADDRESS, parseAddress, serializeAddress } from '@/lib/address';
+import { isValidCep, maskCep } from '@/lib/brDocuments';
+
+interface AddressFieldInputProps {
+  id: string;
+  // JSON string kept in custom_data (see address.ts)
+  value: string;
+  onChange: (value: string) => void;
+  required?: boolean;
+  disabled?: boolean;
+}
+
+export function AddressFieldInput({ id, value, onChange, required, disabled }: AddressFieldInputProps) {
+  const [lookingUp, setLookingUp] = useState(false);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const address = parseAddress(value) ?? EMPTY_ADDRESS;
+  // Free text typed before the variable became an address
+  const legacyValue = value.trim() && !parseAddress(value) ? value : null;
+
+  const update = (changes: Partial<Address>) => onChange(serializeAddress({ ...address, ...changes }));
+
+  const lookup = async (cep: string) => {
+    setLookingUp(true);
+    setLookupError(null);
+    try {
+      const { data, error } = await supabase.functions.invoke('lookup-cep', { body: { cep } });
+      if (error || !data?.address) {
+        setLookupError('CEP não encontrado. Preencha o endereço manualmente.');
+        return;
+      }
+      const found = data.address as Partial<Address>;
+      // Number and complement are never returned, so what the user typed there is kept
+      update({
+        cep: maskCep(cep),
+        logradouro: found.logradouro || address.logradouro,
+        bairro: found.bairro || address.bairro,
+        cidade: found.cidade || address.cidade,
+        uf: found.uf || address.uf,
+      });
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const handleCepChange = (raw: string) => {
+    const cep = maskCep(raw);
+    update({ cep });
+    setLookupError(null);
+    if (isValidCep(cep) && cep !== address.cep) lookup(cep);
+  };
+
+  const field = (part: AddressPart, label: string, className: string, isRequired = required) => (
+    <div className={className}>
+      <Label htmlFor={`${id}.${part}`} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <Input
+        id={`${id}.${part}`}
+        value={address[part]}
+        onChange={(e) => update({ [part]: e.target.value })}
+        required={isRequired}
+        disabled={disabled}
+      />
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-6 gap-2 rounded-lg border p-3">
+      {legacyValue && (
+        <p className="col-span-6 text-xs text-muted-foreground">Valor anterior: {legacyValue}</p>
+      )}
+      <div className="col-span-2">
+        <Label htmlFor={`${id}.cep`} className="text-xs text-muted-foreground">
+          CEP
+        </Label>
+        <div className="relative">
+          <Input
+            id={`${id}.cep`}
+            inputMode="numeric"
+            placeholder="00000-000"
+            value={address.cep}
+            onChange={(e) => handleCepChange(e.target.value)}
+            required={required}
+            disabled={disabled}
+          />
+          {lookingUp && <Loader2 className="absolute right-2 top-2.5 h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+      </div>
+      {field('logradouro', 'Logradouro', 'col-span-4')}
+      {field('numero', 'Número', 'col-span-2')}
+      {field('complemento', 'Complemento', 'col-span-4', false)}
+      {field('bairro', 'Bairro', 'col-span-3')}
+      {field('cidade', 'Cidade', 'col-span-2')}
+      <div className="col-span-1">
+        <Label className="text-xs text-muted-foreground">UF</Label>
+        <Select value={address.uf} onValueChange={(uf) => update({ uf })} disabled={disabled}>
+          <SelectTrigger>
+            <SelectValue placeholder="UF" />
+          </SelectTrigger>
+          <SelectContent>
+            {BRAZILIAN_STATES.map((uf) => (
+              <SelectItem key={uf} value={uf}>
+                {uf}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {lookupError && <p className="col-span-6 text-xs text-destructive">{lookupError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { supabase } from '@/integrations/supabase/client';
+import { isValidCnpj } from '@/lib/brDocuments';
+import { DOCUMENT_FIELD_TYPES, maskFieldValue } from '@/lib/fieldTypes';
+import type { CompanyData } from '@/lib/companyLookup';
+
+interface CnpjFieldInputProps {
+  id: string;
+  fieldType: 'cnpj' | 'cpf_cnpj';
+  value: string;
+  onChange: (value: string) => void;
+  onCompanyFound: (company: CompanyData) => void;
+  // Client form link token; staff lookups are authorized by their session instead
+  token?: string;
+  required?: boolean;
+  disabled?: boolean;
+}
+
+export function CnpjFieldInput({
+  id,
+  fieldType,
+  value,
+  onChange,
+  onCompanyFound,
+  token,
+  required,
+  disabled,
+}: CnpjFieldInputProps) {
+  const [lookingUp, setLookingUp] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const documentType = DOCUMENT_FIELD_TYPES[fieldType];
+
+  const handleLookup = async () => {
+    setLookingUp(true);
+    setMessage(null);
+    try {
+      const { data, error } = await supabase.functions.invoke('lookup-cnpj', { body: { cnpj: value, token } });
+      if (error || !data?.company) {
+        setMessage({ text: 'CNPJ não encontrado na Receita Federal. Preencha os dados manualmente.', error: true });
+        return;
+      }
+      const company = data.company as CompanyData;
+      setMessage({
+        text: `${company.razao_social}${company.situacao ? ` • ${company.situacao}` : ''}`,
+        error: false,
+      });
+      onCompanyFound(company);
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          type="text"
+          inputMode={documentType.inputMode}
+          placeholder={documentType.placeholder}
+          value={value}
+          onChange={(e) => {
+            onChange(maskFieldValue(fieldType, e.target.value));
+            setMessage(null);
+          }}
+          required={required}
+          disabled={disabled}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleLookup}
+          disabled={disabled || lookingUp || !isValidCnpj(value)}
+          title="Buscar dados da empresa pelo CNPJ"
+          className="shrink-0"
+        >
+          {lookingUp ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+          Buscar
+        </Button>
+      </div>
+      {message && (
+        <p className={message.error ? 'text-xs text-destructive mt-1' : 'text-xs text-muted-foreground mt-1'}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
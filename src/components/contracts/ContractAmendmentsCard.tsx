@@ -0,0 +1,280 @@
+import { useState } from 'react';
+import { ExternalLink, FilePlus2, FileSignature, Loader2, Send } from 'lucide-react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { formatCurrency, formatDate } from '@/lib/templateFilters';
+import type { Contract } from '@/hooks/useContracts';
+import type { ContractAmendment, ContractAmendmentStatus } from '@/hooks/useContractAmendments';
+
+const STATUS_CONFIG: Record<ContractAmendmentStatus, { label: string; className: string }> = {
+  draft: { label: 'Rascunho', className: 'bg-muted text-muted-foreground' },
+  sent_for_signature: {
+    label: 'Aguardando assinatura',
+    className: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20',
+  },
+  signed: {
+    label: 'Assinado',
+    className: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20',
+  },
+  rejected: {
+    label: 'Recusado',
+    className: 'bg-destructive/10 text-destructive border-destructive/20',
+  },
+  cancelled: { label: 'Cancelado', className: 'bg-muted text-muted-foreground line-through' },
+};
+
+// Signed amendments that set the contract's current terms, like refresh_contract_amended_terms
+function effectiveAmendmentIds(amendments: ContractAmendment[]): Set<string> {
+  const signed = amendments
+    .filter((amendment) => amendment.status === 'signed')
+    .sort(
+      (a, b) =>
+        (b.signed_at ?? '').localeCompare(a.signed_at ?? '') || b.amendment_number - a.amendment_number
+    );
+  const ids = new Set<string>();
+  const valueAmendment = signed.find((amendment) => amendment.monthly_value !== null);
+  const endDateAmendment = signed.find((amendment) => amendment.end_date !== null);
+  if (valueAmendment) ids.add(valueAmendment.id);
+  if (endDateAmendment) ids.add(endDateAmendment.id);
+  return ids;
+}
+
+function MarkSignedDialog({
+  amendment,
+  onConfirm,
+  isUpdating,
+}: {
+  amendment: ContractAmendment;
+  onConfirm: (signedFile: File) => Promise<void>;
+  isUpdating?: boolean;
+}) {
+  const [signedFile, setSignedFile] = useState<File | null>(null);
+
+  return (
+    <AlertDialog onOpenChange={(open) => !open && setSignedFile(null)}>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="outline" disabled={isUpdating}>
+          Marcar como assinado
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Aditivo assinado?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Use quando o aditivo nº {amendment.amendment_number} foi assinado fora do sistema. Os novos termos passam
+            a valer para o contrato e o aditivo não pode mais ser alterado.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div>
+          <Label htmlFor={`signed-file-${amendment.id}`}>Aditivo assinado (PDF) *</Label>
+          <Input
+            id={`signed-file-${amendment.id}`}
+            type="file"
+            accept=".pdf,application/pdf"
+            onChange={(e) => setSignedFile(e.target.files?.[0] ?? null)}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancelar</AlertDialogCancel>
+          <AlertDialogAction onClick={() => signedFile && onConfirm(signedFile)} disabled={!signedFile || isUpdating}>
+            {isUpdating && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Confirmar
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+interface ContractAmendmentsCardProps {
+  contract: Contract;
+  amendments: ContractAmendment[];
+  canEdit: boolean;
+  // Admins record amendments signed outside Autentique, attaching the signed file
+  canSignManually: boolean;
+  onNew: () => void;
+  onSend: (amendment: ContractAmendment) => Promise<void>;
+  isSending?: boolean;
+  onStatusChange: (amendment: ContractAmendment, status: 'signed' | 'cancelled', signedFile?: File) => Promise<void>;
+  isUpdating?: boolean;
+}
+
+export function ContractAmendmentsCard({
+  contract,
+  amendments,
+  canEdit,
+  canSignManually,
+  onNew,
+  onSend,
+  isSending,
+  onStatusChange,
+  isUpdating,
+}: ContractAmendmentsCardProps) {
+  const original = contract.original_terms ?? {
+    monthly_value: contract.monthly_value,
+    end_date: contract.end_date,
+  };
+  const chain = [...amendments].sort((a, b) => a.amendment_number - b.amendment_number);
+  const effectiveIds = effectiveAmendmentIds(amendments);
+  const isActive = contract.status === 'active';
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5 text-primary" />
+            Aditivos
+          </CardTitle>
+          <CardDescription>
+            O contrato vale pelos termos originais alterados pelos aditivos assinados
+          </CardDescription>
+        </div>
+        {canEdit && isActive && (
+          <Button size="sm" variant="outline" onClick={onNew}>
+            <FilePlus2 className="h-4 w-4 mr-2" />
+            Novo aditivo
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <ol className="relative border-l border-border ml-2 space-y-6">
+          <li className="ml-4">
+            <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+            <p className="font-medium">Contrato original</p>
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+              <span>
+                <span className="text-muted-foreground">Início:</span> {formatDate(contract.start_date)}
+              </span>
+              <span>
+                <span className="text-muted-foreground">Término:</span> {formatDate(original.end_date)}
+              </span>
+              {original.monthly_value !== null && (
+                <span>
+                  <span className="text-muted-foreground">Valor mensal:</span>{' '}
+                  {formatCurrency(Number(original.monthly_value))}
+                </span>
+              )}
+            </div>
+          </li>
+
+          {chain.map((amendment) => {
+            const isPending = amendment.status === 'draft' || amendment.status === 'sent_for_signature';
+            return (
+              <li key={amendment.id} className="ml-4 space-y-2">
+                <div
+                  className={cn(
+                    'absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background',
+                    amendment.status === 'signed' ? 'bg-primary' : 'bg-muted-foreground/40'
+                  )}
+                />
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="font-medium">
+                      Aditivo nº {amendment.amendment_number} • {amendment.title}
+                    </p>
+                    <Badge variant="outline" className={cn(STATUS_CONFIG[amendment.status].className)}>
+                      {STATUS_CONFIG[amendment.status].label}
+                    </Badge>
+                    {effectiveIds.has(amendment.id) && (
+                      <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20">
+                        Em vigor
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {amendment.signed_at
+                      ? `Assinado em ${format(new Date(amendment.signed_at), 'dd/MM/yyyy')}`
+                      : amendment.sent_to_autentique_at
+                        ? `Enviado em ${format(new Date(amendment.sent_to_autentique_at), 'dd/MM/yyyy')}`
+                        : `Criado em ${format(new Date(amendment.created_at), 'dd/MM/yyyy')}`}
+                  </p>
+                </div>
+                {amendment.description && <p className="text-sm text-muted-foreground">{amendment.description}</p>}
+                <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                  <span>
+                    <span className="text-muted-foreground">Vigência a partir de:</span>{' '}
+                    {formatDate(amendment.effective_date)}
+                  </span>
+                  {amendment.monthly_value !== null && (
+                    <span>
+                      <span className="text-muted-foreground">Novo valor mensal:</span>{' '}
+                      {formatCurrency(Number(amendment.monthly_value))}
+                    </span>
+                  )}
+                  {amendment.end_date && (
+                    <span>
+                      <span className="text-muted-foreground">Novo término:</span> {formatDate(amendment.end_date)}
+                    </span>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2 pt-1">
+                  {amendment.generated_document_url && (
+                    <Button size="sm" variant="outline" asChild>
+                      <a href={amendment.generated_document_url} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        {amendment.status === 'signed' ? 'Documento assinado' : 'Ver documento'}
+                      </a>
+                    </Button>
+                  )}
+                  {amendment.status === 'sent_for_signature' && amendment.autentique_signature_link && (
+                    <Button size="sm" variant="outline" asChild>
+                      <a href={amendment.autentique_signature_link} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Link de assinatura
+                      </a>
+                    </Button>
+                  )}
+                  {canEdit && isPending && isActive && (
+                    <Button size="sm" onClick={() => onSend(amendment)} disabled={isSending || isUpdating}>
+                      {isSending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Send className="h-4 w-4 mr-2" />
+                      )}
+                      {amendment.status === 'draft' ? 'Enviar para assinatura' : 'Reenviar'}
+                    </Button>
+                  )}
+                  {canSignManually && amendment.status === 'draft' && (
+                    <MarkSignedDialog
+                      key={amendment.id}
+                      amendment={amendment}
+                      onConfirm={(file) => onStatusChange(amendment, 'signed', file)}
+                      isUpdating={isUpdating}
+                    />
+                  )}
+                  {canEdit && (isPending || amendment.status === 'rejected') && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onStatusChange(amendment, 'cancelled')}
+                      disabled={isUpdating}
+                    >
+                      Cancelar aditivo
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { FileCheck, FileText, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { sha256Hex } from '@/lib/documentHash';
+import type { ContractDocument } from '@/hooks/useContractDocuments';
+
+interface VerificationResult {
+  fileName: string;
+  hash: string;
+  // Which stored file the upload matched, if any
+  match: { document: ContractDocument; kind: 'sent' | 'signed' } | null;
+}
+
+function HashLine({ label, hash }: { label: string; hash: string }) {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <code className="text-xs break-all">{hash}</code>
+    </div>
+  );
+}
+
+interface ContractDocumentSnapshotCardProps {
+  // Newest first; the first one is the document currently out for (or done with) signature
+  documents: ContractDocument[];
+  templateVersionNumber?: number;
+}
+
+export function ContractDocumentSnapshotCard({ documents, templateVersionNumber }: ContractDocumentSnapshotCardProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [snapshot] = documents;
+
+  const handleVerify = async (file: File) => {
+    setVerifying(true);
+    try {
+      const hash = await sha256Hex(await file.arrayBuffer());
+      const sent = documents.find((d) => d.pdf_sha256 === hash);
+      const signed = documents.find((d) => d.signed_pdf_sha256 === hash);
+      setResult({
+        fileName: file.name,
+        hash,
+        match: signed ? { document: signed, kind: 'signed' } : sent ? { document: sent, kind: 'sent' } : null,
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <Card className="border-t-4 border-t-primary">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5 text-primary" />
+          Documento do Contrato
+        </CardTitle>
+        <CardDescription>
+          Cópia exata enviada para assinatura em {format(new Date(snapshot.created_at), 'dd/MM/yyyy HH:mm')}
+          {templateVersionNumber && ` • Template versão ${templateVersionNumber}`}
+          {documents.length > 1 && ` • ${documents.length - 1} envio(s) anterior(es)`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-lg border p-4 space-y-3">
+          <HashLine label="SHA-256 do PDF enviado" hash={snapshot.pdf_sha256} />
+          {snapshot.signed_pdf_sha256 && (
+            <HashLine label="SHA-256 do PDF assinado" hash={snapshot.signed_pdf_sha256} />
+          )}
+          {snapshot.original_verified !== null && (
+            <Badge
+              variant="outline"
+              className={cn(
+                snapshot.original_verified
+                  ? 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20'
+                  : 'bg-destructive/10 text-destructive border-destructive/20'
+              )}
+            >
+              {snapshot.original_verified ? (
+                <ShieldCheck className="h-3 w-3 mr-1" />
+              ) : (
+                <ShieldAlert className="h-3 w-3 mr-1" />
+              )}
+              {snapshot.original_verified
+                ? 'Original no Autentique confere com o PDF enviado'
+                : 'Original no Autentique diverge do PDF enviado'}
+            </Badge>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".pdf,application/pdf"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleVerify(file);
+                e.target.value = '';
+              }}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={verifying}>
+              {verifying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileCheck className="h-4 w-4 mr-2" />}
+              Verificar arquivo
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              Compare um PDF recebido com os arquivos registrados deste contrato
+            </span>
+          </div>
+
+          {result && (
+            <div
+              className={cn(
+                'rounded p-3 text-sm',
+                result.match ? 'bg-green-500/10 text-green-700 dark:text-green-300' : 'bg-destructive/10 text-destructive'
+              )}
+            >
+              <p className="font-medium">
+                {result.match
+                  ? `${result.fileName} é ${result.match.kind === 'signed' ? 'o documento assinado' : 'o documento enviado para assinatura'} em ${format(new Date(result.match.document.created_at), 'dd/MM/yyyy HH:mm')}`
+                  : `${result.fileName} não corresponde a nenhum documento deste contrato`}
+              </p>
+              <code className="text-xs break-all">{result.hash}</code>
+            </div>
+          )}
+        </div>
+
+        <div
+          className="border rounded-lg p-6 bg-card prose prose-sm dark:prose-invert max-w-none max-h-[600px] overflow-auto"
+          dangerouslySetInnerHTML={{ __html: snapshot.html }}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FilePlus2, Loader2, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { Contract } from '@/hooks/useContracts';
+import type { ContractAmendment } from '@/hooks/useContractAmendments';
+import {
+  IndexRate,
+  READJUSTMENT_INDEX_LABELS,
+  READJUSTMENT_INDEX_VALUES,
+  ReadjustmentIndex,
+  toReadjustmentIndex,
+} from '@/lib/indexRates';
+import {
+  MONTH_LABELS,
+  ReadjustmentBreakdown,
+  ReadjustmentConfig,
+  calculateReadjustment,
+  formatPercent,
+  formatReferenceMonth,
+  nextAnniversary,
+} from '@/lib/readjustment';
+import { formatCurrency } from '@/lib/templateFilters';
+
+interface ContractReadjustmentCardProps {
+  contract: Contract;
+  rates: IndexRate[];
+  amendments: ContractAmendment[];
+  canEdit: boolean;
+  onSave: (config: ReadjustmentConfig) => Promise<void>;
+  isSaving?: boolean;
+  onGenerateAmendment: (breakdown: ReadjustmentBreakdown) => Promise<void>;
+  isGenerating?: boolean;
+}
+
+function parsePercent(value: string): number | null {
+  return value.trim() ? parseFloat(value.replace(',', '.')) : null;
+}
+
+export function ContractReadjustmentCard({
+  contract,
+  rates,
+  amendments,
+  canEdit,
+  onSave,
+  isSaving,
+  onGenerateAmendment,
+  isGenerating,
+}: ContractReadjustmentCardProps) {
+  const [index, setIndex] = useState<ReadjustmentIndex | null>(contract.readjustment_index);
+  const [month, setMonth] = useState(contract.readjustment_month?.toString() ?? '');
+  const [floor, setFloor] = useState(contract.readjustment_floor_percent?.toString() ?? '');
+  const [cap, setCap] = useState(contract.readjustment_cap_percent?.toString() ?? '');
+  // "yyyy-MM"; defaults to the next anniversary of the saved configuration
+  const [anniversaryMonth, setAnniversaryMonth] = useState<string | null>(null);
+
+  const config: ReadjustmentConfig = {
+    readjustment_index: index,
+    readjustment_month: index && month ? parseInt(month) : null,
+    readjustment_floor_percent: index ? parsePercent(floor) : null,
+    readjustment_cap_percent: index ? parsePercent(cap) : null,
+  };
+  const isValid =
+    (!index || !!config.readjustment_month) &&
+    !Number.isNaN(config.readjustment_floor_percent) &&
+    !Number.isNaN(config.readjustment_cap_percent) &&
+    (config.readjustment_floor_percent === null ||
+      config.readjustment_cap_percent === null ||
+      config.readjustment_floor_percent <= config.readjustment_cap_percent);
+  const hasChanges =
+    config.readjustment_index !== contract.readjustment_index ||
+    config.readjustment_month !== contract.readjustment_month ||
+    config.readjustment_floor_percent !== contract.readjustment_floor_percent ||
+    config.readjustment_cap_percent !== contract.readjustment_cap_percent;
+
+  // The calculation follows the saved configuration, which is what the amendment records
+  const savedIndex = contract.readjustment_index;
+  const anniversary = contract.readjustment_month
+    ? anniversaryMonth
+      ? `${anniversaryMonth}-01`
+      : nextAnniversary(contract.readjustment_month)
+    : null;
+  const breakdown =
+    savedIndex && anniversary && contract.monthly_value !== null
+      ? calculateReadjustment(
+          {
+            readjustment_index: savedIndex,
+            readjustment_month: contract.readjustment_month,
+            readjustment_floor_percent: contract.readjustment_floor_percent,
+            readjustment_cap_percent: contract.readjustment_cap_percent,
+          },
+          anniversary,
+          Number(contract.monthly_value),
+          rates
+        )
+      : null;
+  const existingAmendment = breakdown
+    ? amendments.find(
+        (amendment) =>
+          amendment.kind === 'readjustment' &&
+          amendment.status !== 'cancelled' &&
+          amendment.readjustment?.anniversary === breakdown.anniversary
+      )
+    : undefined;
+  const canGenerate = !!breakdown && breakdown.missing_months.length === 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-primary" />
+          Reajuste Anual
+        </CardTitle>
+        <CardDescription>
+          O valor mensal é reajustado pelo índice acumulado nos 12 meses anteriores ao mês de aniversário
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label>Índice</Label>
+            <Select
+              value={index ?? 'none'}
+              onValueChange={(value) => setIndex(toReadjustmentIndex(value))}
+              disabled={!canEdit}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Sem reajuste</SelectItem>
+                {READJUSTMENT_INDEX_VALUES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {READJUSTMENT_INDEX_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {index && (
+            <div>
+              <Label>Mês de aniversário</Label>
+              <Select value={month} onValueChange={setMonth} disabled={!canEdit}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Selecione o mês" />
+                </SelectTrigger>
+                <SelectContent>
+                  {MONTH_LABELS.map((label, i) => (
+                    <SelectItem key={label} value={(i + 1).toString()}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {index && (
+            <div>
+              <Label htmlFor="readjustment_floor">Piso (%)</Label>
+              <Input
+                id="readjustment_floor"
+                inputMode="decimal"
+                placeholder="Sem piso"
+                value={floor}
+                onChange={(e) => setFloor(e.target.value)}
+                disabled={!canEdit}
+              />
+            </div>
+          )}
+          {index && (
+            <div>
+              <Label htmlFor="readjustment_cap">Teto (%)</Label>
+              <Input
+                id="readjustment_cap"
+                inputMode="decimal"
+                placeholder="Sem teto"
+                value={cap}
+                onChange={(e) => setCap(e.target.value)}
+                disabled={!canEdit}
+              />
+            </div>
+          )}
+        </div>
+
+        {canEdit && hasChanges && (
+          <Button onClick={() => onSave(config)} disabled={isSaving || !isValid}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Salvar
+          </Button>
+        )}
+
+        {savedIndex && contract.monthly_value === null && (
+          <p className="text-sm text-muted-foreground">O contrato não tem valor mensal para reajustar.</p>
+        )}
+
+        {breakdown && (
+          <div className="space-y-4 border-t pt-4">
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+              <div>
+                <Label htmlFor="readjustment_anniversary">Aniversário</Label>
+                <Input
+                  id="readjustment_anniversary"
+                  type="month"
+                  value={breakdown.anniversary.slice(0, 7)}
+                  onChange={(e) => setAnniversaryMonth(e.target.value || null)}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {READJUSTMENT_INDEX_LABELS[breakdown.index]} de {formatReferenceMonth(breakdown.period_start)} a{' '}
+                {formatReferenceMonth(breakdown.period_end)}
+              </p>
+            </div>
+
+            {breakdown.months.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Mês</TableHead>
+                    <TableHead className="text-right">Variação</TableHead>
+                    <TableHead className="text-right">Acumulado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {breakdown.months.map((row) => (
+                    <TableRow key={row.reference_month}>
+                      <TableCell>{formatReferenceMonth(row.reference_month)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(row.rate)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(row.accumulated_percent)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {breakdown.missing_months.length > 0 && (
+              <p className="text-sm text-destructive">
+                Índice não importado para {breakdown.missing_months.map(formatReferenceMonth).join(', ')}.{' '}
+                <Link to="/settings/index-rates" className="underline">
+                  Importar índices
+                </Link>
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 rounded-lg bg-accent/30 p-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Acumulado</p>
+                <p className="font-medium">{formatPercent(breakdown.accumulated_percent)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Aplicado</p>
+                <p className="font-medium">
+                  {formatPercent(breakdown.applied_percent)}
+                  {breakdown.limited_by === 'floor' && ' (piso)'}
+                  {breakdown.limited_by === 'cap' && ' (teto)'}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Valor atual</p>
+                <p className="font-medium">{formatCurrency(breakdown.current_value)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Novo valor</p>
+                <p className="font-medium text-primary">{formatCurrency(breakdown.new_value)}</p>
+              </div>
+            </div>
+
+            {existingAmendment ? (
+              <p className="text-sm text-muted-foreground">
+                Reajuste deste aniversário já gerado no aditivo nº {existingAmendment.amendment_number}.
+              </p>
+            ) : contract.status !== 'active' ? (
+              <p className="text-sm text-muted-foreground">
+                O aditivo de reajuste pode ser gerado quando o contrato estiver ativo.
+              </p>
+            ) : (
+              canEdit && (
+                <Button onClick={() => onGenerateAmendment(breakdown)} disabled={isGenerating || !canGenerate}>
+                  {isGenerating ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <FilePlus2 className="h-4 w-4 mr-2" />
+                  )}
+                  Gerar aditivo de reajuste
+                </Button>
+              )
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ContractStatusBadge } from '@/components/contracts/ContractStatusBadge';
+import type { Contract } from '@/hooks/useContracts';
+
+export interface AutoRenewSettings {
+  auto_renew: boolean;
+  auto_renew_days_before: number;
+  auto_renew_readjustment_percent: number | null;
+}
+
+interface ContractRenewalCardProps {
+  contract: Contract;
+  // Contract this one renews, and the renewal created from this one
+  predecessor?: Contract;
+  renewal?: Contract;
+  canEdit: boolean;
+  onSave: (settings: AutoRenewSettings) => Promise<void>;
+  isSaving?: boolean;
+}
+
+function ContractLink({ label, contract }: { label: string; contract: Contract }) {
+  return (
+    <div>
+      <Label className="text-muted-foreground">{label}</Label>
+      <div className="flex items-center gap-2 mt-1">
+        <Link to={`/contracts/${contract.id}`} className="font-medium text-primary hover:underline">
+          {format(parseISO(contract.start_date), 'dd/MM/yyyy')} a {format(parseISO(contract.end_date), 'dd/MM/yyyy')}
+        </Link>
+        <ContractStatusBadge status={contract.status} />
+      </div>
+    </div>
+  );
+}
+
+export function ContractRenewalCard({
+  contract,
+  predecessor,
+  renewal,
+  canEdit,
+  onSave,
+  isSaving,
+}: ContractRenewalCardProps) {
+  const [autoRenew, setAutoRenew] = useState(contract.auto_renew);
+  const [daysBefore, setDaysBefore] = useState(contract.auto_renew_days_before.toString());
+  const [readjustment, setReadjustment] = useState(contract.auto_renew_readjustment_percent?.toString() ?? '');
+
+  const days = parseInt(daysBefore);
+  const percent = readjustment.trim() ? parseFloat(readjustment.replace(',', '.')) : null;
+  const isValid = days > 0 && (percent === null || !isNaN(percent));
+  const hasChanges =
+    autoRenew !== contract.auto_renew ||
+    days !== contract.auto_renew_days_before ||
+    percent !== contract.auto_renew_readjustment_percent;
+
+  const handleSave = () =>
+    onSave({ auto_renew: autoRenew, auto_renew_days_before: days, auto_renew_readjustment_percent: percent });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RefreshCw className="h-5 w-5 text-primary" />
+          Renovação
+        </CardTitle>
+        <CardDescription>
+          Com a renovação automática, o rascunho da renovação é criado antes do término do contrato
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(predecessor || renewal) && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {predecessor && <ContractLink label="Renovação do contrato" contract={predecessor} />}
+            {renewal && <ContractLink label="Renovado pelo contrato" contract={renewal} />}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <Switch
+            id="auto_renew"
+            checked={autoRenew}
+            onCheckedChange={setAutoRenew}
+            disabled={!canEdit || !!renewal}
+          />
+          <Label htmlFor="auto_renew">Renovar automaticamente</Label>
+        </div>
+
+        {autoRenew && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="auto_renew_days_before">Dias antes do término</Label>
+              <Input
+                id="auto_renew_days_before"
+                type="number"
+                min="1"
+                value={daysBefore}
+                onChange={(e) => setDaysBefore(e.target.value)}
+                disabled={!canEdit || !!renewal}
+              />
+            </div>
+            <div>
+              <Label htmlFor="auto_renew_readjustment">Reajuste na renovação (%)</Label>
+              <Input
+                id="auto_renew_readjustment"
+                inputMode="decimal"
+                placeholder="Sem reajuste"
+                value={readjustment}
+                onChange={(e) => setReadjustment(e.target.value)}
+                disabled={!canEdit || !!renewal}
+              />
+            </div>
+          </div>
+        )}
+
+        {canEdit && !renewal && hasChanges && (
+          <Button onClick={handleSave} disabled={isSaving || !isValid}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Salvar
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { FileSignature } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import type { ContractSigner } from '@/hooks/useContractSigners';
+import { SIGNER_ACTION_LABELS, signerRoleLabel } from '@/lib/signers';
+
+interface ContractSignersCardProps {
+  signers: ContractSigner[];
+  category: string;
+}
+
+// Latest Autentique status reported for the signer
+function getSignerStatus(signer: ContractSigner) {
+  if (signer.rejected_at) {
+    return {
+      label: `Recusado em ${format(new Date(signer.rejected_at), 'dd/MM/yyyy HH:mm')}`,
+      className: 'bg-destructive/10 text-destructive border-destructive/20',
+    };
+  }
+  if (signer.signed_at) {
+    return {
+      label: `Assinado em ${format(new Date(signer.signed_at), 'dd/MM/yyyy HH:mm')}`,
+      className: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20',
+    };
+  }
+  if (signer.viewed_at) {
+    return {
+      label: 'Visualizado',
+      className: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20',
+    };
+  }
+  return { label: 'Pendente', className: 'bg-muted text-muted-foreground' };
+}
+
+export function ContractSignersCard({ signers, category }: ContractSignersCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSignature className="h-5 w-5 text-primary" />
+          Signatários
+        </CardTitle>
+        <CardDescription>Status das assinaturas no Autentique, na ordem de assinatura</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {signers.map((signer) => {
+          const status = getSignerStatus(signer);
+          return (
+            <div key={signer.id} className="flex items-center justify-between gap-4 p-3 bg-accent/30 rounded-lg">
+              <div>
+                <p className="font-medium">
+                  {signer.signing_order}. {signer.name}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {signer.email} • {signerRoleLabel(signer.role, category)} • {SIGNER_ACTION_LABELS[signer.action]}
+                </p>
+                {signer.rejection_reason && (
+                  <p className="text-xs text-destructive">Motivo: {signer.rejection_reason}</p>
+                )}
+              </div>
+              <Badge variant="outline" className={cn('whitespace-nowrap', status.className)}>
+                {status.label}
+              </Badge>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,198 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  ContractSignerInput,
+  SignerAction,
+  SignerRole,
+  SIGNER_ACTION_LABELS,
+  SIGNER_ROLE_LABELS,
+  getSignatureMarkers,
+  signerRoleLabel,
+} from '@/lib/signers';
+
+export interface SignerDraft extends ContractSignerInput {
+  key: string;
+  // Name and e-mail come from the "Dados do Cliente" fields
+  linkedToClient?: boolean;
+}
+
+interface ContractSignersEditorProps {
+  signers: SignerDraft[];
+  // Contract category, which names the "client" role (Cliente, Prestador, Parceiro...)
+  category: string;
+  onChange: (signers: SignerDraft[]) => void;
+}
+
+export function ContractSignersEditor({ signers, category, onChange }: ContractSignersEditorProps) {
+  const markers = getSignatureMarkers(signers);
+  const markerFor = (signer: SignerDraft) =>
+    [...markers.entries()].find(([, s]) => s.key === signer.key)?.[0];
+
+  const withOrder = (list: SignerDraft[]) => list.map((s, index) => ({ ...s, signing_order: index + 1 }));
+
+  const updateSigner = (key: string, changes: Partial<SignerDraft>) => {
+    onChange(signers.map((s) => (s.key === key ? { ...s, ...changes } : s)));
+  };
+
+  const moveSigner = (index: number, direction: -1 | 1) => {
+    const next = [...signers];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    onChange(withOrder(next));
+  };
+
+  const removeSigner = (key: string) => {
+    onChange(withOrder(signers.filter((s) => s.key !== key)));
+  };
+
+  const addSigner = () => {
+    onChange(
+      withOrder([
+        ...signers,
+        {
+          key: crypto.randomUUID(),
+          name: '',
+          email: '',
+          cpf: '',
+          role: 'witness',
+          action: 'WITNESS',
+          signing_order: signers.length + 1,
+        },
+      ])
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {signers.map((signer, index) => {
+        const marker = markerFor(signer);
+        return (
+          <div key={signer.key} className="rounded-lg border p-3 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="flex h-6 w-6 items-center justify-center rounded-full bg-primary/10 text-xs font-medium text-primary">
+                  {index + 1}
+                </span>
+                <span className="text-sm font-medium">{signerRoleLabel(signer.role, category)}</span>
+                {marker && (
+                  <code className="text-xs text-muted-foreground">{`{{${marker}}}`}</code>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveSigner(index, -1)}
+                  disabled={index === 0}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveSigner(index, 1)}
+                  disabled={index === signers.length - 1}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeSigner(signer.key)}
+                  disabled={signer.linkedToClient}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <Label>Nome</Label>
+                <Input
+                  value={signer.name}
+                  onChange={(e) => updateSigner(signer.key, { name: e.target.value })}
+                  disabled={signer.linkedToClient}
+                />
+              </div>
+              <div>
+                <Label>E-mail</Label>
+                <Input
+                  type="email"
+                  value={signer.email}
+                  onChange={(e) => updateSigner(signer.key, { email: e.target.value })}
+                  disabled={signer.linkedToClient}
+                />
+              </div>
+              <div>
+                <Label>CPF</Label>
+                <Input
+                  value={signer.cpf ?? ''}
+                  onChange={(e) => updateSigner(signer.key, { cpf: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Papel</Label>
+                <Select
+                  value={signer.role}
+                  onValueChange={(value) => updateSigner(signer.key, { role: value as SignerRole })}
+                  disabled={signer.linkedToClient}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SIGNER_ROLE_LABELS) as SignerRole[]).map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {signerRoleLabel(role, category)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Ação</Label>
+                <Select
+                  value={signer.action}
+                  onValueChange={(value) => updateSigner(signer.key, { action: value as SignerAction })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SIGNER_ACTION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {signer.linkedToClient && (
+              <p className="text-xs text-muted-foreground">
+                Nome e e-mail preenchidos a partir dos dados do cliente
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" size="sm" onClick={addSigner}>
+        <Plus className="h-4 w-4 mr-2" />
+        Adicionar signatário
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { History, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ContractStatusBadge } from '@/components/contracts/ContractStatusBadge';
+import type { ContractStatus } from '@/hooks/useContracts';
+import type { ContractEvent } from '@/hooks/useContractEvents';
+
+const ACTION_LABELS: Record<string, string> = {
+  created: 'Contrato criado',
+  updated: 'Dados alterados',
+  status_changed: 'Status alterado',
+  deleted: 'Contrato excluído',
+  client_form_submitted: 'Formulário preenchido pelo cliente',
+  sent_for_signature: 'Enviado para assinatura',
+  resent_for_signature: 'Reenviado para assinatura',
+  signature_viewed: 'Documento visualizado',
+  signature_signed: 'Documento assinado',
+  signature_rejected: 'Assinatura recusada',
+  signature_finished: 'Todas as assinaturas concluídas',
+  flagged_stale: 'Contrato parado sem movimentação',
+  renewed: 'Renovação criada',
+  amendment_created: 'Aditivo criado',
+  amendment_signed: 'Aditivo assinado',
+  amendment_cancelled: 'Aditivo cancelado',
+  amendment_rejected: 'Aditivo recusado',
+  amendment_sent_for_signature: 'Aditivo enviado para assinatura',
+  amendment_signature_viewed: 'Aditivo visualizado',
+  amendment_signature_signed: 'Aditivo assinado por signatário',
+  amendment_signature_rejected: 'Assinatura do aditivo recusada',
+  amendment_signature_finished: 'Todas as assinaturas do aditivo concluídas',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  client_name: 'Nome do cliente',
+  client_email: 'E-mail do cliente',
+  client_phone: 'Telefone do cliente',
+  plan_id: 'Plano',
+  status: 'Status',
+  start_date: 'Data de início',
+  end_date: 'Data de término',
+  monthly_value: 'Valor mensal',
+  total_value: 'Valor total',
+  contract_category: 'Categoria',
+  generated_document_url: 'Documento gerado',
+  template_version_id: 'Versão do template',
+  autentique_document_id: 'Documento no Autentique',
+  autentique_signature_link: 'Link de assinatura',
+  sent_to_autentique_at: 'Envio ao Autentique',
+  client_filled_at: 'Preenchimento do cliente',
+  client_token_expires_at: 'Validade do link do cliente',
+  renewed_from_id: 'Renovação do contrato',
+  auto_renew: 'Renovação automática',
+  auto_renew_days_before: 'Dias antes do término para renovar',
+  auto_renew_readjustment_percent: 'Reajuste na renovação (%)',
+  readjustment_index: 'Índice de reajuste',
+  readjustment_month: 'Mês de aniversário',
+  readjustment_floor_percent: 'Piso do reajuste (%)',
+  readjustment_cap_percent: 'Teto do reajuste (%)',
+};
+
+interface FieldChange {
+  field: string;
+  old: unknown;
+  new: unknown;
+}
+
+// custom_data is diffed per variable so one edited field does not show the whole object
+function flattenChanges(changes: ContractEvent['changes']): FieldChange[] {
+  if (!changes) return [];
+  return Object.entries(changes).flatMap(([field, change]) => {
+    if (field !== 'custom_data') return [{ field, old: change.old, new: change.new }];
+
+    const oldData = (change.old ?? {}) as Record<string, unknown>;
+    const newData = (change.new ?? {}) as Record<string, unknown>;
+    return [...new Set([...Object.keys(oldData), ...Object.keys(newData)])]
+      .filter((key) => JSON.stringify(oldData[key]) !== JSON.stringify(newData[key]))
+      .map((key) => ({ field: key, old: oldData[key], new: newData[key] }));
+  });
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function describeActor(event: ContractEvent) {
+  switch (event.actor_type) {
+    case 'user':
+      return event.actor_email ?? 'Usuário';
+    case 'client':
+      return event.ip_address ? `Cliente (IP ${event.ip_address})` : 'Cliente';
+    case 'signer':
+      return event.actor_email ? `Signatário ${event.actor_email}` : 'Signatário';
+    default:
+      return 'Sistema';
+  }
+}
+
+function ChangeValue({ field, value }: { field: string; value: unknown }) {
+  if (field === 'status' && typeof value === 'string') {
+    return <ContractStatusBadge status={value as ContractStatus} />;
+  }
+  return <span className="break-all">{formatValue(value)}</span>;
+}
+
+interface ContractTimelineProps {
+  events: ContractEvent[];
+  isLoading?: boolean;
+}
+
+export function ContractTimeline({ events, isLoading }: ContractTimelineProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Histórico
+        </CardTitle>
+        <CardDescription>Todas as alterações do contrato, da mais recente para a mais antiga</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-6 text-center">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum evento registrado.</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-6">
+            {events.map((event) => {
+              // Creation lists every initial value; the summary line is enough there
+              const changes = event.action === 'created' ? [] : flattenChanges(event.changes);
+              const reason = event.metadata?.reason;
+              const idleDays = event.metadata?.idle_days;
+              const amendmentNumber = event.action.startsWith('amendment_') ? event.metadata?.amendment_number : undefined;
+              const amendmentTitle = event.metadata?.title;
+              return (
+                <li key={event.id} className="ml-4">
+                  <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                  <p className="text-sm font-medium">{ACTION_LABELS[event.action] ?? event.action}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(event.created_at), 'dd/MM/yyyy HH:mm:ss')} • {describeActor(event)}
+                  </p>
+                  {amendmentNumber !== undefined && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Aditivo nº {String(amendmentNumber)}
+                      {typeof amendmentTitle === 'string' && ` • ${amendmentTitle}`}
+                    </p>
+                  )}
+                  {typeof idleDays === 'number' && (
+                    <p className="text-xs text-muted-foreground mt-1">Sem alterações há {idleDays} dias</p>
+                  )}
+                  {typeof reason === 'string' && (
+                    <p className="text-xs text-destructive mt-1">Motivo: {reason}</p>
+                  )}
+                  {changes.length > 0 && (
+                    <div className="mt-2 space-y-1">
+                      {changes.map((change) => (
+                        <div key={change.field} className="flex flex-wrap items-center gap-2 text-xs">
+                          <span className="text-muted-foreground">{FIELD_LABELS[change.field] ?? change.field}:</span>
+                          <span className="line-through text-muted-foreground">
+                            <ChangeValue field={change.field} value={change.old} />
+                          </span>
+                          <span>→</span>
+                          <ChangeValue field={change.field} value={change.new} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import type { CreateContractAmendmentData } from '@/hooks/useContractAmendments';
+
+interface NewAmendmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contract: { id: string; client_name: string; monthly_value: number | null; end_date: string };
+  onSubmit: (data: CreateContractAmendmentData) => Promise<void>;
+  isLoading?: boolean;
+}
+
+export function NewAmendmentDialog({ open, onOpenChange, contract, onSubmit, isLoading }: NewAmendmentDialogProps) {
+  // Mounted when opened, so the form starts empty each time
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [monthlyValue, setMonthlyValue] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+  const value = monthlyValue.trim() ? parseFloat(monthlyValue.replace(',', '.')) : null;
+  const isValid = !!title.trim() && !!effectiveDate && (value === null || (!isNaN(value) && value >= 0));
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+    await onSubmit({
+      contract_id: contract.id,
+      kind: 'general',
+      title: title.trim(),
+      description: description.trim() || undefined,
+      monthly_value: value,
+      end_date: endDate || null,
+      effective_date: effectiveDate,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Novo aditivo</DialogTitle>
+          <DialogDescription>
+            O aditivo ao contrato de <strong>{contract.client_name}</strong> é criado como rascunho. Os novos termos
+            passam a valer quando ele for assinado.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-2">
+            <Label htmlFor="amendment_title">Título *</Label>
+            <Input
+              id="amendment_title"
+              placeholder="Ex.: Prorrogação do prazo"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <div className="col-span-2">
+            <Label htmlFor="amendment_description">Descrição</Label>
+            <Textarea
+              id="amendment_description"
+              rows={4}
+              placeholder="Cláusulas alteradas pelo aditivo"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="amendment_monthly_value">Novo valor mensal (R$)</Label>
+            <Input
+              id="amendment_monthly_value"
+              inputMode="decimal"
+              placeholder={
+                contract.monthly_value === null
+                  ? 'Sem alteração'
+                  : Number(contract.monthly_value).toLocaleString('pt-BR', { minimumFractionDigits: 2 })
+              }
+              value={monthlyValue}
+              onChange={(e) => setMonthlyValue(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="amendment_end_date">Novo término</Label>
+            <Input
+              id="amendment_end_date"
+              type="date"
+              min={contract.end_date}
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="amendment_effective_date">Vigência a partir de *</Label>
+            <Input
+              id="amendment_effective_date"
+              type="date"
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={isLoading || !isValid}>
+            {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Criar Aditivo
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { contractTermMonths, proposeRenewal, RenewableContract } from '@/lib/contractRenewal';
+
+interface RenewContractDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contract: RenewableContract;
+  // Prefilled with the contract's automatic renewal readjustment
+  defaultReadjustmentPercent?: number | null;
+  onSubmit: (data: { readjustment_percent: number | null; start_date: string; duration_months: number }) => Promise<void>;
+  isLoading?: boolean;
+}
+
+function formatCurrency(value: number | null) {
+  return value === null ? '-' : `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`;
+}
+
+export function RenewContractDialog({
+  open,
+  onOpenChange,
+  contract,
+  defaultReadjustmentPercent,
+  onSubmit,
+  isLoading,
+}: RenewContractDialogProps) {
+  // Mounted when opened, so the proposal starts from the contract each time
+  const [startDate, setStartDate] = useState(contract.end_date);
+  const [durationMonths, setDurationMonths] = useState(() => contractTermMonths(contract).toString());
+  const [readjustment, setReadjustment] = useState(defaultReadjustmentPercent?.toString() ?? '');
+
+  const months = parseInt(durationMonths);
+  const percent = readjustment.trim() ? parseFloat(readjustment.replace(',', '.')) : null;
+  const isValid = !!startDate && months > 0 && (percent === null || !isNaN(percent));
+  const proposal = isValid
+    ? proposeRenewal(contract, percent, { start_date: startDate, duration_months: months })
+    : null;
+
+  const handleSubmit = async () => {
+    if (!proposal) return;
+    await onSubmit({ readjustment_percent: percent, start_date: proposal.start_date, duration_months: months });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Renovar contrato</DialogTitle>
+          <DialogDescription>
+            Um novo rascunho será criado com os dados e signatários de <strong>{contract.client_name}</strong>,
+            vinculado a este contrato.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="renewal_start_date">Início da renovação</Label>
+            <Input
+              id="renewal_start_date"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="renewal_duration">Duração (meses)</Label>
+            <Input
+              id="renewal_duration"
+              type="number"
+              min="1"
+              value={durationMonths}
+              onChange={(e) => setDurationMonths(e.target.value)}
+            />
+          </div>
+          <div className="col-span-2">
+            <Label htmlFor="renewal_readjustment">Reajuste (%)</Label>
+            <Input
+              id="renewal_readjustment"
+              inputMode="decimal"
+              placeholder="Sem reajuste"
+              value={readjustment}
+              onChange={(e) => setReadjustment(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {proposal && (
+          <div className="grid grid-cols-2 gap-3 rounded-lg bg-accent/30 p-3 text-sm">
+            <div>
+              <p className="text-muted-foreground">Vigência</p>
+              <p className="font-medium">
+                {format(parseISO(proposal.start_date), 'dd/MM/yyyy')} a {format(parseISO(proposal.end_date), 'dd/MM/yyyy')}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Valor mensal</p>
+              <p className="font-medium">
+                {formatCurrency(contract.monthly_value === null ? null : Number(contract.monthly_value))} →{' '}
+                {formatCurrency(proposal.monthly_value)}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Valor total</p>
+              <p className="font-medium">{formatCurrency(proposal.total_value)}</p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={isLoading || !isValid}>
+            {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Criar Renovação
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
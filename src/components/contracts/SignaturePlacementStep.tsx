@@ -1,16 +1,22 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback } from 'react';
+import { Document, Page, pdfjs } from 'react-pdf';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { FileSignature, Check, MousePointer, ZoomIn, ZoomOut } from 'lucide-react';
+import { FileSignature, Check, MousePointer, ZoomIn, ZoomOut, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
-const A4_WIDTH = 595;
-const A4_HEIGHT = 842;
+pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
 
-// MUST match the styling used when we send the document to Autentique
-const DOC_MARGIN_PX = 40;
-const DOC_FONT_FAMILY = 'Arial, sans-serif';
-const DOC_LINE_HEIGHT = 1.6;
+// PDF rendered by the render-contract-pdf edge function: the exact pages sent to Autentique.
+// It is a preview, returned as a data: URL and not stored until the contract is sent.
+export interface GeneratedDocument {
+  url: string;
+  pageCount: number;
+  pageWidth: number; // points
+  pageHeight: number; // points
+  margin: number;
+  markers: { marker: string; page: number; x: number; y: number }[];
+}
 
 export interface SignaturePosition {
   id: string;
@@ -22,14 +28,15 @@ export interface SignaturePosition {
 }
 
 interface SignaturePlacementStepProps {
-  htmlContent?: string;
+  document: GeneratedDocument;
   onComplete: (positions: SignaturePosition[]) => void;
   onCancel: () => void;
-  signers: { id: string; label: string; name: string }[];
+  // marker: {{ASSINATURA_*}} placeholder whose position pre-places this signer
+  signers: { id: string; label: string; name: string; marker?: string }[];
 }
 
 export function SignaturePlacementStep({
-  htmlContent,
+  document,
   onComplete,
   onCancel,
   signers,
@@ -37,52 +44,42 @@ export function SignaturePlacementStep({
   const [scale, setScale] = useState<number>(0.8);
   const [selectedSignerId, setSelectedSignerId] = useState<string | null>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
-  const contentRef = useRef<HTMLDivElement>(null);
+  const pagesRef = useRef<HTMLDivElement>(null);
 
-  // Estimate number of pages based on content height
-  const [numPages, setNumPages] = useState(1);
+  const numPages = document.pageCount;
 
-  // Initialize signature positions
+  // Signers whose marker was found in the document start on top of it
   const [positions, setPositions] = useState<SignaturePosition[]>(() =>
-    signers.map((s) => ({
-      id: s.id,
-      label: s.label,
-      x: 50,
-      y: 80,
-      page: 1,
-      placed: false,
-    }))
+    signers.map((s) => {
+      const marker = document.markers.find((m) => m.marker === s.marker);
+      return {
+        id: s.id,
+        label: s.label,
+        x: marker?.x ?? 50,
+        y: marker?.y ?? 80,
+        page: marker?.page ?? 1,
+        placed: !!marker,
+      };
+    })
   );
 
-  const pageWidthPx = A4_WIDTH * scale;
-  const pageHeightPx = A4_HEIGHT * scale;
-
-  // Estimate pages from content height
-  useEffect(() => {
-    if (!contentRef.current) return;
-    const timer = setTimeout(() => {
-      if (contentRef.current) {
-        const contentHeight = contentRef.current.scrollHeight;
-        const estimated = Math.max(1, Math.ceil(contentHeight / pageHeightPx));
-        setNumPages(estimated);
-      }
-    }, 100);
-    return () => clearTimeout(timer);
-  }, [htmlContent, scale, pageHeightPx]);
+  const pageWidthPx = document.pageWidth * scale;
+  const pageHeightPx = document.pageHeight * scale;
 
   const totalHeightPx = pageHeightPx * numPages;
 
   // Handle click on the document canvas
   const handleCanvasClick = useCallback(
     (e: React.MouseEvent<HTMLDivElement>) => {
-      if (!selectedSignerId || !canvasRef.current) return;
+      if (!selectedSignerId || !pagesRef.current) return;
 
-      const rect = canvasRef.current.getBoundingClientRect();
+      const rect = pagesRef.current.getBoundingClientRect();
       const clickX = e.clientX - rect.left;
-      const clickY = e.clientY - rect.top + canvasRef.current.scrollTop;
+      const clickY = e.clientY - rect.top;
+      if (clickX < 0 || clickX > pageWidthPx || clickY < 0 || clickY > totalHeightPx) return;
 
       // Calculate page and position
-      const page = Math.max(1, Math.ceil(clickY / pageHeightPx));
+      const page = Math.min(numPages, Math.max(1, Math.ceil(clickY / pageHeightPx)));
       const yInPage = clickY - (page - 1) * pageHeightPx;
 
       // x/y are sent as % of the page (Autentique uses page-relative percentages).
@@ -98,7 +95,7 @@ export function SignaturePlacementStep({
       // Clear selection after placing
       setSelectedSignerId(null);
     },
-    [selectedSignerId, pageWidthPx, pageHeightPx]
+    [selectedSignerId, pageWidthPx, pageHeightPx, totalHeightPx, numPages]
   );
 
   // Handle clicking on a placed signature to reposition it
@@ -161,12 +158,33 @@ export function SignaturePlacementStep({
             onClick={handleCanvasClick}
           >
             <div
+              ref={pagesRef}
               className="relative bg-background shadow-lg"
               style={{
                 width: `${pageWidthPx}px`,
-                minHeight: `${totalHeightPx}px`,
+                height: `${totalHeightPx}px`,
               }}
             >
+              <Document
+                file={document.url}
+                loading={
+                  <div className="flex items-center justify-center py-20 text-muted-foreground">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                }
+                error={<p className="p-6 text-sm text-destructive">Não foi possível carregar o PDF gerado.</p>}
+              >
+                {Array.from({ length: numPages }).map((_, idx) => (
+                  <Page
+                    key={`page-${idx + 1}`}
+                    pageNumber={idx + 1}
+                    width={pageWidthPx}
+                    renderTextLayer={false}
+                    renderAnnotationLayer={false}
+                  />
+                ))}
+              </Document>
+
               {/* Page separators */}
               {Array.from({ length: numPages }).map((_, idx) => (
                 <div
@@ -182,18 +200,6 @@ export function SignaturePlacementStep({
                 </div>
               ))}
 
-              {/* HTML Content (match Autentique wrapper styles) */}
-              <div
-                ref={contentRef}
-                style={{
-                  width: `${pageWidthPx}px`,
-                  padding: `${DOC_MARGIN_PX}px`,
-                  fontFamily: DOC_FONT_FAMILY,
-                  lineHeight: DOC_LINE_HEIGHT,
-                }}
-                dangerouslySetInnerHTML={{ __html: htmlContent || '' }}
-              />
-
               {/* Placed signatures */}
               {placedPositions.map((pos) => {
                 const topPx = (pos.page - 1) * pageHeightPx + (pos.y / 100) * pageHeightPx;
@@ -0,0 +1,56 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CONTRACT_CATEGORY_LABELS } from '@/lib/contractCategories';
+import type { CategoryBreakdown } from '@/hooks/useDashboardStats';
+
+interface ContractsByCategoryTableProps {
+  data: CategoryBreakdown[];
+}
+
+export function ContractsByCategoryTable({ data }: ContractsByCategoryTableProps) {
+  return (
+    <Card className="border-t-4 border-t-primary">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <div className="h-2 w-2 rounded-full bg-primary" />
+          Contratos por Categoria
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">Nenhum contrato cadastrado</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Categoria</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Ativos</TableHead>
+                <TableHead className="text-right">Valor Mensal Ativo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.map((row) => (
+                <TableRow key={row.category}>
+                  <TableCell className="font-medium">{CONTRACT_CATEGORY_LABELS[row.category]}</TableCell>
+                  <TableCell className="text-right">{row.totalContracts}</TableCell>
+                  <TableCell className="text-right">{row.activeContracts}</TableCell>
+                  <TableCell className="text-right">
+                    R$ {row.activeMonthlyValue.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
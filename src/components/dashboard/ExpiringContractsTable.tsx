@@ -8,6 +8,10 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Link } from 'react-router-dom';
+import { RefreshCw } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
 import { differenceInDays, format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 
@@ -16,6 +20,8 @@ interface ExpiringContract {
   client_name: string;
   total_value: number;
   end_date: string;
+  auto_renew: boolean;
+  renewal_id: string | null;
 }
 
 interface ExpiringContractsTableProps {
@@ -40,7 +46,31 @@ function getTimeRemainingBadge(days: number) {
   return <Badge variant="secondary">{days} dias</Badge>;
 }
 
+function RenewalAction({ contract, canRenew }: { contract: ExpiringContract; canRenew: boolean }) {
+  if (contract.renewal_id) {
+    return (
+      <Button variant="link" size="sm" className="px-0" asChild>
+        <Link to={`/contracts/${contract.renewal_id}`}>Ver renovação</Link>
+      </Button>
+    );
+  }
+  if (contract.auto_renew) {
+    return <Badge variant="outline">Automática</Badge>;
+  }
+  if (!canRenew) return null;
+  return (
+    <Button variant="outline" size="sm" asChild>
+      <Link to={`/contracts/${contract.id}?renovar=1`}>
+        <RefreshCw className="h-4 w-4 mr-2" />
+        Renovar
+      </Link>
+    </Button>
+  );
+}
+
 export function ExpiringContractsTable({ contracts }: ExpiringContractsTableProps) {
+  const { can } = useAuth();
+
   return (
     <Card>
       <CardHeader>
@@ -59,6 +89,7 @@ export function ExpiringContractsTable({ contracts }: ExpiringContractsTableProp
                 <TableHead>Valor Total</TableHead>
                 <TableHead>Data de Término</TableHead>
                 <TableHead>Tempo Restante</TableHead>
+                <TableHead>Renovação</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -74,6 +105,9 @@ export function ExpiringContractsTable({ contracts }: ExpiringContractsTableProp
                       {format(new Date(contract.end_date), 'dd/MM/yyyy', { locale: ptBR })}
                     </TableCell>
                     <TableCell>{getTimeRemainingBadge(days)}</TableCell>
+                    <TableCell>
+                      <RenewalAction contract={contract} canRenew={can('contracts.create')} />
+                    </TableCell>
                   </TableRow>
                 );
               })}
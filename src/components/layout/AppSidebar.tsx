@@ -8,11 +8,14 @@ import {
   ChevronLeft,
   ChevronRight,
   LogOut,
-  Webhook
+  Webhook,
+  Users,
+  TrendingUp
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
+import { Permission } from '@/lib/permissions';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 
 interface SidebarItemProps {
@@ -44,14 +47,16 @@ function SidebarItem({ to, icon: Icon, label, collapsed }: SidebarItemProps) {
 
 export function AppSidebar() {
   const [collapsed, setCollapsed] = useState(false);
-  const { user, signOut } = useAuth();
+  const { user, signOut, can } = useAuth();
 
-  const menuItems = [
+  const menuItems: { to: string; icon: React.ElementType; label: string; permission?: Permission }[] = [
     { to: '/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
     { to: '/contracts', icon: FileText, label: 'Contratos' },
-    { to: '/contracts/new', icon: PlusCircle, label: 'Novo Contrato' },
-    { to: '/settings/plans', icon: Settings, label: 'Configurações' },
-    { to: '/settings/webhooks', icon: Webhook, label: 'Integrações' },
+    { to: '/contracts/new', icon: PlusCircle, label: 'Novo Contrato', permission: 'contracts.create' },
+    { to: '/settings/plans', icon: Settings, label: 'Configurações', permission: 'templates.manage' },
+    { to: '/settings/index-rates', icon: TrendingUp, label: 'Índices', permission: 'index_rates.manage' },
+    { to: '/settings/webhooks', icon: Webhook, label: 'Integrações', permission: 'webhooks.manage' },
+    { to: '/settings/users', icon: Users, label: 'Usuários', permission: 'users.manage' },
   ];
 
   const initials = user?.user_metadata?.full_name
@@ -104,9 +109,11 @@ export function AppSidebar() {
 
       {/* Navigation */}
       <nav className="flex-1 p-3 space-y-1">
-        {menuItems.map((item) => (
-          <SidebarItem key={item.to} {...item} collapsed={collapsed} />
-        ))}
+        {menuItems
+          .filter((item) => !item.permission || can(item.permission))
+          .map((item) => (
+            <SidebarItem key={item.to} {...item} collapsed={collapsed} />
+          ))}
       </nav>
 
       {/* User Section */}
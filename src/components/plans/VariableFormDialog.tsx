@@ -19,17 +19,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Loader2 } from 'lucide-react';
-
-const FIELD_TYPES = [
-  { value: 'text', label: 'Texto' },
-  { value: 'number', label: 'Número' },
-  { value: 'date', label: 'Data' },
-  { value: 'email', label: 'E-mail' },
-  { value: 'phone', label: 'Telefone' },
-  { value: 'currency', label: 'Moeda (R$)' },
-  { value: 'textarea', label: 'Texto Longo' },
-  { value: 'select', label: 'Seleção (Dropdown)' },
-];
+import { FIELD_TYPES } from '@/lib/fieldTypes';
 
 interface VariableFormDialogProps {
   open: boolean;
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { FIELD_TYPES } from '@/lib/fieldTypes';
+import type { DetectedPlaceholder, PlaceholderSource } from '@/lib/placeholderDetection';
+
+const SOURCE_LABELS: Record<PlaceholderSource, string> = {
+  braces: '{{ }}',
+  brackets: '[ ]',
+  highlight: 'Destaque',
+};
+
+// Select fields need their options typed in the variable form, so they are not offered here
+const REVIEW_FIELD_TYPES = FIELD_TYPES.filter((type) => type.value !== 'select');
+
+const VARIABLE_NAME_REGEX = /^[a-z][a-z0-9_]*$/;
+
+interface ReviewRow extends DetectedPlaceholder {
+  accepted: boolean;
+}
+
+interface PlaceholderReviewDialogProps {
+  open: boolean;
+  placeholders: DetectedPlaceholder[];
+  existingVariables: string[];
+  isLoading?: boolean;
+  onConfirm: (accepted: DetectedPlaceholder[]) => void;
+  // Closing the dialog counts as ignoring every suggestion
+  onSkip: () => void;
+}
+
+export function PlaceholderReviewDialog({
+  open,
+  placeholders,
+  existingVariables,
+  isLoading,
+  onConfirm,
+  onSkip,
+}: PlaceholderReviewDialogProps) {
+  const [rows, setRows] = useState<ReviewRow[]>(() => placeholders.map((p) => ({ ...p, accepted: true })));
+
+  const updateRow = (index: number, data: Partial<ReviewRow>) => {
+    setRows((current) =>
+      current.map((row, i) => {
+        if (i !== index) return row;
+        const updated = { ...row, ...data };
+        return { ...updated, exists: existingVariables.includes(updated.variable_name) };
+      })
+    );
+  };
+
+  const accepted = rows.filter((row) => row.accepted);
+  const toCreate = accepted.filter((row) => !row.exists);
+  const nameCounts = accepted.reduce<Record<string, number>>((counts, row) => {
+    counts[row.variable_name] = (counts[row.variable_name] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  const rowError = (row: ReviewRow) => {
+    if (!row.accepted) return null;
+    if (!VARIABLE_NAME_REGEX.test(row.variable_name)) return 'Use letras minúsculas, números e _';
+    if (nameCounts[row.variable_name] > 1) return 'Nome repetido';
+    if (!row.exists && !row.label.trim()) return 'Informe o rótulo';
+    return null;
+  };
+  const hasErrors = rows.some((row) => rowError(row));
+
+  const handleConfirm = () => {
+    onConfirm(accepted.map(({ accepted: _accepted, ...placeholder }) => placeholder));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !isLoading && onSkip()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Variáveis encontradas no template</DialogTitle>
+          <DialogDescription>
+            Revise os campos detectados no documento. Os selecionados serão criados como variáveis do plano e o texto
+            será substituído por {'{{nome_variavel}}'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[420px]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10" />
+                <TableHead>Origem</TableHead>
+                <TableHead>Nome da variável</TableHead>
+                <TableHead>Rótulo</TableHead>
+                <TableHead>Tipo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => {
+                const error = rowError(row);
+                return (
+                  <TableRow key={index} className={row.accepted ? undefined : 'opacity-60'}>
+                    <TableCell>
+                      <Checkbox
+                        checked={row.accepted}
+                        onCheckedChange={(checked) => updateRow(index, { accepted: checked === true })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{SOURCE_LABELS[row.source]}</Badge>
+                      {row.occurrences > 1 && (
+                        <p className="text-xs text-muted-foreground mt-1">{row.occurrences}x no texto</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={row.variable_name}
+                        onChange={(e) =>
+                          updateRow(index, { variable_name: e.target.value.replace(/\s/g, '_').toLowerCase() })
+                        }
+                        disabled={!row.accepted}
+                        className="font-mono text-sm"
+                      />
+                      {error ? (
+                        <p className="text-xs text-destructive mt-1">{error}</p>
+                      ) : (
+                        row.exists && row.accepted && (
+                          <p className="text-xs text-muted-foreground mt-1">Variável já existe; só o texto será substituído</p>
+                        )
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={row.label}
+                        onChange={(e) => updateRow(index, { label: e.target.value })}
+                        disabled={!row.accepted || row.exists}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={row.field_type}
+                        onValueChange={(value) => updateRow(index, { field_type: value })}
+                        disabled={!row.accepted || row.exists}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {REVIEW_FIELD_TYPES.map((type) => (
+                            <SelectItem key={type.value} value={type.value}>
+                              {type.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onSkip} disabled={isLoading}>
+            Ignorar
+          </Button>
+          <Button onClick={handleConfirm} disabled={isLoading || hasErrors || accepted.length === 0}>
+            {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {toCreate.length > 0 ? `Criar ${toCreate.length} variável(is)` : 'Substituir no texto'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
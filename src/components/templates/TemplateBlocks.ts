@@ -0,0 +1,98 @@
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+// Highlights {{#if}}/{{else}}/{{/if}} and {{#each}}/{{/each}} tags in the editor
+// and marks the content inside each block, so template authors can see its scope.
+const BLOCK_TAG_REGEX = /\{\{\s*(#if|#each|else|\/if|\/each)\b[^{}]*\}\}/g;
+
+const TAG_CLASSES: Record<string, string> = {
+  '#if': 'template-block-tag template-block-tag-if',
+  else: 'template-block-tag template-block-tag-else',
+  '/if': 'template-block-tag template-block-tag-if',
+  '#each': 'template-block-tag template-block-tag-each',
+  '/each': 'template-block-tag template-block-tag-each',
+};
+
+const templateBlocksKey = new PluginKey('templateBlocks');
+
+function buildDecorations(doc: ProseMirrorNode): DecorationSet {
+  const decorations: Decoration[] = [];
+  let depth = 0;
+
+  doc.forEach((block, blockOffset) => {
+    let hasTag = false;
+    const depthBefore = depth;
+
+    block.descendants((node, pos) => {
+      if (!node.isText || !node.text) return;
+      const start = blockOffset + 1 + pos;
+
+      for (const match of node.text.matchAll(BLOCK_TAG_REGEX)) {
+        const keyword = match[1];
+        const from = start + (match.index ?? 0);
+        hasTag = true;
+        decorations.push(Decoration.inline(from, from + match[0].length, { class: TAG_CLASSES[keyword] }));
+
+        if (keyword === '#if' || keyword === '#each') depth++;
+        if (keyword === '/if' || keyword === '/each') depth = Math.max(0, depth - 1);
+      }
+    });
+
+    // Content nested in a block gets an indented guide line
+    if (!hasTag && depthBefore > 0) {
+      decorations.push(
+        Decoration.node(blockOffset, blockOffset + block.nodeSize, {
+          class: 'template-block-body',
+          style: `margin-left: ${(depthBefore - 1) * 12}px`,
+        })
+      );
+    }
+  });
+
+  return DecorationSet.create(doc, decorations);
+}
+
+export const TemplateBlocks = Extension.create({
+  name: 'templateBlocks',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: templateBlocksKey,
+        state: {
+          init: (_, { doc }) => buildDecorations(doc),
+          apply: (tr, decorations) => (tr.docChanged ? buildDecorations(tr.doc) : decorations),
+        },
+        props: {
+          decorations(state) {
+            return templateBlocksKey.getState(state);
+          },
+        },
+      }),
+    ];
+  },
+});
+
+// Snippets inserted from the variables panel
+export const BLOCK_SNIPPETS = [
+  {
+    id: 'block_if',
+    label: 'Bloco condicional',
+    syntax: '{{#if variavel}}',
+    html: '<p>{{#if variavel}}</p><p>Texto exibido quando a condição for verdadeira</p><p>{{else}}</p><p>Texto alternativo (opcional)</p><p>{{/if}}</p>',
+  },
+  {
+    id: 'block_if_compare',
+    label: 'Condição por categoria',
+    syntax: '{{#if contract_category == "..."}}',
+    html: '<p>{{#if contract_category == "service_provider_pj"}}</p><p>Cláusula exclusiva para PJ</p><p>{{/if}}</p>',
+  },
+  {
+    id: 'block_each',
+    label: 'Repetir para cada item',
+    syntax: '{{#each lista}}',
+    html: '<p>{{#each lista}}</p><ul><li><p>{{this}}</p></li></ul><p>{{/each}}</p>',
+  },
+] as const;
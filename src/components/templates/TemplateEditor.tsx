@@ -3,11 +3,16 @@ import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
 import Image from '@tiptap/extension-image';
 import Underline from '@tiptap/extension-underline';
+import TextAlign from '@tiptap/extension-text-align';
+import { TableKit } from '@tiptap/extension-table';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Bold, Italic, Underline as UnderlineIcon, List, ListOrdered, Undo, Redo, GripVertical, ImageIcon } from 'lucide-react';
+import { Bold, Italic, Underline as UnderlineIcon, List, ListOrdered, Undo, Redo, GripVertical, ImageIcon, GitBranch } from 'lucide-react';
 import { PlanVariable } from '@/hooks/usePlans';
 import { useEffect, useRef, useCallback } from 'react';
+import { TemplateBlocks, BLOCK_SNIPPETS } from './TemplateBlocks';
+import { ADDRESS_FIELD_TYPE } from '@/lib/fieldTypes';
+import { ADDRESS_PARTS } from '@/lib/address';
 
 interface TemplateEditorProps {
   content: string;
@@ -15,38 +20,46 @@ interface TemplateEditorProps {
   variables: PlanVariable[];
   readOnly?: boolean;
   includeBuiltInVariables?: boolean;
+  // Fields of the amendment being rendered, for the plan's amendment template
+  includeAmendmentVariables?: boolean;
   includeSignatureMarkers?: boolean;
 }
 
-// Helper to format currency fields with extenso placeholder
+// Default placeholder inserted for each field type; authors can change the filters afterwards
 const formatVariableForInsertion = (variableName: string, fieldType?: string): string => {
   // Signature markers get special formatting
   if (fieldType === 'signature') {
     return `<p style="margin-top: 40px; text-align: center;"><strong>____________________________</strong><br/><strong>{{${variableName}}}</strong></p>`;
   }
 
-  const isCurrencyField =
-    fieldType === 'currency' ||
-    variableName.toLowerCase().includes('valor') ||
-    variableName.toLowerCase().includes('value') ||
-    variableName.toLowerCase().includes('preco') ||
-    variableName.toLowerCase().includes('price');
-
-  if (isCurrencyField) {
-    return `<strong>R$ {{${variableName}}} ({{${variableName}_extenso}})</strong>`;
+  if (fieldType === 'currency') {
+    return `<strong>{{${variableName} | brl}} ({{${variableName} | extenso}})</strong>`;
+  }
+  if (fieldType === 'date') {
+    return `<strong>{{${variableName} | date:"dd/MM/yyyy"}}</strong>`;
   }
   return `<strong>{{${variableName}}}</strong>`;
 };
 
+const FILTER_EXAMPLES = [
+  { syntax: '| brl', description: 'R$ 1.234,56' },
+  { syntax: '| extenso', description: 'valor por extenso' },
+  { syntax: `| date:"d 'de' MMMM 'de' yyyy"`, description: '5 de março de 2025' },
+  { syntax: '| upper', description: 'MAIÚSCULAS' },
+  { syntax: '| mask:cnpj', description: 'também cpf, cep, phone' },
+  { syntax: '| default:"texto"', description: 'valor se vazio' },
+];
+
 export function TemplateEditor({
   content,
   onChange,
   variables,
   readOnly = false,
   includeBuiltInVariables = true,
+  includeAmendmentVariables = false,
   includeSignatureMarkers = false,
 }: TemplateEditorProps) {
-  const draggedVariableRef = useRef<{ name: string; type?: string } | null>(null);
+  const draggedVariableRef = useRef<{ name: string; type?: string; html?: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const editor = useEditor({
@@ -60,6 +73,10 @@ export function TemplateEditor({
         allowBase64: true,
       }),
       Underline,
+      // Alignment and tables come from imported DOCX templates (see parse-docx)
+      TextAlign.configure({ types: ['heading', 'paragraph'] }),
+      TableKit.configure({ table: { resizable: false } }),
+      TemplateBlocks,
     ],
     content: content,
     editable: !readOnly,
@@ -80,10 +97,18 @@ export function TemplateEditor({
     e.dataTransfer.effectAllowed = 'copy';
   };
 
+  const handleSnippetDragStart = (e: React.DragEvent, syntax: string, html: string) => {
+    draggedVariableRef.current = { name: syntax, html };
+    e.dataTransfer.setData('text/plain', syntax);
+    e.dataTransfer.effectAllowed = 'copy';
+  };
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     if (editor && draggedVariableRef.current) {
-      const variableHtml = formatVariableForInsertion(draggedVariableRef.current.name, draggedVariableRef.current.type);
+      const variableHtml =
+        draggedVariableRef.current.html ??
+        formatVariableForInsertion(draggedVariableRef.current.name, draggedVariableRef.current.type);
       editor.commands.insertContent(variableHtml, { parseOptions: { preserveWhitespace: false } });
       draggedVariableRef.current = null;
     }
@@ -126,11 +151,27 @@ export function TemplateEditor({
     { id: 'builtin_end_date', variable_name: 'end_date', label: 'Data de término', field_type: 'date' },
     { id: 'builtin_monthly_value', variable_name: 'monthly_value', label: 'Valor mensal', field_type: 'currency' },
     { id: 'builtin_total_value', variable_name: 'total_value', label: 'Valor total', field_type: 'currency' },
+    { id: 'builtin_duration_months', variable_name: 'duration_months', label: 'Duração (meses)', field_type: 'number' },
+    { id: 'builtin_contract_category', variable_name: 'contract_category', label: 'Categoria do contrato', field_type: 'text' },
+    { id: 'builtin_contract_category_label', variable_name: 'contract_category_label', label: 'Categoria (por extenso)', field_type: 'text' },
+    { id: 'builtin_company_party', variable_name: 'company_party', label: 'Papel da empresa (CONTRATADA...)', field_type: 'text' },
+    { id: 'builtin_client_party', variable_name: 'client_party', label: 'Papel do cliente (CONTRATANTE...)', field_type: 'text' },
+  ] as const;
+
+  const amendmentVariables = [
+    { id: 'amendment_number', variable_name: 'amendment_number', label: 'Número do aditivo', field_type: 'number' },
+    { id: 'amendment_title', variable_name: 'amendment_title', label: 'Título do aditivo', field_type: 'text' },
+    { id: 'amendment_description', variable_name: 'amendment_description', label: 'Descrição do aditivo', field_type: 'text' },
+    { id: 'amendment_effective_date', variable_name: 'amendment_effective_date', label: 'Vigência do aditivo', field_type: 'date' },
+    { id: 'amendment_monthly_value', variable_name: 'amendment_monthly_value', label: 'Novo valor mensal', field_type: 'currency' },
+    { id: 'amendment_end_date', variable_name: 'amendment_end_date', label: 'Novo término', field_type: 'date' },
   ] as const;
 
   const signatureMarkers = [
     { id: 'sig_company', variable_name: 'ASSINATURA_EMPRESA', label: 'Assinatura da Empresa', field_type: 'signature' },
     { id: 'sig_client', variable_name: 'ASSINATURA_CLIENTE', label: 'Assinatura do Cliente', field_type: 'signature' },
+    { id: 'sig_3', variable_name: 'ASSINATURA_3', label: 'Assinatura do 3º signatário', field_type: 'signature' },
+    { id: 'sig_4', variable_name: 'ASSINATURA_4', label: 'Assinatura do 4º signatário', field_type: 'signature' },
   ] as const;
 
   return (
@@ -207,13 +248,13 @@ export function TemplateEditor({
         <div className="flex-1 overflow-auto p-4" onDrop={handleDrop} onDragOver={handleDragOver}>
           <EditorContent
             editor={editor}
-            className="prose prose-sm max-w-none h-full [&_.ProseMirror]:min-h-full [&_.ProseMirror]:outline-none [&_.ProseMirror_p.is-editor-empty:first-child::before]:text-muted-foreground [&_.ProseMirror_p.is-editor-empty:first-child::before]:content-[attr(data-placeholder)] [&_.ProseMirror_p.is-editor-empty:first-child::before]:float-left [&_.ProseMirror_p.is-editor-empty:first-child::before]:pointer-events-none [&_.ProseMirror_img]:max-w-full [&_.ProseMirror_img]:h-auto [&_.ProseMirror_ul]:list-disc [&_.ProseMirror_ul]:ml-4 [&_.ProseMirror_ol]:list-decimal [&_.ProseMirror_ol]:ml-4"
+            className="prose prose-sm max-w-none h-full [&_.ProseMirror]:min-h-full [&_.ProseMirror]:outline-none [&_.ProseMirror_p.is-editor-empty:first-child::before]:text-muted-foreground [&_.ProseMirror_p.is-editor-empty:first-child::before]:content-[attr(data-placeholder)] [&_.ProseMirror_p.is-editor-empty:first-child::before]:float-left [&_.ProseMirror_p.is-editor-empty:first-child::before]:pointer-events-none [&_.ProseMirror_img]:max-w-full [&_.ProseMirror_img]:h-auto [&_.ProseMirror_ul]:list-disc [&_.ProseMirror_ul]:ml-4 [&_.ProseMirror_ol]:list-decimal [&_.ProseMirror_ol]:ml-4 [&_.ProseMirror_td]:border [&_.ProseMirror_td]:p-2 [&_.ProseMirror_th]:border [&_.ProseMirror_th]:p-2"
           />
         </div>
       </div>
 
       {/* Variables Panel */}
-      {!readOnly && (variables.length > 0 || includeBuiltInVariables || includeSignatureMarkers) && (
+      {!readOnly && (variables.length > 0 || includeBuiltInVariables || includeAmendmentVariables || includeSignatureMarkers) && (
         <div className="w-64 border rounded-lg p-4 bg-muted/30 overflow-auto">
           <h4 className="font-medium mb-3 text-sm">Variáveis Disponíveis</h4>
           <p className="text-xs text-muted-foreground mb-3">Arraste as variáveis para o editor para posicioná-las no template</p>
@@ -236,6 +277,37 @@ export function TemplateEditor({
                       {variable.field_type === 'currency' && (
                         <span className="text-[10px] text-primary block">R$ XX.XXX,XX (por extenso)</span>
                       )}
+                      {variable.field_type === 'date' && (
+                        <span className="text-[10px] text-primary block">dd/MM/yyyy</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {includeAmendmentVariables && (
+            <div className="mb-4">
+              <p className="text-xs font-medium mb-2">Campos do aditivo</p>
+              <div className="space-y-2">
+                {amendmentVariables.map((variable) => (
+                  <div
+                    key={variable.id}
+                    draggable
+                    onDragStart={(e) => handleDragStart(e, variable.variable_name, variable.field_type)}
+                    className="flex items-center gap-2 p-2 border rounded bg-background cursor-grab active:cursor-grabbing hover:bg-accent transition-colors"
+                  >
+                    <GripVertical className="h-3 w-3 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <code className="text-xs bg-muted px-1 rounded block truncate font-bold">{`{{${variable.variable_name}}}`}</code>
+                      <span className="text-xs text-muted-foreground">{variable.label}</span>
+                      {variable.field_type === 'currency' && (
+                        <span className="text-[10px] text-primary block">R$ XX.XXX,XX (por extenso)</span>
+                      )}
+                      {variable.field_type === 'date' && (
+                        <span className="text-[10px] text-primary block">dd/MM/yyyy</span>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -248,10 +320,7 @@ export function TemplateEditor({
               <p className="text-xs font-medium mb-2">Campos do plano</p>
               <div className="space-y-2">
                 {variables.map((variable) => {
-                  const isCurrency =
-                    variable.field_type === 'currency' ||
-                    variable.variable_name.toLowerCase().includes('valor') ||
-                    variable.variable_name.toLowerCase().includes('value');
+                  const isCurrency = variable.field_type === 'currency';
 
                   return (
                     <div
@@ -265,6 +334,24 @@ export function TemplateEditor({
                         <code className="text-xs bg-muted px-1 rounded block truncate font-bold">{`{{${variable.variable_name}}}`}</code>
                         <span className="text-xs text-muted-foreground">{variable.label}</span>
                         {isCurrency && <span className="text-[10px] text-primary block">R$ XX.XXX,XX (por extenso)</span>}
+                        {variable.field_type === ADDRESS_FIELD_TYPE && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {ADDRESS_PARTS.map((part) => (
+                              <code
+                                key={part.key}
+                                draggable
+                                onDragStart={(e) => {
+                                  e.stopPropagation();
+                                  handleDragStart(e, `${variable.variable_name}.${part.key}`);
+                                }}
+                                title={part.label}
+                                className="text-[10px] bg-muted px-1 rounded cursor-grab"
+                              >
+                                .{part.key}
+                              </code>
+                            ))}
+                          </div>
+                        )}
                       </div>
                       {variable.required && (
                         <Badge variant="secondary" className="text-[10px] px-1">
@@ -278,6 +365,44 @@ export function TemplateEditor({
             </div>
           )}
 
+          <div className="mb-4">
+            <p className="text-xs font-medium mb-2">Blocos de lógica</p>
+            <div className="space-y-2">
+              {BLOCK_SNIPPETS.map((snippet) => (
+                <div
+                  key={snippet.id}
+                  draggable
+                  onDragStart={(e) => handleSnippetDragStart(e, snippet.syntax, snippet.html)}
+                  className="flex items-center gap-2 p-2 border border-violet-300 rounded bg-violet-50 dark:bg-violet-950/30 cursor-grab active:cursor-grabbing hover:bg-violet-100 dark:hover:bg-violet-950/50 transition-colors"
+                >
+                  <GitBranch className="h-3 w-3 text-violet-600" />
+                  <div className="flex-1 min-w-0">
+                    <code className="text-xs bg-violet-200 dark:bg-violet-900 px-1 rounded block truncate font-bold text-violet-800 dark:text-violet-200">{snippet.syntax}</code>
+                    <span className="text-xs text-violet-700 dark:text-violet-300">{snippet.label}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] text-muted-foreground mt-2">
+              Use {'{{#if campo}}'}, {'{{else}}'} e {'{{/if}}'} para incluir cláusulas condicionalmente, e {'{{#each lista}}'} ... {'{{/each}}'} para repetir itens
+            </p>
+          </div>
+
+          <div className="mb-4">
+            <p className="text-xs font-medium mb-2">Formatação</p>
+            <p className="text-[10px] text-muted-foreground mb-2">
+              Adicione filtros dentro das chaves, ex.: {'{{monthly_value | brl}}'}
+            </p>
+            <div className="space-y-1">
+              {FILTER_EXAMPLES.map((filter) => (
+                <div key={filter.syntax} className="text-[10px]">
+                  <code className="bg-muted px-1 rounded">{filter.syntax}</code>
+                  <span className="text-muted-foreground ml-1">{filter.description}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
           {includeSignatureMarkers && (
             <div>
               <p className="text-xs font-medium mb-2 text-green-600">Marcadores de Assinatura</p>
@@ -0,0 +1,233 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { diffTemplates } from '@/lib/templateDiff';
+import type { TemplateVersion } from '@/hooks/useTemplateVersions';
+
+// Select value for comparing against what is in the editor right now
+const EDITOR_CONTENT = 'editor';
+
+interface TemplateVersionHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versions: TemplateVersion[];
+  isLoading?: boolean;
+  currentVersionId: string | null;
+  editorContent: string;
+  hasUnsavedChanges?: boolean;
+  restoring?: boolean;
+  onRestore: (version: TemplateVersion) => void;
+}
+
+export function TemplateVersionHistory({
+  open,
+  onOpenChange,
+  versions,
+  isLoading,
+  currentVersionId,
+  editorContent,
+  hasUnsavedChanges,
+  restoring,
+  onRestore,
+}: TemplateVersionHistoryProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // null compares with the previous version, or with the editor for the first one
+  const [compareWith, setCompareWith] = useState<string | null>(null);
+  const [confirmRestoreOpen, setConfirmRestoreOpen] = useState(false);
+
+  // Versions are newest first; the latest one is shown until another is picked
+  const selectedIndex = Math.max(0, versions.findIndex((v) => v.id === selectedId));
+  const selected = versions[selectedIndex];
+  const compareValue = compareWith ?? versions[selectedIndex + 1]?.id ?? EDITOR_CONTENT;
+  const compared = versions.find((v) => v.id === compareValue);
+
+  const selectVersion = (id: string) => {
+    setSelectedId(id);
+    setCompareWith(null);
+  };
+
+  // Older content on the left side of the diff, so additions read as additions
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    if (!compared) return diffTemplates(selected.content, editorContent);
+    return compared.version_number < selected.version_number
+      ? diffTemplates(compared.content, selected.content)
+      : diffTemplates(selected.content, compared.content);
+  }, [selected, compared, editorContent]);
+
+  const changedRows = rows.filter((row) => row.type !== 'equal').length;
+
+  const handleRestore = () => {
+    if (!selected) return;
+    setConfirmRestoreOpen(false);
+    onRestore(selected);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Histórico de versões</DialogTitle>
+            <DialogDescription>
+              Cada vez que o template é salvo uma nova versão é registrada. Contratos já gerados continuam vinculados à versão usada.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="py-8 text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              Nenhuma versão salva ainda.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-4">
+              <ScrollArea className="h-[480px] pr-3">
+                <div className="space-y-2">
+                  {versions.map((version) => (
+                    <button
+                      key={version.id}
+                      type="button"
+                      onClick={() => selectVersion(version.id)}
+                      className={cn(
+                        'w-full rounded-lg border p-3 text-left transition-colors hover:bg-accent/50',
+                        version.id === selected?.id && 'border-primary bg-primary/5'
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">Versão {version.version_number}</span>
+                        {version.id === currentVersionId && <Badge variant="secondary">Atual</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(version.created_at), 'dd/MM/yyyy HH:mm')} • {version.author_email ?? 'Sistema'}
+                      </p>
+                      {version.comment && <p className="mt-1 text-xs line-clamp-2">{version.comment}</p>}
+                    </button>
+                  ))}
+                </div>
+              </ScrollArea>
+
+              {selected && (
+                <div className="space-y-3 min-w-0">
+                  <div className="flex flex-wrap items-end justify-between gap-3">
+                    <div>
+                      <Label>Comparar versão {selected.version_number} com</Label>
+                      <Select value={compareValue} onValueChange={setCompareWith}>
+                        <SelectTrigger className="mt-1 w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={EDITOR_CONTENT}>Conteúdo do editor</SelectItem>
+                          {versions
+                            .filter((v) => v.id !== selected.id)
+                            .map((v) => (
+                              <SelectItem key={v.id} value={v.id}>
+                                Versão {v.version_number}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      variant="outline"
+                      onClick={() => setConfirmRestoreOpen(true)}
+                      disabled={restoring || selected.id === currentVersionId}
+                    >
+                      {restoring ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                      )}
+                      Restaurar esta versão
+                    </Button>
+                  </div>
+
+                  <p className="text-xs text-muted-foreground">
+                    {changedRows === 0
+                      ? 'Nenhuma diferença no texto.'
+                      : `${changedRows} parágrafo(s) com diferenças. Alterações apenas de formatação não aparecem.`}
+                  </p>
+
+                  <ScrollArea className="h-[400px] rounded-lg border bg-card">
+                    <div className="p-4 space-y-1 text-sm">
+                      {rows.map((row, index) => (
+                        <p
+                          key={index}
+                          className={cn(
+                            'rounded px-2 py-1',
+                            row.type === 'added' && 'bg-green-500/10',
+                            row.type === 'removed' && 'bg-destructive/10',
+                            row.type === 'equal' && 'text-muted-foreground'
+                          )}
+                        >
+                          {row.parts.map((part, partIndex) => (
+                            <span
+                              key={partIndex}
+                              className={cn(
+                                part.type === 'added' && 'bg-green-500/30 text-green-800 dark:text-green-300',
+                                part.type === 'removed' && 'bg-destructive/30 line-through'
+                              )}
+                            >
+                              {part.value}
+                            </span>
+                          ))}
+                        </p>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmRestoreOpen} onOpenChange={setConfirmRestoreOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restaurar versão {selected?.version_number}</AlertDialogTitle>
+            <AlertDialogDescription>
+              O conteúdo desta versão será salvo como uma nova versão e passará a ser usado nos próximos contratos.
+              {hasUnsavedChanges && ' As alterações não salvas no editor serão descartadas.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore}>Restaurar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
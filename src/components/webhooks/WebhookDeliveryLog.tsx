@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { ChevronDown, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { cn } from '@/lib/utils';
+import { WEBHOOK_EVENT_LABELS, WebhookDelivery, WebhookDeliveryStatus } from '@/lib/webhookEvents';
+
+const STATUS_CONFIG: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  pending: {
+    label: 'Pendente',
+    className: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20',
+  },
+  delivering: {
+    label: 'Enviando',
+    className: 'bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20',
+  },
+  success: {
+    label: 'Entregue',
+    className: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20',
+  },
+  failed: {
+    label: 'Falhou',
+    className: 'bg-destructive/10 text-destructive border-destructive/20',
+  },
+};
+
+interface WebhookDeliveryLogProps {
+  deliveries: WebhookDelivery[];
+  onRetry: (deliveryId: string) => void;
+}
+
+export function WebhookDeliveryLog({ deliveries, onRetry }: WebhookDeliveryLogProps) {
+  const [open, setOpen] = useState(false);
+  const failedCount = deliveries.filter((d) => d.status === 'failed').length;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-0 text-muted-foreground hover:bg-transparent">
+          <ChevronDown className={cn('h-4 w-4 mr-1 transition-transform', open && 'rotate-180')} />
+          Entregas recentes ({deliveries.length})
+          {failedCount > 0 && <span className="ml-1 text-destructive">• {failedCount} com falha</span>}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 pt-2">
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum evento enviado para este endpoint ainda.</p>
+        ) : (
+          deliveries.map((delivery) => {
+            const status = STATUS_CONFIG[delivery.status];
+            return (
+              <div key={delivery.id} className="p-3 bg-muted/50 rounded-lg space-y-1 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={status.className}>
+                      {status.label}
+                    </Badge>
+                    <span className="font-medium">
+                      {WEBHOOK_EVENT_LABELS[delivery.event_type] ?? delivery.event_type}
+                    </span>
+                    <code className="text-xs text-muted-foreground">{delivery.event_type}</code>
+                  </div>
+                  {delivery.status === 'failed' && (
+                    <Button variant="outline" size="sm" onClick={() => onRetry(delivery.id)}>
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Reenviar
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(delivery.created_at), 'dd/MM/yyyy HH:mm:ss')}
+                  {' • '}
+                  {delivery.attempts} tentativa{delivery.attempts === 1 ? '' : 's'}
+                  {delivery.response_status !== null && ` • HTTP ${delivery.response_status}`}
+                  {delivery.status === 'pending' && delivery.attempts > 0 &&
+                    ` • próxima tentativa ${format(new Date(delivery.next_attempt_at), 'dd/MM HH:mm')}`}
+                </p>
+                {delivery.last_error && delivery.status !== 'success' && (
+                  <p className="text-xs text-destructive">{delivery.last_error}</p>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Send } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { WEBHOOK_EVENT_LABELS } from '@/lib/webhookEvents';
+
+interface TestResult {
+  ok: boolean;
+  status: number | null;
+  body: string | null;
+  error: string | null;
+  payload: unknown;
+}
+
+interface WebhookTestDialogProps {
+  webhook: { id: string; name: string; url: string; events: string[] } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function WebhookTestDialog({ webhook, onOpenChange }: WebhookTestDialogProps) {
+  const { toast } = useToast();
+  const [eventType, setEventType] = useState('');
+  const [sending, setSending] = useState(false);
+  const [result, setResult] = useState<TestResult | null>(null);
+
+  useEffect(() => {
+    setEventType(webhook?.events[0] ?? 'contract.created');
+    setResult(null);
+  }, [webhook]);
+
+  const handleSend = async () => {
+    if (!webhook) return;
+    setSending(true);
+    setResult(null);
+    try {
+      const response = await supabase.functions.invoke('test-webhook', {
+        body: { endpointId: webhook.id, eventType },
+      });
+      if (response.error) throw response.error;
+      setResult(response.data as TestResult);
+    } catch (error) {
+      toast({
+        title: 'Erro ao enviar evento de teste',
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: 'destructive',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const eventOptions = webhook?.events.length ? webhook.events : Object.keys(WEBHOOK_EVENT_LABELS);
+
+  return (
+    <Dialog open={!!webhook} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Enviar evento de teste</DialogTitle>
+          <DialogDescription>
+            Envia um contrato de exemplo para {webhook?.url}, assinado com a chave secreta do endpoint
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div>
+            <Label>Evento</Label>
+            <Select value={eventType} onValueChange={setEventType}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {eventOptions.map((event) => (
+                  <SelectItem key={event} value={event}>
+                    {WEBHOOK_EVENT_LABELS[event] ?? event}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {result && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Label>Resposta</Label>
+                <Badge
+                  variant="outline"
+                  className={cn(
+                    result.ok
+                      ? 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20'
+                      : 'bg-destructive/10 text-destructive border-destructive/20'
+                  )}
+                >
+                  {result.status !== null ? `HTTP ${result.status}` : 'Sem resposta'}
+                </Badge>
+                {result.error && <span className="text-sm text-destructive">{result.error}</span>}
+              </div>
+              <pre className="p-3 bg-muted rounded text-xs max-h-40 overflow-auto whitespace-pre-wrap break-all">
+                {result.body || '(corpo vazio)'}
+              </pre>
+              <div>
+                <Label className="text-xs text-muted-foreground">Payload enviado</Label>
+                <pre className="mt-1 p-3 bg-muted rounded text-xs max-h-48 overflow-auto">
+                  {JSON.stringify(result.payload, null, 2)}
+                </pre>
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+          <Button onClick={handleSend} disabled={sending}>
+            {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Enviar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { AppRole, Permission, hasPermission } from '@/lib/permissions';
 
 interface AuthContextType {
   user: User | null;
@@ -9,7 +10,9 @@ interface AuthContextType {
   signInWithGoogle: () => Promise<void>;
   signInWithPassword: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
-  isAuthorizedDomain: boolean;
+  // null when the account has no role yet (or is outside the company domain)
+  role: AppRole | null;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -19,28 +22,51 @@ const ALLOWED_DOMAIN = 'virtuzmidia.com.br';
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [authLoading, setAuthLoading] = useState(true);
+  const [role, setRole] = useState<AppRole | null>(null);
+  // User whose role is currently loaded, so a new session waits for its own role
+  const [roleUserId, setRoleUserId] = useState<string | null>(null);
 
-  const isAuthorizedDomain = user?.email?.endsWith(`@${ALLOWED_DOMAIN}`) ?? false;
+  const loading = authLoading || (!!user && roleUserId !== user.id);
+  const can = (permission: Permission) => hasPermission(role, permission);
 
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
-        setLoading(false);
+        setAuthLoading(false);
       }
     );
 
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      setLoading(false);
+      setAuthLoading(false);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  useEffect(() => {
+    if (!user) {
+      setRole(null);
+      setRoleUserId(null);
+      return;
+    }
+
+    supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading user role:', error);
+        setRole(data?.role ?? null);
+        setRoleUserId(user.id);
+      });
+  }, [user]);
+
   const signInWithGoogle = async () => {
     const redirectUrl = `${window.location.origin}/auth`;
     
@@ -85,7 +111,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       signInWithGoogle,
       signInWithPassword,
       signOut,
-      isAuthorizedDomain
+      role,
+      can
     }}>
       {children}
     </AuthContext.Provider>
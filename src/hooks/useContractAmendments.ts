@@ -0,0 +1,210 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { ReadjustmentBreakdown } from '@/lib/readjustment';
+
+export type ContractAmendmentKind = 'general' | 'readjustment';
+export type ContractAmendmentStatus = 'draft' | 'sent_for_signature' | 'signed' | 'rejected' | 'cancelled';
+
+export interface ContractAmendment {
+  id: string;
+  contract_id: string;
+  amendment_number: number;
+  kind: ContractAmendmentKind;
+  status: ContractAmendmentStatus;
+  title: string;
+  description: string | null;
+  // New values applied to the contract once signed; null keeps the current one
+  monthly_value: number | null;
+  end_date: string | null;
+  effective_date: string;
+  readjustment: ReadjustmentBreakdown | null;
+  signed_at: string | null;
+  autentique_document_id: string | null;
+  autentique_signature_link: string | null;
+  sent_to_autentique_at: string | null;
+  // PDF sent for signature, replaced by the signed copy
+  generated_document_url: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateContractAmendmentData {
+  contract_id: string;
+  kind?: ContractAmendmentKind;
+  title: string;
+  description?: string;
+  monthly_value?: number | null;
+  end_date?: string | null;
+  effective_date: string;
+  readjustment?: ReadjustmentBreakdown;
+}
+
+export function useContractAmendments(contractId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const amendmentsQuery = useQuery({
+    queryKey: ['contract-amendments', contractId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('contract_amendments')
+        .select('*')
+        .eq('contract_id', contractId!)
+        .order('amendment_number', { ascending: false });
+
+      if (error) throw error;
+      return data as ContractAmendment[];
+    },
+    enabled: !!contractId,
+  });
+
+  const createAmendment = useMutation({
+    mutationFn: async ({ readjustment, ...amendmentData }: CreateContractAmendmentData) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      // amendment_number is assigned by the database
+      const { data, error } = await supabase
+        .from('contract_amendments')
+        .insert({
+          ...amendmentData,
+          readjustment,
+          created_by: user?.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ContractAmendment;
+    },
+    onSuccess: (amendment) => {
+      queryClient.invalidateQueries({ queryKey: ['contract-amendments', amendment.contract_id] });
+      toast({
+        title: 'Aditivo criado',
+        description: `O aditivo nº ${amendment.amendment_number} foi criado como rascunho.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro ao criar aditivo',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Renders the amendment with the plan's amendment template and sends it to the contract's
+  // signers; the webhook marks it signed and the contract picks up its terms
+  const sendAmendment = useMutation({
+    mutationFn: async ({
+      amendment,
+      signerName,
+      signerEmail,
+    }: {
+      amendment: ContractAmendment;
+      signerName: string;
+      signerEmail: string;
+    }) => {
+      const response = await supabase.functions.invoke('send-to-autentique', {
+        body: {
+          contractId: amendment.contract_id,
+          amendmentId: amendment.id,
+          documentName: `Aditivo nº ${amendment.amendment_number}`,
+          signerName,
+          signerEmail,
+        },
+      });
+
+      if (response.error) throw response.error;
+      if (!response.data?.success) throw new Error(response.data?.error ?? 'Não foi possível enviar o aditivo');
+      return amendment;
+    },
+    onSuccess: (amendment) => {
+      queryClient.invalidateQueries({ queryKey: ['contract-amendments', amendment.contract_id] });
+      queryClient.invalidateQueries({ queryKey: ['contract-events', amendment.contract_id] });
+      toast({
+        title: 'Aditivo enviado',
+        description: `O aditivo nº ${amendment.amendment_number} foi enviado para assinatura digital.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro ao enviar aditivo',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Signing applies the amendment's terms to the contract (see refresh_contract_amended_terms).
+  // Outside Autentique, only admins record it, with the signed file.
+  const updateAmendmentStatus = useMutation({
+    mutationFn: async ({
+      amendment,
+      status,
+      signedFile,
+    }: {
+      amendment: ContractAmendment;
+      status: 'signed' | 'cancelled';
+      signedFile?: File;
+    }) => {
+      let signedDocumentUrl: string | undefined;
+      if (status === 'signed') {
+        if (!signedFile) throw new Error('Anexe o aditivo assinado');
+        const sanitizedName = signedFile.name
+          .normalize('NFD')
+          .replace(/\p{Diacritic}/gu, '')
+          .replace(/[^a-zA-Z0-9_.-]+/g, '_');
+        const path = `signed/${amendment.contract_id}/amendments/${amendment.id}/${Date.now()}_${sanitizedName}`;
+        const { error: uploadError } = await supabase.storage
+          .from('contracts')
+          .upload(path, signedFile, { contentType: signedFile.type, upsert: true });
+        if (uploadError) throw uploadError;
+        signedDocumentUrl = supabase.storage.from('contracts').getPublicUrl(path).data.publicUrl;
+      }
+
+      const { data, error } = await supabase
+        .from('contract_amendments')
+        .update(
+          status === 'signed'
+            ? { status, signed_at: new Date().toISOString(), generated_document_url: signedDocumentUrl }
+            : { status }
+        )
+        .eq('id', amendment.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ContractAmendment;
+    },
+    onSuccess: (amendment) => {
+      queryClient.invalidateQueries({ queryKey: ['contract-amendments', amendment.contract_id] });
+      queryClient.invalidateQueries({ queryKey: ['contracts'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['contract-events', amendment.contract_id] });
+      toast({
+        title: amendment.status === 'signed' ? 'Aditivo assinado' : 'Aditivo cancelado',
+        description:
+          amendment.status === 'signed'
+            ? 'Os novos valores foram aplicados ao contrato.'
+            : `O aditivo nº ${amendment.amendment_number} foi cancelado.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro ao atualizar aditivo',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    amendments: amendmentsQuery.data ?? [],
+    isLoading: amendmentsQuery.isLoading,
+    createAmendment,
+    sendAmendment,
+    updateAmendmentStatus,
+  };
+}
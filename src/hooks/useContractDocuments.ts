@@ -0,0 +1,46 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+// Snapshot of a document sent for signature (see the contract_documents migration)
+export interface ContractDocument {
+  id: string;
+  contract_id: string;
+  // Set on snapshots of an amendment sent for signature
+  amendment_id: string | null;
+  template_version_id: string | null;
+  html: string;
+  html_sha256: string;
+  pdf_url: string;
+  pdf_path: string;
+  pdf_sha256: string;
+  autentique_document_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  signed_pdf_url: string | null;
+  signed_pdf_sha256: string | null;
+  original_verified: boolean | null;
+  signed_at: string | null;
+}
+
+export function useContractDocuments(contractId?: string) {
+  const documentsQuery = useQuery({
+    queryKey: ['contract-documents', contractId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('contract_documents')
+        .select('*')
+        .eq('contract_id', contractId!)
+        .is('amendment_id', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as ContractDocument[];
+    },
+    enabled: !!contractId,
+  });
+
+  return {
+    documents: documentsQuery.data ?? [],
+    isLoading: documentsQuery.isLoading,
+  };
+}
@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export type ContractEventActorType = 'user' | 'client' | 'signer' | 'system';
+
+export interface ContractEvent {
+  id: string;
+  contract_id: string;
+  action: string;
+  actor_type: ContractEventActorType;
+  actor_id: string | null;
+  actor_email: string | null;
+  changes: Record<string, { old?: unknown; new?: unknown }> | null;
+  metadata: Record<string, unknown> | null;
+  ip_address: string | null;
+  created_at: string;
+}
+
+export function useContractEvents(contractId?: string) {
+  const eventsQuery = useQuery({
+    queryKey: ['contract-events', contractId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('contract_events')
+        .select('*')
+        .eq('contract_id', contractId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as ContractEvent[];
+    },
+    enabled: !!contractId,
+  });
+
+  return {
+    events: eventsQuery.data ?? [],
+    isLoading: eventsQuery.isLoading,
+  };
+}
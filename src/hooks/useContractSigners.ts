@@ -0,0 +1,84 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { ContractSignerInput } from '@/lib/signers';
+
+export interface ContractSigner extends ContractSignerInput {
+  id: string;
+  contract_id: string;
+  cpf: string | null;
+  autentique_signature_id: string | null;
+  viewed_at: string | null;
+  signed_at: string | null;
+  rejected_at: string | null;
+  rejection_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function useContractSigners(contractId?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const signersQuery = useQuery({
+    queryKey: ['contract-signers', contractId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('contract_signers')
+        .select('*')
+        .eq('contract_id', contractId!)
+        .order('signing_order');
+
+      if (error) throw error;
+      return data as ContractSigner[];
+    },
+    enabled: !!contractId,
+  });
+
+  // Replace the whole signer list of a contract, keeping the given order
+  const saveSigners = useMutation({
+    mutationFn: async ({ contractId, signers }: { contractId: string; signers: ContractSignerInput[] }) => {
+      const { error: deleteError } = await supabase
+        .from('contract_signers')
+        .delete()
+        .eq('contract_id', contractId);
+
+      if (deleteError) throw deleteError;
+
+      const { data, error } = await supabase
+        .from('contract_signers')
+        .insert(
+          signers.map((signer, index) => ({
+            contract_id: contractId,
+            name: signer.name,
+            email: signer.email,
+            cpf: signer.cpf || null,
+            role: signer.role,
+            action: signer.action,
+            signing_order: index + 1,
+          }))
+        )
+        .select()
+        .order('signing_order');
+
+      if (error) throw error;
+      return data as ContractSigner[];
+    },
+    onSuccess: (_, { contractId }) => {
+      queryClient.invalidateQueries({ queryKey: ['contract-signers', contractId] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro ao salvar signatários',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    signers: signersQuery.data ?? [],
+    isLoading: signersQuery.isLoading,
+    saveSigners,
+  };
+}
@@ -2,6 +2,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useEffect } from 'react';
+import type { ContractCategory } from '@/lib/contractCategories';
+import type { ReadjustmentIndex } from '@/lib/indexRates';
 
 export type ContractStatus = 'draft' | 'sent_to_client' | 'awaiting_signature' | 'active' | 'expired' | 'cancelled';
 
@@ -17,12 +19,29 @@ export interface Contract {
   monthly_value: number | null;
   total_value: number;
   custom_data: Record<string, unknown>;
+  contract_category: ContractCategory;
   generated_document_url: string | null;
+  template_version_id: string | null;
+  autentique_document_id: string | null;
   created_by: string | null;
   created_at: string;
   updated_at: string;
   client_token: string | null;
   client_filled_at: string | null;
+  client_token_expires_at: string | null;
+  stale_notified_at: string | null;
+  // Contract this one renews (see renew_contract)
+  renewed_from_id: string | null;
+  auto_renew: boolean;
+  auto_renew_days_before: number;
+  auto_renew_readjustment_percent: number | null;
+  // Annual readjustment by index (see lib/readjustment)
+  readjustment_index: ReadjustmentIndex | null;
+  readjustment_month: number | null;
+  readjustment_floor_percent: number | null;
+  readjustment_cap_percent: number | null;
+  // Terms before any signed amendment; monthly_value/end_date hold the amended ones
+  original_terms: { monthly_value: number | null; end_date: string } | null;
   plans?: {
     id: string;
     name: string;
@@ -39,8 +58,36 @@ export interface CreateContractData {
   monthly_value?: number;
   total_value: number;
   custom_data?: Record<string, unknown>;
+  contract_category?: ContractCategory;
   status?: ContractStatus;
   generated_document_url?: string;
+  template_version_id?: string;
+  auto_renew?: boolean;
+  auto_renew_days_before?: number;
+  auto_renew_readjustment_percent?: number | null;
+  readjustment_index?: ReadjustmentIndex | null;
+  readjustment_month?: number | null;
+  readjustment_floor_percent?: number | null;
+  readjustment_cap_percent?: number | null;
+}
+
+export interface RenewContractData {
+  id: string;
+  readjustment_percent?: number | null;
+  start_date?: string;
+  duration_months?: number;
+}
+
+// How long a client form link stays valid after it is (re)opened
+export const CLIENT_FORM_VALID_DAYS = 30;
+
+// Statuses whose document has been signed; its contents can no longer change
+export const SIGNED_CONTRACT_STATUSES: ContractStatus[] = ['active', 'expired'];
+
+// Flagged by the daily scheduler (flag_stale_contracts) and not touched since
+export function isStaleContract(contract: Pick<Contract, 'status' | 'stale_notified_at' | 'updated_at'>): boolean {
+  if (!contract.stale_notified_at || !['draft', 'sent_to_client'].includes(contract.status)) return false;
+  return new Date(contract.updated_at) <= new Date(contract.stale_notified_at);
 }
 
 export function useContracts() {
@@ -62,7 +109,13 @@ export function useContracts() {
           queryClient.invalidateQueries({ queryKey: ['contracts'] });
           queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
           queryClient.invalidateQueries({ queryKey: ['dashboard-chart'] });
+          queryClient.invalidateQueries({ queryKey: ['dashboard-categories'] });
           queryClient.invalidateQueries({ queryKey: ['expiring-contracts'] });
+          // Signature progress changes together with the contract status
+          queryClient.invalidateQueries({ queryKey: ['contract-signers'] });
+          queryClient.invalidateQueries({ queryKey: ['contract-events'] });
+          queryClient.invalidateQueries({ queryKey: ['contract-documents'] });
+          queryClient.invalidateQueries({ queryKey: ['contract-amendments'] });
         }
       )
       .subscribe();
@@ -81,7 +134,7 @@ export function useContracts() {
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      return data as Contract[];
+      return data as unknown as Contract[];
     },
   });
 
@@ -101,9 +154,11 @@ export function useContracts() {
           monthly_value: contractData.monthly_value,
           total_value: contractData.total_value,
           custom_data: contractData.custom_data as unknown as Record<string, never>,
+          contract_category: contractData.contract_category,
           created_by: user?.id,
           status: contractData.status || 'draft',
           generated_document_url: contractData.generated_document_url,
+          template_version_id: contractData.template_version_id,
         })
         .select()
         .single();
@@ -115,6 +170,7 @@ export function useContracts() {
       queryClient.invalidateQueries({ queryKey: ['contracts'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-chart'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-categories'] });
       queryClient.invalidateQueries({ queryKey: ['expiring-contracts'] });
       toast({
         title: 'Contrato criado',
@@ -131,10 +187,13 @@ export function useContracts() {
   });
 
   const updateContract = useMutation({
-    mutationFn: async ({ id, ...updateData }: { id: string; status?: ContractStatus; generated_document_url?: string }) => {
+    mutationFn: async ({ id, ...updateData }: { id: string } & Partial<CreateContractData>) => {
       const { data: result, error } = await supabase
         .from('contracts')
-        .update(updateData)
+        .update({
+          ...updateData,
+          custom_data: updateData.custom_data as unknown as Record<string, never>,
+        })
         .eq('id', id)
         .select()
         .single();
@@ -146,6 +205,7 @@ export function useContracts() {
       queryClient.invalidateQueries({ queryKey: ['contracts'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-chart'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-categories'] });
       queryClient.invalidateQueries({ queryKey: ['expiring-contracts'] });
       toast({
         title: 'Contrato atualizado',
@@ -161,6 +221,74 @@ export function useContracts() {
     },
   });
 
+  // Clone a signed contract into a renewal draft (renew_contract also copies the signers)
+  const renewContract = useMutation({
+    mutationFn: async ({ id, readjustment_percent, start_date, duration_months }: RenewContractData) => {
+      const { data, error } = await supabase.rpc('renew_contract', {
+        _contract_id: id,
+        _readjustment_percent: readjustment_percent ?? undefined,
+        _start_date: start_date,
+        _duration_months: duration_months,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contracts'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-categories'] });
+      queryClient.invalidateQueries({ queryKey: ['expiring-contracts'] });
+      toast({
+        title: 'Renovação criada',
+        description: 'O rascunho da renovação foi criado. Revise os dados e envie para assinatura.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro ao renovar contrato',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Let the client submit the form again, with a fresh expiry
+  const reopenClientForm = useMutation({
+    mutationFn: async (contract: Pick<Contract, 'id' | 'status'>) => {
+      const expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + CLIENT_FORM_VALID_DAYS);
+
+      // The form only accepts contracts still waiting on the client, so a filled one goes back to that step.
+      // A new token retires the old link, which only showed the submitted form.
+      const { error } = await supabase
+        .from('contracts')
+        .update({
+          client_token: crypto.randomUUID(),
+          client_filled_at: null,
+          client_token_expires_at: expiresAt.toISOString(),
+          ...(contract.status === 'awaiting_signature' && { status: 'sent_to_client' as const }),
+        })
+        .eq('id', contract.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['contracts'] });
+      toast({
+        title: 'Formulário reaberto',
+        description: `Um novo link foi gerado. O cliente pode preencher o formulário nos próximos ${CLIENT_FORM_VALID_DAYS} dias.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro ao reabrir formulário',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   const deleteContract = useMutation({
     mutationFn: async (id: string) => {
       const { error } = await supabase
@@ -193,6 +321,8 @@ export function useContracts() {
     error: contractsQuery.error,
     createContract,
     updateContract,
+    renewContract,
+    reopenClientForm,
     deleteContract,
   };
 }
@@ -2,6 +2,7 @@ import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { addDays, addMonths, startOfMonth, endOfMonth, format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { CONTRACT_CATEGORY_VALUES, ContractCategory, toContractCategory } from '@/lib/contractCategories';
 
 export interface DashboardStats {
   totalContracts: number;
@@ -15,11 +16,22 @@ export interface MonthlyChartData {
   value: number;
 }
 
+export interface CategoryBreakdown {
+  category: ContractCategory;
+  totalContracts: number;
+  activeContracts: number;
+  // Sum of the monthly values of the active contracts
+  activeMonthlyValue: number;
+}
+
 export interface ExpiringContract {
   id: string;
   client_name: string;
   total_value: number;
   end_date: string;
+  auto_renew: boolean;
+  // Renewal draft already created from this contract
+  renewal_id: string | null;
 }
 
 export function useDashboardStats() {
@@ -137,19 +149,53 @@ export function useDashboardStats() {
     },
   });
 
+  const categoryQuery = useQuery({
+    queryKey: ['dashboard-categories'],
+    queryFn: async () => {
+      const { data: contracts } = await supabase
+        .from('contracts')
+        .select('contract_category, status, monthly_value');
+
+      const breakdown = new Map<ContractCategory, CategoryBreakdown>(
+        CONTRACT_CATEGORY_VALUES.map((category) => [
+          category,
+          { category, totalContracts: 0, activeContracts: 0, activeMonthlyValue: 0 },
+        ])
+      );
+      contracts?.forEach((contract) => {
+        const row = breakdown.get(toContractCategory(contract.contract_category))!;
+        row.totalContracts++;
+        if (contract.status === 'active') {
+          row.activeContracts++;
+          row.activeMonthlyValue += Number(contract.monthly_value) || 0;
+        }
+      });
+
+      return [...breakdown.values()].filter((row) => row.totalContracts > 0);
+    },
+  });
+
   const expiringContractsQuery = useQuery({
     queryKey: ['expiring-contracts'],
     queryFn: async () => {
       const { data } = await supabase
         .from('contracts')
-        .select('id, client_name, total_value, end_date')
+        .select('id, client_name, total_value, end_date, auto_renew')
         .eq('status', 'active')
         .gte('end_date', today.toISOString().split('T')[0])
         .lte('end_date', sixtyDaysFromNow.toISOString().split('T')[0])
         .order('end_date', { ascending: true })
         .limit(10);
 
-      return (data ?? []) as ExpiringContract[];
+      const ids = (data ?? []).map((contract) => contract.id);
+      const { data: renewals } = ids.length
+        ? await supabase.from('contracts').select('id, renewed_from_id').in('renewed_from_id', ids)
+        : { data: [] };
+
+      return (data ?? []).map((contract) => ({
+        ...contract,
+        renewal_id: renewals?.find((r) => r.renewed_from_id === contract.id)?.id ?? null,
+      })) as ExpiringContract[];
     },
   });
 
@@ -157,7 +203,8 @@ export function useDashboardStats() {
     stats: statsQuery.data,
     chartData: chartDataQuery.data ?? [],
     futureChartData: futureChartDataQuery.data ?? [],
+    categoryData: categoryQuery.data ?? [],
     expiringContracts: expiringContractsQuery.data ?? [],
-    isLoading: statsQuery.isLoading || chartDataQuery.isLoading || futureChartDataQuery.isLoading || expiringContractsQuery.isLoading,
+    isLoading: statsQuery.isLoading || chartDataQuery.isLoading || futureChartDataQuery.isLoading || categoryQuery.isLoading || expiringContractsQuery.isLoading,
   };
 }
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { IndexRate } from '@/lib/indexRates';
+
+export interface StoredIndexRate extends IndexRate {
+  imported_by: string | null;
+  imported_at: string;
+}
+
+export function useIndexRates() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const ratesQuery = useQuery({
+    queryKey: ['index-rates'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('index_rates')
+        .select('*')
+        .order('reference_month', { ascending: false });
+
+      if (error) throw error;
+      return data as StoredIndexRate[];
+    },
+  });
+
+  // Months already imported are overwritten with the values from the file
+  const importRates = useMutation({
+    mutationFn: async (rates: IndexRate[]) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('index_rates')
+        .upsert(
+          rates.map((rate) => ({ ...rate, imported_by: user?.id, imported_at: new Date().toISOString() })),
+          { onConflict: 'index_code,reference_month' }
+        );
+
+      if (error) throw error;
+      return rates.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['index-rates'] });
+      toast({
+        title: 'Índices importados',
+        description: `${count} ${count === 1 ? 'mês importado' : 'meses importados'}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro ao importar índices',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    rates: ratesQuery.data ?? [],
+    isLoading: ratesQuery.isLoading,
+    importRates,
+  };
+}
@@ -20,6 +20,9 @@ export interface Plan {
   base_value: number;
   template_url: string | null;
   template_content: string | null;
+  // NULL uses DEFAULT_AMENDMENT_TEMPLATE
+  amendment_template_content: string | null;
+  current_version_id: string | null;
   created_at: string;
   updated_at: string;
   plan_variables?: PlanVariable[];
@@ -184,6 +187,43 @@ export function usePlans() {
     },
   });
 
+  // Bulk insert, used when accepting the placeholders detected in an imported template
+  const createVariables = useMutation({
+    mutationFn: async (variables: CreateVariableData[]) => {
+      const { data: result, error } = await supabase
+        .from('plan_variables')
+        .insert(
+          variables.map((data) => ({
+            plan_id: data.plan_id,
+            variable_name: data.variable_name,
+            label: data.label,
+            field_type: data.field_type || 'text',
+            required: data.required || false,
+            options: data.options || null,
+            description: data.description || null,
+          }))
+        )
+        .select();
+
+      if (error) throw error;
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['plans'] });
+      toast({
+        title: 'Variáveis criadas',
+        description: `${result.length} variável(is) adicionada(s) ao plano.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro ao criar variáveis',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   const updateVariable = useMutation({
     mutationFn: async ({ id, ...data }: UpdateVariableData) => {
       const { data: result, error } = await supabase
@@ -246,6 +286,7 @@ export function usePlans() {
     updatePlan,
     deletePlan,
     createVariable,
+    createVariables,
     updateVariable,
     deleteVariable,
   };
@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+export interface TemplateVersion {
+  id: string;
+  plan_id: string;
+  version_number: number;
+  content: string;
+  source_url: string | null;
+  restored_from_version_id: string | null;
+  comment: string | null;
+  author_id: string | null;
+  author_email: string | null;
+  created_at: string;
+}
+
+export interface SaveTemplateVersionData {
+  planId: string;
+  content: string;
+  comment?: string;
+  sourceUrl?: string;
+  restoredFromVersionId?: string;
+}
+
+export function useTemplateVersions(planId?: string | null) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const versionsQuery = useQuery({
+    queryKey: ['template-versions', planId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('template_versions')
+        .select('*')
+        .eq('plan_id', planId!)
+        .order('version_number', { ascending: false });
+
+      if (error) throw error;
+      return data as TemplateVersion[];
+    },
+    enabled: !!planId,
+  });
+
+  // Stores a new version and makes it the plan's template (see save_template_version)
+  const saveVersion = useMutation({
+    mutationFn: async ({ planId, content, comment, sourceUrl, restoredFromVersionId }: SaveTemplateVersionData) => {
+      const { data, error } = await supabase.rpc('save_template_version', {
+        _plan_id: planId,
+        _content: content,
+        _comment: comment,
+        _source_url: sourceUrl,
+        _restored_from_version_id: restoredFromVersionId,
+      });
+
+      if (error) throw error;
+      return data as TemplateVersion;
+    },
+    onSuccess: (version, { restoredFromVersionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['template-versions', version.plan_id] });
+      queryClient.invalidateQueries({ queryKey: ['plans'] });
+      toast({
+        title: restoredFromVersionId ? 'Versão restaurada' : 'Template salvo',
+        description: `Versão ${version.version_number} registrada no histórico.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro ao salvar template',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    versions: versionsQuery.data ?? [],
+    isLoading: versionsQuery.isLoading,
+    saveVersion,
+  };
+}
@@ -14,73 +14,380 @@ export type Database = {
   }
   public: {
     Tables: {
+      cnpj_lookups: {
+        Row: {
+          cnpj: string
+          data: Json
+          fetched_at: string
+          provider: string
+        }
+        Insert: {
+          cnpj: string
+          data: Json
+          fetched_at?: string
+          provider: string
+        }
+        Update: {
+          cnpj?: string
+          data?: Json
+          fetched_at?: string
+          provider?: string
+        }
+        Relationships: []
+      }
+      contract_amendments: {
+        Row: {
+          amendment_number: number
+          autentique_document_id: string | null
+          autentique_signature_link: string | null
+          contract_id: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          effective_date: string
+          end_date: string | null
+          generated_document_url: string | null
+          id: string
+          kind: string
+          monthly_value: number | null
+          readjustment: Json | null
+          sent_to_autentique_at: string | null
+          signed_at: string | null
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          amendment_number?: number
+          autentique_document_id?: string | null
+          autentique_signature_link?: string | null
+          contract_id: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          effective_date: string
+          end_date?: string | null
+          generated_document_url?: string | null
+          id?: string
+          kind?: string
+          monthly_value?: number | null
+          readjustment?: Json | null
+          sent_to_autentique_at?: string | null
+          signed_at?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          amendment_number?: number
+          autentique_document_id?: string | null
+          autentique_signature_link?: string | null
+          contract_id?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          effective_date?: string
+          end_date?: string | null
+          generated_document_url?: string | null
+          id?: string
+          kind?: string
+          monthly_value?: number | null
+          readjustment?: Json | null
+          sent_to_autentique_at?: string | null
+          signed_at?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_amendments_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contract_documents: {
+        Row: {
+          amendment_id: string | null
+          autentique_document_id: string | null
+          contract_id: string
+          created_at: string
+          created_by: string | null
+          html: string
+          html_sha256: string
+          id: string
+          original_verified: boolean | null
+          pdf_path: string
+          pdf_sha256: string
+          pdf_url: string
+          signed_at: string | null
+          signed_pdf_sha256: string | null
+          signed_pdf_url: string | null
+          template_version_id: string | null
+        }
+        Insert: {
+          amendment_id?: string | null
+          autentique_document_id?: string | null
+          contract_id: string
+          created_at?: string
+          created_by?: string | null
+          html: string
+          html_sha256: string
+          id?: string
+          original_verified?: boolean | null
+          pdf_path: string
+          pdf_sha256: string
+          pdf_url: string
+          signed_at?: string | null
+          signed_pdf_sha256?: string | null
+          signed_pdf_url?: string | null
+          template_version_id?: string | null
+        }
+        Update: {
+          amendment_id?: string | null
+          autentique_document_id?: string | null
+          contract_id?: string
+          created_at?: string
+          created_by?: string | null
+          html?: string
+          html_sha256?: string
+          id?: string
+          original_verified?: boolean | null
+          pdf_path?: string
+          pdf_sha256?: string
+          pdf_url?: string
+          signed_at?: string | null
+          signed_pdf_sha256?: string | null
+          signed_pdf_url?: string | null
+          template_version_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_documents_amendment_id_fkey"
+            columns: ["amendment_id"]
+            isOneToOne: false
+            referencedRelation: "contract_amendments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contract_documents_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contract_events: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          actor_type: string
+          changes: Json | null
+          contract_id: string
+          created_at: string
+          id: string
+          ip_address: string | null
+          metadata: Json | null
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_type?: string
+          changes?: Json | null
+          contract_id: string
+          created_at?: string
+          id?: string
+          ip_address?: string | null
+          metadata?: Json | null
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_type?: string
+          changes?: Json | null
+          contract_id?: string
+          created_at?: string
+          id?: string
+          ip_address?: string | null
+          metadata?: Json | null
+        }
+        Relationships: []
+      }
+      contract_signers: {
+        Row: {
+          action: Database["public"]["Enums"]["signer_action"]
+          autentique_signature_id: string | null
+          contract_id: string
+          cpf: string | null
+          created_at: string
+          email: string
+          id: string
+          name: string
+          rejected_at: string | null
+          rejection_reason: string | null
+          role: Database["public"]["Enums"]["signer_role"]
+          signed_at: string | null
+          signing_order: number
+          updated_at: string
+          viewed_at: string | null
+        }
+        Insert: {
+          action?: Database["public"]["Enums"]["signer_action"]
+          autentique_signature_id?: string | null
+          contract_id: string
+          cpf?: string | null
+          created_at?: string
+          email: string
+          id?: string
+          name: string
+          rejected_at?: string | null
+          rejection_reason?: string | null
+          role?: Database["public"]["Enums"]["signer_role"]
+          signed_at?: string | null
+          signing_order?: number
+          updated_at?: string
+          viewed_at?: string | null
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["signer_action"]
+          autentique_signature_id?: string | null
+          contract_id?: string
+          cpf?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          name?: string
+          rejected_at?: string | null
+          rejection_reason?: string | null
+          role?: Database["public"]["Enums"]["signer_role"]
+          signed_at?: string | null
+          signing_order?: number
+          updated_at?: string
+          viewed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_signers_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contracts: {
         Row: {
           autentique_document_id: string | null
           autentique_signature_link: string | null
+          auto_renew: boolean
+          auto_renew_days_before: number
+          auto_renew_readjustment_percent: number | null
           client_email: string | null
           client_filled_at: string | null
           client_name: string
           client_phone: string | null
           client_token: string | null
-          contract_category: string | null
+          client_token_expires_at: string | null
+          contract_category: string
           created_at: string
           created_by: string | null
           custom_data: Json | null
           end_date: string
+          expiring_notified_at: string | null
           generated_document_url: string | null
           id: string
           monthly_value: number | null
+          original_terms: Json | null
           plan_id: string | null
+          readjustment_cap_percent: number | null
+          readjustment_floor_percent: number | null
+          readjustment_index: string | null
+          readjustment_month: number | null
+          renewed_from_id: string | null
           sent_to_autentique_at: string | null
+          stale_notified_at: string | null
           start_date: string
           status: Database["public"]["Enums"]["contract_status"]
+          template_version_id: string | null
           total_value: number
           updated_at: string
         }
         Insert: {
           autentique_document_id?: string | null
           autentique_signature_link?: string | null
+          auto_renew?: boolean
+          auto_renew_days_before?: number
+          auto_renew_readjustment_percent?: number | null
           client_email?: string | null
           client_filled_at?: string | null
           client_name: string
           client_phone?: string | null
           client_token?: string | null
-          contract_category?: string | null
+          client_token_expires_at?: string | null
+          contract_category?: string
           created_at?: string
           created_by?: string | null
           custom_data?: Json | null
           end_date: string
+          expiring_notified_at?: string | null
           generated_document_url?: string | null
           id?: string
           monthly_value?: number | null
+          original_terms?: Json | null
           plan_id?: string | null
+          readjustment_cap_percent?: number | null
+          readjustment_floor_percent?: number | null
+          readjustment_index?: string | null
+          readjustment_month?: number | null
+          renewed_from_id?: string | null
           sent_to_autentique_at?: string | null
+          stale_notified_at?: string | null
           start_date: string
           status?: Database["public"]["Enums"]["contract_status"]
+          template_version_id?: string | null
           total_value: number
           updated_at?: string
         }
         Update: {
           autentique_document_id?: string | null
           autentique_signature_link?: string | null
+          auto_renew?: boolean
+          auto_renew_days_before?: number
+          auto_renew_readjustment_percent?: number | null
           client_email?: string | null
           client_filled_at?: string | null
           client_name?: string
           client_phone?: string | null
           client_token?: string | null
-          contract_category?: string | null
+          client_token_expires_at?: string | null
+          contract_category?: string
           created_at?: string
           created_by?: string | null
           custom_data?: Json | null
           end_date?: string
+          expiring_notified_at?: string | null
           generated_document_url?: string | null
           id?: string
           monthly_value?: number | null
+          original_terms?: Json | null
           plan_id?: string | null
+          readjustment_cap_percent?: number | null
+          readjustment_floor_percent?: number | null
+          readjustment_index?: string | null
+          readjustment_month?: number | null
+          renewed_from_id?: string | null
           sent_to_autentique_at?: string | null
+          stale_notified_at?: string | null
           start_date?: string
           status?: Database["public"]["Enums"]["contract_status"]
+          template_version_id?: string | null
           total_value?: number
           updated_at?: string
         }
@@ -92,8 +399,46 @@ export type Database = {
             referencedRelation: "plans"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "contracts_renewed_from_id_fkey"
+            columns: ["renewed_from_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contracts_template_version_id_fkey"
+            columns: ["template_version_id"]
+            isOneToOne: false
+            referencedRelation: "template_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      index_rates: {
+        Row: {
+          imported_at: string
+          imported_by: string | null
+          index_code: string
+          rate: number
+          reference_month: string
+        }
+        Insert: {
+          imported_at?: string
+          imported_by?: string | null
+          index_code: string
+          rate: number
+          reference_month: string
+        }
+        Update: {
+          imported_at?: string
+          imported_by?: string | null
+          index_code?: string
+          rate?: number
+          reference_month?: string
+        }
+        Relationships: []
+      }
       plan_variables: {
         Row: {
           created_at: string
@@ -140,8 +485,10 @@ export type Database = {
       }
       plans: {
         Row: {
+          amendment_template_content: string | null
           base_value: number
           created_at: string
+          current_version_id: string | null
           id: string
           name: string
           template_content: string | null
@@ -149,8 +496,10 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          amendment_template_content?: string | null
           base_value?: number
           created_at?: string
+          current_version_id?: string | null
           id?: string
           name: string
           template_content?: string | null
@@ -158,15 +507,25 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          amendment_template_content?: string | null
           base_value?: number
           created_at?: string
+          current_version_id?: string | null
           id?: string
           name?: string
           template_content?: string | null
           template_url?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "plans_current_version_id_fkey"
+            columns: ["current_version_id"]
+            isOneToOne: false
+            referencedRelation: "template_versions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -201,10 +560,216 @@ export type Database = {
         }
         Relationships: []
       }
+      signature_events: {
+        Row: {
+          amendment_id: string | null
+          autentique_document_id: string | null
+          autentique_event_id: string | null
+          contract_id: string
+          created_at: string
+          event_type: string
+          id: string
+          occurred_at: string
+          payload: Json
+          signer_email: string | null
+          signer_id: string | null
+        }
+        Insert: {
+          amendment_id?: string | null
+          autentique_document_id?: string | null
+          autentique_event_id?: string | null
+          contract_id: string
+          created_at?: string
+          event_type: string
+          id?: string
+          occurred_at?: string
+          payload?: Json
+          signer_email?: string | null
+          signer_id?: string | null
+        }
+        Update: {
+          amendment_id?: string | null
+          autentique_document_id?: string | null
+          autentique_event_id?: string | null
+          contract_id?: string
+          created_at?: string
+          event_type?: string
+          id?: string
+          occurred_at?: string
+          payload?: Json
+          signer_email?: string | null
+          signer_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "signature_events_amendment_id_fkey"
+            columns: ["amendment_id"]
+            isOneToOne: false
+            referencedRelation: "contract_amendments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "signature_events_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "signature_events_signer_id_fkey"
+            columns: ["signer_id"]
+            isOneToOne: false
+            referencedRelation: "contract_signers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      template_versions: {
+        Row: {
+          author_email: string | null
+          author_id: string | null
+          comment: string | null
+          content: string
+          created_at: string
+          id: string
+          plan_id: string
+          restored_from_version_id: string | null
+          source_url: string | null
+          version_number: number
+        }
+        Insert: {
+          author_email?: string | null
+          author_id?: string | null
+          comment?: string | null
+          content: string
+          created_at?: string
+          id?: string
+          plan_id: string
+          restored_from_version_id?: string | null
+          source_url?: string | null
+          version_number: number
+        }
+        Update: {
+          author_email?: string | null
+          author_id?: string | null
+          comment?: string | null
+          content?: string
+          created_at?: string
+          id?: string
+          plan_id?: string
+          restored_from_version_id?: string | null
+          source_url?: string | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "template_versions_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "template_versions_restored_from_version_id_fkey"
+            columns: ["restored_from_version_id"]
+            isOneToOne: false
+            referencedRelation: "template_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          endpoint_id: string
+          event_id: string
+          event_type: string
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          next_attempt_at: string
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id: string
+          event_id: string
+          event_type: string
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          next_attempt_at?: string
+          payload: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id?: string
+          event_id?: string
+          event_type?: string
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       webhook_endpoints: {
         Row: {
+          contract_categories: string[] | null
           created_at: string
           description: string | null
+          events: string[]
           id: string
           is_active: boolean | null
           name: string
@@ -213,8 +778,10 @@ export type Database = {
           url: string
         }
         Insert: {
+          contract_categories?: string[] | null
           created_at?: string
           description?: string | null
+          events?: string[]
           id?: string
           is_active?: boolean | null
           name: string
@@ -223,8 +790,10 @@ export type Database = {
           url: string
         }
         Update: {
+          contract_categories?: string[] | null
           created_at?: string
           description?: string | null
+          events?: string[]
           id?: string
           is_active?: boolean | null
           name?: string
@@ -239,9 +808,89 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      has_any_role: {
+        Args: {
+          _roles: Database["public"]["Enums"]["app_role"][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      renew_contract: {
+        Args: {
+          _contract_id: string
+          _duration_months?: number
+          _readjustment_percent?: number
+          _start_date?: string
+        }
+        Returns: {
+          autentique_document_id: string | null
+          autentique_signature_link: string | null
+          auto_renew: boolean
+          auto_renew_days_before: number
+          auto_renew_readjustment_percent: number | null
+          client_email: string | null
+          client_filled_at: string | null
+          client_name: string
+          client_phone: string | null
+          client_token: string | null
+          client_token_expires_at: string | null
+          contract_category: string
+          created_at: string
+          created_by: string | null
+          custom_data: Json | null
+          end_date: string
+          expiring_notified_at: string | null
+          generated_document_url: string | null
+          id: string
+          monthly_value: number | null
+          plan_id: string | null
+          renewed_from_id: string | null
+          sent_to_autentique_at: string | null
+          stale_notified_at: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["contract_status"]
+          template_version_id: string | null
+          total_value: number
+          updated_at: string
+        }
+      }
+      retry_webhook_delivery: {
+        Args: {
+          _delivery_id: string
+        }
+        Returns: undefined
+      }
+      save_template_version: {
+        Args: {
+          _comment?: string
+          _content: string
+          _plan_id: string
+          _restored_from_version_id?: string
+          _source_url?: string
+        }
+        Returns: {
+          author_email: string | null
+          author_id: string | null
+          comment: string | null
+          content: string
+          created_at: string
+          id: string
+          plan_id: string
+          restored_from_version_id: string | null
+          source_url: string | null
+          version_number: number
+        }
+      }
     }
     Enums: {
+      app_role: "admin" | "legal" | "sales" | "viewer"
       contract_status:
         | "draft"
         | "sent_to_client"
@@ -249,6 +898,8 @@ export type Database = {
         | "active"
         | "expired"
         | "cancelled"
+      signer_action: "SIGN" | "APPROVE" | "WITNESS"
+      signer_role: "company" | "client" | "representative" | "partner" | "witness"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -376,6 +1027,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      app_role: ["admin", "legal", "sales", "viewer"],
       contract_status: [
         "draft",
         "sent_to_client",
@@ -384,6 +1036,8 @@ export const Constants = {
         "expired",
         "cancelled",
       ],
+      signer_action: ["SIGN", "APPROVE", "WITNESS"],
+      signer_role: ["company", "client", "representative", "partner", "witness"],
     },
   },
 } as const
@@ -0,0 +1,87 @@
+// Structured address stored by the `address` field type. The value is kept in custom_data
+// as a JSON string, so the client form and submit-client-form handle it like any other field.
+// Shared with the edge functions, so keep it free of npm/alias imports.
+import { isValidCep, maskCep } from './brDocuments.ts';
+
+export interface Address {
+  cep: string;
+  logradouro: string;
+  numero: string;
+  complemento: string;
+  bairro: string;
+  cidade: string;
+  uf: string;
+}
+
+export type AddressPart = keyof Address;
+
+// Order of the inputs and of the {{endereco.parte}} placeholders shown in the editor
+export const ADDRESS_PARTS: { key: AddressPart; label: string; required: boolean }[] = [
+  { key: 'cep', label: 'CEP', required: true },
+  { key: 'logradouro', label: 'Logradouro', required: true },
+  { key: 'numero', label: 'Número', required: true },
+  { key: 'complemento', label: 'Complemento', required: false },
+  { key: 'bairro', label: 'Bairro', required: true },
+  { key: 'cidade', label: 'Cidade', required: true },
+  { key: 'uf', label: 'UF', required: true },
+];
+
+export const BRAZILIAN_STATES = [
+  'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA',
+  'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO',
+];
+
+export const EMPTY_ADDRESS: Address = {
+  cep: '',
+  logradouro: '',
+  numero: '',
+  complemento: '',
+  bairro: '',
+  cidade: '',
+  uf: '',
+};
+
+// Unparseable values (e.g. free text typed before the variable became an address) yield null
+export function parseAddress(value: unknown): Address | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+    const address = { ...EMPTY_ADDRESS };
+    for (const { key } of ADDRESS_PARTS) {
+      if (parsed[key] !== undefined && typeof parsed[key] !== 'string') return null;
+      address[key] = (parsed[key] ?? '').trim();
+    }
+    return address;
+  } catch {
+    return null;
+  }
+}
+
+export function serializeAddress(address: Address): string {
+  return isAddressEmpty(address) ? '' : JSON.stringify(address);
+}
+
+export function isAddressEmpty(address: Address): boolean {
+  return ADDRESS_PARTS.every(({ key }) => !address[key].trim());
+}
+
+// Error message for a filled address, or null when it is valid
+export function validateAddress(address: Address | null): string | null {
+  if (!address) return 'Endereço inválido';
+  if (isAddressEmpty(address)) return null;
+  const missing = ADDRESS_PARTS.filter((part) => part.required && !address[part.key].trim());
+  if (missing.length > 0) return `Endereço incompleto: ${missing.map((part) => part.label).join(', ')}`;
+  if (!isValidCep(address.cep)) return 'CEP inválido';
+  if (!BRAZILIAN_STATES.includes(address.uf.toUpperCase())) return 'UF inválida';
+  return null;
+}
+
+// "Av. Paulista, 1000, Sala 5 - Bela Vista, São Paulo/SP, CEP 01310-100"
+export function formatAddress(address: Address): string {
+  const street = [address.logradouro, address.numero, address.complemento].filter(Boolean).join(', ');
+  const city = [address.cidade, address.uf.toUpperCase()].filter(Boolean).join('/');
+  const parts = [[street, address.bairro].filter(Boolean).join(' - '), city];
+  if (address.cep) parts.push(`CEP ${maskCep(address.cep)}`);
+  return parts.filter(Boolean).join(', ');
+}
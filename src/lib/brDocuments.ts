@@ -0,0 +1,141 @@
+// Brazilian document numbers: check digits, input masks and display formatting.
+// Shared with the edge functions (submit-client-form), so keep it free of npm/alias imports.
+
+export function onlyDigits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+// Letters and digits only, uppercased; CNPJs may be alphanumeric from July 2026
+function onlyAlphanumeric(value: string): string {
+  return value.toUpperCase().replace(/[^0-9A-Z]/g, '');
+}
+
+// CNPJ without punctuation, as used for lookups and storage keys
+export function normalizeCnpj(value: string): string {
+  return onlyAlphanumeric(value);
+}
+
+// Applies a mask like "000.000.000-00" to the characters typed so far
+function applyMask(chars: string, mask: string): string {
+  let result = '';
+  let index = 0;
+  for (const symbol of mask) {
+    if (index >= chars.length) break;
+    if (symbol === '0') {
+      result += chars[index++];
+    } else {
+      result += symbol;
+    }
+  }
+  return result;
+}
+
+function allSameCharacter(value: string): boolean {
+  return value.split('').every((char) => char === value[0]);
+}
+
+export function isValidCpf(value: string): boolean {
+  const cpf = onlyDigits(value);
+  if (cpf.length !== 11 || allSameCharacter(cpf)) return false;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) sum += Number(cpf[i]) * (length + 1 - i);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return checkDigit(9) === Number(cpf[9]) && checkDigit(10) === Number(cpf[10]);
+}
+
+// Numeric and alphanumeric CNPJs share the algorithm: each character counts as its code minus 48
+export function isValidCnpj(value: string): boolean {
+  const cnpj = onlyAlphanumeric(value);
+  if (!/^[0-9A-Z]{12}\d{2}$/.test(cnpj) || allSameCharacter(cnpj)) return false;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      const weight = ((length - 1 - i) % 8) + 2;
+      sum += (cnpj.charCodeAt(i) - 48) * weight;
+    }
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+  return checkDigit(12) === Number(cnpj[12]) && checkDigit(13) === Number(cnpj[13]);
+}
+
+export function isValidCep(value: string): boolean {
+  return /^\d{5}-?\d{3}$/.test(value.trim());
+}
+
+// RG numbers and check digits vary by state, so only the shape is checked
+export function isValidRg(value: string): boolean {
+  const rg = onlyAlphanumeric(value);
+  return /^\d{4,13}[\dX]$/.test(rg);
+}
+
+export type PixKeyType = 'cpf' | 'cnpj' | 'email' | 'phone' | 'random';
+
+// Pix keys are a CPF, CNPJ, e-mail, +55 phone number or a random key (UUID)
+export function pixKeyType(value: string): PixKeyType | null {
+  const key = value.trim();
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(key)) return 'random';
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(key) && key.length <= 77) return 'email';
+  if (/^\+55\s?\(?\d{2}\)?\s?9?\d{4}-?\d{4}$/.test(key)) return 'phone';
+  if (/^[\d.\-/\s]+$/.test(key) && isValidCpf(key)) return 'cpf';
+  if (isValidCnpj(key)) return 'cnpj';
+  return null;
+}
+
+export function maskCpf(value: string): string {
+  return applyMask(onlyDigits(value).slice(0, 11), '000.000.000-00');
+}
+
+export function maskCnpj(value: string): string {
+  return applyMask(onlyAlphanumeric(value).slice(0, 14), '00.000.000/0000-00');
+}
+
+// CPF mask up to 11 digits, CNPJ mask after that
+export function maskCpfCnpj(value: string): string {
+  const chars = onlyAlphanumeric(value);
+  return chars.length <= 11 && /^\d*$/.test(chars) ? maskCpf(chars) : maskCnpj(chars);
+}
+
+export function maskCep(value: string): string {
+  return applyMask(onlyDigits(value).slice(0, 8), '00000-000');
+}
+
+// Keeps digits, an X check digit and the usual separators
+export function maskRg(value: string): string {
+  return value.toUpperCase().replace(/[^0-9X.-]/g, '').slice(0, 16);
+}
+
+export function formatCpf(value: string): string {
+  return isValidCpf(value) ? maskCpf(value) : value;
+}
+
+export function formatCnpj(value: string): string {
+  return isValidCnpj(value) ? maskCnpj(value) : value;
+}
+
+export function formatCpfCnpj(value: string): string {
+  if (isValidCpf(value)) return maskCpf(value);
+  return formatCnpj(value);
+}
+
+export function formatCep(value: string): string {
+  return isValidCep(value) ? maskCep(value) : value;
+}
+
+// The common 9-character RG (SP, RJ...) is written 00.000.000-0; other states keep what was typed
+export function formatRg(value: string): string {
+  const rg = onlyAlphanumeric(value);
+  return rg.length === 9 ? applyMask(rg, '00.000.000-0') : value.trim().toUpperCase();
+}
+
+export function formatPixKey(value: string): string {
+  const type = pixKeyType(value);
+  if (type === 'cpf') return maskCpf(value);
+  if (type === 'cnpj') return maskCnpj(value);
+  return value.trim();
+}
@@ -0,0 +1,91 @@
+// Company data returned by the CNPJ lookup (lookup-cnpj) and how it fills plan variables.
+// Shared with the edge functions, so keep it free of npm/alias imports.
+import { Address, formatAddress, serializeAddress } from './address.ts';
+
+export interface CompanyData {
+  cnpj: string;
+  razao_social: string;
+  nome_fantasia: string;
+  cnae: string;
+  cnae_descricao: string;
+  situacao: string;
+  email: string;
+  telefone: string;
+  endereco: Address;
+}
+
+interface LookupVariable {
+  variable_name: string;
+  field_type: string;
+}
+
+type CompanyField = 'razao_social' | 'nome_fantasia' | 'cnae' | 'situacao' | 'email' | 'telefone' | 'endereco';
+
+// Variable names (split on "_") recognised for each piece of company data
+const COMPANY_FIELD_ALIASES: Record<CompanyField, string[][]> = {
+  razao_social: [['razao', 'social'], ['nome', 'empresarial'], ['empresa']],
+  nome_fantasia: [['nome', 'fantasia'], ['fantasia']],
+  cnae: [['cnae'], ['atividade', 'principal'], ['atividade']],
+  situacao: [['situacao', 'cadastral'], ['situacao']],
+  email: [['email'], ['e', 'mail']],
+  telefone: [['telefone'], ['fone']],
+  endereco: [['endereco'], ['sede']],
+};
+
+function tokens(name: string): string[] {
+  return name.toLowerCase().split('_').filter(Boolean);
+}
+
+// Tokens left after removing `alias` as a contiguous run, or null when it is not there
+function withoutAlias(nameTokens: string[], alias: string[]): string[] | null {
+  for (let i = 0; i + alias.length <= nameTokens.length; i++) {
+    if (alias.every((token, j) => nameTokens[i + j] === token)) {
+      return [...nameTokens.slice(0, i), ...nameTokens.slice(i + alias.length)];
+    }
+  }
+  return null;
+}
+
+function sameTokens(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join('_') === [...b].sort().join('_');
+}
+
+function companyValue(company: CompanyData, field: CompanyField, variable: LookupVariable): string {
+  if (field === 'endereco') {
+    return variable.field_type === 'address' ? serializeAddress(company.endereco) : formatAddress(company.endereco);
+  }
+  if (field === 'cnae') {
+    return [company.cnae, company.cnae_descricao].filter(Boolean).join(' - ');
+  }
+  return company[field];
+}
+
+// Values for the variables that belong with the CNPJ field that was looked up: with
+// `cnpj_contratada`, `razao_social_contratada` and `endereco_contratada` are filled,
+// `razao_social_contratante` is not
+export function companyVariableValues(
+  company: CompanyData,
+  variables: LookupVariable[],
+  cnpjVariableName: string
+): Record<string, string> {
+  const affix = tokens(cnpjVariableName).filter((token) => token !== 'cnpj' && token !== 'cpf');
+  const values: Record<string, string> = {};
+
+  for (const variable of variables) {
+    if (variable.variable_name === cnpjVariableName) continue;
+    const nameTokens = tokens(variable.variable_name);
+
+    for (const [field, aliases] of Object.entries(COMPANY_FIELD_ALIASES) as [CompanyField, string[][]][]) {
+      const matches = aliases.some((alias) => {
+        const rest = withoutAlias(nameTokens, alias);
+        return rest !== null && sameTokens(rest, affix);
+      });
+      if (!matches) continue;
+
+      const value = companyValue(company, field, variable);
+      if (value) values[variable.variable_name] = value;
+      break;
+    }
+  }
+  return values;
+}
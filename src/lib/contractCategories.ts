@@ -0,0 +1,82 @@
+// Contract categories (contracts.contract_category) and how they are shown in the app.
+// Shared with the edge functions through templateEngine.ts and signers.ts, so keep it free
+// of npm/alias imports.
+
+export type ContractCategory =
+  | 'client'
+  | 'service_provider_pj'
+  | 'service_provider_pf'
+  | 'vendor_service'
+  | 'partnership'
+  | 'other';
+
+export const DEFAULT_CONTRACT_CATEGORY: ContractCategory = 'client';
+
+interface ContractCategoryInfo {
+  label: string;
+  // What the other party (signer role "client") is called in the app
+  counterparty: string;
+  // How each side is named in the contract text ({{company_party}} / {{client_party}})
+  companyParty: string;
+  clientParty: string;
+}
+
+// Virtuz is the contracted party only when selling to a client; in the other
+// categories it is the one hiring (or the first partner)
+const CONTRACT_CATEGORIES: Record<ContractCategory, ContractCategoryInfo> = {
+  client: {
+    label: 'Cliente',
+    counterparty: 'Cliente',
+    companyParty: 'CONTRATADA',
+    clientParty: 'CONTRATANTE',
+  },
+  service_provider_pj: {
+    label: 'Prestador de Serviço (PJ)',
+    counterparty: 'Prestador',
+    companyParty: 'CONTRATANTE',
+    clientParty: 'CONTRATADA',
+  },
+  service_provider_pf: {
+    label: 'Prestador de Serviço (PF)',
+    counterparty: 'Prestador',
+    companyParty: 'CONTRATANTE',
+    clientParty: 'CONTRATADO',
+  },
+  vendor_service: {
+    label: 'Serviços Contratados',
+    counterparty: 'Fornecedor',
+    companyParty: 'CONTRATANTE',
+    clientParty: 'CONTRATADA',
+  },
+  partnership: {
+    label: 'Parceria',
+    counterparty: 'Parceiro',
+    companyParty: 'PRIMEIRA PARCEIRA',
+    clientParty: 'SEGUNDA PARCEIRA',
+  },
+  other: {
+    label: 'Outro',
+    counterparty: 'Outra parte',
+    companyParty: 'CONTRATANTE',
+    clientParty: 'CONTRATADA',
+  },
+};
+
+export const CONTRACT_CATEGORY_VALUES = Object.keys(CONTRACT_CATEGORIES) as ContractCategory[];
+
+export const CONTRACT_CATEGORY_LABELS = Object.fromEntries(
+  CONTRACT_CATEGORY_VALUES.map((category) => [category, CONTRACT_CATEGORIES[category].label])
+) as Record<ContractCategory, string>;
+
+export function isContractCategory(value: unknown): value is ContractCategory {
+  return typeof value === 'string' && value in CONTRACT_CATEGORIES;
+}
+
+// Stored or submitted category, with rows saved before it was required read as 'client'
+export function toContractCategory(value: string | null | undefined): ContractCategory {
+  return isContractCategory(value) ? value : DEFAULT_CONTRACT_CATEGORY;
+}
+
+export function getContractCategoryInfo(category: string | null | undefined): ContractCategoryInfo {
+  return CONTRACT_CATEGORIES[toContractCategory(category)];
+}
@@ -0,0 +1,48 @@
+// Renewal proposal shown before creating the renewal draft. Mirrors public.renew_contract,
+// which is what actually computes and stores the renewal.
+import { addMonths, differenceInMonths, format, parseISO } from 'date-fns';
+
+export interface RenewableContract {
+  id: string;
+  client_name: string;
+  start_date: string;
+  end_date: string;
+  monthly_value: number | null;
+  total_value: number;
+}
+
+export interface RenewalProposal {
+  start_date: string;
+  duration_months: number;
+  end_date: string;
+  monthly_value: number | null;
+  total_value: number;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Length of the current term, which the renewal repeats by default
+export function contractTermMonths(contract: Pick<RenewableContract, 'start_date' | 'end_date'>): number {
+  return Math.max(1, differenceInMonths(parseISO(contract.end_date), parseISO(contract.start_date)));
+}
+
+export function proposeRenewal(
+  contract: RenewableContract,
+  readjustmentPercent: number | null,
+  overrides: { start_date?: string; duration_months?: number } = {}
+): RenewalProposal {
+  const factor = 1 + (readjustmentPercent ?? 0) / 100;
+  const startDate = overrides.start_date || contract.end_date;
+  const months = overrides.duration_months || contractTermMonths(contract);
+  const monthlyValue = contract.monthly_value === null ? null : roundCurrency(Number(contract.monthly_value) * factor);
+
+  return {
+    start_date: startDate,
+    duration_months: months,
+    end_date: format(addMonths(parseISO(startDate), months), 'yyyy-MM-dd'),
+    monthly_value: monthlyValue,
+    total_value: monthlyValue === null ? roundCurrency(Number(contract.total_value) * factor) : roundCurrency(monthlyValue * months),
+  };
+}
@@ -0,0 +1,19 @@
+// SHA-256 fingerprints of contract documents. Shared by the app (file verification on
+// the contract page) and the edge functions that store the snapshots, so keep this file
+// free of npm/alias imports.
+
+export type HashInput = string | ArrayBuffer | Uint8Array;
+
+// Hex-encoded SHA-256; strings are hashed as UTF-8
+export async function sha256Hex(input: HashInput): Promise<string> {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Short form shown next to documents, e.g. "3f2a9c…81be04"
+export function shortHash(hash: string): string {
+  return hash.length > 16 ? `${hash.slice(0, 8)}…${hash.slice(-8)}` : hash;
+}
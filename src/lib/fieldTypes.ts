@@ -0,0 +1,133 @@
+// Field types a plan variable can have; they drive the input shown in NewContract and
+// the client form, and how the value is formatted in the template.
+// Shared with the edge functions (submit-client-form validates with it), so keep it free
+// of npm/alias imports.
+import {
+  formatCep,
+  formatCnpj,
+  formatCpf,
+  formatCpfCnpj,
+  formatPixKey,
+  formatRg,
+  isValidCep,
+  isValidCnpj,
+  isValidCpf,
+  isValidRg,
+  maskCep,
+  maskCnpj,
+  maskCpf,
+  maskCpfCnpj,
+  maskRg,
+  pixKeyType,
+} from './brDocuments.ts';
+import { isAddressEmpty, parseAddress, validateAddress } from './address.ts';
+
+export const FIELD_TYPES = [
+  { value: 'text', label: 'Texto' },
+  { value: 'number', label: 'Número' },
+  { value: 'date', label: 'Data' },
+  { value: 'email', label: 'E-mail' },
+  { value: 'phone', label: 'Telefone' },
+  { value: 'currency', label: 'Moeda (R$)' },
+  { value: 'textarea', label: 'Texto Longo' },
+  { value: 'select', label: 'Seleção (Dropdown)' },
+  { value: 'list', label: 'Lista (um item por linha)' },
+  { value: 'cpf', label: 'CPF' },
+  { value: 'cnpj', label: 'CNPJ' },
+  { value: 'cpf_cnpj', label: 'CPF ou CNPJ' },
+  { value: 'cep', label: 'CEP' },
+  { value: 'rg', label: 'RG' },
+  { value: 'pix_key', label: 'Chave Pix' },
+  { value: 'address', label: 'Endereço (com busca por CEP)' },
+];
+
+// Composite field stored as JSON (see address.ts)
+export const ADDRESS_FIELD_TYPE = 'address';
+
+interface DocumentFieldType {
+  placeholder: string;
+  inputMode: 'numeric' | 'text';
+  // Applied on every keystroke
+  mask?: (value: string) => string;
+  isValid: (value: string) => boolean;
+  // How the value is written in the rendered template
+  format: (value: string) => string;
+  invalidMessage: string;
+}
+
+// Brazilian document types: masked while typing, validated on submit, formatted in the template
+export const DOCUMENT_FIELD_TYPES: Record<string, DocumentFieldType> = {
+  cpf: {
+    placeholder: '000.000.000-00',
+    inputMode: 'numeric',
+    mask: maskCpf,
+    isValid: isValidCpf,
+    format: formatCpf,
+    invalidMessage: 'CPF inválido',
+  },
+  cnpj: {
+    placeholder: '00.000.000/0000-00',
+    inputMode: 'text',
+    mask: maskCnpj,
+    isValid: isValidCnpj,
+    format: formatCnpj,
+    invalidMessage: 'CNPJ inválido',
+  },
+  cpf_cnpj: {
+    placeholder: 'CPF ou CNPJ',
+    inputMode: 'text',
+    mask: maskCpfCnpj,
+    isValid: (value) => isValidCpf(value) || isValidCnpj(value),
+    format: formatCpfCnpj,
+    invalidMessage: 'CPF ou CNPJ inválido',
+  },
+  cep: {
+    placeholder: '00000-000',
+    inputMode: 'numeric',
+    mask: maskCep,
+    isValid: isValidCep,
+    format: formatCep,
+    invalidMessage: 'CEP inválido',
+  },
+  rg: {
+    placeholder: '00.000.000-0',
+    inputMode: 'text',
+    mask: maskRg,
+    isValid: isValidRg,
+    format: formatRg,
+    invalidMessage: 'RG inválido',
+  },
+  pix_key: {
+    placeholder: 'CPF, CNPJ, e-mail, +55 telefone ou chave aleatória',
+    inputMode: 'text',
+    isValid: (value) => pixKeyType(value) !== null,
+    format: formatPixKey,
+    invalidMessage: 'Chave Pix inválida',
+  },
+};
+
+// Whether a required field still needs a value
+export function isFieldEmpty(fieldType: string, value: string | undefined): boolean {
+  if (!value?.trim()) return true;
+  if (fieldType === ADDRESS_FIELD_TYPE) {
+    const address = parseAddress(value);
+    return !!address && isAddressEmpty(address);
+  }
+  return false;
+}
+
+// Error message for a filled value of a document or address type, or null when it is valid
+export function validateFieldValue(fieldType: string, value: string): string | null {
+  if (fieldType === ADDRESS_FIELD_TYPE) return value.trim() ? validateAddress(parseAddress(value)) : null;
+  const documentType = DOCUMENT_FIELD_TYPES[fieldType];
+  if (!documentType || !value.trim()) return null;
+  return documentType.isValid(value) ? null : documentType.invalidMessage;
+}
+
+export function maskFieldValue(fieldType: string, value: string): string {
+  return DOCUMENT_FIELD_TYPES[fieldType]?.mask?.(value) ?? value;
+}
+
+export function formatFieldValue(fieldType: string, value: string): string {
+  return DOCUMENT_FIELD_TYPES[fieldType]?.format(value) ?? value;
+}
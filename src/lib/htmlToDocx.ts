@@ -0,0 +1,532 @@
+// Converts rendered contract HTML (the TemplateEditor output) into a .docx file in the
+// browser, the inverse of parse-docx. Supports paragraphs, headings, alignment, bold/
+// italic/underline/strike/highlight, nested bullet and numbered lists, tables with
+// colspan/rowspan, images and horizontal rules. Anything else keeps its text only.
+import { strToU8, zipSync } from 'fflate';
+
+const NS = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+  rels: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  ct: 'http://schemas.openxmlformats.org/package/2006/content-types',
+};
+
+const REL_TYPE = {
+  officeDocument: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+  styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+  numbering: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering',
+  image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+};
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// A4 with 2.5cm margins, in twentieths of a point
+const PAGE = { width: 11906, height: 16838, margin: 1417 };
+const EMU_PER_PIXEL = 9525;
+const EMU_PER_TWIP = 635;
+const MAX_IMAGE_WIDTH_EMU = (PAGE.width - 2 * PAGE.margin) * EMU_PER_TWIP;
+const LIST_INDENT = 720;
+
+// Image formats Word reads natively; others are converted to PNG
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+};
+
+const BLOCK_TAGS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'table', 'blockquote', 'hr', 'div',
+  'section', 'article', 'header', 'footer', 'pre', 'figure',
+]);
+
+// Bullet list plus a fresh numbering instance per <ol>, so every list restarts at its start value
+const BULLET_NUM_ID = 1;
+const BULLET_ABSTRACT_ID = 0;
+const DECIMAL_ABSTRACT_ID = 1;
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  highlight?: boolean;
+  vertAlign?: 'superscript' | 'subscript';
+}
+
+interface BlockContext {
+  runStyle: RunStyle;
+  indent: number;
+  align?: string;
+}
+
+interface DocxImage {
+  relId: string;
+  fileName: string;
+  data: Uint8Array;
+  widthEmu: number;
+  heightEmu: number;
+}
+
+// Control characters other than tab and line breaks are not allowed in XML 1.0
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(value: string): string {
+  return Array.from(value)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function hasContent(node: Node): boolean {
+  if ((node.textContent ?? '').trim() !== '') return true;
+  return tagName(node) === 'img' || (node.nodeType === Node.ELEMENT_NODE && !!(node as Element).querySelector('img'));
+}
+
+function tagName(node: Node): string {
+  return node.nodeType === Node.ELEMENT_NODE ? (node as Element).tagName.toLowerCase() : '';
+}
+
+function isBlock(node: Node): boolean {
+  return BLOCK_TAGS.has(tagName(node));
+}
+
+// text-align from the inline style TextAlign writes, or the legacy align attribute
+function alignmentOf(element: Element): string | undefined {
+  const align = (element as HTMLElement).style?.textAlign || element.getAttribute('align') || '';
+  return { left: 'left', center: 'center', right: 'right', justify: 'both' }[align];
+}
+
+function pixels(value: string | null | undefined): number | null {
+  const match = value?.match(/^\s*(\d+(?:\.\d+)?)\s*(px)?\s*$/);
+  return match ? parseFloat(match[1]) : null;
+}
+
+class DocxWriter {
+  private images = new Map<string, DocxImage>();
+  private numberingInstances: { numId: number; start: number }[] = [];
+  private drawingId = 0;
+
+  // Images are fetched and measured up front, so the conversion itself stays synchronous
+  async loadImages(root: Element) {
+    for (const img of Array.from(root.querySelectorAll('img'))) {
+      const src = img.getAttribute('src');
+      if (!src || this.images.has(src)) continue;
+      try {
+        const image = await this.loadImage(img, src);
+        if (image) this.images.set(src, image);
+      } catch (error) {
+        console.warn('Skipping image in DOCX export:', error);
+      }
+    }
+  }
+
+  private async loadImage(img: HTMLImageElement, src: string): Promise<DocxImage | null> {
+    let blob = await (await fetch(src)).blob();
+    const bitmap = await createImageBitmap(blob);
+    const naturalWidth = bitmap.width;
+    const naturalHeight = bitmap.height;
+
+    if (!IMAGE_EXTENSIONS[blob.type]) {
+      const canvas = document.createElement('canvas');
+      canvas.width = naturalWidth;
+      canvas.height = naturalHeight;
+      canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+      const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+      if (!png) return null;
+      blob = png;
+    }
+    bitmap.close();
+
+    const width = pixels(img.getAttribute('width')) ?? pixels(img.style.width) ?? naturalWidth;
+    const height = pixels(img.getAttribute('height')) ?? pixels(img.style.height) ?? (width * naturalHeight) / naturalWidth;
+    const scale = Math.min(1, MAX_IMAGE_WIDTH_EMU / (width * EMU_PER_PIXEL));
+
+    const index = this.images.size + 1;
+    return {
+      relId: `rIdImage${index}`,
+      fileName: `image${index}.${IMAGE_EXTENSIONS[blob.type]}`,
+      data: new Uint8Array(await blob.arrayBuffer()),
+      widthEmu: Math.round(width * EMU_PER_PIXEL * scale),
+      heightEmu: Math.round(height * EMU_PER_PIXEL * scale),
+    };
+  }
+
+  body(root: Element): string {
+    return this.blocks(root, { runStyle: {}, indent: 0 });
+  }
+
+  // Block children become paragraphs; loose inline content is wrapped in a paragraph of its own
+  private blocks(parent: Node, ctx: BlockContext): string {
+    let xml = '';
+    let inline: Node[] = [];
+
+    const flush = () => {
+      const runs = inline.map((node) => this.runs(node, ctx.runStyle)).join('');
+      if (inline.some(hasContent)) xml += this.paragraph(runs, ctx);
+      inline = [];
+    };
+
+    for (const child of Array.from(parent.childNodes)) {
+      if (isBlock(child)) {
+        flush();
+        xml += this.block(child as Element, ctx);
+      } else {
+        inline.push(child);
+      }
+    }
+    flush();
+    return xml;
+  }
+
+  private block(element: Element, ctx: BlockContext): string {
+    const tag = tagName(element);
+    const align = alignmentOf(element) ?? ctx.align;
+
+    switch (tag) {
+      case 'p':
+        return this.paragraph(this.inlineRuns(element, ctx.runStyle), { ...ctx, align });
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        return this.paragraph(this.inlineRuns(element, ctx.runStyle), { ...ctx, align }, { style: `Heading${tag[1]}` });
+      case 'ul':
+      case 'ol':
+        return this.list(element, ctx, 0);
+      case 'table':
+        return this.table(element, ctx);
+      case 'blockquote':
+        return this.blocks(element, { ...ctx, indent: ctx.indent + LIST_INDENT });
+      case 'hr':
+        return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr></w:p>';
+      default:
+        return this.blocks(element, { ...ctx, align });
+    }
+  }
+
+  private list(list: Element, ctx: BlockContext, level: number): string {
+    let numId = BULLET_NUM_ID;
+    if (tagName(list) === 'ol') {
+      numId = BULLET_NUM_ID + this.numberingInstances.length + 1;
+      this.numberingInstances.push({ numId, start: parseInt(list.getAttribute('start') ?? '1', 10) || 1 });
+    }
+
+    let xml = '';
+    for (const item of Array.from(list.children)) {
+      if (tagName(item) !== 'li') continue;
+      // The first paragraph of an item carries the number; the rest are indented under it
+      let numbered = false;
+      const itemCtx = { ...ctx, indent: 0 };
+      const numbering = () => {
+        if (numbered) return { indent: LIST_INDENT * (level + 1) };
+        numbered = true;
+        return { numbering: { numId, level } };
+      };
+
+      let inline: Node[] = [];
+      const flush = () => {
+        if (inline.some(hasContent)) {
+          xml += this.paragraph(inline.map((node) => this.runs(node, ctx.runStyle)).join(''), itemCtx, numbering());
+        }
+        inline = [];
+      };
+
+      for (const child of Array.from(item.childNodes)) {
+        const tag = tagName(child);
+        if (tag === 'ul' || tag === 'ol') {
+          flush();
+          if (!numbered) xml += this.paragraph('', itemCtx, numbering());
+          xml += this.list(child as Element, ctx, Math.min(level + 1, 8));
+        } else if (tag === 'p' || /^h[1-6]$/.test(tag)) {
+          flush();
+          xml += this.paragraph(this.inlineRuns(child as Element, ctx.runStyle), { ...itemCtx, align: alignmentOf(child as Element) }, numbering());
+        } else if (isBlock(child)) {
+          flush();
+          xml += this.block(child as Element, { ...ctx, indent: LIST_INDENT * (level + 1) });
+        } else {
+          inline.push(child);
+        }
+      }
+      flush();
+      if (!numbered) xml += this.paragraph('', itemCtx, numbering());
+    }
+    return xml;
+  }
+
+  private table(table: Element, ctx: BlockContext): string {
+    const rows = Array.from(table.querySelectorAll('tr')).filter((row) => row.closest('table') === table);
+    const columnCount = Math.max(
+      1,
+      ...rows.map((row) => Array.from(row.children).reduce((sum, cell) => sum + (Number(cell.getAttribute('colspan')) || 1), 0))
+    );
+    const columnWidth = Math.floor((PAGE.width - 2 * PAGE.margin) / columnCount);
+    // Columns still covered by a rowspan from a previous row: remaining rows and colspan
+    const merges: { rows: number; span: number }[] = [];
+
+    const cellXml = (content: string, span: number, vMerge?: 'restart' | 'continue') => {
+      const props = [
+        `<w:tcW w:w="${columnWidth * span}" w:type="dxa"/>`,
+        span > 1 ? `<w:gridSpan w:val="${span}"/>` : '',
+        vMerge === 'restart' ? '<w:vMerge w:val="restart"/>' : vMerge === 'continue' ? '<w:vMerge/>' : '',
+      ].join('');
+      return `<w:tc><w:tcPr>${props}</w:tcPr>${content || '<w:p/>'}</w:tc>`;
+    };
+
+    let rowsXml = '';
+    for (const row of rows) {
+      const cells = Array.from(row.children).filter((cell) => ['td', 'th'].includes(tagName(cell)));
+      const isHeader = cells.length > 0 && cells.every((cell) => tagName(cell) === 'th');
+      let cellsXml = '';
+      let column = 0;
+
+      const fillMerged = () => {
+        while (merges[column]?.rows > 0) {
+          const merge = merges[column];
+          merge.rows--;
+          cellsXml += cellXml('', merge.span, 'continue');
+          column += merge.span;
+        }
+      };
+
+      for (const cell of cells) {
+        fillMerged();
+        const span = Number(cell.getAttribute('colspan')) || 1;
+        const rowSpan = Number(cell.getAttribute('rowspan')) || 1;
+        if (rowSpan > 1) merges[column] = { rows: rowSpan - 1, span };
+        const cellCtx: BlockContext = {
+          runStyle: tagName(cell) === 'th' ? { ...ctx.runStyle, bold: true } : ctx.runStyle,
+          indent: 0,
+          align: alignmentOf(cell),
+        };
+        cellsXml += cellXml(this.blocks(cell, cellCtx), span, rowSpan > 1 ? 'restart' : undefined);
+        column += span;
+      }
+      fillMerged();
+
+      rowsXml += `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cellsXml}</w:tr>`;
+    }
+
+    const grid = Array.from({ length: columnCount }, () => `<w:gridCol w:w="${columnWidth}"/>`).join('');
+    return (
+      '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/>' +
+      `<w:tblLayout w:type="fixed"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${rowsXml}</w:tbl>` +
+      // Word merges adjacent tables, so keep an empty paragraph after each one
+      '<w:p/>'
+    );
+  }
+
+  private paragraph(
+    runs: string,
+    ctx: BlockContext,
+    options: { style?: string; numbering?: { numId: number; level: number }; indent?: number } = {}
+  ): string {
+    const indent = ctx.indent + (options.indent ?? 0);
+    const props = [
+      options.style ? `<w:pStyle w:val="${options.style}"/>` : options.numbering ? '<w:pStyle w:val="ListParagraph"/>' : '',
+      options.numbering
+        ? `<w:numPr><w:ilvl w:val="${options.numbering.level}"/><w:numId w:val="${options.numbering.numId}"/></w:numPr>`
+        : '',
+      indent > 0 && !options.numbering ? `<w:ind w:left="${indent}"/>` : '',
+      ctx.align && ctx.align !== 'left' ? `<w:jc w:val="${ctx.align}"/>` : '',
+    ].join('');
+    return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+  }
+
+  private inlineRuns(element: Element, style: RunStyle): string {
+    return Array.from(element.childNodes).map((node) => this.runs(node, style)).join('');
+  }
+
+  private runs(node: Node, style: RunStyle): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      // HTML collapses whitespace; Word keeps it, so collapse before writing
+      const text = (node.textContent ?? '').replace(/\s+/g, ' ');
+      return text ? this.textRun(text, style) : '';
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const element = node as Element;
+    switch (tagName(element)) {
+      case 'br':
+        return `<w:r>${this.runProps(style)}<w:br/></w:r>`;
+      case 'img':
+        return this.imageRun(element);
+      case 'strong':
+      case 'b':
+        return this.inlineRuns(element, { ...style, bold: true });
+      case 'em':
+      case 'i':
+        return this.inlineRuns(element, { ...style, italic: true });
+      case 'u':
+        return this.inlineRuns(element, { ...style, underline: true });
+      case 's':
+      case 'strike':
+      case 'del':
+        return this.inlineRuns(element, { ...style, strike: true });
+      case 'mark':
+        return this.inlineRuns(element, { ...style, highlight: true });
+      case 'sup':
+        return this.inlineRuns(element, { ...style, vertAlign: 'superscript' });
+      case 'sub':
+        return this.inlineRuns(element, { ...style, vertAlign: 'subscript' });
+      default:
+        return this.inlineRuns(element, style);
+    }
+  }
+
+  private runProps(style: RunStyle): string {
+    const props = [
+      style.bold ? '<w:b/>' : '',
+      style.italic ? '<w:i/>' : '',
+      style.strike ? '<w:strike/>' : '',
+      style.underline ? '<w:u w:val="single"/>' : '',
+      style.highlight ? '<w:highlight w:val="yellow"/>' : '',
+      style.vertAlign ? `<w:vertAlign w:val="${style.vertAlign}"/>` : '',
+    ].join('');
+    return props ? `<w:rPr>${props}</w:rPr>` : '';
+  }
+
+  private textRun(text: string, style: RunStyle): string {
+    return `<w:r>${this.runProps(style)}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+  }
+
+  private imageRun(img: Element): string {
+    const image = this.images.get(img.getAttribute('src') ?? '');
+    if (!image) return '';
+    const id = ++this.drawingId;
+    const name = escapeXml(img.getAttribute('alt') || image.fileName);
+    return (
+      `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+      `<wp:extent cx="${image.widthEmu}" cy="${image.heightEmu}"/><wp:docPr id="${id}" name="${name}"/>` +
+      `<a:graphic><a:graphicData uri="${NS.pic}"><pic:pic>` +
+      `<pic:nvPicPr><pic:cNvPr id="${id}" name="${image.fileName}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+      `<pic:blipFill><a:blip r:embed="${image.relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${image.widthEmu}" cy="${image.heightEmu}"/></a:xfrm>` +
+      `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+      `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`
+    );
+  }
+
+  documentXml(body: string): string {
+    return (
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}">` +
+      `<w:body>${body}<w:sectPr><w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/>` +
+      `<w:pgMar w:top="${PAGE.margin}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin}" w:left="${PAGE.margin}" ` +
+      `w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`
+    );
+  }
+
+  numberingXml(): string {
+    const levels = (format: 'bullet' | 'decimal') =>
+      Array.from({ length: 9 }, (_, level) => {
+        const text = format === 'bullet' ? ['•', '◦', '▪'][level % 3] : `%${level + 1}.`;
+        return (
+          `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/>` +
+          `<w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+          `<w:pPr><w:ind w:left="${LIST_INDENT * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+        );
+      }).join('');
+    const instances = this.numberingInstances
+      .map(
+        ({ numId, start }) =>
+          `<w:num w:numId="${numId}"><w:abstractNumId w:val="${DECIMAL_ABSTRACT_ID}"/>` +
+          `<w:lvlOverride w:ilvl="0"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`
+      )
+      .join('');
+    return (
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:numbering xmlns:w="${NS.w}">` +
+      `<w:abstractNum w:abstractNumId="${BULLET_ABSTRACT_ID}"><w:multiLevelType w:val="hybridMultilevel"/>${levels('bullet')}</w:abstractNum>` +
+      `<w:abstractNum w:abstractNumId="${DECIMAL_ABSTRACT_ID}"><w:multiLevelType w:val="hybridMultilevel"/>${levels('decimal')}</w:abstractNum>` +
+      `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="${BULLET_ABSTRACT_ID}"/></w:num>${instances}</w:numbering>`
+    );
+  }
+
+  files(body: string): Record<string, Uint8Array> {
+    const images = [...this.images.values()];
+    const imageTypes = [...new Set(images.map((image) => image.fileName.split('.').pop()!))];
+
+    const files: Record<string, Uint8Array> = {
+      '[Content_Types].xml': strToU8(
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="${NS.ct}">` +
+          `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+          `<Default Extension="xml" ContentType="application/xml"/>` +
+          imageTypes.map((ext) => `<Default Extension="${ext}" ContentType="image/${ext}"/>`).join('') +
+          `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>` +
+          `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>` +
+          `<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>` +
+          `</Types>`
+      ),
+      '_rels/.rels': strToU8(
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="${NS.rels}">` +
+          `<Relationship Id="rId1" Type="${REL_TYPE.officeDocument}" Target="word/document.xml"/></Relationships>`
+      ),
+      'word/_rels/document.xml.rels': strToU8(
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="${NS.rels}">` +
+          `<Relationship Id="rIdStyles" Type="${REL_TYPE.styles}" Target="styles.xml"/>` +
+          `<Relationship Id="rIdNumbering" Type="${REL_TYPE.numbering}" Target="numbering.xml"/>` +
+          images.map((image) => `<Relationship Id="${image.relId}" Type="${REL_TYPE.image}" Target="media/${image.fileName}"/>`).join('') +
+          `</Relationships>`
+      ),
+      'word/document.xml': strToU8(this.documentXml(body)),
+      'word/styles.xml': strToU8(STYLES_XML),
+      'word/numbering.xml': strToU8(this.numberingXml()),
+    };
+    for (const image of images) files[`word/media/${image.fileName}`] = image.data;
+    return files;
+  }
+}
+
+const HEADING_SIZES = [32, 28, 26, 24, 22, 22];
+
+const STYLES_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:styles xmlns:w="${NS.w}">` +
+  `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial" w:eastAsia="Arial"/>` +
+  `<w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="pt-BR"/></w:rPr></w:rPrDefault>` +
+  `<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>` +
+  `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>` +
+  HEADING_SIZES.map(
+    (size, index) =>
+      `<w:style w:type="paragraph" w:styleId="Heading${index + 1}"><w:name w:val="heading ${index + 1}"/>` +
+      `<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+      `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr>` +
+      `<w:rPr><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`
+  ).join('') +
+  `<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/>` +
+  `<w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>` +
+  `<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>` +
+  ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+    .map((side) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`)
+    .join('') +
+  `</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar>` +
+  `</w:tblPr></w:style></w:styles>`;
+
+export async function htmlToDocx(html: string): Promise<Blob> {
+  const root = new DOMParser().parseFromString(html, 'text/html').body;
+  const writer = new DocxWriter();
+  await writer.loadImages(root);
+  const body = writer.body(root);
+  // Word refuses a document without any paragraph
+  const zip = zipSync(writer.files(body || '<w:p/>'));
+  return new Blob([zip], { type: DOCX_MIME_TYPE });
+}
+
+export async function downloadDocx(html: string, fileName: string) {
+  const blob = await htmlToDocx(html);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName.endsWith('.docx') ? fileName : `${fileName}.docx`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,92 @@
+// Inflation indexes used by the annual readjustment (index_rates / contracts.readjustment_index)
+// and the CSV import of their monthly variations.
+
+export type ReadjustmentIndex = 'IPCA' | 'IGPM';
+
+export const READJUSTMENT_INDEX_VALUES: ReadjustmentIndex[] = ['IPCA', 'IGPM'];
+
+export const READJUSTMENT_INDEX_LABELS: Record<ReadjustmentIndex, string> = {
+  IPCA: 'IPCA',
+  IGPM: 'IGP-M',
+};
+
+export interface IndexRate {
+  index_code: ReadjustmentIndex;
+  // First day of the month, "yyyy-MM-01"
+  reference_month: string;
+  // Monthly variation in percent
+  rate: number;
+}
+
+export interface IndexRatesCsvResult {
+  rates: IndexRate[];
+  // One message per rejected line, with its line number
+  errors: string[];
+}
+
+// "IGP-M", "igpm" and "IGP M" are all IGPM
+export function toReadjustmentIndex(value: string): ReadjustmentIndex | null {
+  const code = value.toUpperCase().replace(/[^A-Z]/g, '');
+  return (READJUSTMENT_INDEX_VALUES as string[]).includes(code) ? (code as ReadjustmentIndex) : null;
+}
+
+// Accepts "2025-03", "2025-03-01", "03/2025" and "01/03/2025"
+function parseReferenceMonth(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})(?:-\d{1,2})?$/);
+  const br = value.match(/^(?:\d{1,2}\/)?(\d{1,2})\/(\d{4})$/);
+  const [year, month] = iso ? [iso[1], iso[2]] : br ? [br[2], br[1]] : [];
+  if (!year || !month || Number(month) < 1 || Number(month) > 12) return null;
+  return `${year}-${month.padStart(2, '0')}-01`;
+}
+
+// Accepts "0,45", "0.45", "-0,12" and "0,45%"
+function parseRate(value: string): number | null {
+  const normalized = value.replace('%', '').trim().replace(',', '.');
+  if (!/^[-+]?\d+(\.\d+)?$/.test(normalized)) return null;
+  return Number(normalized);
+}
+
+// One month per line, as "índice;mês;variação" or, when the index is chosen on import,
+// "mês;variação". Separated by ";", tab or "," (then with "." as the decimal separator).
+// A header line is skipped; a month repeated in the file keeps its last value.
+export function parseIndexRatesCsv(text: string, defaultIndex?: ReadjustmentIndex): IndexRatesCsvResult {
+  const rates = new Map<string, IndexRate>();
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const separator = line.includes(';') ? ';' : line.includes('\t') ? '\t' : ',';
+    const columns = line.split(separator).map((column) => column.trim().replace(/^"|"$/g, ''));
+    const [indexColumn, monthColumn, rateColumn] = columns.length >= 3 ? columns : [undefined, ...columns];
+
+    const indexCode = indexColumn === undefined ? defaultIndex : toReadjustmentIndex(indexColumn);
+    const referenceMonth = parseReferenceMonth(monthColumn ?? '');
+    const rate = parseRate(rateColumn ?? '');
+
+    if (referenceMonth === null || rate === null) {
+      // Header
+      if (lineIndex === 0) return;
+      errors.push(`Linha ${lineIndex + 1}: mês ou variação inválidos`);
+      return;
+    }
+    if (!indexCode) {
+      errors.push(
+        indexColumn === undefined
+          ? `Linha ${lineIndex + 1}: índice não informado`
+          : `Linha ${lineIndex + 1}: índice "${indexColumn}" desconhecido`
+      );
+      return;
+    }
+
+    rates.set(`${indexCode}:${referenceMonth}`, { index_code: indexCode, reference_month: referenceMonth, rate });
+  });
+
+  return {
+    rates: [...rates.values()].sort(
+      (a, b) => a.index_code.localeCompare(b.index_code) || a.reference_month.localeCompare(b.reference_month)
+    ),
+    errors,
+  };
+}
@@ -0,0 +1,48 @@
+// Role permissions shared by the app and the edge functions, so keep this file free of
+// npm/alias imports. RLS policies in the migrations enforce the same matrix.
+
+export type AppRole = 'admin' | 'legal' | 'sales' | 'viewer';
+
+export type Permission =
+  | 'contracts.create'
+  | 'contracts.edit' // edit data, change status, send for signature
+  | 'contracts.delete'
+  | 'amendments.sign_manually' // record an amendment signed outside Autentique
+  | 'templates.manage' // plans, variables and template editing
+  | 'index_rates.manage' // inflation index tables used by readjustments
+  | 'webhooks.manage'
+  | 'users.manage';
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: 'Administrador',
+  legal: 'Jurídico',
+  sales: 'Comercial',
+  viewer: 'Leitura',
+};
+
+export const ROLE_DESCRIPTIONS: Record<AppRole, string> = {
+  admin: 'Acesso total, incluindo integrações e usuários',
+  legal: 'Gerencia contratos, planos, templates e índices de reajuste',
+  sales: 'Cria, edita e envia contratos',
+  viewer: 'Apenas visualiza contratos',
+};
+
+const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  admin: [
+    'contracts.create',
+    'contracts.edit',
+    'contracts.delete',
+    'amendments.sign_manually',
+    'templates.manage',
+    'index_rates.manage',
+    'webhooks.manage',
+    'users.manage',
+  ],
+  legal: ['contracts.create', 'contracts.edit', 'contracts.delete', 'templates.manage', 'index_rates.manage'],
+  sales: ['contracts.create', 'contracts.edit'],
+  viewer: [],
+};
+
+export function hasPermission(role: AppRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,157 @@
+// Finds the fill-in markers of an imported template so they can become plan variables:
+// existing {{name}} placeholders, [NAME] brackets and text highlighted in Word (which
+// parse-docx wraps in <mark>).
+import { BUILT_IN_VARIABLES, isSignatureMarker } from '@/lib/templateEngine';
+
+export type PlaceholderSource = 'braces' | 'brackets' | 'highlight';
+
+export interface DetectedPlaceholder {
+  variable_name: string;
+  label: string;
+  field_type: string;
+  source: PlaceholderSource;
+  // Exact HTML snippets replaced by {{variable_name}} when the placeholder is accepted
+  matches: string[];
+  occurrences: number;
+  // A variable or built-in field with this name already exists; only the text is replaced
+  exists: boolean;
+}
+
+interface FieldTypeHint {
+  pattern: RegExp;
+  field_type: string;
+}
+
+// Checked in order against the accent-free name and label
+const FIELD_TYPE_HINTS: FieldTypeHint[] = [
+  { pattern: /\bpix\b/, field_type: 'pix_key' },
+  { pattern: /\bcpf\b.*\bcnpj\b|\bcnpj\b.*\bcpf\b/, field_type: 'cpf_cnpj' },
+  { pattern: /\bcnpj\b/, field_type: 'cnpj' },
+  { pattern: /\bcpf\b/, field_type: 'cpf' },
+  { pattern: /\bcep\b/, field_type: 'cep' },
+  { pattern: /\b(rg|identidade)\b/, field_type: 'rg' },
+  { pattern: /\be ?mail\b/, field_type: 'email' },
+  { pattern: /\b(telefone|celular|fone|whatsapp|phone)\b/, field_type: 'phone' },
+  { pattern: /\b(endereco|address)\b/, field_type: 'address' },
+  { pattern: /\b(data|date|vencimento|nascimento|inicio|termino)\b/, field_type: 'date' },
+  { pattern: /\b(valor|preco|price|value|mensalidade|honorarios|remuneracao|multa)\b/, field_type: 'currency' },
+];
+
+// Highlighted sample values ("01/01/2025", "R$ 1.500,00") are named after what they hold
+// (the type then follows from the name)
+const SAMPLE_VALUE_HINTS: { pattern: RegExp; name: string; label: string }[] = [
+  { pattern: /^\d{3}\.\d{3}\.\d{3}-\d{2}$/, name: 'cpf', label: 'CPF' },
+  { pattern: /^\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}$/, name: 'cnpj', label: 'CNPJ' },
+  { pattern: /^\d{5}-\d{3}$/, name: 'cep', label: 'CEP' },
+  { pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, name: 'email', label: 'E-mail' },
+  { pattern: /^\d{1,2}\/\d{1,2}\/\d{2,4}$/, name: 'data', label: 'Data' },
+  { pattern: /^R\$\s?[\d.,]+$/, name: 'valor', label: 'Valor' },
+];
+
+const BRACES_REGEX = /\{\{([^{}]*)\}\}/g;
+// [NOME DO CLIENTE]; short, at least one letter, no markup inside
+const BRACKETS_REGEX = /\[([^[\]<>{}]{2,60})\]/g;
+const MARK_REGEX = /<mark>([\s\S]*?)<\/mark>/g;
+const VARIABLE_NAME_REGEX = /^[a-zA-Z]\w*$/;
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[̀-ͯ]/g, '').toLowerCase();
+}
+
+function decodeText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "Nome do Cliente" -> "nome_do_cliente"
+export function toVariableName(text: string): string {
+  const name = normalize(text).replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40).replace(/_+$/, '');
+  return /^[a-z]/.test(name) ? name : `campo_${name}`;
+}
+
+// "nome_do_cliente" -> "Nome do cliente"
+function toLabel(text: string): string {
+  const words = text.replace(/_/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function inferFieldType(name: string, label: string): string {
+  const text = normalize(`${name} ${label}`).replace(/_/g, ' ');
+  const hint = FIELD_TYPE_HINTS.find((h) => h.pattern.test(text));
+  return hint?.field_type ?? 'text';
+}
+
+export function detectPlaceholders(html: string, existingVariables: string[]): DetectedPlaceholder[] {
+  const known = new Set([...existingVariables, ...BUILT_IN_VARIABLES]);
+  const found = new Map<string, DetectedPlaceholder>();
+
+  const add = (source: PlaceholderSource, name: string, label: string, match: string) => {
+    const current = found.get(name);
+    if (current) {
+      current.occurrences++;
+      if (!current.matches.includes(match)) current.matches.push(match);
+      return;
+    }
+    found.set(name, {
+      variable_name: name,
+      label,
+      field_type: inferFieldType(name, label),
+      source,
+      matches: [match],
+      occurrences: 1,
+      exists: known.has(name),
+    });
+  };
+
+  for (const [match, inner] of html.matchAll(BRACES_REGEX)) {
+    const raw = decodeText(inner).split('|')[0].trim();
+    // Block tags ({{#if}}, {{else}}), loop helpers and signature markers are template syntax
+    if (!VARIABLE_NAME_REGEX.test(raw) || raw === 'else' || raw === 'this' || isSignatureMarker(raw)) continue;
+    // Variable names are lowercase, so {{NOME_CLIENTE}} is rewritten to match the new variable
+    const name = raw.toLowerCase();
+    if (name === raw && known.has(name)) continue;
+    add('braces', name, toLabel(name), name === raw ? '' : match);
+  }
+
+  for (const [match, inner] of html.matchAll(BRACKETS_REGEX)) {
+    const text = decodeText(inner);
+    if (!/[a-zA-ZÀ-ÿ]/.test(text) || text.split(' ').length > 8) continue;
+    add('brackets', toVariableName(text), toLabel(text), match);
+  }
+
+  for (const [match, inner] of html.matchAll(MARK_REGEX)) {
+    const text = decodeText(inner);
+    // Highlighted placeholders are already picked up as {{...}}
+    if (!text || text.includes('{{') || text.length > 80) continue;
+    const sample = SAMPLE_VALUE_HINTS.find((h) => h.pattern.test(text));
+    if (sample) {
+      // Each sample is its own field: data, data_2...
+      let name = sample.name;
+      for (let n = 2; found.has(name) && !found.get(name)!.matches.includes(match); n++) name = `${sample.name}_${n}`;
+      add('highlight', name, sample.label, match);
+      continue;
+    }
+    const label = text.length > 40 ? `${text.slice(0, 40)}…` : text;
+    add('highlight', toVariableName(text), label.charAt(0).toUpperCase() + label.slice(1), match);
+  }
+
+  return [...found.values()].map((p) => ({ ...p, matches: p.matches.filter(Boolean) }));
+}
+
+// Replace the markers of the accepted placeholders with {{variable_name}} and drop the
+// remaining highlights, which the editor cannot show
+export function applyPlaceholders(html: string, accepted: DetectedPlaceholder[]): string {
+  let result = html;
+  for (const placeholder of accepted) {
+    for (const match of placeholder.matches) {
+      result = result.split(match).join(`{{${placeholder.variable_name}}}`);
+    }
+  }
+  return result.replace(/<\/?mark>/g, '');
+}
@@ -0,0 +1,156 @@
+// Annual readjustment of a contract's monthly value: the index accumulated over the 12 months
+// before the anniversary month, limited by the contract's floor and cap. The result is what
+// the readjustment amendment stores in contract_amendments.readjustment.
+// Covered by Deno tests in supabase/functions/_shared, so keep it free of npm/alias imports.
+import { formatCurrency, formatDate } from './templateFilters.ts';
+import { READJUSTMENT_INDEX_LABELS, type IndexRate, type ReadjustmentIndex } from './indexRates.ts';
+
+export interface ReadjustmentConfig {
+  readjustment_index: ReadjustmentIndex | null;
+  readjustment_month: number | null;
+  readjustment_floor_percent: number | null;
+  readjustment_cap_percent: number | null;
+}
+
+// Type aliases rather than interfaces, so a breakdown can be stored in the readjustment JSON column
+export type ReadjustmentMonth = {
+  reference_month: string;
+  rate: number;
+  // Accumulated up to and including this month
+  accumulated_percent: number;
+};
+
+export type ReadjustmentBreakdown = {
+  index: ReadjustmentIndex;
+  // First day of the anniversary month, when the new value applies
+  anniversary: string;
+  period_start: string;
+  period_end: string;
+  months: ReadjustmentMonth[];
+  // Months of the period without an imported rate; the calculation is incomplete
+  missing_months: string[];
+  accumulated_percent: number;
+  floor_percent: number | null;
+  cap_percent: number | null;
+  applied_percent: number;
+  limited_by: 'floor' | 'cap' | null;
+  current_value: number;
+  new_value: number;
+};
+
+export const MONTH_LABELS = [
+  'Janeiro',
+  'Fevereiro',
+  'Março',
+  'Abril',
+  'Maio',
+  'Junho',
+  'Julho',
+  'Agosto',
+  'Setembro',
+  'Outubro',
+  'Novembro',
+  'Dezembro',
+];
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundPercent(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export function formatPercent(value: number): string {
+  return `${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 4 })}%`;
+}
+
+// First day of the month `offset` months after the month of a "yyyy-MM-dd" date
+function shiftMonth(date: string, offset: number): string {
+  const [year, month] = date.split('-').map(Number);
+  const index = year * 12 + month - 1 + offset;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}-01`;
+}
+
+// "2026-03-01" → "03/2026"
+export function formatReferenceMonth(value: string): string {
+  return `${value.slice(5, 7)}/${value.slice(0, 4)}`;
+}
+
+// Compound variation of consecutive monthly rates, in percent
+export function accumulateRates(rates: number[]): number {
+  return roundPercent((rates.reduce((factor, rate) => factor * (1 + rate / 100), 1) - 1) * 100);
+}
+
+// Next anniversary from today: this year's anniversary month, unless it has already passed
+export function nextAnniversary(month: number, today: Date = new Date()): string {
+  const year = today.getMonth() + 1 > month ? today.getFullYear() + 1 : today.getFullYear();
+  return `${year}-${String(month).padStart(2, '0')}-01`;
+}
+
+export function calculateReadjustment(
+  config: ReadjustmentConfig & { readjustment_index: ReadjustmentIndex },
+  anniversary: string,
+  currentValue: number,
+  rates: IndexRate[]
+): ReadjustmentBreakdown {
+  const ratesByMonth = new Map(
+    rates.filter((rate) => rate.index_code === config.readjustment_index).map((rate) => [rate.reference_month, rate.rate])
+  );
+
+  const months: ReadjustmentMonth[] = [];
+  const missingMonths: string[] = [];
+  for (let offset = -12; offset < 0; offset++) {
+    const referenceMonth = shiftMonth(anniversary, offset);
+    const rate = ratesByMonth.get(referenceMonth);
+    if (rate === undefined) {
+      missingMonths.push(referenceMonth);
+      continue;
+    }
+    months.push({
+      reference_month: referenceMonth,
+      rate: Number(rate),
+      accumulated_percent: accumulateRates([...months.map((month) => month.rate), Number(rate)]),
+    });
+  }
+
+  const accumulated = months.length > 0 ? months[months.length - 1].accumulated_percent : 0;
+  const floor = config.readjustment_floor_percent;
+  const cap = config.readjustment_cap_percent;
+  const limitedBy = floor !== null && accumulated < floor ? 'floor' : cap !== null && accumulated > cap ? 'cap' : null;
+  const applied = limitedBy === 'floor' ? floor! : limitedBy === 'cap' ? cap! : accumulated;
+
+  return {
+    index: config.readjustment_index,
+    anniversary: shiftMonth(anniversary, 0),
+    period_start: shiftMonth(anniversary, -12),
+    period_end: shiftMonth(anniversary, -1),
+    months,
+    missing_months: missingMonths,
+    accumulated_percent: accumulated,
+    floor_percent: floor,
+    cap_percent: cap,
+    applied_percent: applied,
+    limited_by: limitedBy,
+    current_value: currentValue,
+    new_value: roundCurrency(currentValue * (1 + applied / 100)),
+  };
+}
+
+// Text of the readjustment amendment draft
+export function describeReadjustment(breakdown: ReadjustmentBreakdown): string {
+  const index = READJUSTMENT_INDEX_LABELS[breakdown.index];
+  const limit =
+    breakdown.limited_by === 'floor'
+      ? `, limitado ao piso contratual de ${formatPercent(breakdown.applied_percent)}`
+      : breakdown.limited_by === 'cap'
+        ? `, limitado ao teto contratual de ${formatPercent(breakdown.applied_percent)}`
+        : '';
+
+  return (
+    `Reajuste anual pelo ${index} acumulado de ${formatReferenceMonth(breakdown.period_start)} a ` +
+    `${formatReferenceMonth(breakdown.period_end)} (${formatPercent(breakdown.accumulated_percent)})${limit}. ` +
+    `O valor mensal passa de ${formatCurrency(breakdown.current_value)} para ${formatCurrency(breakdown.new_value)} ` +
+    `a partir de ${formatDate(breakdown.anniversary)}.`
+  );
+}
@@ -0,0 +1,82 @@
+// Signer definitions shared by the app and the edge functions (send-to-autentique,
+// render-contract-pdf), so keep this file free of npm/alias imports.
+import { getContractCategoryInfo } from './contractCategories.ts';
+
+export type SignerRole = 'company' | 'client' | 'representative' | 'partner' | 'witness';
+export type SignerAction = 'SIGN' | 'APPROVE' | 'WITNESS';
+
+export interface ContractSignerInput {
+  name: string;
+  email: string;
+  cpf?: string | null;
+  role: SignerRole;
+  action: SignerAction;
+  signing_order: number;
+}
+
+export const COMPANY_SIGNER = {
+  name: 'Virtuz Mídia',
+  email: 'comercial@virtuzmidia.com.br',
+};
+
+export const SIGNER_ROLE_LABELS: Record<SignerRole, string> = {
+  company: 'Empresa',
+  client: 'Cliente',
+  representative: 'Representante legal',
+  partner: 'Sócio / Parceiro',
+  witness: 'Testemunha',
+};
+
+export const SIGNER_ACTION_LABELS: Record<SignerAction, string> = {
+  SIGN: 'Assinar',
+  APPROVE: 'Aprovar',
+  WITNESS: 'Assinar como testemunha',
+};
+
+// Autentique's names for each action
+export const AUTENTIQUE_SIGNER_ACTIONS: Record<SignerAction, string> = {
+  SIGN: 'SIGN',
+  APPROVE: 'APPROVE',
+  WITNESS: 'SIGN_AS_A_WITNESS',
+};
+
+// Role label in the context of the contract: the "client" signer of a service provider
+// contract is the provider
+export function signerRoleLabel(role: SignerRole, category: string | null | undefined): string {
+  return role === 'client' ? getContractCategoryInfo(category).counterparty : SIGNER_ROLE_LABELS[role];
+}
+
+// Virtuz signs after the client when it is the contracted party, first otherwise
+export function companySignsFirst(category: string): boolean {
+  return getContractCategoryInfo(category).companyParty !== 'CONTRATADA';
+}
+
+// Initial signer list for a new contract: the company and the client, ordered by category
+export function getDefaultSigners(
+  category: string,
+  client: { name: string; email: string }
+): ContractSignerInput[] {
+  const company: ContractSignerInput = { ...COMPANY_SIGNER, role: 'company', action: 'SIGN', signing_order: 1 };
+  const clientSigner: ContractSignerInput = { ...client, role: 'client', action: 'SIGN', signing_order: 1 };
+  const ordered = companySignsFirst(category) ? [company, clientSigner] : [clientSigner, company];
+  return ordered.map((signer, index) => ({ ...signer, signing_order: index + 1 }));
+}
+
+// Template marker printed where each signer signs. The first company and client signers keep
+// the original {{ASSINATURA_EMPRESA}}/{{ASSINATURA_CLIENTE}} markers; everyone else uses
+// {{ASSINATURA_N}} with N being the signing order.
+export function getSignatureMarkers<T extends ContractSignerInput>(signers: T[]): Map<string, T> {
+  const markers = new Map<string, T>();
+  const sorted = [...signers].sort((a, b) => a.signing_order - b.signing_order);
+
+  for (const signer of sorted) {
+    if (signer.role === 'company' && !markers.has('ASSINATURA_EMPRESA')) {
+      markers.set('ASSINATURA_EMPRESA', signer);
+    } else if (signer.role === 'client' && !markers.has('ASSINATURA_CLIENTE')) {
+      markers.set('ASSINATURA_CLIENTE', signer);
+    } else {
+      markers.set(`ASSINATURA_${signer.signing_order}`, signer);
+    }
+  }
+  return markers;
+}
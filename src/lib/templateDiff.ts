@@ -0,0 +1,111 @@
+// Text diff between two template versions, by paragraph and, inside changed
+// paragraphs, by word. Templates are compared as plain text: formatting-only edits
+// do not show up.
+
+export type DiffPartType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffPartType;
+  value: string;
+}
+
+export interface DiffRow {
+  type: DiffPartType;
+  parts: DiffPart[];
+}
+
+const BLOCK_END_REGEX = /<\/(p|h[1-6]|li|div|tr|blockquote|pre)>|<br\s*\/?>/gi;
+
+// One line per paragraph, list item or line break
+export function templateToLines(html: string): string[] {
+  const text = html.replace(BLOCK_END_REGEX, '\n').replace(/<[^>]+>/g, '');
+  const decoded = new DOMParser().parseFromString(text, 'text/html').documentElement.textContent ?? '';
+  return decoded
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line !== '');
+}
+
+// Longest common subsequence diff; common prefix and suffix are skipped so the
+// table only covers the edited region
+function diffSequences(a: string[], b: string[]): DiffPart[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[at(i, j)] = a[start + i] === b[start + j]
+        ? lcs[at(i + 1, j + 1)] + 1
+        : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+    }
+  }
+
+  const parts: DiffPart[] = a.slice(0, start).map((value) => ({ type: 'equal', value }));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      parts.push({ type: 'equal', value: a[start + i] });
+      i++;
+      j++;
+    } else if (j < m && (i === n || lcs[at(i, j + 1)] >= lcs[at(i + 1, j)])) {
+      parts.push({ type: 'added', value: b[start + j] });
+      j++;
+    } else {
+      parts.push({ type: 'removed', value: a[start + i] });
+      i++;
+    }
+  }
+  return parts.concat(a.slice(endA).map((value) => ({ type: 'equal', value })));
+}
+
+// Word-level parts for a paragraph that was edited; whitespace is kept as its own token
+function diffWords(oldLine: string, newLine: string): { removed: DiffPart[]; added: DiffPart[] } {
+  const parts = diffSequences(oldLine.split(/(\s+)/), newLine.split(/(\s+)/));
+  return {
+    removed: parts.filter((part) => part.type !== 'added'),
+    added: parts.filter((part) => part.type !== 'removed'),
+  };
+}
+
+export function diffTemplates(oldHtml: string, newHtml: string): DiffRow[] {
+  const lines = diffSequences(templateToLines(oldHtml), templateToLines(newHtml));
+  const rows: DiffRow[] = [];
+
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === 'equal') {
+      rows.push({ type: 'equal', parts: [lines[index]] });
+      index++;
+      continue;
+    }
+
+    // A block of removed lines followed by as many added ones is treated as edited paragraphs
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < lines.length && lines[index].type === 'removed') removed.push(lines[index++].value);
+    while (index < lines.length && lines[index].type === 'added') added.push(lines[index++].value);
+
+    if (removed.length === added.length) {
+      removed.forEach((oldLine, i) => {
+        const words = diffWords(oldLine, added[i]);
+        rows.push({ type: 'removed', parts: words.removed });
+        rows.push({ type: 'added', parts: words.added });
+      });
+    } else {
+      removed.forEach((value) => rows.push({ type: 'removed', parts: [{ type: 'removed', value }] }));
+      added.forEach((value) => rows.push({ type: 'added', parts: [{ type: 'added', value }] }));
+    }
+  }
+  return rows;
+}
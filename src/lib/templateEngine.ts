@@ -0,0 +1,588 @@
+// Contract template rendering engine.
+// Shared by the app pages and the send-to-autentique edge function (Deno), so this
+// module must only use relative imports with explicit extensions and no npm packages.
+//
+// Supported syntax:
+//   {{name}}                                  value of a variable or built-in field
+//   {{#if name}} ... {{else}} ... {{/if}}     truthiness check
+//   {{#if name == "value"}} ... {{/if}}       comparison (==, !=, >, >=, <, <=)
+//   {{#each list}} {{this}} {{@number}} {{/each}}  repeat for each item of a list
+//   {{name | filter:"arg" | filter}}          formatting filters (see templateFilters.ts)
+//   {{endereco.cidade}}                       one part of an address field (see address.ts)
+import { numberToCurrencyWords } from './numberToWords.ts';
+import { TEMPLATE_FILTERS, formatCurrency, formatDate } from './templateFilters.ts';
+import { ADDRESS_FIELD_TYPE, DOCUMENT_FIELD_TYPES, formatFieldValue } from './fieldTypes.ts';
+import { ADDRESS_PARTS, formatAddress, parseAddress } from './address.ts';
+import { getContractCategoryInfo } from './contractCategories.ts';
+
+export { formatCurrency, formatDate };
+
+export interface TemplatePlan {
+  template_content: string | null;
+}
+
+export interface TemplateVariable {
+  variable_name: string;
+  field_type: string;
+}
+
+export interface TemplateContract {
+  client_name: string;
+  start_date: string | null;
+  end_date: string | null;
+  monthly_value: number | string | null;
+  total_value: number | string | null;
+  custom_data: Record<string, unknown> | null;
+  contract_category?: string | null;
+}
+
+// Amendment fields rendered by the plan's amendment template
+export interface TemplateAmendment {
+  amendment_number: number;
+  title: string;
+  description: string | null;
+  effective_date: string;
+  monthly_value: number | string | null;
+  end_date: string | null;
+}
+
+export interface TemplateContext {
+  // Formatted values inserted for {{placeholders}}
+  values: Record<string, string>;
+  // Raw values used by {{#if}} conditions and {{#each}} loops
+  data: Record<string, unknown>;
+}
+
+export interface RenderResult {
+  html: string;
+  // Placeholders left in the document because no value was available
+  unresolved: string[];
+  // Malformed blocks (unclosed {{#if}}, stray {{/each}}, invalid conditions...)
+  errors: string[];
+}
+
+// Markers replaced by the signature flow, never by contract data
+export const SIGNATURE_MARKERS = ['ASSINATURA_EMPRESA', 'ASSINATURA_CLIENTE'];
+
+// Additional signers are marked by signing order: {{ASSINATURA_3}}
+const NUMBERED_SIGNATURE_MARKER = /^ASSINATURA_\d+$/;
+
+export function isSignatureMarker(name: string): boolean {
+  return SIGNATURE_MARKERS.includes(name) || NUMBERED_SIGNATURE_MARKER.test(name);
+}
+
+// Contract fields available in every template without a plan variable
+export const BUILT_IN_VARIABLES = [
+  'client_name',
+  'start_date',
+  'end_date',
+  'duration_months',
+  'contract_category',
+  'contract_category_label',
+  'company_party',
+  'client_party',
+  'monthly_value',
+  'monthly_value_extenso',
+  'total_value',
+  'total_value_extenso',
+];
+
+// Amendment fields available in amendment templates, besides the contract's built-ins
+// (which hold the contract's values before the amendment)
+export const AMENDMENT_BUILT_IN_VARIABLES = [
+  'amendment_number',
+  'amendment_title',
+  'amendment_description',
+  'amendment_effective_date',
+  'amendment_monthly_value',
+  'amendment_monthly_value_extenso',
+  'amendment_end_date',
+];
+
+// Used by plans without an amendment template of their own
+export const DEFAULT_AMENDMENT_TEMPLATE = [
+  '<h2 style="text-align: center">{{amendment_number}}º TERMO ADITIVO AO CONTRATO</h2>',
+  '<p>Termo aditivo ao contrato firmado entre a {{company_party}} e <strong>{{client_name}}</strong> ({{client_party}}), ' +
+    'com vigência de {{start_date}} a {{end_date}}.</p>',
+  '<p><strong>Objeto:</strong> {{amendment_title}}</p>',
+  '{{#if amendment_description}}',
+  '<p>{{amendment_description}}</p>',
+  '{{/if}}',
+  '{{#if amendment_monthly_value}}',
+  '<p>O valor mensal {{#if monthly_value}}passa de {{monthly_value}} para{{else}}passa a ser de{{/if}} ' +
+    '<strong>{{amendment_monthly_value}} ({{amendment_monthly_value_extenso}})</strong>.</p>',
+  '{{/if}}',
+  '{{#if amendment_end_date}}',
+  '<p>O término da vigência passa de {{end_date}} para <strong>{{amendment_end_date}}</strong>.</p>',
+  '{{/if}}',
+  '<p>Este aditivo produz efeitos a partir de {{amendment_effective_date}}. ' +
+    'Permanecem inalteradas as demais cláusulas do contrato.</p>',
+  '<p style="margin-top: 40px; text-align: center;"><strong>____________________________</strong><br/><strong>{{ASSINATURA_EMPRESA}}</strong></p>',
+  '<p style="margin-top: 40px; text-align: center;"><strong>____________________________</strong><br/><strong>{{ASSINATURA_CLIENTE}}</strong></p>',
+].join('\n');
+
+// Field types whose value is a list of items, one per line
+export const LIST_FIELD_TYPES = ['list'];
+
+const TAG_REGEX = /\{\{([^{}]*)\}\}/g;
+const BLOCK_TAG = String.raw`\{\{\s*(?:#if|#each|\/if|\/each|else)\b[^{}]*\}\}`;
+const INLINE_WRAPPER = String.raw`(?:\s|&nbsp;|<\/?(?:strong|em|u|b|i|span)\b[^>]*>)*`;
+// A paragraph holding nothing but a block tag is replaced by the bare tag, so
+// evaluating the block does not leave empty paragraphs behind
+const BLOCK_PARAGRAPH_REGEX = new RegExp(
+  String.raw`<p\b[^>]*>${INLINE_WRAPPER}(${BLOCK_TAG})${INLINE_WRAPPER}<\/p>`,
+  'g'
+);
+const CONDITION_REGEX = /^([\w.@]+)\s*(?:(==|!=|>=|<=|>|<)\s*(.+))?$/;
+const VARIABLE_REGEX = /^([\w.@]+)\s*(?:\|(.*))?$/s;
+const FILTER_REGEX = /^(\w+)\s*(?::\s*(.*))?$/s;
+const FALSY_STRINGS = ['', '0', 'false', 'nao', 'não', 'no'];
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; name: string; filters: FilterCall[]; raw: string }
+  | { type: 'if'; condition: string; body: TemplateNode[]; alternate: TemplateNode[] }
+  | { type: 'each'; name: string; body: TemplateNode[]; alternate: TemplateNode[] };
+
+interface FilterCall {
+  name: string;
+  arg?: string;
+}
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'each' }>;
+
+interface Scope {
+  item?: unknown;
+  index?: number;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(num) ? null : num;
+}
+
+// Split a list value (array or one item per line) into its items
+export function parseListValue(value: unknown): string[] {
+  const items = Array.isArray(value) ? value.map(String) : String(value ?? '').split('\n');
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+// Whole months between two "yyyy-MM-dd" dates
+function monthsBetween(start: string, end: string): number | null {
+  const s = start.match(/^(\d{4})-(\d{2})/);
+  const e = end.match(/^(\d{4})-(\d{2})/);
+  if (!s || !e) return null;
+  return (Number(e[1]) - Number(s[1])) * 12 + (Number(e[2]) - Number(s[2]));
+}
+
+function setCurrencyValue(context: TemplateContext, key: string, raw: unknown) {
+  const num = toNumber(raw);
+  if (num === null) return;
+  context.data[key] = num;
+  context.values[key] = formatCurrency(num);
+  context.values[`${key}_extenso`] = numberToCurrencyWords(num);
+}
+
+// The whole address as one line, plus {{key.part}} for each filled part
+function setAddressValue(context: TemplateContext, key: string, raw: string) {
+  const address = parseAddress(raw)!;
+  context.data[key] = formatAddress(address);
+  context.values[key] = formatAddress(address);
+  for (const { key: part } of ADDRESS_PARTS) {
+    if (!address[part]) continue;
+    const value = part === 'cep' ? formatFieldValue('cep', address.cep) : part === 'uf' ? address.uf.toUpperCase() : address[part];
+    context.data[`${key}.${part}`] = value;
+    context.values[`${key}.${part}`] = value;
+  }
+}
+
+// Build the placeholder values and condition data for a contract.
+// Empty values are left out so their placeholders are reported as unresolved.
+export function buildTemplateContext(
+  contract: TemplateContract,
+  variables: TemplateVariable[]
+): TemplateContext {
+  const context: TemplateContext = { values: {}, data: {} };
+  const customData = contract.custom_data ?? {};
+
+  Object.entries(customData).forEach(([key, raw]) => {
+    if (raw === null || raw === undefined || String(raw).trim() === '') return;
+
+    const variable = variables.find((v) => v.variable_name === key);
+    if (variable?.field_type === 'currency') {
+      setCurrencyValue(context, key, raw);
+    } else if (variable && LIST_FIELD_TYPES.includes(variable.field_type)) {
+      const items = parseListValue(raw);
+      if (items.length === 0) return;
+      context.data[key] = items;
+      context.values[key] = items.join(', ');
+    } else if (variable?.field_type === 'date') {
+      context.data[key] = String(raw);
+      context.values[key] = formatDate(String(raw));
+    } else if (variable?.field_type === ADDRESS_FIELD_TYPE && parseAddress(raw)) {
+      setAddressValue(context, key, String(raw));
+    } else if (variable && DOCUMENT_FIELD_TYPES[variable.field_type]) {
+      // CPF, CNPJ, CEP... are written with their usual punctuation whatever was typed
+      context.data[key] = String(raw);
+      context.values[key] = formatFieldValue(variable.field_type, String(raw));
+    } else {
+      context.data[key] = raw;
+      context.values[key] = String(raw);
+    }
+  });
+
+  // Built-in contract fields
+  if (contract.client_name) {
+    context.data.client_name = contract.client_name;
+    context.values.client_name = contract.client_name;
+  }
+  if (contract.start_date) {
+    context.data.start_date = contract.start_date;
+    context.values.start_date = formatDate(contract.start_date);
+  }
+  if (contract.end_date) {
+    context.data.end_date = contract.end_date;
+    context.values.end_date = formatDate(contract.end_date);
+  }
+  if (contract.start_date && contract.end_date) {
+    const months = monthsBetween(contract.start_date, contract.end_date);
+    if (months !== null) {
+      context.data.duration_months = months;
+      context.values.duration_months = String(months);
+    }
+  }
+  if (contract.contract_category) {
+    // Party names follow the category: CONTRATANTE/CONTRATADA, PRIMEIRA/SEGUNDA PARCEIRA...
+    const category = getContractCategoryInfo(contract.contract_category);
+    context.data.contract_category = contract.contract_category;
+    context.values.contract_category = contract.contract_category;
+    context.data.contract_category_label = category.label;
+    context.values.contract_category_label = category.label;
+    context.data.company_party = category.companyParty;
+    context.values.company_party = category.companyParty;
+    context.data.client_party = category.clientParty;
+    context.values.client_party = category.clientParty;
+  }
+  setCurrencyValue(context, 'monthly_value', contract.monthly_value);
+  setCurrencyValue(context, 'total_value', contract.total_value);
+
+  return context;
+}
+
+function stripQuotes(value: string): string {
+  const quoted = value.match(/^(["'])(.*)\1$/s);
+  return quoted ? quoted[2] : value;
+}
+
+// Split "a | b:\"x|y\" | c" on the pipes that are not inside quotes
+function splitPipes(expression: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of expression) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|') {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim());
+}
+
+function parseFilters(expression: string, raw: string, errors: string[]): FilterCall[] {
+  return splitPipes(expression).flatMap((part) => {
+    const match = part.match(FILTER_REGEX);
+    if (!match || !TEMPLATE_FILTERS[match[1]]) {
+      errors.push(`Filtro desconhecido "${part}" em ${raw}`);
+      return [];
+    }
+    return [{ name: match[1], arg: match[2] !== undefined ? stripQuotes(match[2].trim()) : undefined }];
+  });
+}
+
+function parseTemplate(template: string, errors: string[]): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Each open block remembers where its nodes go and whether {{else}} was seen
+  const stack: { block: BlockNode; inAlternate: boolean }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inAlternate ? top.block.alternate : top.block.body;
+  };
+
+  const source = template.replace(BLOCK_PARAGRAPH_REGEX, '$1');
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_REGEX)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, start) });
+    }
+    lastIndex = start + match[0].length;
+
+    const inner = decodeEntities(match[1]).trim();
+    const [keyword] = inner.split(/\s+/, 1);
+    const argument = inner.slice(keyword.length).trim();
+
+    if (keyword === '#if' || keyword === '#each') {
+      const block: BlockNode = keyword === '#if'
+        ? { type: 'if', condition: argument, body: [], alternate: [] }
+        : { type: 'each', name: argument, body: [], alternate: [] };
+      current().push(block);
+      stack.push({ block, inAlternate: false });
+    } else if (keyword === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inAlternate) {
+        errors.push('{{else}} fora de um bloco {{#if}} ou {{#each}}');
+      } else {
+        top.inAlternate = true;
+      }
+    } else if (keyword === '/if' || keyword === '/each') {
+      const expected = keyword === '/if' ? 'if' : 'each';
+      const top = stack[stack.length - 1];
+      if (!top || top.block.type !== expected) {
+        errors.push(`{{${keyword}}} sem o {{#${expected}}} correspondente`);
+      } else {
+        stack.pop();
+      }
+    } else if (VARIABLE_REGEX.test(inner)) {
+      const [, name, filterExpression] = inner.match(VARIABLE_REGEX)!;
+      const filters = filterExpression !== undefined ? parseFilters(filterExpression, match[0], errors) : [];
+      current().push({ type: 'var', name, filters, raw: match[0] });
+    } else {
+      current().push({ type: 'text', value: match[0] });
+    }
+  }
+
+  if (lastIndex < source.length) {
+    current().push({ type: 'text', value: source.slice(lastIndex) });
+  }
+
+  stack.forEach(({ block }) => {
+    errors.push(`Bloco {{#${block.type}}} não foi fechado com {{/${block.type}}}`);
+  });
+
+  return root;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'boolean') return value;
+  if (value === null || value === undefined) return false;
+  return !FALSY_STRINGS.includes(String(value).trim().toLowerCase());
+}
+
+function parseLiteral(literal: string): unknown {
+  const trimmed = literal.trim();
+  const quoted = trimmed.match(/^(["'])(.*)\1$/);
+  if (quoted) return quoted[2];
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  return trimmed;
+}
+
+function compare(left: unknown, operator: string, right: unknown): boolean {
+  const leftNum = typeof left === 'boolean' ? null : toNumber(left);
+  const rightNum = typeof right === 'boolean' ? null : toNumber(right);
+  const numeric = leftNum !== null && rightNum !== null;
+  const a = numeric ? leftNum : String(left ?? '').toLowerCase();
+  const b = numeric ? rightNum : String(right ?? '').toLowerCase();
+
+  switch (operator) {
+    case '==': return typeof right === 'boolean' ? isTruthy(left) === right : a === b;
+    case '!=': return typeof right === 'boolean' ? isTruthy(left) !== right : a !== b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    default: return false;
+  }
+}
+
+function lookupData(name: string, context: TemplateContext, scopes: Scope[]): unknown {
+  const scope = scopes[scopes.length - 1];
+  if (scope) {
+    if (name === 'this') return scope.item;
+    if (name === '@index') return scope.index;
+    if (name === '@number') return (scope.index ?? 0) + 1;
+  }
+  return context.data[name];
+}
+
+function lookupValue(name: string, context: TemplateContext, scopes: Scope[]): string | undefined {
+  if (scopes.length > 0 && (name === 'this' || name.startsWith('@'))) {
+    const value = lookupData(name, context, scopes);
+    return value === undefined || value === null ? undefined : String(value);
+  }
+  return Object.prototype.hasOwnProperty.call(context.values, name) ? context.values[name] : undefined;
+}
+
+function evaluateVariable(
+  node: Extract<TemplateNode, { type: 'var' }>,
+  context: TemplateContext,
+  scopes: Scope[]
+): string | undefined {
+  if (node.filters.length === 0) return lookupValue(node.name, context, scopes);
+
+  const value = node.filters.reduce<unknown>(
+    (current, filter) => TEMPLATE_FILTERS[filter.name](current, filter.arg),
+    lookupData(node.name, context, scopes)
+  );
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+function evaluateCondition(
+  condition: string,
+  context: TemplateContext,
+  scopes: Scope[],
+  errors: string[]
+): boolean {
+  const match = condition.match(CONDITION_REGEX);
+  if (!match) {
+    errors.push(`Condição inválida: {{#if ${condition}}}`);
+    return false;
+  }
+  const [, name, operator, literal] = match;
+  const value = lookupData(name, context, scopes);
+  return operator ? compare(value, operator, parseLiteral(literal)) : isTruthy(value);
+}
+
+// Iterations of a loop whose body is a single list merge back into one list
+const ITERATION_SEPARATOR = '<!--each-->';
+
+function joinIterations(parts: string[]): string {
+  return parts
+    .join(ITERATION_SEPARATOR)
+    .replace(/<\/(ul|ol)>\s*<!--each-->\s*<\1\b[^>]*>/g, '')
+    .split(ITERATION_SEPARATOR)
+    .join('');
+}
+
+// Braces left in the text are placeholders the parser could not read, usually because
+// formatting splits them ({{client_</strong>name}} from an imported DOCX). They are reported
+// as unresolved so the document is not sent with them printed.
+const STRAY_BRACES_REGEX = /\{\{([^{}]*)\}\}|\{\{|\}\}/g;
+
+function reportStrayBraces(text: string, unresolved: Set<string>) {
+  for (const match of text.matchAll(STRAY_BRACES_REGEX)) {
+    const inner = match[1] === undefined ? '' : decodeEntities(match[1].replace(/<[^>]*>/g, '')).trim();
+    unresolved.add(inner ? `{{${inner}}}` : match[0]);
+  }
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  context: TemplateContext,
+  scopes: Scope[],
+  unresolved: Set<string>,
+  errors: string[]
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          reportStrayBraces(node.value, unresolved);
+          return node.value;
+        case 'var': {
+          if (isSignatureMarker(node.name)) return node.raw;
+          const value = evaluateVariable(node, context, scopes);
+          if (value === undefined) {
+            unresolved.add(node.name);
+            return node.raw;
+          }
+          return escapeHtml(value);
+        }
+        case 'if': {
+          const branch = evaluateCondition(node.condition, context, scopes, errors) ? node.body : node.alternate;
+          return renderNodes(branch, context, scopes, unresolved, errors);
+        }
+        case 'each': {
+          const items = parseListValue(lookupData(node.name, context, scopes) ?? []);
+          if (items.length === 0) {
+            return renderNodes(node.alternate, context, scopes, unresolved, errors);
+          }
+          return joinIterations(
+            items.map((item, index) =>
+              renderNodes(node.body, context, [...scopes, { item, index }], unresolved, errors)
+            )
+          );
+        }
+      }
+    })
+    .join('');
+}
+
+// Evaluate blocks and replace every {{placeholder}}, keeping unknown ones in place
+export function renderTemplate(template: string, context: TemplateContext): RenderResult {
+  const unresolved = new Set<string>();
+  const errors: string[] = [];
+  const nodes = parseTemplate(template, errors);
+  const html = renderNodes(nodes, context, [], unresolved, errors);
+
+  return { html, unresolved: Array.from(unresolved), errors };
+}
+
+// Render a plan's template with a contract's data
+export function renderContractDocument(
+  plan: TemplatePlan | null | undefined,
+  variables: TemplateVariable[],
+  contract: TemplateContract
+): RenderResult {
+  if (!plan?.template_content) return { html: '', unresolved: [], errors: [] };
+  return renderTemplate(plan.template_content, buildTemplateContext(contract, variables));
+}
+
+// Render an amendment with the plan's amendment template (or the default one). The contract
+// fields hold its current values, so the template can show what the amendment changes.
+export function renderAmendmentDocument(
+  plan: { amendment_template_content: string | null } | null | undefined,
+  variables: TemplateVariable[],
+  contract: TemplateContract,
+  amendment: TemplateAmendment
+): RenderResult {
+  const context = buildTemplateContext(contract, variables);
+  context.data.amendment_number = amendment.amendment_number;
+  context.values.amendment_number = String(amendment.amendment_number);
+  context.data.amendment_title = amendment.title;
+  context.values.amendment_title = amendment.title;
+  if (amendment.description) {
+    context.data.amendment_description = amendment.description;
+    context.values.amendment_description = amendment.description;
+  }
+  context.data.amendment_effective_date = amendment.effective_date;
+  context.values.amendment_effective_date = formatDate(amendment.effective_date);
+  setCurrencyValue(context, 'amendment_monthly_value', amendment.monthly_value);
+  if (amendment.end_date) {
+    context.data.amendment_end_date = amendment.end_date;
+    context.values.amendment_end_date = formatDate(amendment.end_date);
+  }
+
+  return renderTemplate(plan?.amendment_template_content || DEFAULT_AMENDMENT_TEMPLATE, context);
+}
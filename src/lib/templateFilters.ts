@@ -0,0 +1,97 @@
+// Formatting filters for template placeholders, e.g. {{monthly_value | brl}}.
+// Imported by templateEngine.ts, so the same Deno-compatible import rules apply.
+import { numberToCurrencyWords } from './numberToWords.ts';
+
+export type TemplateFilter = (value: unknown, arg?: string) => unknown;
+
+const MONTHS = [
+  'janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho',
+  'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro',
+];
+
+const WEEKDAYS = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'];
+
+// Named patterns for the mask filter; "#" is replaced by one digit
+export const MASKS: Record<string, string | ((digits: string) => string)> = {
+  cpf: '###.###.###-##',
+  cnpj: '##.###.###/####-##',
+  cpf_cnpj: (digits) => (digits.length > 11 ? '##.###.###/####-##' : '###.###.###-##'),
+  cep: '#####-###',
+  phone: (digits) => (digits.length > 10 ? '(##) #####-####' : '(##) ####-####'),
+};
+
+const DATE_TOKEN_REGEX = /'([^']*)'|EEEE|MMMM|MMM|MM|M|dd|d|yyyy|yy/g;
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+function toNumber(value: unknown): number | null {
+  if (isEmpty(value)) return null;
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(num) ? null : num;
+}
+
+// Format a number as "R$ 1.234,56"
+export function formatCurrency(value: number): string {
+  return `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Format a "yyyy-MM-dd" (or ISO) date with a date-fns style pattern, in Portuguese
+// and without timezone shifts. Supports d, dd, M, MM, MMM, MMMM, yy, yyyy, EEEE and 'quoted text'.
+export function formatDatePattern(value: string, pattern: string): string {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return value;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+  return pattern.replace(DATE_TOKEN_REGEX, (token, literal: string | undefined) => {
+    if (literal !== undefined) return literal === '' ? "'" : literal;
+    switch (token) {
+      case 'd': return String(day);
+      case 'dd': return String(day).padStart(2, '0');
+      case 'M': return String(month);
+      case 'MM': return String(month).padStart(2, '0');
+      case 'MMM': return MONTHS[month - 1].slice(0, 3);
+      case 'MMMM': return MONTHS[month - 1];
+      case 'yy': return String(year).slice(-2);
+      case 'yyyy': return String(year);
+      case 'EEEE': return WEEKDAYS[weekday];
+      default: return token;
+    }
+  });
+}
+
+// Format a "yyyy-MM-dd" (or ISO) date as "dd/MM/yyyy"
+export function formatDate(value: string): string {
+  return formatDatePattern(value, 'dd/MM/yyyy');
+}
+
+// Apply a named mask (cpf, cnpj, cep...) or a literal "#" pattern to the digits of a value.
+// Values whose digit count does not fit the pattern are returned unchanged.
+export function applyMask(value: string, mask: string): string {
+  const digits = value.replace(/\D/g, '');
+  const named = MASKS[mask];
+  const pattern = typeof named === 'function' ? named(digits) : named ?? mask;
+  if ((pattern.match(/#/g) ?? []).length !== digits.length) return value;
+
+  let index = 0;
+  return pattern.replace(/#/g, () => digits[index++]);
+}
+
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  date: (value, pattern) => (isEmpty(value) ? undefined : formatDatePattern(String(value), pattern || 'dd/MM/yyyy')),
+  brl: (value) => {
+    const num = toNumber(value);
+    return num === null ? undefined : formatCurrency(num);
+  },
+  extenso: (value) => {
+    const num = toNumber(value);
+    return num === null ? undefined : numberToCurrencyWords(num);
+  },
+  upper: (value) => (isEmpty(value) ? undefined : String(value).toLocaleUpperCase('pt-BR')),
+  lower: (value) => (isEmpty(value) ? undefined : String(value).toLocaleLowerCase('pt-BR')),
+  mask: (value, mask) => (isEmpty(value) || !mask ? value : applyMask(String(value), mask)),
+  // Fallback text for optional fields: {{observacoes | default:"Nenhuma"}}
+  default: (value, fallback) => (isEmpty(value) ? fallback ?? '' : value),
+};
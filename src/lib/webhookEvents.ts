@@ -0,0 +1,30 @@
+// Events sent to the configured webhook endpoints (emitted by database triggers and
+// the scheduler, see the webhook_deliveries migration)
+export const WEBHOOK_EVENT_LABELS: Record<string, string> = {
+  'contract.created': 'Contrato criado',
+  'contract.client_filled': 'Dados preenchidos pelo cliente',
+  'contract.sent_for_signature': 'Enviado para assinatura',
+  'contract.signed': 'Contrato assinado',
+  'contract.status_changed': 'Status alterado',
+  'contract.expiring': 'Contrato próximo do vencimento',
+  'contract.expired': 'Contrato vencido',
+  'contract.stale': 'Contrato parado sem movimentação',
+};
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'success' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, RotateCcw, Save } from 'lucide-react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { TemplateEditor } from '@/components/templates/TemplateEditor';
+import { Plan, usePlans } from '@/hooks/usePlans';
+import { DEFAULT_AMENDMENT_TEMPLATE } from '@/lib/templateEngine';
+
+// Mounted once the plan is loaded (keyed by plan id), so the editor starts from its saved template
+function AmendmentTemplateForm({ plan }: { plan: Plan }) {
+  const navigate = useNavigate();
+  const { updatePlan } = usePlans();
+  const savedContent = plan.amendment_template_content ?? DEFAULT_AMENDMENT_TEMPLATE;
+  const [content, setContent] = useState(savedContent);
+  const isDefault = plan.amendment_template_content === null;
+
+  const handleSave = async () => {
+    await updatePlan.mutateAsync({ id: plan.id, amendment_template_content: content });
+  };
+
+  // Clearing the column makes the plan follow the default template, including future changes to it
+  const handleRestoreDefault = async () => {
+    await updatePlan.mutateAsync({ id: plan.id, amendment_template_content: null });
+    setContent(DEFAULT_AMENDMENT_TEMPLATE);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Template do Aditivo</h1>
+          <p className="text-muted-foreground">
+            {plan.name} {isDefault ? '- Usando o template padrão' : '- Template personalizado'}
+          </p>
+          {content !== savedContent && <p className="text-sm text-primary mt-1">• Alterações não salvas</p>}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => navigate('/settings/plans')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar
+          </Button>
+          {!isDefault && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" disabled={updatePlan.isPending}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restaurar padrão
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Restaurar template padrão?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    O template personalizado deste plano será descartado e os próximos aditivos usarão o template
+                    padrão.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleRestoreDefault}>Restaurar</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+          <Button onClick={handleSave} disabled={updatePlan.isPending || content === savedContent}>
+            {updatePlan.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Salvar Template
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Conteúdo do Aditivo</CardTitle>
+          <CardDescription>
+            Usado nos aditivos dos contratos deste plano enviados para assinatura. Os campos do contrato trazem os
+            valores em vigor antes do aditivo; os campos do aditivo, o que ele altera.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TemplateEditor
+            content={content}
+            onChange={setContent}
+            variables={plan.plan_variables ?? []}
+            includeAmendmentVariables
+            includeSignatureMarkers
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function AmendmentTemplateEditorPage() {
+  const { planId } = useParams<{ planId: string }>();
+  const { plans, isLoading } = usePlans();
+  const plan = plans.find((p) => p.id === planId);
+
+  if (isLoading) {
+    return (
+      <AppLayout>
+        <div className="p-6 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  if (!plan) {
+    return (
+      <AppLayout>
+        <div className="p-6">
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">Plano não encontrado</CardContent>
+          </Card>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <AmendmentTemplateForm key={plan.id} plan={plan} />
+    </AppLayout>
+  );
+}
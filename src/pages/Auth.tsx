@@ -10,7 +10,7 @@ import { useToast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
 
 export default function Auth() {
-  const { user, loading, signInWithGoogle, signInWithPassword, isAuthorizedDomain } = useAuth();
+  const { user, loading, signInWithGoogle, signInWithPassword, role } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   
@@ -20,13 +20,13 @@ export default function Auth() {
 
   useEffect(() => {
     if (!loading && user) {
-      if (isAuthorizedDomain) {
+      if (role) {
         navigate('/dashboard');
       } else {
         navigate('/unauthorized');
       }
     }
-  }, [user, loading, isAuthorizedDomain, navigate]);
+  }, [user, loading, role, navigate]);
 
   const handleGoogleSignIn = async () => {
     try {
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -15,23 +16,10 @@ import {
 } from '@/components/ui/select';
 import { Loader2, CheckCircle, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-
-interface Contract {
-  id: string;
-  client_name: string;
-  client_email: string | null;
-  client_phone: string | null;
-  plan_id: string | null;
-  custom_data: Record<string, string> | null;
-  status: string;
-  client_filled_at: string | null;
-}
-
-interface Plan {
-  id: string;
-  name: string;
-  plan_variables: PlanVariable[];
-}
+import { ADDRESS_FIELD_TYPE, DOCUMENT_FIELD_TYPES, isFieldEmpty, maskFieldValue, validateFieldValue } from '@/lib/fieldTypes';
+import { AddressFieldInput } from '@/components/contracts/AddressFieldInput';
+import { CnpjFieldInput } from '@/components/contracts/CnpjFieldInput';
+import { CompanyData, companyVariableValues } from '@/lib/companyLookup';
 
 interface PlanVariable {
   id: string;
@@ -43,6 +31,34 @@ interface PlanVariable {
   description: string | null;
 }
 
+// Response of the get-client-form edge function
+interface ClientForm {
+  client_name: string;
+  submitted: boolean;
+  expires_at: string | null;
+  variables: PlanVariable[];
+  values: Record<string, string>;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid_token: 'Link inválido',
+  not_found: 'Contrato não encontrado',
+  expired: 'Este link expirou. Solicite um novo link à equipe responsável pelo contrato.',
+  unavailable: 'Este contrato não está mais disponível para preenchimento.',
+};
+
+// Edge function errors carry { error, code, details } in the response body
+async function readFunctionError(error: unknown): Promise<{ code?: string; details?: string[] }> {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      return await error.context.json();
+    } catch {
+      return {};
+    }
+  }
+  return {};
+}
+
 export default function ClientContractForm() {
   const { token } = useParams<{ token: string }>();
   const { toast } = useToast();
@@ -52,12 +68,12 @@ export default function ClientContractForm() {
   const [submitted, setSubmitted] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
-  const [contract, setContract] = useState<Contract | null>(null);
-  const [plan, setPlan] = useState<Plan | null>(null);
+  const [form, setForm] = useState<ClientForm | null>(null);
   const [formData, setFormData] = useState<Record<string, string>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
-    const fetchContract = async () => {
+    const fetchForm = async () => {
       if (!token) {
         setError('Token inválido');
         setLoading(false);
@@ -65,44 +81,18 @@ export default function ClientContractForm() {
       }
 
       try {
-        const { data: contractData, error: contractError } = await supabase
-          .from('contracts')
-          .select('*')
-          .eq('client_token', token)
-          .maybeSingle();
+        const response = await supabase.functions.invoke('get-client-form', { body: { token } });
 
-        if (contractError) throw contractError;
-        if (!contractData) {
-          setError('Contrato não encontrado');
-          setLoading(false);
+        if (response.error) {
+          const { code } = await readFunctionError(response.error);
+          setError((code && ERROR_MESSAGES[code]) || 'Erro ao carregar o contrato');
           return;
         }
 
-        setContract(contractData as Contract);
-        
-        if (contractData.client_filled_at) {
-          setSubmitted(true);
-        }
-
-        if (contractData.plan_id) {
-          const { data: planData, error: planError } = await supabase
-            .from('plans')
-            .select('*, plan_variables(*)')
-            .eq('id', contractData.plan_id)
-            .maybeSingle();
-
-          if (!planError && planData) {
-            setPlan(planData as Plan);
-            
-            // Initialize form data with existing custom_data or empty values
-            const existingData = (contractData.custom_data as Record<string, string>) || {};
-            const initialData: Record<string, string> = {};
-            planData.plan_variables?.forEach((v: PlanVariable) => {
-              initialData[v.variable_name] = existingData[v.variable_name] || '';
-            });
-            setFormData(initialData);
-          }
-        }
+        const data = response.data as ClientForm;
+        setForm(data);
+        setSubmitted(data.submitted);
+        setFormData(data.values);
       } catch (err) {
         setError('Erro ao carregar o contrato');
         console.error(err);
@@ -111,23 +101,39 @@ export default function ClientContractForm() {
       }
     };
 
-    fetchContract();
+    fetchForm();
   }, [token]);
 
   const handleInputChange = (variableName: string, value: string) => {
     setFormData((prev) => ({ ...prev, [variableName]: value }));
+    setFieldErrors(({ [variableName]: _cleared, ...rest }) => rest);
+  };
+
+  const handleCompanyFound = (cnpjVariableName: string, company: CompanyData) => {
+    if (!form) return;
+    const values = companyVariableValues(company, form.variables, cnpjVariableName);
+    setFormData((prev) => ({ ...prev, ...values }));
+    setFieldErrors((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([key]) => !(key in values)))
+    );
+    if (Object.keys(values).length > 0) {
+      toast({
+        title: 'Dados da empresa preenchidos',
+        description: 'Confira os campos preenchidos antes de enviar.',
+      });
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!contract) return;
+    if (!form) return;
 
     // Validate required fields
-    const missingRequired = plan?.plan_variables?.filter(
-      (v) => v.required && !formData[v.variable_name]?.trim()
+    const missingRequired = form.variables.filter(
+      (v) => v.required && isFieldEmpty(v.field_type, formData[v.variable_name])
     );
 
-    if (missingRequired && missingRequired.length > 0) {
+    if (missingRequired.length > 0) {
       toast({
         title: 'Campos obrigatórios',
         description: `Por favor, preencha: ${missingRequired.map((v) => v.label).join(', ')}`,
@@ -136,19 +142,44 @@ export default function ClientContractForm() {
       return;
     }
 
+    // CPF/CNPJ check digits and the other document formats
+    const errors: Record<string, string> = {};
+    for (const variable of form.variables) {
+      const error = validateFieldValue(variable.field_type, formData[variable.variable_name] ?? '');
+      if (error) errors[variable.variable_name] = error;
+    }
+    setFieldErrors(errors);
+
+    const invalid = form.variables.filter((v) => errors[v.variable_name]);
+    if (invalid.length > 0) {
+      toast({
+        title: 'Dados inválidos',
+        description: `Verifique: ${invalid.map((v) => v.label).join(', ')}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setSubmitting(true);
 
     try {
-      const { error: updateError } = await supabase
-        .from('contracts')
-        .update({
-          custom_data: formData,
-          client_filled_at: new Date().toISOString(),
-          status: 'awaiting_signature',
-        })
-        .eq('client_token', token);
+      const response = await supabase.functions.invoke('submit-client-form', {
+        body: { token, data: formData },
+      });
 
-      if (updateError) throw updateError;
+      if (response.error) {
+        const { code, details } = await readFunctionError(response.error);
+        if (code === 'already_submitted') {
+          setSubmitted(true);
+          return;
+        }
+        if (code && ERROR_MESSAGES[code]) {
+          setError(ERROR_MESSAGES[code]);
+          return;
+        }
+        console.error('Client form rejected:', details);
+        throw response.error;
+      }
 
       setSubmitted(true);
       toast({
@@ -175,6 +206,44 @@ export default function ClientContractForm() {
       required: variable.required,
     };
 
+    if (variable.field_type === ADDRESS_FIELD_TYPE) {
+      return (
+        <AddressFieldInput
+          id={variable.variable_name}
+          value={value}
+          onChange={(address) => handleInputChange(variable.variable_name, address)}
+          required={variable.required}
+        />
+      );
+    }
+
+    if (variable.field_type === 'cnpj' || variable.field_type === 'cpf_cnpj') {
+      return (
+        <CnpjFieldInput
+          id={variable.variable_name}
+          fieldType={variable.field_type}
+          value={value}
+          onChange={(cnpj) => handleInputChange(variable.variable_name, cnpj)}
+          onCompanyFound={(company) => handleCompanyFound(variable.variable_name, company)}
+          token={token}
+          required={variable.required}
+        />
+      );
+    }
+
+    const documentType = DOCUMENT_FIELD_TYPES[variable.field_type];
+    if (documentType) {
+      return (
+        <Input
+          type="text"
+          inputMode={documentType.inputMode}
+          placeholder={documentType.placeholder}
+          {...commonProps}
+          onChange={(e) => handleInputChange(variable.variable_name, maskFieldValue(variable.field_type, e.target.value))}
+        />
+      );
+    }
+
     switch (variable.field_type) {
       case 'number':
         return <Input type="number" {...commonProps} />;
@@ -188,6 +257,8 @@ export default function ClientContractForm() {
         return <Input type="number" step="0.01" min="0" {...commonProps} />;
       case 'textarea':
         return <Textarea {...commonProps} />;
+      case 'list':
+        return <Textarea placeholder="Um item por linha" {...commonProps} />;
       case 'select':
         return (
           <Select
@@ -256,12 +327,12 @@ export default function ClientContractForm() {
           <CardHeader>
             <CardTitle>Preencher Dados do Contrato</CardTitle>
             <CardDescription>
-              Olá {contract?.client_name}, preencha os campos abaixo para completar o seu contrato.
+              Olá {form?.client_name}, preencha os campos abaixo para completar o seu contrato.
             </CardDescription>
           </CardHeader>
           <form onSubmit={handleSubmit}>
             <CardContent className="space-y-4">
-              {plan?.plan_variables?.map((variable) => (
+              {form?.variables.map((variable) => (
                 <div key={variable.id}>
                   <Label htmlFor={variable.variable_name}>
                     {variable.label}
@@ -271,10 +342,13 @@ export default function ClientContractForm() {
                     <p className="text-xs text-muted-foreground mb-1">{variable.description}</p>
                   )}
                   {renderVariableInput(variable, formData[variable.variable_name] || '')}
+                  {fieldErrors[variable.variable_name] && (
+                    <p className="text-xs text-destructive mt-1">{fieldErrors[variable.variable_name]}</p>
+                  )}
                 </div>
               ))}
 
-              {(!plan?.plan_variables || plan.plan_variables.length === 0) && (
+              {(!form || form.variables.length === 0) && (
                 <p className="text-muted-foreground text-center py-4">
                   Não há campos para preencher neste contrato.
                 </p>
@@ -284,7 +358,7 @@ export default function ClientContractForm() {
               <Button
                 type="submit"
                 className="w-full"
-                disabled={submitting || !plan?.plan_variables?.length}
+                disabled={submitting || !form?.variables.length}
               >
                 {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                 Enviar Dados
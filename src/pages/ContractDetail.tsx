@@ -1,14 +1,36 @@
 import { useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { useContracts } from '@/hooks/useContracts';
+import { useContracts, SIGNED_CONTRACT_STATUSES } from '@/hooks/useContracts';
 import { usePlans } from '@/hooks/usePlans';
 import { ContractStatusBadge } from '@/components/contracts/ContractStatusBadge';
-import { Loader2, Edit, FileText, Trash2 } from 'lucide-react';
+import { ContractSignersCard } from '@/components/contracts/ContractSignersCard';
+import { useContractSigners } from '@/hooks/useContractSigners';
+import { ContractTimeline } from '@/components/contracts/ContractTimeline';
+import { ContractDocumentSnapshotCard } from '@/components/contracts/ContractDocumentSnapshotCard';
+import { ContractRenewalCard, AutoRenewSettings } from '@/components/contracts/ContractRenewalCard';
+import { RenewContractDialog } from '@/components/contracts/RenewContractDialog';
+import { ContractReadjustmentCard } from '@/components/contracts/ContractReadjustmentCard';
+import { ContractAmendmentsCard } from '@/components/contracts/ContractAmendmentsCard';
+import { NewAmendmentDialog } from '@/components/contracts/NewAmendmentDialog';
+import { useContractAmendments, ContractAmendment, CreateContractAmendmentData } from '@/hooks/useContractAmendments';
+import { useIndexRates } from '@/hooks/useIndexRates';
+import { useContractDocuments } from '@/hooks/useContractDocuments';
+import { useContractEvents } from '@/hooks/useContractEvents';
+import { useTemplateVersions } from '@/hooks/useTemplateVersions';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Edit, FileText, Trash2, Download, Copy, RotateCcw, FileDown, RefreshCw } from 'lucide-react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { renderContractDocument } from '@/lib/templateEngine';
+import { downloadDocx } from '@/lib/htmlToDocx';
+import { ADDRESS_FIELD_TYPE } from '@/lib/fieldTypes';
+import { formatAddress, parseAddress } from '@/lib/address';
+import { CONTRACT_CATEGORY_LABELS } from '@/lib/contractCategories';
+import { ReadjustmentBreakdown, ReadjustmentConfig, describeReadjustment } from '@/lib/readjustment';
 import { Label } from '@/components/ui/label';
 import {
   Select,
@@ -38,23 +60,29 @@ const STATUS_OPTIONS = [
   { value: 'cancelled', label: 'Cancelado' },
 ];
 
-const CONTRACT_CATEGORY_LABELS: Record<string, string> = {
-  client: 'Cliente',
-  service_provider_pj: 'Prestador de Serviço (PJ)',
-  service_provider_pf: 'Prestador de Serviço (PF)',
-  vendor_service: 'Serviços Contratados',
-  partnership: 'Parceria',
-  other: 'Outro',
-};
-
 export default function ContractDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { contracts, isLoading, updateContract, deleteContract } = useContracts();
+  const { contracts, isLoading, updateContract, renewContract, reopenClientForm, deleteContract } = useContracts();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [isDeleting, setIsDeleting] = useState(false);
+  // The dashboard's "Renovar" links here with ?renovar=1
+  const [renewOpen, setRenewOpen] = useState(searchParams.get('renovar') === '1');
+  const [exportingDocx, setExportingDocx] = useState(false);
   const { plans } = usePlans();
+  const { signers } = useContractSigners(id);
+  const { events, isLoading: eventsLoading } = useContractEvents(id);
+  const { documents } = useContractDocuments(id);
+  const { amendments, createAmendment, sendAmendment, updateAmendmentStatus } = useContractAmendments(id);
+  const [newAmendmentOpen, setNewAmendmentOpen] = useState(false);
+  const { rates: indexRates } = useIndexRates();
+  const { can } = useAuth();
+  const { toast } = useToast();
   const contract = contracts.find((c) => c.id === id);
   const plan = plans.find((p) => p.id === contract?.plan_id);
+  const { versions: templateVersions } = useTemplateVersions(contract?.plan_id);
+  // Show the document as it was rendered, not the plan's latest template
+  const templateVersion = templateVersions.find((v) => v.id === contract?.template_version_id);
 
   if (isLoading) {
     return (
@@ -80,7 +108,12 @@ export default function ContractDetail() {
     );
   }
 
-  const contractCategory = (contract as any).contract_category || 'client';
+  const contractCategory = contract.contract_category;
+  const predecessor = contracts.find((c) => c.id === contract.renewed_from_id);
+  const renewal = contracts.find((c) => c.renewed_from_id === contract.id);
+  const canRenew = can('contracts.create') && SIGNED_CONTRACT_STATUSES.includes(contract.status) && !renewal;
+  // A signed contract can only move between active and expired; the database rejects anything else
+  const isSigned = SIGNED_CONTRACT_STATUSES.includes(contract.status);
 
   const handleStatusChange = async (newStatus: string) => {
     await updateContract.mutateAsync({
@@ -89,6 +122,68 @@ export default function ContractDetail() {
     });
   };
 
+  const handleRenewOpenChange = (open: boolean) => {
+    setRenewOpen(open);
+    if (!open && searchParams.has('renovar')) setSearchParams({}, { replace: true });
+  };
+
+  const handleRenew = async (data: { readjustment_percent: number | null; start_date: string; duration_months: number }) => {
+    const created = await renewContract.mutateAsync({ id: contract.id, ...data });
+    setRenewOpen(false);
+    // The renewal is a draft: review it and send it for signature
+    navigate(`/contracts/${created.id}/edit`);
+  };
+
+  const handleAutoRenewSave = async (settings: AutoRenewSettings) => {
+    await updateContract.mutateAsync({ id: contract.id, ...settings });
+  };
+
+  const handleReadjustmentSave = async (config: ReadjustmentConfig) => {
+    await updateContract.mutateAsync({ id: contract.id, ...config });
+  };
+
+  // The new value only applies once the amendment is signed
+  const handleGenerateReadjustment = async (breakdown: ReadjustmentBreakdown) => {
+    await createAmendment.mutateAsync({
+      contract_id: contract.id,
+      kind: 'readjustment',
+      title: `Reajuste anual ${breakdown.anniversary.slice(0, 4)}`,
+      description: describeReadjustment(breakdown),
+      monthly_value: breakdown.new_value,
+      effective_date: breakdown.anniversary,
+      readjustment: breakdown,
+    });
+  };
+
+  const handleCreateAmendment = async (data: CreateContractAmendmentData) => {
+    await createAmendment.mutateAsync(data);
+    setNewAmendmentOpen(false);
+  };
+
+  // Amendments are signed by the contract's signers; the client is the main recipient
+  const handleSendAmendment = async (amendment: ContractAmendment) => {
+    const recipient = contract.client_email
+      ? { name: contract.client_name, email: contract.client_email }
+      : signers[0];
+    if (!recipient) {
+      toast({
+        title: 'Sem destinatário',
+        description: 'Informe o e-mail do cliente para enviar o aditivo.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    await sendAmendment.mutateAsync({ amendment, signerName: recipient.name, signerEmail: recipient.email });
+  };
+
+  const handleAmendmentStatusChange = async (
+    amendment: ContractAmendment,
+    status: 'signed' | 'cancelled',
+    signedFile?: File
+  ) => {
+    await updateAmendmentStatus.mutateAsync({ amendment, status, signedFile });
+  };
+
   const handleDelete = async () => {
     setIsDeleting(true);
     try {
@@ -99,30 +194,52 @@ export default function ContractDetail() {
     }
   };
 
+  const handleCopyClientFormLink = async () => {
+    await navigator.clipboard.writeText(`${window.location.origin}/client-form/${contract.client_token}`);
+    toast({
+      title: 'Link copiado!',
+      description: 'O link foi copiado para a área de transferência.',
+    });
+  };
+
+  const clientFormExpired = !!contract.client_token_expires_at && new Date(contract.client_token_expires_at) < new Date();
+  // Same statuses the client form accepts: once submitted (awaiting_signature) the link is read-only
+  // until the form is reopened with a new link. Sending the contract to Autentique clears the token.
+  const clientFormOpen =
+    !!contract.client_token && ['draft', 'sent_to_client', 'awaiting_signature'].includes(contract.status);
+
   const customData = contract.custom_data as Record<string, string> | null;
 
-  // Generate filled template content
-  const getFilledTemplateContent = () => {
-    if (!plan?.template_content) return '';
-    
-    let filledContent = plan.template_content;
-    
-    // Replace custom variables
-    if (customData) {
-      Object.entries(customData).forEach(([key, value]) => {
-        const regex = new RegExp(`\\{\\{${key}\\}\\}`, 'g');
-        filledContent = filledContent.replace(regex, value || `{{${key}}}`);
+  // Address fields are stored as JSON; show them as one line
+  const displayCustomValue = (key: string, value: string) => {
+    const variable = plan?.plan_variables?.find((v) => v.variable_name === key);
+    const address = variable?.field_type === ADDRESS_FIELD_TYPE ? parseAddress(value) : null;
+    return address ? formatAddress(address) : value;
+  };
+
+  const templateContent = templateVersion?.content ?? plan?.template_content ?? null;
+  const renderedDocument = renderContractDocument({ template_content: templateContent }, plan?.plan_variables ?? [], {
+    ...contract,
+    contract_category: contractCategory,
+  });
+
+  // The document sent for signature when there is one, otherwise the current rendering
+  const documentHtml = documents[0]?.html ?? (templateContent ? renderedDocument.html : null);
+
+  const handleDownloadDocx = async () => {
+    if (!documentHtml) return;
+    setExportingDocx(true);
+    try {
+      await downloadDocx(documentHtml, `Contrato - ${contract.client_name}`);
+    } catch (error) {
+      toast({
+        title: 'Erro ao gerar DOCX',
+        description: error instanceof Error ? error.message : 'Não foi possível gerar o arquivo.',
+        variant: 'destructive',
       });
+    } finally {
+      setExportingDocx(false);
     }
-    
-    // Replace common contract variables
-    filledContent = filledContent.replace(/\{\{client_name\}\}/g, contract.client_name || '{{client_name}}');
-    filledContent = filledContent.replace(/\{\{start_date\}\}/g, contract.start_date ? format(new Date(contract.start_date), 'dd/MM/yyyy') : '{{start_date}}');
-    filledContent = filledContent.replace(/\{\{end_date\}\}/g, contract.end_date ? format(new Date(contract.end_date), 'dd/MM/yyyy') : '{{end_date}}');
-    filledContent = filledContent.replace(/\{\{monthly_value\}\}/g, contract.monthly_value ? `R$ ${Number(contract.monthly_value).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}` : '{{monthly_value}}');
-    filledContent = filledContent.replace(/\{\{total_value\}\}/g, contract.total_value ? `R$ ${Number(contract.total_value).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}` : '{{total_value}}');
-    
-    return filledContent;
   };
 
   return (
@@ -141,37 +258,61 @@ export default function ContractDetail() {
             </p>
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" onClick={() => navigate(`/contracts/${contract.id}/edit`)}>
-              <Edit className="h-4 w-4 mr-2" />
-              Editar
-            </Button>
-            <AlertDialog>
-              <AlertDialogTrigger asChild>
-                <Button variant="destructive">
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Excluir
-                </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>Excluir contrato?</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    Esta ação não pode ser desfeita. O contrato de <strong>{contract.client_name}</strong> será permanentemente excluído do sistema.
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter>
-                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                  <AlertDialogAction 
-                    onClick={handleDelete}
-                    disabled={isDeleting}
-                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                  >
-                    {isDeleting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
-                    Confirmar Exclusão
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
+            {contract.generated_document_url && (
+              <Button variant="outline" asChild>
+                <a href={contract.generated_document_url} target="_blank" rel="noopener noreferrer">
+                  <Download className="h-4 w-4 mr-2" />
+                  Baixar PDF
+                </a>
+              </Button>
+            )}
+            {documentHtml && (
+              <Button variant="outline" onClick={handleDownloadDocx} disabled={exportingDocx}>
+                {exportingDocx ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+                Baixar DOCX
+              </Button>
+            )}
+            {canRenew && (
+              <Button variant="outline" onClick={() => setRenewOpen(true)}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Renovar
+              </Button>
+            )}
+            {can('contracts.edit') && (
+              <Button variant="outline" onClick={() => navigate(`/contracts/${contract.id}/edit`)}>
+                <Edit className="h-4 w-4 mr-2" />
+                Editar
+              </Button>
+            )}
+            {can('contracts.delete') && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Excluir
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Excluir contrato?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Esta ação não pode ser desfeita. O contrato de <strong>{contract.client_name}</strong> será permanentemente excluído do sistema.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction 
+                      onClick={handleDelete}
+                      disabled={isDeleting}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      {isDeleting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                      Confirmar Exclusão
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
           </div>
         </div>
 
@@ -197,12 +338,23 @@ export default function ContractDetail() {
                   <p className="font-medium">
                     {format(new Date(contract.end_date), 'dd/MM/yyyy')}
                   </p>
+                  {contract.original_terms && contract.original_terms.end_date !== contract.end_date && (
+                    <p className="text-xs text-muted-foreground">
+                      Término original: {format(new Date(contract.original_terms.end_date), 'dd/MM/yyyy')}
+                    </p>
+                  )}
                 </div>
                 <div>
                   <Label className="text-muted-foreground">Valor Mensal</Label>
                   <p className="font-medium text-primary">
                     R$ {Number(contract.monthly_value).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
                   </p>
+                  {contract.original_terms && Number(contract.original_terms.monthly_value) !== Number(contract.monthly_value) && (
+                    <p className="text-xs text-muted-foreground">
+                      Valor original: R${' '}
+                      {Number(contract.original_terms.monthly_value).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                    </p>
+                  )}
                 </div>
                 <div>
                   <Label className="text-muted-foreground">Valor Total</Label>
@@ -217,13 +369,17 @@ export default function ContractDetail() {
               </div>
               <div>
                 <Label className="text-muted-foreground">Status</Label>
-                <Select value={contract.status} onValueChange={handleStatusChange}>
+                <Select value={contract.status} onValueChange={handleStatusChange} disabled={!can('contracts.edit')}>
                   <SelectTrigger className="w-full mt-1">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
                     {STATUS_OPTIONS.map((option) => (
-                      <SelectItem key={option.value} value={option.value}>
+                      <SelectItem
+                        key={option.value}
+                        value={option.value}
+                        disabled={isSigned && !SIGNED_CONTRACT_STATUSES.includes(option.value as typeof contract.status)}
+                      >
                         {option.label}
                       </SelectItem>
                     ))}
@@ -255,10 +411,102 @@ export default function ContractDetail() {
                   <p className="font-medium">{contract.client_phone}</p>
                 </div>
               )}
+              {clientFormOpen && (
+                <div>
+                  <Label className="text-muted-foreground">Formulário do cliente</Label>
+                  <p className="font-medium">
+                    {contract.client_filled_at
+                      ? `Preenchido em ${format(new Date(contract.client_filled_at), 'dd/MM/yyyy HH:mm')}`
+                      : clientFormExpired
+                        ? 'Link expirado'
+                        : contract.client_token_expires_at
+                          ? `Aguardando preenchimento até ${format(new Date(contract.client_token_expires_at), 'dd/MM/yyyy')}`
+                          : 'Aguardando preenchimento'}
+                  </p>
+                  <div className="flex gap-2 mt-2">
+                    {!contract.client_filled_at && !clientFormExpired && (
+                      <Button variant="outline" size="sm" onClick={handleCopyClientFormLink}>
+                        <Copy className="h-4 w-4 mr-2" />
+                        Copiar link
+                      </Button>
+                    )}
+                    {can('contracts.edit') && (contract.client_filled_at || clientFormExpired) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => reopenClientForm.mutate(contract)}
+                        disabled={reopenClientForm.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Reabrir formulário
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
 
+        {signers.length > 0 && <ContractSignersCard signers={signers} category={contractCategory} />}
+
+        <ContractRenewalCard
+          key={contract.id}
+          contract={contract}
+          predecessor={predecessor}
+          renewal={renewal}
+          canEdit={can('contracts.edit')}
+          onSave={handleAutoRenewSave}
+          isSaving={updateContract.isPending}
+        />
+
+        <ContractReadjustmentCard
+          key={`readjustment-${contract.id}`}
+          contract={contract}
+          rates={indexRates}
+          amendments={amendments}
+          canEdit={can('contracts.edit')}
+          onSave={handleReadjustmentSave}
+          isSaving={updateContract.isPending}
+          onGenerateAmendment={handleGenerateReadjustment}
+          isGenerating={createAmendment.isPending}
+        />
+
+        {(amendments.length > 0 || contract.status === 'active') && (
+          <ContractAmendmentsCard
+            contract={contract}
+            amendments={amendments}
+            canEdit={can('contracts.edit')}
+            canSignManually={can('amendments.sign_manually')}
+            onNew={() => setNewAmendmentOpen(true)}
+            onSend={handleSendAmendment}
+            isSending={sendAmendment.isPending}
+            onStatusChange={handleAmendmentStatusChange}
+            isUpdating={updateAmendmentStatus.isPending}
+          />
+        )}
+
+        {newAmendmentOpen && (
+          <NewAmendmentDialog
+            open={newAmendmentOpen}
+            onOpenChange={setNewAmendmentOpen}
+            contract={contract}
+            onSubmit={handleCreateAmendment}
+            isLoading={createAmendment.isPending}
+          />
+        )}
+
+        {canRenew && renewOpen && (
+          <RenewContractDialog
+            open={renewOpen}
+            onOpenChange={handleRenewOpenChange}
+            contract={contract}
+            defaultReadjustmentPercent={contract.auto_renew_readjustment_percent}
+            onSubmit={handleRenew}
+            isLoading={renewContract.isPending}
+          />
+        )}
+
         {/* Custom Fields */}
         {customData && Object.keys(customData).length > 0 && (
           <Card>
@@ -270,7 +518,7 @@ export default function ContractDetail() {
                 {Object.entries(customData).map(([key, value]) => (
                   <div key={key} className="p-3 bg-accent/30 rounded-lg">
                     <Label className="text-muted-foreground text-xs">{key}</Label>
-                    <p className="font-medium">{value || '-'}</p>
+                    <p className="font-medium">{displayCustomValue(key, value) || '-'}</p>
                   </div>
                 ))}
               </div>
@@ -279,7 +527,15 @@ export default function ContractDetail() {
         )}
 
 
-        {plan?.template_content && (
+        {/* Once sent for signature, show the stored document rather than re-rendering it */}
+        {documents.length > 0 ? (
+          <ContractDocumentSnapshotCard
+            documents={documents}
+            templateVersionNumber={
+              templateVersions.find((v) => v.id === documents[0].template_version_id)?.version_number
+            }
+          />
+        ) : templateContent && (
           <Card className="border-t-4 border-t-primary">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -288,16 +544,29 @@ export default function ContractDetail() {
               </CardTitle>
               <CardDescription>
                 Contrato preenchido com as variáveis substituídas
+                {templateVersion && ` • Template versão ${templateVersion.version_number}`}
               </CardDescription>
+              {renderedDocument.unresolved.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Variáveis não preenchidas: {renderedDocument.unresolved.join(', ')}
+                </p>
+              )}
+              {renderedDocument.errors.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Erros no template: {renderedDocument.errors.join('; ')}
+                </p>
+              )}
             </CardHeader>
             <CardContent>
               <div 
                 className="border rounded-lg p-6 bg-card prose prose-sm dark:prose-invert max-w-none max-h-[600px] overflow-auto"
-                dangerouslySetInnerHTML={{ __html: getFilledTemplateContent() }}
+                dangerouslySetInnerHTML={{ __html: renderedDocument.html }}
               />
             </CardContent>
           </Card>
         )}
+
+        <ContractTimeline events={events} isLoading={eventsLoading} />
       </div>
     </AppLayout>
   );
@@ -4,6 +4,7 @@ import { Plus, Search } from 'lucide-react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import {
   Select,
   SelectContent,
@@ -20,7 +21,9 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { ContractStatusBadge } from '@/components/contracts/ContractStatusBadge';
-import { useContracts, ContractStatus } from '@/hooks/useContracts';
+import { useContracts, ContractStatus, isStaleContract } from '@/hooks/useContracts';
+import { useAuth } from '@/contexts/AuthContext';
+import { CONTRACT_CATEGORY_LABELS, CONTRACT_CATEGORY_VALUES } from '@/lib/contractCategories';
 import { Skeleton } from '@/components/ui/skeleton';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
@@ -28,8 +31,10 @@ import { ptBR } from 'date-fns/locale';
 export default function ContractsList() {
   const navigate = useNavigate();
   const { contracts, isLoading } = useContracts();
+  const { can } = useAuth();
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [categoryFilter, setCategoryFilter] = useState<string>('all');
 
   const filteredContracts = contracts.filter((contract) => {
     const matchesSearch = contract.client_name
@@ -37,7 +42,9 @@ export default function ContractsList() {
       .includes(search.toLowerCase());
     const matchesStatus =
       statusFilter === 'all' || contract.status === statusFilter;
-    return matchesSearch && matchesStatus;
+    const matchesCategory =
+      categoryFilter === 'all' || contract.contract_category === categoryFilter;
+    return matchesSearch && matchesStatus && matchesCategory;
   });
 
   return (
@@ -50,12 +57,14 @@ export default function ContractsList() {
               Gerencie todos os contratos
             </p>
           </div>
-          <Button asChild>
-            <Link to="/contracts/new">
-              <Plus className="h-4 w-4 mr-2" />
-              Novo Contrato
-            </Link>
-          </Button>
+          {can('contracts.create') && (
+            <Button asChild>
+              <Link to="/contracts/new">
+                <Plus className="h-4 w-4 mr-2" />
+                Novo Contrato
+              </Link>
+            </Button>
+          )}
         </div>
 
         {/* Filters */}
@@ -83,6 +92,19 @@ export default function ContractsList() {
               <SelectItem value="cancelled">Cancelado</SelectItem>
             </SelectContent>
           </Select>
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Filtrar por categoria" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as categorias</SelectItem>
+              {CONTRACT_CATEGORY_VALUES.map((category) => (
+                <SelectItem key={category} value={category}>
+                  {CONTRACT_CATEGORY_LABELS[category]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         {/* Table */}
@@ -91,6 +113,7 @@ export default function ContractsList() {
             <TableHeader>
               <TableRow>
                 <TableHead>Cliente</TableHead>
+                <TableHead>Categoria</TableHead>
                 <TableHead>Plano</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Data de Término</TableHead>
@@ -103,6 +126,7 @@ export default function ContractsList() {
                   <TableRow key={i}>
                     <TableCell><Skeleton className="h-4 w-32" /></TableCell>
                     <TableCell><Skeleton className="h-4 w-24" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-24" /></TableCell>
                     <TableCell><Skeleton className="h-6 w-28" /></TableCell>
                     <TableCell><Skeleton className="h-4 w-24" /></TableCell>
                     <TableCell><Skeleton className="h-4 w-20 ml-auto" /></TableCell>
@@ -110,8 +134,8 @@ export default function ContractsList() {
                 ))
               ) : filteredContracts.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
-                    {search || statusFilter !== 'all'
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    {search || statusFilter !== 'all' || categoryFilter !== 'all'
                       ? 'Nenhum contrato encontrado com os filtros aplicados'
                       : 'Nenhum contrato cadastrado'}
                   </TableCell>
@@ -124,9 +148,17 @@ export default function ContractsList() {
                     onClick={() => navigate(`/contracts/${contract.id}`)}
                   >
                     <TableCell className="font-medium">{contract.client_name}</TableCell>
+                    <TableCell>{CONTRACT_CATEGORY_LABELS[contract.contract_category]}</TableCell>
                     <TableCell>{contract.plans?.name ?? '-'}</TableCell>
                     <TableCell>
-                      <ContractStatusBadge status={contract.status as ContractStatus} />
+                      <div className="flex flex-wrap items-center gap-2">
+                        <ContractStatusBadge status={contract.status as ContractStatus} />
+                        {isStaleContract(contract) && (
+                          <Badge variant="outline" className="text-muted-foreground" title="Sem alterações desde que foi sinalizado pelo agendador diário">
+                            Parado
+                          </Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>
                       {format(new Date(contract.end_date), 'dd/MM/yyyy', { locale: ptBR })}
@@ -4,11 +4,12 @@ import { KPICard } from '@/components/dashboard/KPICard';
 import { ContractsChart } from '@/components/dashboard/ContractsChart';
 import { FutureContractsChart } from '@/components/dashboard/FutureContractsChart';
 import { ExpiringContractsTable } from '@/components/dashboard/ExpiringContractsTable';
+import { ContractsByCategoryTable } from '@/components/dashboard/ContractsByCategoryTable';
 import { useDashboardStats } from '@/hooks/useDashboardStats';
 import { Skeleton } from '@/components/ui/skeleton';
 
 export default function Dashboard() {
-  const { stats, chartData, futureChartData, expiringContracts, isLoading } = useDashboardStats();
+  const { stats, chartData, futureChartData, categoryData, expiringContracts, isLoading } = useDashboardStats();
 
   return (
     <AppLayout>
@@ -76,6 +77,15 @@ export default function Dashboard() {
           )}
         </div>
 
+        {/* Contracts by category */}
+        <div>
+          {isLoading ? (
+            <Skeleton className="h-[300px]" />
+          ) : (
+            <ContractsByCategoryTable data={categoryData} />
+          )}
+        </div>
+
         {/* Expiring Contracts Table */}
         <div>
           {isLoading ? (
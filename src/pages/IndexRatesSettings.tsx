@@ -0,0 +1,186 @@
+import { useRef, useState } from 'react';
+import { Loader2, Upload } from 'lucide-react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useIndexRates } from '@/hooks/useIndexRates';
+import {
+  IndexRatesCsvResult,
+  READJUSTMENT_INDEX_LABELS,
+  READJUSTMENT_INDEX_VALUES,
+  ReadjustmentIndex,
+  parseIndexRatesCsv,
+} from '@/lib/indexRates';
+import { accumulateRates, formatPercent, formatReferenceMonth } from '@/lib/readjustment';
+
+// Month "yyyy-MM-01" shifted by a number of months
+function shiftMonth(referenceMonth: string, months: number): string {
+  const total = Number(referenceMonth.slice(0, 4)) * 12 + Number(referenceMonth.slice(5, 7)) - 1 + months;
+  return `${Math.floor(total / 12)}-${String((total % 12) + 1).padStart(2, '0')}-01`;
+}
+
+export default function IndexRatesSettings() {
+  const { rates, isLoading, importRates } = useIndexRates();
+  const [index, setIndex] = useState<ReadjustmentIndex>('IPCA');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<IndexRatesCsvResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const indexRates = rates.filter((rate) => rate.index_code === index);
+  const rateByMonth = new Map(indexRates.map((rate) => [rate.reference_month, Number(rate.rate)]));
+
+  // Accumulated over the 12 months ending in the given month, when all of them were imported
+  const accumulated12Months = (referenceMonth: string) => {
+    const months = Array.from({ length: 12 }, (_, i) => rateByMonth.get(shiftMonth(referenceMonth, i - 11)));
+    return months.every((rate) => rate !== undefined) ? accumulateRates(months as number[]) : null;
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setParsed(parseIndexRatesCsv(await file.text(), index));
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    await importRates.mutateAsync(parsed.rates);
+    setParsed(null);
+    setFileName(null);
+  };
+
+  return (
+    <AppLayout>
+      <div className="p-6 space-y-6 max-w-4xl">
+        <div>
+          <h1 className="text-3xl font-bold">Índices de Reajuste</h1>
+          <p className="text-muted-foreground">
+            Variações mensais do IPCA e do IGP-M usadas no reajuste anual dos contratos
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Importar CSV</CardTitle>
+            <CardDescription>
+              Uma linha por mês, no formato <code>índice;mês;variação</code> (ex.: <code>IPCA;2025-03;0,56</code>) ou{' '}
+              <code>mês;variação</code> para o índice selecionado. Meses já importados são substituídos.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+              <div className="w-full sm:w-48">
+                <Label>Índice</Label>
+                <Select value={index} onValueChange={(value) => setIndex(value as ReadjustmentIndex)}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {READJUSTMENT_INDEX_VALUES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {READJUSTMENT_INDEX_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,text/csv"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Selecionar arquivo
+              </Button>
+            </div>
+
+            {parsed && (
+              <div className="space-y-2 rounded-lg bg-accent/30 p-3 text-sm">
+                <p>
+                  <strong>{fileName}</strong>: {parsed.rates.length}{' '}
+                  {parsed.rates.length === 1 ? 'mês encontrado' : 'meses encontrados'}
+                  {parsed.rates.length > 0 &&
+                    ` (${formatReferenceMonth(parsed.rates[0].reference_month)} a ${formatReferenceMonth(
+                      parsed.rates[parsed.rates.length - 1].reference_month
+                    )})`}
+                </p>
+                {parsed.errors.length > 0 && (
+                  <ul className="text-destructive space-y-1">
+                    {parsed.errors.slice(0, 10).map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                    {parsed.errors.length > 10 && <li>E mais {parsed.errors.length - 10} linhas com erro</li>}
+                  </ul>
+                )}
+                <Button onClick={handleImport} disabled={importRates.isPending || parsed.rates.length === 0}>
+                  {importRates.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Importar
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{READJUSTMENT_INDEX_LABELS[index]}</CardTitle>
+            <CardDescription>Meses importados, do mais recente para o mais antigo</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="py-6 text-center">
+                <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+              </div>
+            ) : indexRates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum mês importado para este índice.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Mês</TableHead>
+                    <TableHead className="text-right">Variação</TableHead>
+                    <TableHead className="text-right">Acumulado 12 meses</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {indexRates.map((rate) => {
+                    const accumulated = accumulated12Months(rate.reference_month);
+                    return (
+                      <TableRow key={rate.reference_month}>
+                        <TableCell>{formatReferenceMonth(rate.reference_month)}</TableCell>
+                        <TableCell className="text-right">{formatPercent(Number(rate.rate))}</TableCell>
+                        <TableCell className="text-right">
+                          {accumulated === null ? '—' : formatPercent(accumulated)}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
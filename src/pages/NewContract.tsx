@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,27 +14,60 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { useContracts, ContractStatus } from '@/hooks/useContracts';
+import { useContracts, ContractStatus, SIGNED_CONTRACT_STATUSES } from '@/hooks/useContracts';
 import { usePlans } from '@/hooks/usePlans';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Upload, FileText, X, Copy, CheckCircle, Eye, ArrowRight, Share2, ExternalLink, FileSignature } from 'lucide-react';
+import { Loader2, Upload, FileText, X, Copy, CheckCircle, Eye, ArrowRight, Share2, ExternalLink, FileSignature, Lock, AlertTriangle, FileDown } from 'lucide-react';
 import { TemplateEditor } from '@/components/templates/TemplateEditor';
-import { SignaturePlacementStep, SignaturePosition } from '@/components/contracts/SignaturePlacementStep';
-import { addMonths, format } from 'date-fns';
-import { numberToCurrencyWords } from '@/lib/numberToWords';
+import { SignaturePlacementStep, SignaturePosition, GeneratedDocument } from '@/components/contracts/SignaturePlacementStep';
+import { ContractSignersEditor, SignerDraft } from '@/components/contracts/ContractSignersEditor';
+import { useContractSigners, ContractSigner } from '@/hooks/useContractSigners';
+import { ContractSignerInput, getDefaultSigners, getSignatureMarkers, signerRoleLabel } from '@/lib/signers';
+import {
+  CONTRACT_CATEGORY_LABELS,
+  CONTRACT_CATEGORY_VALUES,
+  ContractCategory,
+  DEFAULT_CONTRACT_CATEGORY,
+  toContractCategory,
+} from '@/lib/contractCategories';
+import { addMonths, differenceInMonths, format } from 'date-fns';
+import { renderContractDocument } from '@/lib/templateEngine';
+import { downloadDocx } from '@/lib/htmlToDocx';
+import { ADDRESS_FIELD_TYPE, DOCUMENT_FIELD_TYPES, maskFieldValue, validateFieldValue } from '@/lib/fieldTypes';
+import { AddressFieldInput } from '@/components/contracts/AddressFieldInput';
+import { CnpjFieldInput } from '@/components/contracts/CnpjFieldInput';
+import { CompanyData, companyVariableValues } from '@/lib/companyLookup';
 
 type CreatedContract = {
   id: string;
-  client_token: string;
+  // null once the contract is sent for signature: the form link then stops working
+  client_token: string | null;
   client_name: string;
   autentique_signature_link?: string;
 };
 
+// Statuses in which the contract can still be (re)sent to Autentique
+const SENDABLE_STATUSES: ContractStatus[] = ['draft', 'sent_to_client', 'awaiting_signature'];
+
+function buildDefaultSigners(category: string): SignerDraft[] {
+  return getDefaultSigners(category, { name: '', email: '' }).map((signer) => ({
+    ...signer,
+    key: signer.role,
+    linkedToClient: signer.role === 'client',
+  }));
+}
+
+// Also used at /contracts/:id/edit, where the form starts from the saved contract
+
 export default function NewContract() {
   const navigate = useNavigate();
-  const { createContract } = useContracts();
+  const { id: editingId } = useParams<{ id: string }>();
+  const isEditing = !!editingId;
+  const { contracts, isLoading: contractsLoading, createContract, updateContract } = useContracts();
+  const { signers: storedSigners, isLoading: signersLoading, saveSigners } = useContractSigners(editingId);
   const { plans, isLoading: plansLoading } = usePlans();
+  const editingContract = contracts.find((c) => c.id === editingId);
   const { toast } = useToast();
 
   const [isExistingContract, setIsExistingContract] = useState(false);
@@ -47,6 +80,14 @@ export default function NewContract() {
   // Signature placement step
   const [showSignaturePlacement, setShowSignaturePlacement] = useState(false);
   const [signaturePositions, setSignaturePositions] = useState<SignaturePosition[]>([]);
+  // Draft saved before generating the PDF, so going back and resubmitting updates it
+  const [draftContract, setDraftContract] = useState<CreatedContract | null>(null);
+  const [generatedDocument, setGeneratedDocument] = useState<GeneratedDocument | null>(null);
+  const [generatingPdf, setGeneratingPdf] = useState(false);
+  const [exportingDocx, setExportingDocx] = useState(false);
+  // Invalid CPF/CNPJ/CEP... values by variable name, shown under each field after a submit
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [savedSigners, setSavedSigners] = useState<ContractSigner[]>([]);
 
   const [formData, setFormData] = useState({
     client_name: '',
@@ -60,9 +101,22 @@ export default function NewContract() {
     total_value: '',
     custom_data: {} as Record<string, string>,
     status: 'draft' as ContractStatus,
-    contract_category: 'client',
+    contract_category: DEFAULT_CONTRACT_CATEGORY as ContractCategory,
   });
 
+  const [signers, setSigners] = useState<SignerDraft[]>(() => buildDefaultSigners(DEFAULT_CONTRACT_CATEGORY));
+
+  // Follow the category's signing order until extra signers are added
+  const handleCategoryChange = (value: string) => {
+    const category = toContractCategory(value);
+    setFormData((prev) => ({ ...prev, contract_category: category }));
+    setSigners((prev) => (prev.length <= 2 ? buildDefaultSigners(category) : prev));
+  };
+
+  const resolvedSigners = signers.map((s) =>
+    s.linkedToClient ? { ...s, name: formData.client_name, email: formData.client_email } : s
+  );
+
   // Template content for editing (with signature markers)
   const [editedTemplateContent, setEditedTemplateContent] = useState<string>('');
 
@@ -81,22 +135,105 @@ export default function NewContract() {
   const selectedPlan = plans.find((p) => p.id === formData.plan_id);
   const planVariables = selectedPlan?.plan_variables ?? [];
 
-  useEffect(() => {
-    if (selectedPlan) {
-      // Initialize custom_data with plan variables
+  const handlePlanChange = (planId: string) => {
+    const plan = plans.find((p) => p.id === planId);
+    if (!plan) return;
+    // Initialize custom_data with plan variables, keeping values of variables with the same name
+    setFormData((prev) => {
       const initialCustomData: Record<string, string> = {};
-      planVariables.forEach((v) => {
-        initialCustomData[v.variable_name] = '';
+      plan.plan_variables?.forEach((v) => {
+        initialCustomData[v.variable_name] = prev.custom_data[v.variable_name] ?? '';
       });
-      setFormData((prev) => ({ 
-        ...prev, 
+      return {
+        ...prev,
+        plan_id: planId,
         custom_data: initialCustomData,
-        monthly_value: selectedPlan.base_value.toString(),
-      }));
-      // Initialize template content for editing
-      setEditedTemplateContent(selectedPlan.template_content || '');
-    }
-  }, [formData.plan_id, selectedPlan]);
+        monthly_value: plan.base_value.toString(),
+      };
+    });
+    // Initialize template content for editing
+    setEditedTemplateContent(plan.template_content || '');
+  };
+
+  // Edit mode: load the saved contract into the form once everything it references is loaded
+  const [loadedContractId, setLoadedContractId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!editingContract || signersLoading || plansLoading || loadedContractId === editingContract.id) return;
+
+    const category = editingContract.contract_category;
+    const plan = plans.find((p) => p.id === editingContract.plan_id);
+    const customData = Object.fromEntries(
+      Object.entries(editingContract.custom_data ?? {}).map(([key, value]) => [key, value == null ? '' : String(value)])
+    );
+    const months = differenceInMonths(new Date(editingContract.end_date), new Date(editingContract.start_date));
+
+    setFormData({
+      client_name: editingContract.client_name,
+      client_email: editingContract.client_email ?? '',
+      client_phone: editingContract.client_phone ?? '',
+      plan_id: editingContract.plan_id ?? '',
+      start_date: editingContract.start_date,
+      duration_months: Math.max(1, months).toString(),
+      end_date: editingContract.end_date,
+      monthly_value: editingContract.monthly_value?.toString() ?? '',
+      total_value: editingContract.total_value.toString(),
+      custom_data: customData,
+      status: editingContract.status,
+      contract_category: category,
+    });
+    setSigners(
+      storedSigners.length > 0
+        ? storedSigners.map((signer) => ({
+            name: signer.name,
+            email: signer.email,
+            cpf: signer.cpf,
+            role: signer.role,
+            action: signer.action,
+            signing_order: signer.signing_order,
+            key: signer.id,
+            linkedToClient: signer.role === 'client' && signer.email === editingContract.client_email,
+          }))
+        : buildDefaultSigners(category)
+    );
+    setEditedTemplateContent(plan?.template_content || '');
+    setDraftContract({
+      id: editingContract.id,
+      client_token: editingContract.client_token ?? '',
+      client_name: editingContract.client_name,
+    });
+    setLoadedContractId(editingContract.id);
+  }, [editingContract, storedSigners, signersLoading, plans, plansLoading, loadedContractId]);
+
+  // Signed contracts only accept contact changes; everything printed in the document is locked
+  const isLocked = !!editingContract && SIGNED_CONTRACT_STATUSES.includes(editingContract.status);
+  const wasSent = !!editingContract?.autentique_document_id && SENDABLE_STATUSES.includes(editingContract.status);
+  const canSendForSignature = !isLocked && (!editingContract || SENDABLE_STATUSES.includes(editingContract.status));
+
+  // Saving signers recreates them, which drops their Autentique progress; only do it when they changed
+  const haveSignersChanged = () => {
+    const describe = (list: ContractSignerInput[]) =>
+      list.map((s) => [s.name, s.email, s.cpf ?? '', s.role, s.action].join('|')).join('\n');
+    return storedSigners.length === 0 || describe(storedSigners) !== describe(resolvedSigners);
+  };
+
+  // Whether the document sent to Autentique no longer matches the form
+  const hasDocumentChanges = () => {
+    if (!editingContract) return false;
+    const savedData = editingContract.custom_data ?? {};
+
+    return (
+      formData.client_name !== editingContract.client_name ||
+      (formData.plan_id || null) !== editingContract.plan_id ||
+      formData.contract_category !== editingContract.contract_category ||
+      formData.start_date !== editingContract.start_date ||
+      formData.end_date !== editingContract.end_date ||
+      Number(formData.monthly_value) !== Number(editingContract.monthly_value) ||
+      Object.entries(formData.custom_data).some(([key, value]) => value !== String(savedData[key] ?? '')) ||
+      editedTemplateContent !== (selectedPlan?.template_content || '') ||
+      (storedSigners.length > 0 && haveSignersChanged())
+    );
+  };
 
   // Calculate end date and total value based on start date and duration
   useEffect(() => {
@@ -165,6 +302,13 @@ export default function NewContract() {
   const handleFormSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (isEditing && !(canSendForSignature && editedTemplateContent)) {
+      await handleSaveChanges();
+      return;
+    }
+
+    if (!validateCustomData()) return;
+
     if (isExistingContract && !attachedFile) {
       toast({
         title: 'Erro',
@@ -186,7 +330,35 @@ export default function NewContract() {
 
     // If it's a new contract with template, show signature placement step
     if (!isExistingContract && editedTemplateContent && formData.client_email) {
-      setShowSignaturePlacement(true);
+      const { unresolved, errors } = getRenderedDocument();
+      if (errors.length > 0) {
+        toast({
+          title: 'Erro no template',
+          description: errors.join('; '),
+          variant: 'destructive',
+        });
+        return;
+      }
+      if (unresolved.length > 0) {
+        toast({
+          title: 'Contrato incompleto',
+          description: `Preencha as variáveis do template antes de enviar: ${unresolved.join(', ')}`,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const incompleteSigner = resolvedSigners.find((s) => !s.name.trim() || !s.email.trim());
+      if (incompleteSigner) {
+        toast({
+          title: 'Signatário incompleto',
+          description: `Informe nome e e-mail do signatário ${incompleteSigner.signing_order}.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      await generateDocument();
       return;
     }
 
@@ -194,6 +366,120 @@ export default function NewContract() {
     await submitContract([]);
   };
 
+  const getContractData = () => ({
+    client_name: formData.client_name,
+    client_email: formData.client_email || undefined,
+    client_phone: formData.client_phone || undefined,
+    plan_id: formData.plan_id || undefined,
+    start_date: formData.start_date,
+    end_date: formData.end_date,
+    monthly_value: formData.monthly_value ? parseFloat(formData.monthly_value) : undefined,
+    total_value: parseFloat(formData.total_value),
+    custom_data: formData.custom_data,
+    contract_category: formData.contract_category,
+    template_version_id: selectedPlan?.current_version_id ?? undefined,
+  });
+
+  // Save the draft and render the PDF that will be placed and sent for signature
+  const generateDocument = async () => {
+    setGeneratingPdf(true);
+    try {
+      let contract = draftContract;
+      if (contract) {
+        await updateContract.mutateAsync({ id: contract.id, ...getContractData() });
+      } else {
+        const result = await createContract.mutateAsync({ ...getContractData(), status: 'draft' });
+        contract = { id: result.id, client_token: result.client_token!, client_name: result.client_name };
+        setDraftContract(contract);
+      }
+      setSavedSigners(await saveSigners.mutateAsync({ contractId: contract.id, signers: resolvedSigners }));
+
+      const response = await supabase.functions.invoke('render-contract-pdf', {
+        body: { contractId: contract.id, templateContent: editedTemplateContent },
+      });
+
+      if (response.error || !response.data?.url) {
+        console.error('Error generating PDF:', response.error);
+        toast({
+          title: 'Erro ao gerar PDF',
+          description: response.data?.error ?? 'Não foi possível gerar o documento para assinatura.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setGeneratedDocument(response.data as GeneratedDocument);
+      setShowSignaturePlacement(true);
+    } catch (error) {
+      console.error('Error preparing contract document:', error);
+    } finally {
+      setGeneratingPdf(false);
+    }
+  };
+
+  // Checks the document-type variables; signed contracts keep their locked values as they are
+  const validateCustomData = () => {
+    if (isLocked) return true;
+    const errors: Record<string, string> = {};
+    for (const variable of planVariables) {
+      const error = validateFieldValue(variable.field_type, formData.custom_data[variable.variable_name] ?? '');
+      if (error) errors[variable.variable_name] = error;
+    }
+    setFieldErrors(errors);
+
+    const invalid = planVariables.filter((v) => errors[v.variable_name]);
+    if (invalid.length > 0) {
+      toast({
+        title: 'Dados inválidos',
+        description: `Verifique: ${invalid.map((v) => v.label).join(', ')}`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+    return true;
+  };
+
+  // Edit mode: save without sending anything to Autentique
+  const handleSaveChanges = async () => {
+    if (!editingContract) return;
+    if (!validateCustomData()) return;
+    if (!formData.client_name.trim()) {
+      toast({
+        title: 'Erro',
+        description: 'Informe o nome do cliente.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const documentChanged = hasDocumentChanges();
+    try {
+      if (isLocked) {
+        await updateContract.mutateAsync({
+          id: editingContract.id,
+          client_email: formData.client_email || undefined,
+          client_phone: formData.client_phone || undefined,
+        });
+      } else {
+        await updateContract.mutateAsync({ id: editingContract.id, ...getContractData() });
+        if (haveSignersChanged()) {
+          await saveSigners.mutateAsync({ contractId: editingContract.id, signers: resolvedSigners });
+        }
+      }
+    } catch (error) {
+      console.error('Error saving contract:', error);
+      return;
+    }
+
+    if (wasSent && documentChanged) {
+      toast({
+        title: 'Documento desatualizado',
+        description: 'O documento enviado ao Autentique não inclui estas alterações. Reenvie o contrato para assinatura.',
+      });
+    }
+    navigate(`/contracts/${editingContract.id}`);
+  };
+
   // Called after signature placement is complete
   const handleSignaturePlacementComplete = async (positions: SignaturePosition[]) => {
     setSignaturePositions(positions);
@@ -202,36 +488,26 @@ export default function NewContract() {
 
   // Final contract submission
   const submitContract = async (positions: SignaturePosition[]) => {
-    const result = await createContract.mutateAsync({
-      client_name: formData.client_name,
-      client_email: formData.client_email || undefined,
-      client_phone: formData.client_phone || undefined,
-      plan_id: formData.plan_id || undefined,
-      start_date: formData.start_date,
-      end_date: formData.end_date,
-      monthly_value: formData.monthly_value ? parseFloat(formData.monthly_value) : undefined,
-      total_value: parseFloat(formData.total_value),
-      custom_data: formData.custom_data,
+    const result = draftContract ?? await createContract.mutateAsync({
+      ...getContractData(),
       status: isExistingContract ? 'active' : 'draft',
       generated_document_url: attachedFile?.url,
     });
 
     let autentiqueLink: string | undefined;
+    let sentForSignature = false;
 
     // Send to Autentique if not an existing contract and has template
     if (!isExistingContract && editedTemplateContent && formData.client_email) {
       setSendingToAutentique(true);
       try {
-        const filledContent = getFilledTemplateContent();
-        
         const response = await supabase.functions.invoke('send-to-autentique', {
           body: {
             contractId: result.id,
             documentName: `Contrato - ${formData.client_name}`,
             signerName: formData.client_name,
             signerEmail: formData.client_email,
-            documentContent: filledContent,
-            contractCategory: formData.contract_category,
+            templateContent: editedTemplateContent,
             signaturePositions: positions.map(p => ({
               id: p.id,
               label: p.label,
@@ -246,10 +522,11 @@ export default function NewContract() {
           console.error('Error sending to Autentique:', response.error);
           toast({
             title: 'Aviso',
-            description: 'Contrato criado, mas houve um erro ao enviar para o Autentique. Verifique a configuração da API.',
+            description: `Contrato ${isEditing ? 'salvo' : 'criado'}, mas houve um erro ao enviar para o Autentique. Verifique a configuração da API.`,
             variant: 'destructive',
           });
         } else if (response.data?.success) {
+          sentForSignature = true;
           autentiqueLink = response.data.signatureLink;
           toast({
             title: 'Enviado para Autentique!',
@@ -264,17 +541,22 @@ export default function NewContract() {
       }
     }
 
+    if (isEditing) {
+      navigate(`/contracts/${result.id}`);
+      return;
+    }
+
     // Show success state with link
     setCreatedContract({
       id: result.id,
-      client_token: result.client_token!,
+      client_token: sentForSignature ? null : result.client_token,
       client_name: result.client_name,
       autentique_signature_link: autentiqueLink,
     });
   };
 
   const handleCopyLink = async () => {
-    if (!createdContract) return;
+    if (!createdContract?.client_token) return;
     const clientFormUrl = `${window.location.origin}/client-form/${createdContract.client_token}`;
     await navigator.clipboard.writeText(clientFormUrl);
     setLinkCopied(true);
@@ -285,11 +567,48 @@ export default function NewContract() {
     });
   };
 
+  // Lets legal redline the filled contract in Word before it goes out for signature
+  const handleDownloadDocx = async () => {
+    setExportingDocx(true);
+    try {
+      await downloadDocx(getRenderedDocument().html, `Contrato - ${formData.client_name || 'sem nome'}`);
+    } catch (error) {
+      toast({
+        title: 'Erro ao gerar DOCX',
+        description: error instanceof Error ? error.message : 'Não foi possível gerar o arquivo.',
+        variant: 'destructive',
+      });
+    } finally {
+      setExportingDocx(false);
+    }
+  };
+
   const handleCustomDataChange = (variableName: string, value: string) => {
     setFormData((prev) => ({
       ...prev,
       custom_data: { ...prev.custom_data, [variableName]: value },
     }));
+    setFieldErrors(({ [variableName]: _cleared, ...rest }) => rest);
+  };
+
+  // Fills the variables that go with the CNPJ field, and the client name when still empty
+  const handleCompanyFound = (cnpjVariableName: string, company: CompanyData) => {
+    const values = companyVariableValues(company, planVariables, cnpjVariableName);
+    setFormData((prev) => ({
+      ...prev,
+      client_name: prev.client_name || company.razao_social,
+      custom_data: { ...prev.custom_data, ...values },
+    }));
+    setFieldErrors((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([key]) => !(key in values)))
+    );
+    const filled = Object.keys(values).length;
+    toast({
+      title: 'Empresa encontrada',
+      description: filled > 0
+        ? `${company.razao_social}: ${filled} campo(s) preenchido(s).`
+        : `${company.razao_social}. Nenhum outro campo do plano corresponde aos dados da empresa.`,
+    });
   };
 
   const renderVariableInput = (variable: typeof planVariables[0], value: string) => {
@@ -299,8 +618,48 @@ export default function NewContract() {
       onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => 
         handleCustomDataChange(variable.variable_name, e.target.value),
       required: variable.required,
+      disabled: isLocked,
     };
 
+    if (variable.field_type === ADDRESS_FIELD_TYPE) {
+      return (
+        <AddressFieldInput
+          id={variable.variable_name}
+          value={value ?? ''}
+          onChange={(address) => handleCustomDataChange(variable.variable_name, address)}
+          required={variable.required}
+          disabled={isLocked}
+        />
+      );
+    }
+
+    if (variable.field_type === 'cnpj' || variable.field_type === 'cpf_cnpj') {
+      return (
+        <CnpjFieldInput
+          id={variable.variable_name}
+          fieldType={variable.field_type}
+          value={value ?? ''}
+          onChange={(cnpj) => handleCustomDataChange(variable.variable_name, cnpj)}
+          onCompanyFound={(company) => handleCompanyFound(variable.variable_name, company)}
+          required={variable.required}
+          disabled={isLocked}
+        />
+      );
+    }
+
+    const documentType = DOCUMENT_FIELD_TYPES[variable.field_type];
+    if (documentType) {
+      return (
+        <Input
+          type="text"
+          inputMode={documentType.inputMode}
+          placeholder={documentType.placeholder}
+          {...commonProps}
+          onChange={(e) => handleCustomDataChange(variable.variable_name, maskFieldValue(variable.field_type, e.target.value))}
+        />
+      );
+    }
+
     switch (variable.field_type) {
       case 'number':
         return <Input type="number" {...commonProps} />;
@@ -314,11 +673,14 @@ export default function NewContract() {
         return <Input type="number" step="0.01" min="0" {...commonProps} />;
       case 'textarea':
         return <Textarea {...commonProps} />;
+      case 'list':
+        return <Textarea placeholder="Um item por linha" {...commonProps} />;
       case 'select':
         return (
           <Select
             value={value}
             onValueChange={(val) => handleCustomDataChange(variable.variable_name, val)}
+            disabled={isLocked}
           >
             <SelectTrigger>
               <SelectValue placeholder="Selecione..." />
@@ -337,63 +699,46 @@ export default function NewContract() {
     }
   };
 
-  // Generate filled contract preview HTML using edited template content
-  const getFilledTemplateContent = () => {
-    if (!editedTemplateContent) return null;
-    
-    let filledContent = editedTemplateContent;
-    
-    // Replace custom variables with actual values
-    Object.entries(formData.custom_data).forEach(([key, value]) => {
-      const regex = new RegExp(`\\{\\{${key}\\}\\}`, 'g');
-      
-      // Check if this variable is currency type
-      const variable = planVariables.find(v => v.variable_name === key);
-      if (variable?.field_type === 'currency' && value) {
-        const numValue = parseFloat(value);
-        if (!isNaN(numValue)) {
-          filledContent = filledContent.replace(regex, `R$ ${numValue.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`);
-          // Also replace extenso version
-          const extensoRegex = new RegExp(`\\{\\{${key}_extenso\\}\\}`, 'g');
-          filledContent = filledContent.replace(extensoRegex, numberToCurrencyWords(numValue));
-        }
-      } else {
-        filledContent = filledContent.replace(regex, value || `{{${key}}}`);
-      }
+  // Render the edited template with the data typed so far
+  const getRenderedDocument = () =>
+    renderContractDocument({ template_content: editedTemplateContent }, planVariables, {
+      client_name: formData.client_name,
+      start_date: formData.start_date,
+      end_date: formData.end_date,
+      monthly_value: formData.monthly_value,
+      total_value: formData.total_value,
+      custom_data: formData.custom_data,
+      contract_category: formData.contract_category,
     });
-    
-    // Replace common contract variables
-    filledContent = filledContent.replace(/\{\{client_name\}\}/g, formData.client_name || '{{client_name}}');
-    filledContent = filledContent.replace(/\{\{start_date\}\}/g, formData.start_date ? format(new Date(formData.start_date), 'dd/MM/yyyy') : '{{start_date}}');
-    filledContent = filledContent.replace(/\{\{end_date\}\}/g, formData.end_date ? format(new Date(formData.end_date), 'dd/MM/yyyy') : '{{end_date}}');
-    
-    // Monthly value with extenso
-    if (formData.monthly_value) {
-      const monthlyNum = parseFloat(formData.monthly_value);
-      filledContent = filledContent.replace(/\{\{monthly_value\}\}/g, `R$ ${monthlyNum.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`);
-      filledContent = filledContent.replace(/\{\{monthly_value_extenso\}\}/g, numberToCurrencyWords(monthlyNum));
-    } else {
-      filledContent = filledContent.replace(/\{\{monthly_value\}\}/g, '{{monthly_value}}');
-      filledContent = filledContent.replace(/\{\{monthly_value_extenso\}\}/g, '{{monthly_value_extenso}}');
-    }
-    
-    // Total value with extenso
-    if (formData.total_value) {
-      const totalNum = parseFloat(formData.total_value);
-      filledContent = filledContent.replace(/\{\{total_value\}\}/g, `R$ ${totalNum.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`);
-      filledContent = filledContent.replace(/\{\{total_value_extenso\}\}/g, numberToCurrencyWords(totalNum));
-    } else {
-      filledContent = filledContent.replace(/\{\{total_value\}\}/g, '{{total_value}}');
-      filledContent = filledContent.replace(/\{\{total_value_extenso\}\}/g, '{{total_value_extenso}}');
-    }
-    
-    return filledContent;
-  };
+
+  if (isEditing && (contractsLoading || (editingContract && loadedContractId !== editingContract.id))) {
+    return (
+      <AppLayout>
+        <div className="p-6 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  if (isEditing && !editingContract) {
+    return (
+      <AppLayout>
+        <div className="p-6">
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              Contrato não encontrado
+            </CardContent>
+          </Card>
+        </div>
+      </AppLayout>
+    );
+  }
 
   // Show signature placement step
-  if (showSignaturePlacement) {
-    const filledContent = getFilledTemplateContent();
-    
+  if (showSignaturePlacement && generatedDocument) {
+    const markers = [...getSignatureMarkers(savedSigners).entries()];
+
     return (
       <AppLayout>
         <div className="p-6 max-w-7xl">
@@ -406,13 +751,15 @@ export default function NewContract() {
           </div>
           
           <SignaturePlacementStep
-            htmlContent={filledContent || ''}
+            document={generatedDocument}
             onComplete={handleSignaturePlacementComplete}
             onCancel={() => setShowSignaturePlacement(false)}
-            signers={[
-              { id: 'company', label: 'Virtuz Mídia (Empresa)', name: 'Virtuz Mídia' },
-              { id: 'client', label: formData.client_name || 'Cliente', name: formData.client_name },
-            ]}
+            signers={savedSigners.map((signer) => ({
+              id: signer.id,
+              label: `${signer.name} (${signerRoleLabel(signer.role, formData.contract_category)})`,
+              name: signer.name,
+              marker: markers.find(([, s]) => s.id === signer.id)?.[0],
+            }))}
           />
         </div>
       </AppLayout>
@@ -422,7 +769,7 @@ export default function NewContract() {
   // Show success screen after contract creation
   if (createdContract) {
     const clientFormUrl = `${window.location.origin}/client-form/${createdContract.client_token}`;
-    const filledContent = getFilledTemplateContent();
+    const filledContent = getRenderedDocument().html;
     
     return (
       <AppLayout>
@@ -471,29 +818,31 @@ export default function NewContract() {
           )}
 
           {/* Client Link Card */}
-          <Card className="border-t-4 border-t-primary">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Share2 className="h-5 w-5 text-primary" />
-                Link para o Cliente
-              </CardTitle>
-              <CardDescription>
-                Envie este link para o cliente preencher ou visualizar o contrato
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex gap-2">
-                <Input value={clientFormUrl} readOnly className="bg-muted font-mono text-sm" />
-                <Button variant="outline" onClick={handleCopyLink} className="shrink-0">
-                  {linkCopied ? (
-                    <CheckCircle className="h-4 w-4 text-green-500" />
-                  ) : (
-                    <Copy className="h-4 w-4" />
-                  )}
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+          {createdContract.client_token && (
+            <Card className="border-t-4 border-t-primary">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Share2 className="h-5 w-5 text-primary" />
+                  Link para o Cliente
+                </CardTitle>
+                <CardDescription>
+                  Envie este link para o cliente preencher ou visualizar o contrato
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Input value={clientFormUrl} readOnly className="bg-muted font-mono text-sm" />
+                  <Button variant="outline" onClick={handleCopyLink} className="shrink-0">
+                    {linkCopied ? (
+                      <CheckCircle className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Contract Preview */}
           {filledContent && (
@@ -534,7 +883,7 @@ export default function NewContract() {
                   total_value: '',
                   custom_data: {},
                   status: 'draft',
-                  contract_category: 'client',
+                  contract_category: DEFAULT_CONTRACT_CATEGORY,
                 });
               }}
             >
@@ -547,6 +896,12 @@ export default function NewContract() {
               <Eye className="h-4 w-4 mr-2" />
               Ver Detalhes
             </Button>
+            {filledContent && (
+              <Button variant="outline" onClick={handleDownloadDocx} disabled={exportingDocx}>
+                {exportingDocx ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+                Baixar DOCX
+              </Button>
+            )}
             <Button onClick={() => navigate('/contracts')} className="gradient-primary">
               <ArrowRight className="h-4 w-4 mr-2" />
               Ir para Lista de Contratos
@@ -563,34 +918,60 @@ export default function NewContract() {
         {/* Header with accent */}
         <div className="relative mb-6">
           <div className="absolute -left-6 top-0 w-1 h-full gradient-primary rounded-r" />
-          <h1 className="text-3xl font-bold">Novo Contrato</h1>
+          <h1 className="text-3xl font-bold">{isEditing ? 'Editar Contrato' : 'Novo Contrato'}</h1>
           <p className="text-muted-foreground">
-            Preencha os dados para criar um novo contrato
+            {isEditing ? editingContract?.client_name : 'Preencha os dados para criar um novo contrato'}
           </p>
         </div>
 
-        <form onSubmit={handleFormSubmit} className="space-y-6">
-          {/* Existing Contract Toggle */}
-          <Card className="border-l-4 border-l-muted-foreground">
-            <CardHeader className="pb-3">
-              <CardTitle className="text-lg">Tipo de Contrato</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="existing-contract"
-                  checked={isExistingContract}
-                  onCheckedChange={(checked) => setIsExistingContract(checked === true)}
-                />
-                <Label htmlFor="existing-contract" className="cursor-pointer">
-                  Este é um contrato já em vigor (anexar documento existente)
-                </Label>
-              </div>
+        {isLocked && (
+          <Card className="mb-6 border-l-4 border-l-muted-foreground bg-muted/40">
+            <CardContent className="p-4 flex items-start gap-3">
+              <Lock className="h-5 w-5 text-muted-foreground mt-0.5" />
+              <p className="text-sm text-muted-foreground">
+                Este contrato já foi assinado. Apenas o e-mail e o telefone de contato podem ser alterados; os demais
+                dados fazem parte do documento assinado.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {wasSent && hasDocumentChanges() && (
+          <Card className="mb-6 border-l-4 border-l-yellow-500 bg-yellow-500/5">
+            <CardContent className="p-4 flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+              <p className="text-sm text-muted-foreground">
+                Este contrato já foi enviado para assinatura. Ao reenviar, o documento atual é cancelado no Autentique e
+                os signatários recebem o novo documento.
+              </p>
             </CardContent>
           </Card>
+        )}
+
+        <form onSubmit={handleFormSubmit} className="space-y-6">
+          {/* Existing Contract Toggle */}
+          {!isEditing && (
+            <Card className="border-l-4 border-l-muted-foreground">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Tipo de Contrato</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="existing-contract"
+                    checked={isExistingContract}
+                    onCheckedChange={(checked) => setIsExistingContract(checked === true)}
+                  />
+                  <Label htmlFor="existing-contract" className="cursor-pointer">
+                    Este é um contrato já em vigor (anexar documento existente)
+                  </Label>
+                </div>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Quick Client Link Preview - Show when category is selected and not existing contract */}
-          {!isExistingContract && formData.contract_category && (
+          {!isEditing && !isExistingContract && formData.contract_category && (
             <Card className="border-l-4 border-l-green-500 bg-green-500/5">
               <CardHeader className="pb-3">
                 <CardTitle className="text-lg flex items-center gap-2">
@@ -679,6 +1060,7 @@ export default function NewContract() {
                   id="client_name"
                   value={formData.client_name}
                   onChange={(e) => setFormData({ ...formData, client_name: e.target.value })}
+                  disabled={isLocked}
                   required
                 />
               </div>
@@ -702,6 +1084,20 @@ export default function NewContract() {
             </CardContent>
           </Card>
 
+          {!isExistingContract && !isLocked && (
+            <Card className="border-l-4 border-l-primary">
+              <CardHeader>
+                <CardTitle>Signatários</CardTitle>
+                <CardDescription>
+                  Quem assina o contrato no Autentique, na ordem de assinatura
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ContractSignersEditor signers={resolvedSigners} category={formData.contract_category} onChange={setSigners} />
+              </CardContent>
+            </Card>
+          )}
+
           <Card className="border-l-4 border-l-primary">
             <CardHeader>
               <CardTitle>Detalhes do Contrato</CardTitle>
@@ -711,18 +1107,18 @@ export default function NewContract() {
                 <Label htmlFor="contract_category">Categoria do Contrato *</Label>
                 <Select
                   value={formData.contract_category}
-                  onValueChange={(value) => setFormData({ ...formData, contract_category: value })}
+                  onValueChange={handleCategoryChange}
+                  disabled={isLocked}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Selecione a categoria" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="client">Cliente</SelectItem>
-                    <SelectItem value="service_provider_pj">Prestador de Serviço (PJ)</SelectItem>
-                    <SelectItem value="service_provider_pf">Prestador de Serviço (PF)</SelectItem>
-                    <SelectItem value="vendor_service">Serviços Contratados</SelectItem>
-                    <SelectItem value="partnership">Parceria</SelectItem>
-                    <SelectItem value="other">Outro</SelectItem>
+                    {CONTRACT_CATEGORY_VALUES.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {CONTRACT_CATEGORY_LABELS[category]}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -730,7 +1126,8 @@ export default function NewContract() {
                 <Label htmlFor="plan_id">Plano</Label>
                 <Select
                   value={formData.plan_id}
-                  onValueChange={(value) => setFormData({ ...formData, plan_id: value })}
+                  onValueChange={handlePlanChange}
+                  disabled={isLocked}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder={plansLoading ? 'Carregando...' : 'Selecione um plano'} />
@@ -751,6 +1148,7 @@ export default function NewContract() {
                   type="date"
                   value={formData.start_date}
                   onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  disabled={isLocked}
                   required
                 />
               </div>
@@ -759,12 +1157,13 @@ export default function NewContract() {
                 <Select
                   value={formData.duration_months}
                   onValueChange={(value) => setFormData({ ...formData, duration_months: value })}
+                  disabled={isLocked}
                 >
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {Array.from({ length: 24 }, (_, i) => i + 1).map((months) => (
+                    {Array.from({ length: Math.max(24, Number(formData.duration_months) || 0) }, (_, i) => i + 1).map((months) => (
                       <SelectItem key={months} value={months.toString()}>
                         {months} {months === 1 ? 'mês' : 'meses'}
                       </SelectItem>
@@ -791,6 +1190,7 @@ export default function NewContract() {
                   min="0"
                   value={formData.monthly_value}
                   onChange={(e) => setFormData({ ...formData, monthly_value: e.target.value })}
+                  disabled={isLocked}
                   required
                 />
               </div>
@@ -819,7 +1219,7 @@ export default function NewContract() {
               </CardHeader>
               <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {planVariables.map((variable) => (
-                  <div key={variable.id} className={variable.field_type === 'textarea' ? 'md:col-span-2' : ''}>
+                  <div key={variable.id} className={['textarea', 'list', ADDRESS_FIELD_TYPE].includes(variable.field_type) ? 'md:col-span-2' : ''}>
                     <Label htmlFor={variable.variable_name}>
                       {variable.label}
                       {variable.required && ' *'}
@@ -828,6 +1228,9 @@ export default function NewContract() {
                       <p className="text-xs text-muted-foreground mb-1">{variable.description}</p>
                     )}
                     {renderVariableInput(variable, formData.custom_data[variable.variable_name] ?? '')}
+                    {fieldErrors[variable.variable_name] && (
+                      <p className="text-xs text-destructive mt-1">{fieldErrors[variable.variable_name]}</p>
+                    )}
                   </div>
                 ))}
               </CardContent>
@@ -835,13 +1238,19 @@ export default function NewContract() {
           )}
 
           {/* Template Editor with Signature Markers */}
-          {!isExistingContract && selectedPlan?.template_content && (
+          {!isExistingContract && !isLocked && selectedPlan?.template_content && (
             <Card className="border-l-4 border-l-green-500">
-              <CardHeader>
-                <CardTitle>Template do Contrato</CardTitle>
-                <CardDescription>
-                  Edite o template e arraste os marcadores de assinatura para definir onde as assinaturas aparecerão
-                </CardDescription>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Template do Contrato</CardTitle>
+                  <CardDescription>
+                    Edite o template e arraste os marcadores de assinatura para definir onde as assinaturas aparecerão
+                  </CardDescription>
+                </div>
+                <Button type="button" variant="outline" size="sm" onClick={handleDownloadDocx} disabled={exportingDocx}>
+                  {exportingDocx ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+                  Baixar DOCX
+                </Button>
               </CardHeader>
               <CardContent>
                 <TemplateEditor
@@ -855,25 +1264,66 @@ export default function NewContract() {
             </Card>
           )}
 
-          <div className="flex gap-4">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => navigate('/contracts')}
-            >
-              Cancelar
-            </Button>
-            <Button type="submit" disabled={createContract.isPending || sendingToAutentique} className="gradient-primary">
-              {(createContract.isPending || sendingToAutentique) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-              {sendingToAutentique 
-                ? 'Enviando para Autentique...' 
-                : createContract.isPending 
-                  ? 'Criando...' 
-                  : isExistingContract 
-                    ? 'Cadastrar Contrato em Vigor' 
-                    : 'Criar e Enviar para Assinatura'}
-            </Button>
-          </div>
+          {isEditing ? (
+            <div className="flex gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigate(`/contracts/${editingId}`)}
+              >
+                Cancelar
+              </Button>
+              {canSendForSignature && editedTemplateContent ? (
+                <>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleSaveChanges}
+                    disabled={updateContract.isPending || sendingToAutentique || generatingPdf}
+                  >
+                    Salvar Alterações
+                  </Button>
+                  <Button type="submit" disabled={updateContract.isPending || sendingToAutentique || generatingPdf} className="gradient-primary">
+                    {(sendingToAutentique || generatingPdf) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {sendingToAutentique
+                      ? 'Enviando para Autentique...'
+                      : generatingPdf
+                        ? 'Gerando PDF...'
+                        : wasSent
+                          ? 'Salvar e Reenviar para Assinatura'
+                          : 'Salvar e Enviar para Assinatura'}
+                  </Button>
+                </>
+              ) : (
+                <Button type="submit" disabled={updateContract.isPending} className="gradient-primary">
+                  {updateContract.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Salvar Alterações
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div className="flex gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigate('/contracts')}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={createContract.isPending || sendingToAutentique || generatingPdf} className="gradient-primary">
+                {(createContract.isPending || sendingToAutentique || generatingPdf) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {sendingToAutentique 
+                  ? 'Enviando para Autentique...' 
+                  : generatingPdf
+                    ? 'Gerando PDF...'
+                    : createContract.isPending 
+                      ? 'Criando...' 
+                      : isExistingContract 
+                        ? 'Cadastrar Contrato em Vigor' 
+                        : 'Criar e Enviar para Assinatura'}
+              </Button>
+            </div>
+          )}
         </form>
       </div>
     </AppLayout>
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Plus, Trash2, Upload, GripVertical, X, Edit2, FileText, ExternalLink, FileEdit } from 'lucide-react';
+import { Plus, Trash2, Upload, GripVertical, X, Edit2, FileText, ExternalLink, FileEdit, FileSignature } from 'lucide-react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -37,6 +37,7 @@ const FIELD_TYPE_LABELS: Record<string, string> = {
   currency: 'Moeda',
   textarea: 'Texto Longo',
   select: 'Seleção',
+  list: 'Lista',
 };
 
 export default function PlansSettings() {
@@ -337,6 +338,14 @@ export default function PlansSettings() {
                               </Button>
                             </>
                           )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => navigate(`/settings/plans/${plan.id}/amendment-template`)}
+                          >
+                            <FileSignature className="h-4 w-4 mr-2" />
+                            Template do Aditivo
+                          </Button>
                         </div>
                         {plan.template_url && templateFileName && (
                           <div className="flex items-center gap-2 p-2 bg-muted rounded-md">
@@ -6,9 +6,13 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { TemplateEditor } from '@/components/templates/TemplateEditor';
+import { TemplateVersionHistory } from '@/components/templates/TemplateVersionHistory';
+import { PlaceholderReviewDialog } from '@/components/templates/PlaceholderReviewDialog';
 import { usePlans } from '@/hooks/usePlans';
+import { useTemplateVersions, TemplateVersion } from '@/hooks/useTemplateVersions';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Save, Copy, AlertTriangle, Edit } from 'lucide-react';
+import { applyPlaceholders, detectPlaceholders, DetectedPlaceholder } from '@/lib/placeholderDetection';
+import { Loader2, Save, Copy, AlertTriangle, Edit, History, ScanText } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import {
   Dialog,
@@ -33,7 +37,8 @@ export default function TemplateEditorPage() {
   const { planId } = useParams<{ planId: string }>();
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
-  const { plans, isLoading, updatePlan, createPlan } = usePlans();
+  const { plans, isLoading, createPlan, createVariables } = usePlans();
+  const { versions, isLoading: versionsLoading, saveVersion } = useTemplateVersions(planId);
   const { toast } = useToast();
   
   // Check if we're in view mode
@@ -47,11 +52,20 @@ export default function TemplateEditorPage() {
   const [unsavedChangesDialogOpen, setUnsavedChangesDialogOpen] = useState(false);
   const [pendingNavigation, setPendingNavigation] = useState<string | null>(null);
   const [newPlanName, setNewPlanName] = useState('');
+  const [saveComment, setSaveComment] = useState('');
+  const [historyOpen, setHistoryOpen] = useState(false);
   const [loadingDocx, setLoadingDocx] = useState(false);
   const [docxError, setDocxError] = useState<string | null>(null);
+  const [detectedPlaceholders, setDetectedPlaceholders] = useState<DetectedPlaceholder[] | null>(null);
+  // DOCX import waiting for the placeholder review
+  const [pendingImport, setPendingImport] = useState<{ html: string; sourceUrl: string } | null>(null);
+  // DOCX the editor content was parsed from; linked to the first version when the user saves it
+  const [importSourceUrl, setImportSourceUrl] = useState<string | null>(null);
   
   const plan = plans.find((p) => p.id === planId);
   const variables = plan?.plan_variables ?? [];
+  const variableNames = variables.map((v) => v.variable_name);
+  const currentVersion = versions.find((v) => v.id === plan?.current_version_id);
 
   // Check if there are unsaved changes
   const hasUnsavedChanges = content !== originalContent && originalContent !== '';
@@ -127,13 +141,20 @@ export default function TemplateEditorPage() {
           if (error) throw error;
           
           if (data?.html && data.html.trim() !== '<p></p>') {
-            setContent(data.html);
-            setOriginalContent(data.html);
-            // Auto-save the parsed content to template_content
-            await updatePlan.mutateAsync({
-              id: plan.id,
-              template_content: data.html,
-            });
+            const placeholders = detectPlaceholders(
+              data.html,
+              (plan.plan_variables ?? []).map((v) => v.variable_name)
+            );
+            const html = applyPlaceholders(data.html, []);
+            setContent(html);
+            setOriginalContent(html);
+            // Opening the page only shows the parsed content; nothing is saved until the user saves it
+            setImportSourceUrl(plan.template_url);
+
+            if (placeholders.length > 0) {
+              setPendingImport({ html: data.html, sourceUrl: plan.template_url });
+              setDetectedPlaceholders(placeholders);
+            }
           } else {
             throw new Error('O arquivo DOCX está vazio ou não pôde ser lido');
           }
@@ -149,6 +170,55 @@ export default function TemplateEditorPage() {
     loadContent();
   }, [plan?.id, plan?.template_content, plan?.template_url]);
 
+  const handleDetectPlaceholders = () => {
+    const placeholders = detectPlaceholders(content, variableNames);
+    if (placeholders.length === 0) {
+      toast({
+        title: 'Nenhuma variável encontrada',
+        description: 'O texto não tem marcações {{ }} ou [ ] sem variável correspondente.',
+      });
+      return;
+    }
+    setDetectedPlaceholders(placeholders);
+  };
+
+  // Applies the reviewed placeholders to the editor; saving stays up to the user
+  const finishImport = async (accepted: DetectedPlaceholder[]) => {
+    if (!planId) return;
+
+    setSaving(true);
+    try {
+      const toCreate = accepted.filter((p) => !p.exists);
+      if (toCreate.length > 0) {
+        await createVariables.mutateAsync(
+          toCreate.map((p) => ({
+            plan_id: planId,
+            variable_name: p.variable_name,
+            label: p.label,
+            field_type: p.field_type,
+          }))
+        );
+      }
+
+      const html = applyPlaceholders(pendingImport?.html ?? content, accepted);
+      setContent(html);
+      setPendingImport(null);
+      setDetectedPlaceholders(null);
+    } catch (error) {
+      console.error('Error applying detected placeholders:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const skipPlaceholders = () => {
+    if (pendingImport) {
+      finishImport([]);
+    } else {
+      setDetectedPlaceholders(null);
+    }
+  };
+
   const confirmSave = useCallback(() => {
     setSaveConfirmDialogOpen(true);
   }, []);
@@ -160,29 +230,41 @@ export default function TemplateEditorPage() {
     setSaveConfirmDialogOpen(false);
     
     try {
-      // Delete old template file from storage if exists
-      if (plan.template_url) {
-        const urlParts = plan.template_url.split('/templates/');
-        if (urlParts.length > 1) {
-          const filePath = urlParts[1];
-          await supabase.storage.from('templates').remove([filePath]);
-        }
-      }
-
-      // Update plan with new content and clear template_url
-      await updatePlan.mutateAsync({
-        id: planId,
-        template_content: content,
-        template_url: null, // Clear the old template URL
+      // Older versions, and the DOCX they came from, stay available in the history
+      await saveVersion.mutateAsync({
+        planId,
+        content,
+        comment: saveComment || (importSourceUrl ? 'Importado do arquivo DOCX' : ''),
+        sourceUrl: importSourceUrl ?? undefined,
       });
       
       setOriginalContent(content);
+      setSaveComment('');
+      setImportSourceUrl(null);
     } catch (error) {
-      toast({
-        title: 'Erro ao salvar',
-        description: 'Ocorreu um erro ao salvar o template.',
-        variant: 'destructive',
+      console.error('Error saving template version:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: TemplateVersion) => {
+    if (!planId) return;
+
+    setSaving(true);
+    try {
+      await saveVersion.mutateAsync({
+        planId,
+        content: version.content,
+        comment: `Restaurada a versão ${version.version_number}`,
+        restoredFromVersionId: version.id,
       });
+
+      setContent(version.content);
+      setOriginalContent(version.content);
+      setHistoryOpen(false);
+    } catch (error) {
+      console.error('Error restoring template version:', error);
     } finally {
       setSaving(false);
     }
@@ -203,7 +285,13 @@ export default function TemplateEditorPage() {
       const newPlan = await createPlan.mutateAsync({
         name: newPlanName,
         base_value: plan?.base_value || 0,
-        template_content: content,
+      });
+      await saveVersion.mutateAsync({
+        planId: newPlan.id,
+        content,
+        comment: currentVersion
+          ? `Criado a partir de "${plan?.name}" (versão ${currentVersion.version_number})`
+          : `Criado a partir de "${plan?.name}"`,
       });
       
       toast({
@@ -319,14 +407,24 @@ export default function TemplateEditorPage() {
             </h1>
             <p className="text-muted-foreground">
               {plan.name} {isViewMode ? '- Modo somente leitura' : '- Posicione as variáveis no documento'}
+              {currentVersion && ` • Versão ${currentVersion.version_number}`}
             </p>
             {!isViewMode && hasUnsavedChanges && (
               <p className="text-sm text-primary mt-1">
                 • Alterações não salvas
               </p>
             )}
+            {!isViewMode && importSourceUrl && (
+              <p className="text-sm text-muted-foreground mt-1">
+                • Conteúdo importado do arquivo DOCX. Salve o template para registrar a primeira versão.
+              </p>
+            )}
           </div>
           <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setHistoryOpen(true)}>
+              <History className="h-4 w-4 mr-2" />
+              Histórico
+            </Button>
             {isViewMode ? (
               <Button onClick={() => setSearchParams({})}>
                 <Edit className="h-4 w-4 mr-2" />
@@ -334,6 +432,10 @@ export default function TemplateEditorPage() {
               </Button>
             ) : (
               <>
+                <Button variant="outline" onClick={handleDetectPlaceholders}>
+                  <ScanText className="h-4 w-4 mr-2" />
+                  Detectar Variáveis
+                </Button>
                 <Button variant="outline" onClick={() => setSaveAsNewDialogOpen(true)}>
                   <Copy className="h-4 w-4 mr-2" />
                   Salvar como Novo
@@ -393,10 +495,19 @@ export default function TemplateEditorPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Salvar Template</AlertDialogTitle>
             <AlertDialogDescription>
-              Ao salvar, o documento original do template será substituído pelo conteúdo atual do editor.
-              Esta ação não pode ser desfeita.
+              Uma nova versão será criada com o conteúdo atual do editor e usada nos próximos contratos.
+              As versões anteriores continuam disponíveis no histórico.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div>
+            <Label htmlFor="version-comment">Comentário (opcional)</Label>
+            <Input
+              id="version-comment"
+              value={saveComment}
+              onChange={(e) => setSaveComment(e.target.value)}
+              placeholder="Ex: Atualizada a cláusula de reajuste"
+            />
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancelar</AlertDialogCancel>
             <AlertDialogAction onClick={handleSave}>
@@ -406,6 +517,29 @@ export default function TemplateEditorPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <TemplateVersionHistory
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        versions={versions}
+        isLoading={versionsLoading}
+        currentVersionId={plan.current_version_id}
+        editorContent={content}
+        hasUnsavedChanges={hasUnsavedChanges}
+        restoring={saving}
+        onRestore={handleRestore}
+      />
+
+      {detectedPlaceholders && (
+        <PlaceholderReviewDialog
+          open
+          placeholders={detectedPlaceholders}
+          existingVariables={variableNames}
+          isLoading={saving}
+          onConfirm={finishImport}
+          onSkip={skipPlaceholders}
+        />
+      )}
+
       {/* Unsaved Changes Dialog */}
       <AlertDialog open={unsavedChangesDialogOpen} onOpenChange={setUnsavedChangesDialogOpen}>
         <AlertDialogContent>
@@ -3,9 +3,10 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { AlertTriangle } from 'lucide-react';
+import { ROLE_LABELS } from '@/lib/permissions';
 
 export default function Unauthorized() {
-  const { signOut, user } = useAuth();
+  const { signOut, user, role } = useAuth();
   const navigate = useNavigate();
 
   const handleSignOut = async () => {
@@ -22,18 +23,27 @@ export default function Unauthorized() {
           </div>
           <CardTitle className="text-2xl font-bold">Acesso Negado</CardTitle>
           <CardDescription>
-            Você não tem permissão para acessar este sistema.
+            {role
+              ? 'Seu perfil não tem permissão para acessar esta página.'
+              : 'Você não tem permissão para acessar este sistema.'}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <p className="text-sm text-muted-foreground text-center">
-            O sistema é restrito a colaboradores com e-mail @virtuzmidia.com.br
+            {role
+              ? `Perfil atual: ${ROLE_LABELS[role]}. Peça a um administrador para alterar seu acesso.`
+              : 'O sistema é restrito a colaboradores com e-mail @virtuzmidia.com.br. Se você já é colaborador, peça a um administrador para liberar seu acesso.'}
           </p>
           {user && (
             <p className="text-sm text-center">
               E-mail utilizado: <span className="font-medium">{user.email}</span>
             </p>
           )}
+          {role && (
+            <Button className="w-full" onClick={() => navigate('/dashboard')}>
+              Voltar para o Dashboard
+            </Button>
+          )}
           <Button
             className="w-full"
             variant="outline"
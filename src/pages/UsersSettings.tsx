@@ -0,0 +1,170 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { AppRole, ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/lib/permissions';
+
+// Select value for accounts without a role row
+const NO_ROLE = 'none';
+
+interface UserWithRole {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  role: AppRole | null;
+}
+
+export default function UsersSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const usersQuery = useQuery({
+    queryKey: ['user-roles'],
+    queryFn: async () => {
+      const [profilesResult, rolesResult] = await Promise.all([
+        supabase.from('profiles').select('user_id, email, full_name, avatar_url').order('email'),
+        supabase.from('user_roles').select('user_id, role'),
+      ]);
+
+      if (profilesResult.error) throw profilesResult.error;
+      if (rolesResult.error) throw rolesResult.error;
+
+      const roles = new Map(rolesResult.data.map((r) => [r.user_id, r.role]));
+      return profilesResult.data.map((profile) => ({
+        ...profile,
+        role: roles.get(profile.user_id) ?? null,
+      })) as UserWithRole[];
+    },
+  });
+
+  const updateRole = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: AppRole | null }) => {
+      const { error } = role
+        ? await supabase.from('user_roles').upsert({ user_id: userId, role }, { onConflict: 'user_id' })
+        : await supabase.from('user_roles').delete().eq('user_id', userId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-roles'] });
+      toast({
+        title: 'Perfil atualizado',
+        description: 'As permissões valem a partir do próximo acesso do usuário.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro ao atualizar perfil',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <AppLayout>
+      <div className="p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Usuários</h1>
+          <p className="text-muted-foreground">
+            Defina o perfil de acesso de cada colaborador
+          </p>
+        </div>
+
+        <Card className="bg-primary/5 border-primary/20">
+          <CardContent className="p-4">
+            <div className="flex items-start gap-3">
+              <ShieldCheck className="h-5 w-5 text-primary mt-0.5" />
+              <div className="space-y-1">
+                <p className="font-medium">Perfis de acesso</p>
+                {(Object.keys(ROLE_LABELS) as AppRole[]).map((role) => (
+                  <p key={role} className="text-sm text-muted-foreground">
+                    <strong>{ROLE_LABELS[role]}:</strong> {ROLE_DESCRIPTIONS[role]}
+                  </p>
+                ))}
+                <p className="text-sm text-muted-foreground">
+                  Novos colaboradores entram com o perfil {ROLE_LABELS.viewer}.
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Colaboradores</CardTitle>
+            <CardDescription>Usuários que já acessaram o sistema</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {usersQuery.isLoading ? (
+              <div className="py-8 text-center">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+              </div>
+            ) : (
+              <div className="divide-y">
+                {usersQuery.data?.map((member) => {
+                  const isSelf = member.user_id === user?.id;
+                  return (
+                    <div key={member.user_id} className="flex items-center justify-between gap-4 py-3">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={member.avatar_url ?? undefined} />
+                          <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+                            {(member.full_name || member.email)[0].toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">
+                            {member.full_name || member.email}
+                            {isSelf && <span className="text-muted-foreground font-normal"> (você)</span>}
+                          </p>
+                          <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                        </div>
+                      </div>
+                      {/* Admins cannot change their own role, so there is always one left */}
+                      <Select
+                        value={member.role ?? NO_ROLE}
+                        onValueChange={(value) =>
+                          updateRole.mutate({
+                            userId: member.user_id,
+                            role: value === NO_ROLE ? null : (value as AppRole),
+                          })
+                        }
+                        disabled={isSelf || updateRole.isPending}
+                      >
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value={NO_ROLE}>Sem acesso</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
@@ -1,11 +1,12 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Plus, Trash2, Copy, Check, Webhook, ExternalLink } from 'lucide-react';
+import { Plus, Trash2, Copy, Check, Webhook, ExternalLink, Pencil, Send } from 'lucide-react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Card,
   CardContent,
@@ -26,6 +27,13 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
+import { WebhookDeliveryLog } from '@/components/webhooks/WebhookDeliveryLog';
+import { WebhookTestDialog } from '@/components/webhooks/WebhookTestDialog';
+import { WEBHOOK_EVENT_LABELS, WebhookDelivery } from '@/lib/webhookEvents';
+import { CONTRACT_CATEGORY_LABELS } from '@/lib/contractCategories';
+
+// Deliveries shown per endpoint in the log
+const DELIVERY_LOG_LIMIT = 20;
 
 interface WebhookEndpoint {
   id: string;
@@ -34,19 +42,40 @@ interface WebhookEndpoint {
   description: string | null;
   is_active: boolean;
   secret_key: string | null;
+  events: string[];
+  contract_categories: string[] | null;
   created_at: string;
 }
 
+interface WebhookForm {
+  name: string;
+  url: string;
+  description: string;
+  events: string[];
+  contract_categories: string[];
+}
+
+const EMPTY_WEBHOOK_FORM: WebhookForm = {
+  name: '',
+  url: '',
+  description: '',
+  events: Object.keys(WEBHOOK_EVENT_LABELS),
+  contract_categories: [],
+};
+
+function toggleItem(list: string[], item: string, checked: boolean) {
+  return checked ? [...list, item] : list.filter((i) => i !== item);
+}
+
 export default function WebhookSettings() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  // null while creating a new endpoint
+  const [editingWebhookId, setEditingWebhookId] = useState<string | null>(null);
+  const [testingWebhook, setTestingWebhook] = useState<WebhookEndpoint | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
-  const [newWebhook, setNewWebhook] = useState({
-    name: '',
-    url: '',
-    description: '',
-  });
+  const [webhookForm, setWebhookForm] = useState<WebhookForm>(EMPTY_WEBHOOK_FORM);
 
   const webhooksQuery = useQuery({
     queryKey: ['webhooks'],
@@ -61,14 +90,57 @@ export default function WebhookSettings() {
     },
   });
 
+  const deliveriesQuery = useQuery({
+    queryKey: ['webhook-deliveries'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('id, endpoint_id, event_id, event_type, status, attempts, next_attempt_at, last_attempt_at, response_status, response_body, last_error, delivered_at, created_at')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      return data as WebhookDelivery[];
+    },
+    refetchInterval: 30000,
+  });
+
+  const getEndpointDeliveries = (endpointId: string) =>
+    (deliveriesQuery.data ?? []).filter((d) => d.endpoint_id === endpointId).slice(0, DELIVERY_LOG_LIMIT);
+
+  // Put a failed delivery back in the queue; deliver-webhooks picks it up on its next run
+  const retryDelivery = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('retry_webhook_delivery', { _delivery_id: id });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries'] });
+      toast({
+        title: 'Reenvio agendado',
+        description: 'O evento será reenviado em instantes.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro ao reenviar evento',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   const createWebhook = useMutation({
-    mutationFn: async (data: { name: string; url: string; description?: string }) => {
+    mutationFn: async (data: WebhookForm) => {
       const { data: result, error } = await supabase
         .from('webhook_endpoints')
         .insert({
           name: data.name,
           url: data.url,
           description: data.description || null,
+          events: data.events,
+          contract_categories: data.contract_categories.length > 0 ? data.contract_categories : null,
           secret_key: crypto.randomUUID(),
         })
         .select()
@@ -84,7 +156,7 @@ export default function WebhookSettings() {
         description: 'O endpoint foi criado com sucesso.',
       });
       setIsDialogOpen(false);
-      setNewWebhook({ name: '', url: '', description: '' });
+      setWebhookForm(EMPTY_WEBHOOK_FORM);
     },
     onError: (error) => {
       toast({
@@ -95,6 +167,40 @@ export default function WebhookSettings() {
     },
   });
 
+  const updateWebhook = useMutation({
+    mutationFn: async ({ id, ...data }: WebhookForm & { id: string }) => {
+      const { error } = await supabase
+        .from('webhook_endpoints')
+        .update({
+          name: data.name,
+          url: data.url,
+          description: data.description || null,
+          events: data.events,
+          contract_categories: data.contract_categories.length > 0 ? data.contract_categories : null,
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+      toast({
+        title: 'Webhook atualizado',
+        description: 'O endpoint foi atualizado com sucesso.',
+      });
+      setIsDialogOpen(false);
+      setEditingWebhookId(null);
+      setWebhookForm(EMPTY_WEBHOOK_FORM);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Erro ao atualizar webhook',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   const toggleWebhook = useMutation({
     mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
       const { error } = await supabase
@@ -133,8 +239,26 @@ export default function WebhookSettings() {
     setTimeout(() => setCopiedId(null), 2000);
   };
 
-  const handleCreateWebhook = () => {
-    if (!newWebhook.name || !newWebhook.url) {
+  const openCreateDialog = () => {
+    setEditingWebhookId(null);
+    setWebhookForm(EMPTY_WEBHOOK_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (webhook: WebhookEndpoint) => {
+    setEditingWebhookId(webhook.id);
+    setWebhookForm({
+      name: webhook.name,
+      url: webhook.url,
+      description: webhook.description ?? '',
+      events: webhook.events,
+      contract_categories: webhook.contract_categories ?? [],
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSaveWebhook = () => {
+    if (!webhookForm.name || !webhookForm.url) {
       toast({
         title: 'Erro',
         description: 'Preencha o nome e a URL do webhook',
@@ -142,9 +266,23 @@ export default function WebhookSettings() {
       });
       return;
     }
-    createWebhook.mutate(newWebhook);
+    if (webhookForm.events.length === 0) {
+      toast({
+        title: 'Erro',
+        description: 'Selecione ao menos um evento',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (editingWebhookId) {
+      updateWebhook.mutate({ id: editingWebhookId, ...webhookForm });
+    } else {
+      createWebhook.mutate(webhookForm);
+    }
   };
 
+  const isSaving = createWebhook.isPending || updateWebhook.isPending;
+
   return (
     <AppLayout>
       <div className="p-6 space-y-6">
@@ -157,16 +295,16 @@ export default function WebhookSettings() {
           </div>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
-              <Button>
+              <Button onClick={openCreateDialog}>
                 <Plus className="h-4 w-4 mr-2" />
                 Novo Webhook
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
-                <DialogTitle>Criar Novo Webhook</DialogTitle>
+                <DialogTitle>{editingWebhookId ? 'Editar Webhook' : 'Criar Novo Webhook'}</DialogTitle>
                 <DialogDescription>
-                  Adicione um endpoint para receber dados de plataformas externas como Make, Zapier ou Clickup
+                  Adicione um endpoint que receberá os eventos dos contratos em plataformas externas como Make, Zapier ou Clickup
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4 py-4">
@@ -174,8 +312,8 @@ export default function WebhookSettings() {
                   <Label htmlFor="webhook-name">Nome</Label>
                   <Input
                     id="webhook-name"
-                    value={newWebhook.name}
-                    onChange={(e) => setNewWebhook({ ...newWebhook, name: e.target.value })}
+                    value={webhookForm.name}
+                    onChange={(e) => setWebhookForm({ ...webhookForm, name: e.target.value })}
                     placeholder="Ex: Clickup - Novos Contratos"
                   />
                 </div>
@@ -183,8 +321,8 @@ export default function WebhookSettings() {
                   <Label htmlFor="webhook-url">URL do Webhook</Label>
                   <Input
                     id="webhook-url"
-                    value={newWebhook.url}
-                    onChange={(e) => setNewWebhook({ ...newWebhook, url: e.target.value })}
+                    value={webhookForm.url}
+                    onChange={(e) => setWebhookForm({ ...webhookForm, url: e.target.value })}
                     placeholder="https://hook.make.com/..."
                   />
                 </div>
@@ -192,19 +330,63 @@ export default function WebhookSettings() {
                   <Label htmlFor="webhook-description">Descrição (opcional)</Label>
                   <Input
                     id="webhook-description"
-                    value={newWebhook.description}
-                    onChange={(e) => setNewWebhook({ ...newWebhook, description: e.target.value })}
+                    value={webhookForm.description}
+                    onChange={(e) => setWebhookForm({ ...webhookForm, description: e.target.value })}
                     placeholder="Descrição do propósito deste webhook"
                   />
                 </div>
+                <div>
+                  <Label>Eventos</Label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-2">
+                    {Object.entries(WEBHOOK_EVENT_LABELS).map(([event, label]) => (
+                      <div key={event} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`event-${event}`}
+                          checked={webhookForm.events.includes(event)}
+                          onCheckedChange={(checked) =>
+                            setWebhookForm({ ...webhookForm, events: toggleItem(webhookForm.events, event, checked === true) })
+                          }
+                        />
+                        <Label htmlFor={`event-${event}`} className="text-sm font-normal cursor-pointer">
+                          {label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <Label>Categorias de contrato (opcional)</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Sem nenhuma categoria marcada, o endpoint recebe eventos de todos os contratos
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-2">
+                    {Object.entries(CONTRACT_CATEGORY_LABELS).map(([category, label]) => (
+                      <div key={category} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`category-${category}`}
+                          checked={webhookForm.contract_categories.includes(category)}
+                          onCheckedChange={(checked) =>
+                            setWebhookForm({
+                              ...webhookForm,
+                              contract_categories: toggleItem(webhookForm.contract_categories, category, checked === true),
+                            })
+                          }
+                        />
+                        <Label htmlFor={`category-${category}`} className="text-sm font-normal cursor-pointer">
+                          {label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
               </div>
               <DialogFooter>
                 <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
                   Cancelar
                 </Button>
-                <Button onClick={handleCreateWebhook} disabled={createWebhook.isPending}>
-                  {createWebhook.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-                  Criar Webhook
+                <Button onClick={handleSaveWebhook} disabled={isSaving}>
+                  {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editingWebhookId ? 'Salvar Alterações' : 'Criar Webhook'}
                 </Button>
               </DialogFooter>
             </DialogContent>
@@ -219,10 +401,14 @@ export default function WebhookSettings() {
               <div className="space-y-1">
                 <p className="font-medium">Como usar webhooks</p>
                 <p className="text-sm text-muted-foreground">
-                  Configure webhooks para criar contratos automaticamente a partir de plataformas como 
-                  <strong> Make</strong>, <strong>Zapier</strong> ou <strong>Clickup</strong>. 
-                  Quando um evento ocorrer nessas plataformas, os dados serão enviados para cá e um novo contrato 
-                  será criado automaticamente.
+                  Cada endpoint ativo recebe um <code>POST</code> em JSON quando um contrato é criado, preenchido pelo
+                  cliente, enviado para assinatura, assinado, muda de status ou está próximo do vencimento — ideal para
+                  integrar com <strong>Make</strong>, <strong>Zapier</strong> ou <strong>Clickup</strong>.
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Para validar a origem, calcule o HMAC-SHA256 do corpo da requisição usando a chave secreta e compare
+                  com o cabeçalho <code>X-Webhook-Signature</code> (<code>sha256=...</code>). Entregas que falham são
+                  reenviadas automaticamente com intervalos crescentes.
                 </p>
               </div>
             </div>
@@ -266,6 +452,24 @@ export default function WebhookSettings() {
                           toggleWebhook.mutate({ id: webhook.id, is_active: checked })
                         }
                       />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground"
+                        onClick={() => setTestingWebhook(webhook)}
+                        title="Enviar evento de teste"
+                      >
+                        <Send className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground"
+                        onClick={() => openEditDialog(webhook)}
+                        title="Editar"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -278,6 +482,21 @@ export default function WebhookSettings() {
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-3">
+                  <div>
+                    <Label className="text-xs text-muted-foreground">Eventos</Label>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {webhook.events.map((event) => (
+                        <Badge key={event} variant="outline">
+                          {WEBHOOK_EVENT_LABELS[event] ?? event}
+                        </Badge>
+                      ))}
+                    </div>
+                    {webhook.contract_categories && webhook.contract_categories.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Somente contratos: {webhook.contract_categories.map((c) => CONTRACT_CATEGORY_LABELS[c] ?? c).join(', ')}
+                      </p>
+                    )}
+                  </div>
                   <div>
                     <Label className="text-xs text-muted-foreground">URL do Endpoint</Label>
                     <div className="flex items-center gap-2 mt-1">
@@ -323,12 +542,21 @@ export default function WebhookSettings() {
                       </div>
                     </div>
                   )}
+                  <WebhookDeliveryLog
+                    deliveries={getEndpointDeliveries(webhook.id)}
+                    onRetry={(deliveryId) => retryDelivery.mutate(deliveryId)}
+                  />
                 </CardContent>
               </Card>
             ))
           )}
         </div>
       </div>
+
+      <WebhookTestDialog
+        webhook={testingWebhook}
+        onOpenChange={(open) => !open && setTestingWebhook(null)}
+      />
     </AppLayout>
   );
 }
@@ -0,0 +1,31 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hasPermission, type AppRole, type Permission } from "../../../src/lib/permissions.ts";
+
+export class AuthorizationError extends Error {
+  constructor(message: string, public status: 401 | 403) {
+    super(message);
+    this.name = "AuthorizationError";
+  }
+}
+
+// Resolves the caller from the request's JWT and checks their role; throws AuthorizationError otherwise
+export async function requirePermission(req: Request, permission: Permission): Promise<{ userId: string; email: string | null; role: AppRole }> {
+  const userClient = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) throw new AuthorizationError("Unauthorized", 401);
+
+  const { data } = await userClient
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  const role = (data?.role ?? null) as AppRole | null;
+  if (!role || !hasPermission(role, permission)) {
+    throw new AuthorizationError("Forbidden", 403);
+  }
+  return { userId: user.id, email: user.email ?? null, role };
+}
@@ -0,0 +1,82 @@
+// Run with: deno test --allow-env --allow-read supabase/functions/_shared
+// brDocuments.ts validates the CPF/CNPJ fields submit-client-form accepts.
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  formatCnpj,
+  formatCpf,
+  formatCpfCnpj,
+  formatPixKey,
+  formatRg,
+  isValidCep,
+  isValidCnpj,
+  isValidCpf,
+  isValidRg,
+  maskCnpj,
+  maskCpfCnpj,
+  normalizeCnpj,
+  pixKeyType,
+} from "../../../src/lib/brDocuments.ts";
+
+Deno.test("isValidCpf checks both check digits", () => {
+  assertEquals(isValidCpf("529.982.247-25"), true);
+  assertEquals(isValidCpf("52998224725"), true);
+  assertEquals(isValidCpf("529.982.247-24"), false);
+  assertEquals(isValidCpf("529.982.247-15"), false);
+  assertEquals(isValidCpf("111.111.111-11"), false);
+  assertEquals(isValidCpf("5299822472"), false);
+});
+
+Deno.test("isValidCnpj checks both check digits of numeric CNPJs", () => {
+  assertEquals(isValidCnpj("11.222.333/0001-81"), true);
+  assertEquals(isValidCnpj("11222333000181"), true);
+  assertEquals(isValidCnpj("11.222.333/0001-80"), false);
+  assertEquals(isValidCnpj("11.222.333/0001-71"), false);
+  assertEquals(isValidCnpj("00.000.000/0000-00"), false);
+  assertEquals(isValidCnpj("1122233300018"), false);
+});
+
+Deno.test("isValidCnpj accepts alphanumeric CNPJs, whose check digits stay numeric", () => {
+  assertEquals(isValidCnpj("12.ABC.345/01DE-35"), true);
+  assertEquals(isValidCnpj("12abc34501de35"), true);
+  assertEquals(isValidCnpj("12.ABC.345/01DE-36"), false);
+  assertEquals(isValidCnpj("12.ABC.345/01DE-3A"), false);
+});
+
+Deno.test("normalizeCnpj and maskCnpj keep letters", () => {
+  assertEquals(normalizeCnpj("12.abc.345/01de-35"), "12ABC34501DE35");
+  assertEquals(maskCnpj("12abc34501de35"), "12.ABC.345/01DE-35");
+  assertEquals(maskCnpj("1122"), "11.22");
+});
+
+Deno.test("maskCpfCnpj switches to the CNPJ mask after 11 digits or on a letter", () => {
+  assertEquals(maskCpfCnpj("52998224725"), "529.982.247-25");
+  assertEquals(maskCpfCnpj("112223330001"), "11.222.333/0001");
+  assertEquals(maskCpfCnpj("12ABC"), "12.ABC");
+});
+
+Deno.test("format* punctuate valid numbers and leave invalid ones as typed", () => {
+  assertEquals(formatCpf("52998224725"), "529.982.247-25");
+  assertEquals(formatCpf("123"), "123");
+  assertEquals(formatCnpj("11222333000181"), "11.222.333/0001-81");
+  assertEquals(formatCpfCnpj("12ABC34501DE35"), "12.ABC.345/01DE-35");
+  assertEquals(formatRg("123456789"), "12.345.678-9");
+  assertEquals(formatRg(" mg-12.345.678 "), "MG-12.345.678");
+});
+
+Deno.test("isValidCep and isValidRg check the shape only", () => {
+  assertEquals(isValidCep("01310-100"), true);
+  assertEquals(isValidCep("01310100"), true);
+  assertEquals(isValidCep("0131-0100"), false);
+  assertEquals(isValidRg("12.345.678-X"), true);
+  assertEquals(isValidRg("123"), false);
+});
+
+Deno.test("pixKeyType recognises each kind of key", () => {
+  assertEquals(pixKeyType("529.982.247-25"), "cpf");
+  assertEquals(pixKeyType("12.ABC.345/01DE-35"), "cnpj");
+  assertEquals(pixKeyType("financeiro@empresa.com.br"), "email");
+  assertEquals(pixKeyType("+55 11 98765-4321"), "phone");
+  assertEquals(pixKeyType("123e4567-e89b-42d3-a456-426614174000"), "random");
+  assertEquals(pixKeyType("529.982.247-24"), null);
+  assertEquals(formatPixKey("52998224725"), "529.982.247-25");
+});
@@ -0,0 +1,57 @@
+// Run with: deno test --allow-env --allow-read supabase/functions/_shared
+// Uses the stub provider, so no network access is needed.
+import { assertEquals, assertRejects, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { getCepProviders, lookupCep } from "./cepProviders.ts";
+
+// Runs fn with CEP_PROVIDER set and fetch replaced, restoring both afterwards
+async function withProviders(providers: string, fetchImpl: typeof fetch | null, fn: () => Promise<void>) {
+  const previousProviders = Deno.env.get("CEP_PROVIDER");
+  const previousFetch = globalThis.fetch;
+  Deno.env.set("CEP_PROVIDER", providers);
+  if (fetchImpl) globalThis.fetch = fetchImpl;
+  try {
+    await fn();
+  } finally {
+    if (previousProviders === undefined) Deno.env.delete("CEP_PROVIDER");
+    else Deno.env.set("CEP_PROVIDER", previousProviders);
+    globalThis.fetch = previousFetch;
+  }
+}
+
+const unavailable: typeof fetch = () => Promise.resolve(new Response("unavailable", { status: 503 }));
+
+Deno.test("lookupCep finds a stub address by masked CEP", async () => {
+  await withProviders("stub", null, async () => {
+    assertEquals(await lookupCep("01310-100"), {
+      address: { cep: "01310100", logradouro: "Avenida Paulista", bairro: "Bela Vista", cidade: "São Paulo", uf: "SP" },
+      provider: "stub",
+    });
+  });
+});
+
+Deno.test("lookupCep returns null for a CEP the provider does not know", async () => {
+  await withProviders("stub", null, async () => {
+    assertEquals(await lookupCep("99999-999"), { address: null, provider: "stub" });
+  });
+});
+
+Deno.test("lookupCep falls through to the next provider when one is down", async () => {
+  await withProviders("viacep, stub", unavailable, async () => {
+    const { address, provider } = await lookupCep("20040002");
+    assertEquals(provider, "stub");
+    assertEquals(address?.cidade, "Rio de Janeiro");
+  });
+});
+
+Deno.test("lookupCep fails when every provider is down", async () => {
+  await withProviders("viacep,brasilapi", unavailable, async () => {
+    await assertRejects(() => lookupCep("01310100"), Error, "responded 503");
+  });
+});
+
+Deno.test("getCepProviders rejects unknown provider names", async () => {
+  await withProviders("viacep,correios", null, () => {
+    assertThrows(() => getCepProviders(), Error, "Unknown CEP provider: correios");
+    return Promise.resolve();
+  });
+});
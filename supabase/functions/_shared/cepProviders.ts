@@ -0,0 +1,81 @@
+import { onlyDigits } from "../../../src/lib/brDocuments.ts";
+import type { Address } from "../../../src/lib/address.ts";
+
+// What a CEP lookup can fill; number and complement always come from the user
+export type CepAddress = Omit<Address, "numero" | "complemento">;
+
+export interface CepProvider {
+  name: string;
+  // null when the CEP does not exist; throws when the service itself fails
+  lookup(cep: string): Promise<CepAddress | null>;
+}
+
+const LOOKUP_TIMEOUT_MS = 5000;
+
+async function fetchJson(url: string): Promise<{ status: number; body: Record<string, string> | null }> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) });
+  if (response.status >= 500) {
+    throw new Error(`${url} responded ${response.status}`);
+  }
+  return { status: response.status, body: response.ok ? await response.json() : null };
+}
+
+const viaCep: CepProvider = {
+  name: "viacep",
+  async lookup(cep) {
+    const { body } = await fetchJson(`https://viacep.com.br/ws/${cep}/json/`);
+    if (!body || body.erro) return null;
+    return { cep, logradouro: body.logradouro ?? "", bairro: body.bairro ?? "", cidade: body.localidade ?? "", uf: body.uf ?? "" };
+  },
+};
+
+const brasilApi: CepProvider = {
+  name: "brasilapi",
+  async lookup(cep) {
+    const { status, body } = await fetchJson(`https://brasilapi.com.br/api/cep/v1/${cep}`);
+    if (status === 404 || !body) return null;
+    return { cep, logradouro: body.street ?? "", bairro: body.neighborhood ?? "", cidade: body.city ?? "", uf: body.state ?? "" };
+  },
+};
+
+// Fixed answers for local development and tests, without network access
+const STUB_ADDRESSES: Record<string, CepAddress> = {
+  "01310100": { cep: "01310100", logradouro: "Avenida Paulista", bairro: "Bela Vista", cidade: "São Paulo", uf: "SP" },
+  "20040002": { cep: "20040002", logradouro: "Rua da Assembleia", bairro: "Centro", cidade: "Rio de Janeiro", uf: "RJ" },
+  "70040010": { cep: "70040010", logradouro: "Esplanada dos Ministérios", bairro: "Zona Cívico-Administrativa", cidade: "Brasília", uf: "DF" },
+};
+
+const stub: CepProvider = {
+  name: "stub",
+  lookup(cep) {
+    return Promise.resolve(STUB_ADDRESSES[cep] ?? null);
+  },
+};
+
+const CEP_PROVIDERS: Record<string, CepProvider> = { viacep: viaCep, brasilapi: brasilApi, stub };
+
+// CEP_PROVIDER lists providers in order of preference, e.g. "viacep,brasilapi"
+export function getCepProviders(): CepProvider[] {
+  const names = (Deno.env.get("CEP_PROVIDER") || "viacep,brasilapi").split(",").map((name) => name.trim());
+  return names.map((name) => {
+    const provider = CEP_PROVIDERS[name];
+    if (!provider) throw new Error(`Unknown CEP provider: ${name}`);
+    return provider;
+  });
+}
+
+// The first provider that answers wins; an outage falls through to the next one
+export async function lookupCep(value: string): Promise<{ address: CepAddress | null; provider: string | null }> {
+  const cep = onlyDigits(value);
+  let lastError: unknown = null;
+
+  for (const provider of getCepProviders()) {
+    try {
+      return { address: await provider.lookup(cep), provider: provider.name };
+    } catch (error) {
+      console.error(`CEP provider ${provider.name} failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError ?? new Error("No CEP provider configured");
+}
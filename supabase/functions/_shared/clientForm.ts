@@ -0,0 +1,91 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "./cors.ts";
+
+// Error codes the client form page turns into messages
+export type ClientFormErrorCode = 'invalid_token' | 'not_found' | 'expired' | 'unavailable' | 'already_submitted' | 'invalid_data';
+
+export class ClientFormError extends Error {
+  constructor(message: string, public code: ClientFormErrorCode, public status: number, public details: string[] = []) {
+    super(message);
+    this.name = 'ClientFormError';
+  }
+}
+
+export interface ClientFormContract {
+  id: string;
+  client_name: string;
+  plan_id: string | null;
+  status: string;
+  custom_data: Record<string, unknown> | null;
+  client_filled_at: string | null;
+  client_token_expires_at: string | null;
+}
+
+export interface ClientFormVariable {
+  id: string;
+  variable_name: string;
+  label: string;
+  field_type: string;
+  required: boolean;
+  options: string[] | null;
+  description: string | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+export function clientFormErrorResponse(error: ClientFormError) {
+  return jsonResponse({ error: error.message, code: error.code, details: error.details }, error.status);
+}
+
+// Statuses in which a client form link works. After the client submits, the contract is
+// awaiting_signature and the link only shows the form as submitted until staff reopen it,
+// which issues a new link.
+const CLIENT_FORM_STATUSES = ['draft', 'sent_to_client', 'awaiting_signature'];
+
+// Contract behind a client form link, rejecting unknown, expired and closed links
+export async function loadContractByToken(supabase: SupabaseClient, token: unknown): Promise<ClientFormContract> {
+  if (typeof token !== 'string' || !UUID_PATTERN.test(token)) {
+    throw new ClientFormError('Invalid token', 'invalid_token', 400);
+  }
+
+  const { data, error } = await supabase
+    .from('contracts')
+    .select('id, client_name, plan_id, status, custom_data, client_filled_at, client_token_expires_at')
+    .eq('client_token', token)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load contract: ${error.message}`);
+  if (!data) throw new ClientFormError('Contract not found', 'not_found', 404);
+
+  const contract = data as ClientFormContract;
+  // Once the contract moves past the form (signed, closed) its data is no longer the client's to change.
+  // Sending it for signature clears the token, so those contracts are never found here.
+  if (!CLIENT_FORM_STATUSES.includes(contract.status)) {
+    throw new ClientFormError('Contract is no longer available', 'unavailable', 410);
+  }
+  if (contract.client_token_expires_at && new Date(contract.client_token_expires_at) < new Date()) {
+    throw new ClientFormError('Client form link expired', 'expired', 410);
+  }
+  return contract;
+}
+
+// Only the fields the client fills in; everything else in the plan stays private
+export async function loadFormVariables(supabase: SupabaseClient, planId: string | null): Promise<ClientFormVariable[]> {
+  if (!planId) return [];
+
+  const { data, error } = await supabase
+    .from('plan_variables')
+    .select('id, variable_name, label, field_type, required, options, description')
+    .eq('plan_id', planId)
+    .order('created_at');
+
+  if (error) throw new Error(`Failed to load plan variables: ${error.message}`);
+  return (data ?? []) as ClientFormVariable[];
+}
@@ -0,0 +1,58 @@
+// Run with: deno test --allow-env --allow-read supabase/functions/_shared
+// Uses the stub provider, so no network access is needed.
+import { assertEquals, assertRejects, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { getCnpjProviders, lookupCnpj } from "./cnpjProviders.ts";
+
+// Runs fn with CNPJ_PROVIDER set and fetch replaced, restoring both afterwards
+async function withProviders(providers: string, fetchImpl: typeof fetch | null, fn: () => Promise<void>) {
+  const previousProviders = Deno.env.get("CNPJ_PROVIDER");
+  const previousFetch = globalThis.fetch;
+  Deno.env.set("CNPJ_PROVIDER", providers);
+  if (fetchImpl) globalThis.fetch = fetchImpl;
+  try {
+    await fn();
+  } finally {
+    if (previousProviders === undefined) Deno.env.delete("CNPJ_PROVIDER");
+    else Deno.env.set("CNPJ_PROVIDER", previousProviders);
+    globalThis.fetch = previousFetch;
+  }
+}
+
+const rateLimited: typeof fetch = () => Promise.resolve(new Response("too many requests", { status: 429 }));
+
+Deno.test("lookupCnpj finds the stub company", async () => {
+  await withProviders("stub", null, async () => {
+    const { company, provider } = await lookupCnpj("11222333000181");
+    assertEquals(provider, "stub");
+    assertEquals(company?.cnpj, "11222333000181");
+    assertEquals(company?.razao_social, "EMPRESA EXEMPLO LTDA");
+    assertEquals(company?.endereco.cep, "01310-100");
+  });
+});
+
+Deno.test("lookupCnpj returns null for an unregistered CNPJ", async () => {
+  await withProviders("stub", null, async () => {
+    assertEquals(await lookupCnpj("11444777000161"), { company: null, provider: "stub" });
+  });
+});
+
+Deno.test("lookupCnpj falls through to the next provider when one is rate limited", async () => {
+  await withProviders("brasilapi,stub", rateLimited, async () => {
+    const { company, provider } = await lookupCnpj("11222333000181");
+    assertEquals(provider, "stub");
+    assertEquals(company?.nome_fantasia, "Exemplo");
+  });
+});
+
+Deno.test("lookupCnpj fails when every provider is unavailable", async () => {
+  await withProviders("brasilapi,receitaws", rateLimited, async () => {
+    await assertRejects(() => lookupCnpj("11222333000181"), Error, "responded 429");
+  });
+});
+
+Deno.test("getCnpjProviders rejects unknown provider names", async () => {
+  await withProviders("brasilapi,serpro", null, () => {
+    assertThrows(() => getCnpjProviders(), Error, "Unknown CNPJ provider: serpro");
+    return Promise.resolve();
+  });
+});
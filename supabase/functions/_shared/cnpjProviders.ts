@@ -0,0 +1,140 @@
+import { onlyDigits } from "../../../src/lib/brDocuments.ts";
+import type { CompanyData } from "../../../src/lib/companyLookup.ts";
+
+export interface CnpjProvider {
+  name: string;
+  // null when the CNPJ is not registered; throws when the service itself fails
+  lookup(cnpj: string): Promise<CompanyData | null>;
+}
+
+const LOOKUP_TIMEOUT_MS = 10000;
+
+async function fetchJson(url: string): Promise<Record<string, unknown> | null> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) });
+  if (response.status === 404) return null;
+  // 429 (rate limit) and outages fall through to the next provider
+  if (!response.ok) throw new Error(`${url} responded ${response.status}`);
+  return await response.json();
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : value == null ? "" : String(value);
+}
+
+function maskedCep(value: unknown): string {
+  const cep = onlyDigits(text(value));
+  return cep.length === 8 ? `${cep.slice(0, 5)}-${cep.slice(5)}` : cep;
+}
+
+const brasilApi: CnpjProvider = {
+  name: "brasilapi",
+  async lookup(cnpj) {
+    const body = await fetchJson(`https://brasilapi.com.br/api/cnpj/v1/${cnpj}`);
+    if (!body) return null;
+    const street = [text(body.descricao_tipo_de_logradouro), text(body.logradouro)].filter(Boolean).join(" ");
+    return {
+      cnpj,
+      razao_social: text(body.razao_social),
+      nome_fantasia: text(body.nome_fantasia),
+      cnae: text(body.cnae_fiscal),
+      cnae_descricao: text(body.cnae_fiscal_descricao),
+      situacao: text(body.descricao_situacao_cadastral),
+      email: text(body.email).toLowerCase(),
+      telefone: text(body.ddd_telefone_1),
+      endereco: {
+        cep: maskedCep(body.cep),
+        logradouro: street,
+        numero: text(body.numero),
+        complemento: text(body.complemento),
+        bairro: text(body.bairro),
+        cidade: text(body.municipio),
+        uf: text(body.uf),
+      },
+    };
+  },
+};
+
+const receitaWs: CnpjProvider = {
+  name: "receitaws",
+  async lookup(cnpj) {
+    const body = await fetchJson(`https://receitaws.com.br/v1/cnpj/${cnpj}`);
+    if (!body || body.status === "ERROR") return null;
+    const [activity] = Array.isArray(body.atividade_principal) ? body.atividade_principal : [];
+    return {
+      cnpj,
+      razao_social: text(body.nome),
+      nome_fantasia: text(body.fantasia),
+      cnae: text(activity?.code),
+      cnae_descricao: text(activity?.text),
+      situacao: text(body.situacao),
+      email: text(body.email).toLowerCase(),
+      telefone: text(body.telefone),
+      endereco: {
+        cep: maskedCep(body.cep),
+        logradouro: text(body.logradouro),
+        numero: text(body.numero),
+        complemento: text(body.complemento),
+        bairro: text(body.bairro),
+        cidade: text(body.municipio),
+        uf: text(body.uf),
+      },
+    };
+  },
+};
+
+// Fixed answer for local development and tests, without network access
+const STUB_COMPANIES: Record<string, Omit<CompanyData, "cnpj">> = {
+  "11222333000181": {
+    razao_social: "EMPRESA EXEMPLO LTDA",
+    nome_fantasia: "Exemplo",
+    cnae: "7311400",
+    cnae_descricao: "Agências de publicidade",
+    situacao: "ATIVA",
+    email: "contato@exemplo.com.br",
+    telefone: "(11) 3000-0000",
+    endereco: {
+      cep: "01310-100",
+      logradouro: "Avenida Paulista",
+      numero: "1000",
+      complemento: "Sala 5",
+      bairro: "Bela Vista",
+      cidade: "São Paulo",
+      uf: "SP",
+    },
+  },
+};
+
+const stub: CnpjProvider = {
+  name: "stub",
+  lookup(cnpj) {
+    const company = STUB_COMPANIES[cnpj];
+    return Promise.resolve(company ? { cnpj, ...company } : null);
+  },
+};
+
+const CNPJ_PROVIDERS: Record<string, CnpjProvider> = { brasilapi: brasilApi, receitaws: receitaWs, stub };
+
+// CNPJ_PROVIDER lists providers in order of preference, e.g. "brasilapi,receitaws"
+export function getCnpjProviders(): CnpjProvider[] {
+  const names = (Deno.env.get("CNPJ_PROVIDER") || "brasilapi,receitaws").split(",").map((name) => name.trim());
+  return names.map((name) => {
+    const provider = CNPJ_PROVIDERS[name];
+    if (!provider) throw new Error(`Unknown CNPJ provider: ${name}`);
+    return provider;
+  });
+}
+
+// The first provider that answers wins; an outage or rate limit falls through to the next one
+export async function lookupCnpj(cnpj: string): Promise<{ company: CompanyData | null; provider: string | null }> {
+  let lastError: unknown = null;
+
+  for (const provider of getCnpjProviders()) {
+    try {
+      return { company: await provider.lookup(cnpj), provider: provider.name };
+    } catch (error) {
+      console.error(`CNPJ provider ${provider.name} failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError ?? new Error("No CNPJ provider configured");
+}
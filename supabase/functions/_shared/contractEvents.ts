@@ -0,0 +1,38 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface ContractEventInput {
+  contractId: string;
+  action: string;
+  actorType: 'user' | 'client' | 'signer' | 'system';
+  actorId?: string | null;
+  actorEmail?: string | null;
+  changes?: Record<string, { old?: unknown; new?: unknown }> | null;
+  metadata?: Record<string, unknown> | null;
+  ipAddress?: string | null;
+}
+
+// Caller address as seen by the edge runtime's proxy
+export function getClientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (forwarded) return forwarded.split(',')[0].trim();
+  return req.headers.get('x-real-ip');
+}
+
+// Appends to the contract history. Failing to audit is logged but does not undo the action
+// that was already performed.
+export async function recordContractEvent(supabase: SupabaseClient, event: ContractEventInput) {
+  const { error } = await supabase.from('contract_events').insert({
+    contract_id: event.contractId,
+    action: event.action,
+    actor_type: event.actorType,
+    actor_id: event.actorId ?? null,
+    actor_email: event.actorEmail ?? null,
+    changes: event.changes ?? null,
+    metadata: event.metadata ?? null,
+    ip_address: event.ipAddress ?? null,
+  });
+
+  if (error) {
+    console.error(`Failed to record contract event ${event.action} for ${event.contractId}:`, error);
+  }
+}
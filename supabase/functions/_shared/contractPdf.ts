@@ -0,0 +1,219 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+// Same renderer used by the app, so the signed document matches what staff previewed
+import { renderAmendmentDocument, renderContractDocument, type RenderResult } from "../../../src/lib/templateEngine.ts";
+import { getDefaultSigners, getSignatureMarkers, type ContractSignerInput } from "../../../src/lib/signers.ts";
+import { htmlToPdf, type PdfMarkerPosition } from "./htmlToPdf.ts";
+
+export class TemplateRenderError extends Error {
+  constructor(message: string, public errors: string[] = [], public unresolved: string[] = []) {
+    super(message);
+    this.name = 'TemplateRenderError';
+  }
+}
+
+// Signed (active or expired) contracts keep the document they were signed with
+export class SignedContractError extends Error {
+  constructor(contractId: string) {
+    super(`Contract ${contractId} is already signed`);
+    this.name = 'SignedContractError';
+  }
+}
+
+export interface StoredSigner extends ContractSignerInput {
+  id?: string;
+}
+
+// Signers saved for the contract; contracts created before signers were configurable
+// fall back to the company and the client
+export async function loadContractSigners(
+  supabase: SupabaseClient,
+  contract: { id: string; client_name: string; client_email: string | null; contract_category: string | null }
+): Promise<StoredSigner[]> {
+  const { data, error } = await supabase
+    .from('contract_signers')
+    .select('*')
+    .eq('contract_id', contract.id)
+    .order('signing_order');
+
+  if (error) {
+    throw new Error(`Failed to load contract signers: ${error.message}`);
+  }
+  if (data && data.length > 0) return data as StoredSigner[];
+
+  return getDefaultSigners(contract.contract_category || 'client', {
+    name: contract.client_name,
+    email: contract.client_email ?? '',
+  });
+}
+
+export interface ContractPdf {
+  url: string;
+  path: string;
+  html: string;
+  templateVersionId: string | null;
+  bytes: Uint8Array;
+  pageCount: number;
+  pageWidth: number;
+  pageHeight: number;
+  margin: number;
+  markers: PdfMarkerPosition[];
+  signers: StoredSigner[];
+}
+
+function checkRendered({ html, unresolved, errors }: RenderResult, emptyMessage: string): string {
+  if (!html) {
+    throw new Error(emptyMessage);
+  }
+  if (errors.length > 0) {
+    throw new TemplateRenderError(`Template errors: ${errors.join('; ')}`, errors);
+  }
+  if (unresolved.length > 0) {
+    throw new TemplateRenderError(`Unresolved template placeholders: ${unresolved.join(', ')}`, [], unresolved);
+  }
+  return html;
+}
+
+// Lay the document out as a PDF. Each signature marker is printed as the name of the signer
+// who signs there.
+function layoutPdf(html: string, signers: StoredSigner[]) {
+  const markerLabels: Record<string, string> = {};
+  for (const [marker, signer] of getSignatureMarkers(signers)) {
+    markerLabels[marker] = signer.name;
+  }
+
+  return htmlToPdf(html, markerLabels);
+}
+
+// Store a PDF in the contracts bucket and return its public URL
+async function storePdf(supabase: SupabaseClient, bytes: Uint8Array, path: string): Promise<string> {
+  const { error: uploadError } = await supabase.storage
+    .from('contracts')
+    .upload(path, bytes, { contentType: 'application/pdf', upsert: true });
+
+  if (uploadError) {
+    throw new Error(`Failed to upload PDF: ${uploadError.message}`);
+  }
+
+  const { data: { publicUrl } } = supabase.storage.from('contracts').getPublicUrl(path);
+  return publicUrl;
+}
+
+export type RenderedContractPdf = Omit<ContractPdf, 'url' | 'path'>;
+
+// Render the contract template and lay it out as a PDF without storing anything, for the
+// signature placement preview. templateContent overrides the plan template when the document
+// was edited for this contract only; such a document matches no template version.
+export async function renderContractPdf(
+  supabase: SupabaseClient,
+  contractId: string,
+  templateContent?: string
+): Promise<RenderedContractPdf> {
+  const { data: contract, error: contractError } = await supabase
+    .from('contracts')
+    .select('*, plans(template_content, current_version_id, plan_variables(variable_name, field_type))')
+    .eq('id', contractId)
+    .single();
+
+  if (contractError || !contract) {
+    throw new Error(`Contract not found: ${contractError?.message ?? contractId}`);
+  }
+  if (contract.status === 'active' || contract.status === 'expired') {
+    throw new SignedContractError(contractId);
+  }
+
+  const html = checkRendered(
+    renderContractDocument(
+      { template_content: templateContent || contract.plans?.template_content || null },
+      contract.plans?.plan_variables ?? [],
+      contract
+    ),
+    'Contract has no template content to render'
+  );
+
+  const signers = await loadContractSigners(supabase, contract);
+  const pdf = await layoutPdf(html, signers);
+
+  const templateVersionId: string | null = templateContent
+    ? null
+    : contract.plans?.current_version_id ?? contract.template_version_id;
+
+  return { ...pdf, html, templateVersionId, signers };
+}
+
+// Render the contract and store the PDF in the contracts bucket as the contract's
+// generated_document_url, for sending it to be signed. The contract is pinned to the
+// template version it was rendered from; an edited document is pinned to none and its
+// snapshot keeps the rendered HTML.
+export async function generateContractPdf(
+  supabase: SupabaseClient,
+  contractId: string,
+  templateContent?: string
+): Promise<ContractPdf> {
+  const rendered = await renderContractPdf(supabase, contractId, templateContent);
+
+  const path = `generated/${contractId}/${Date.now()}.pdf`;
+  const publicUrl = await storePdf(supabase, rendered.bytes, path);
+
+  const { error: updateError } = await supabase
+    .from('contracts')
+    .update({
+      generated_document_url: publicUrl,
+      template_version_id: rendered.templateVersionId,
+    })
+    .eq('id', contractId);
+
+  if (updateError) {
+    throw new Error(`Failed to update contract: ${updateError.message}`);
+  }
+
+  console.log(`Generated PDF for contract ${contractId}: ${rendered.pageCount} page(s)`);
+
+  return { ...rendered, url: publicUrl, path };
+}
+
+// Render an amendment with its plan's amendment template and store the PDF as the
+// amendment's generated_document_url. Amendments are signed by the contract's signers.
+export async function generateAmendmentPdf(supabase: SupabaseClient, amendmentId: string): Promise<ContractPdf> {
+  const { data: amendment, error: amendmentError } = await supabase
+    .from('contract_amendments')
+    .select('*')
+    .eq('id', amendmentId)
+    .single();
+
+  if (amendmentError || !amendment) {
+    throw new Error(`Amendment not found: ${amendmentError?.message ?? amendmentId}`);
+  }
+
+  const { data: contract, error: contractError } = await supabase
+    .from('contracts')
+    .select('*, plans(amendment_template_content, plan_variables(variable_name, field_type))')
+    .eq('id', amendment.contract_id)
+    .single();
+
+  if (contractError || !contract) {
+    throw new Error(`Contract not found: ${contractError?.message ?? amendment.contract_id}`);
+  }
+
+  const html = checkRendered(
+    renderAmendmentDocument(contract.plans, contract.plans?.plan_variables ?? [], contract, amendment),
+    'Amendment template rendered an empty document'
+  );
+
+  const signers = await loadContractSigners(supabase, contract);
+  const path = `generated/${contract.id}/amendments/${amendmentId}/${Date.now()}.pdf`;
+  const pdf = await layoutPdf(html, signers);
+  const publicUrl = await storePdf(supabase, pdf.bytes, path);
+
+  const { error: updateError } = await supabase
+    .from('contract_amendments')
+    .update({ generated_document_url: publicUrl })
+    .eq('id', amendmentId);
+
+  if (updateError) {
+    throw new Error(`Failed to update amendment: ${updateError.message}`);
+  }
+
+  console.log(`Generated PDF for amendment ${amendmentId} of contract ${contract.id}: ${pdf.pageCount} page(s)`);
+
+  return { ...pdf, url: publicUrl, path, html, templateVersionId: null, signers };
+}
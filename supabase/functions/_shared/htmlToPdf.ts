@@ -0,0 +1,541 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from "https://esm.sh/pdf-lib@1.17.1";
+import { DOMParser } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+
+// Deterministic HTML -> PDF layout for contract documents.
+// Only the subset produced by the template editor is supported: paragraphs, headings,
+// lists, line breaks, bold/italic/underline, text alignment, images and simple tables.
+// The page geometry returned here is what the signature placement step displays.
+
+export const PAGE_WIDTH = 595.28; // A4 in points
+export const PAGE_HEIGHT = 841.89;
+export const PAGE_MARGIN = 56.69; // 2cm
+
+const BASE_FONT_SIZE = 11;
+const LINE_HEIGHT = 1.45;
+const PARAGRAPH_SPACING = 6;
+const LIST_INDENT = 18;
+const CELL_PADDING = 4;
+
+const HEADING_SIZES: Record<string, number> = { h1: 18, h2: 15, h3: 13, h4: 12, h5: 11, h6: 11 };
+
+interface TextStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  size: number;
+}
+
+type InlinePiece =
+  | { kind: 'text'; text: string; style: TextStyle }
+  | { kind: 'break' };
+
+interface Word {
+  text: string;
+  style: TextStyle;
+  spaceBefore: boolean;
+  width: number;
+  marker?: string;
+}
+
+interface Line {
+  words: Word[];
+  width: number;
+  height: number;
+}
+
+type Align = 'left' | 'center' | 'right';
+
+// Position of a {{marker}} found in the document, as % of the page (Autentique convention)
+export interface PdfMarkerPosition {
+  marker: string;
+  page: number;
+  x: number;
+  y: number;
+}
+
+export interface HtmlToPdfResult {
+  bytes: Uint8Array;
+  pageCount: number;
+  pageWidth: number;
+  pageHeight: number;
+  margin: number;
+  markers: PdfMarkerPosition[];
+}
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+  charset: Set<number>;
+}
+
+interface LayoutState {
+  pdf: PDFDocument;
+  fonts: Fonts;
+  page: PDFPage;
+  y: number;
+  markerLabels: Record<string, string>;
+  markers: PdfMarkerPosition[];
+}
+
+// The parts of deno-dom's Node/Element used by the layout. Loose enough that the walker
+// also accepts the synthetic wrappers used to group inline content.
+interface DomNode {
+  nodeType: number;
+  textContent: string | null;
+  childNodes: ArrayLike<DomNode> & Iterable<DomNode>;
+  tagName?: string;
+  children?: ArrayLike<DomNode> & Iterable<DomNode>;
+  getAttribute(name: string): string | null;
+  querySelectorAll(selector: string): ArrayLike<DomNode> & Iterable<DomNode>;
+  remove?(): void;
+}
+
+// Groups loose inline nodes so they can be laid out like a paragraph
+function inlineWrapper(nodes: DomNode[]): DomNode {
+  return { nodeType: 1, textContent: null, childNodes: nodes, getAttribute: () => null, querySelectorAll: () => [] };
+}
+
+const MARKER_REGEX = /\{\{\s*([A-Z0-9_]+)\s*\}\}/;
+
+function fontFor(fonts: Fonts, style: TextStyle): PDFFont {
+  if (style.bold && style.italic) return fonts.boldItalic;
+  if (style.bold) return fonts.bold;
+  if (style.italic) return fonts.italic;
+  return fonts.regular;
+}
+
+// Standard PDF fonts only cover WinAnsi; anything else would make pdf-lib throw
+function sanitizeText(text: string, charset: Set<number>): string {
+  return Array.from(text.normalize('NFC'))
+    .map((char) => {
+      if (char === ' ') return ' ';
+      return charset.has(char.codePointAt(0)!) ? char : '?';
+    })
+    .join('');
+}
+
+function newPage(state: LayoutState) {
+  state.page = state.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  state.y = PAGE_HEIGHT - PAGE_MARGIN;
+}
+
+function ensureSpace(state: LayoutState, height: number) {
+  const pageIsEmpty = state.y >= PAGE_HEIGHT - PAGE_MARGIN;
+  if (state.y - height < PAGE_MARGIN && !pageIsEmpty) {
+    newPage(state);
+  }
+}
+
+function getAlign(element: DomNode, fallback: Align): Align {
+  const style = element.getAttribute('style') ?? '';
+  const match = style.match(/text-align:\s*(left|center|right|justify)/i);
+  if (!match) return fallback;
+  const value = match[1].toLowerCase();
+  return value === 'justify' ? 'left' : (value as Align);
+}
+
+function collectInline(node: DomNode, style: TextStyle, pieces: InlinePiece[]) {
+  if (node.nodeType === 3) {
+    pieces.push({ kind: 'text', text: node.textContent ?? '', style });
+    return;
+  }
+  if (node.nodeType !== 1) return;
+
+  const tag = node.tagName.toLowerCase();
+  if (tag === 'br') {
+    pieces.push({ kind: 'break' });
+    return;
+  }
+
+  const next: TextStyle = {
+    ...style,
+    bold: style.bold || tag === 'strong' || tag === 'b',
+    italic: style.italic || tag === 'em' || tag === 'i',
+    underline: style.underline || tag === 'u',
+  };
+  for (const child of node.childNodes) {
+    collectInline(child, next, pieces);
+  }
+}
+
+function toWords(pieces: InlinePiece[], state: LayoutState): (Word | 'break')[] {
+  const words: (Word | 'break')[] = [];
+  let pendingSpace = false;
+
+  for (const piece of pieces) {
+    if (piece.kind === 'break') {
+      words.push('break');
+      pendingSpace = false;
+      continue;
+    }
+
+    const tokens = piece.text.replace(/\s+/g, ' ').split(/( )/);
+    for (const token of tokens) {
+      if (token === ' ') {
+        pendingSpace = true;
+        continue;
+      }
+      if (!token) continue;
+
+      let text = token;
+      let marker: string | undefined;
+      const markerMatch = text.match(MARKER_REGEX);
+      if (markerMatch && state.markerLabels[markerMatch[1]] !== undefined) {
+        marker = markerMatch[1];
+        text = text.replace(MARKER_REGEX, state.markerLabels[marker]);
+      }
+
+      text = sanitizeText(text, state.fonts.charset);
+      const font = fontFor(state.fonts, piece.style);
+      const previous = words[words.length - 1];
+      // Text split across inline tags without whitespace stays glued to the previous word
+      words.push({
+        text,
+        style: piece.style,
+        spaceBefore: pendingSpace && previous !== undefined && previous !== 'break',
+        width: font.widthOfTextAtSize(text, piece.style.size),
+        marker,
+      });
+      pendingSpace = false;
+    }
+  }
+  return words;
+}
+
+function wrapLines(words: (Word | 'break')[], maxWidth: number, state: LayoutState, baseSize: number): Line[] {
+  const lines: Line[] = [];
+  let current: Line = { words: [], width: 0, height: baseSize * LINE_HEIGHT };
+
+  const push = () => {
+    lines.push(current);
+    current = { words: [], width: 0, height: baseSize * LINE_HEIGHT };
+  };
+
+  for (const word of words) {
+    if (word === 'break') {
+      push();
+      continue;
+    }
+    const spaceWidth = word.spaceBefore && current.words.length > 0
+      ? fontFor(state.fonts, word.style).widthOfTextAtSize(' ', word.style.size)
+      : 0;
+
+    if (current.words.length > 0 && current.width + spaceWidth + word.width > maxWidth) {
+      push();
+      current.words.push({ ...word, spaceBefore: false });
+      current.width = word.width;
+    } else {
+      current.words.push(word);
+      current.width += spaceWidth + word.width;
+    }
+    current.height = Math.max(current.height, word.style.size * LINE_HEIGHT);
+  }
+
+  if (current.words.length > 0 || lines.length === 0) push();
+  return lines;
+}
+
+function drawLines(state: LayoutState, lines: Line[], left: number, width: number, align: Align) {
+  for (const line of lines) {
+    ensureSpace(state, line.height);
+    // Vertically centre the glyphs in the line box (cap height is ~0.7 of the font size)
+    const fontSize = line.height / LINE_HEIGHT;
+    const baseline = state.y - line.height / 2 - fontSize * 0.35;
+    let x = left;
+    if (align === 'center') x = left + (width - line.width) / 2;
+    if (align === 'right') x = left + width - line.width;
+
+    for (const word of line.words) {
+      const font = fontFor(state.fonts, word.style);
+      if (word.spaceBefore) {
+        const spaceWidth = font.widthOfTextAtSize(' ', word.style.size);
+        if (word.style.underline) {
+          state.page.drawLine({
+            start: { x, y: baseline - 1.5 },
+            end: { x: x + spaceWidth, y: baseline - 1.5 },
+            thickness: 0.6,
+            color: rgb(0, 0, 0),
+          });
+        }
+        x += spaceWidth;
+      }
+
+      state.page.drawText(word.text, { x, y: baseline, size: word.style.size, font, color: rgb(0, 0, 0) });
+      if (word.style.underline) {
+        state.page.drawLine({
+          start: { x, y: baseline - 1.5 },
+          end: { x: x + word.width, y: baseline - 1.5 },
+          thickness: 0.6,
+          color: rgb(0, 0, 0),
+        });
+      }
+
+      if (word.marker) {
+        // Signature box goes on the line above the signer name
+        const centerX = x + word.width / 2;
+        const centerY = state.y + line.height / 2;
+        state.markers.push({
+          marker: word.marker,
+          page: state.pdf.getPageCount(),
+          x: (centerX / PAGE_WIDTH) * 100,
+          y: ((PAGE_HEIGHT - centerY) / PAGE_HEIGHT) * 100,
+        });
+      }
+      x += word.width;
+    }
+    state.y -= line.height;
+  }
+}
+
+const IMAGE_FETCH_TIMEOUT_MS = 10000;
+
+// Images are inlined (data: URIs) or stored in the project's storage; templates must not
+// make the function request arbitrary addresses
+function isStorageUrl(src: string): boolean {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  if (!supabaseUrl) return false;
+  try {
+    const url = new URL(src);
+    const storage = new URL('/storage/v1/object/', supabaseUrl);
+    return url.origin === storage.origin && url.pathname.startsWith(storage.pathname);
+  } catch {
+    return false;
+  }
+}
+
+async function loadImage(state: LayoutState, src: string): Promise<PDFImage | null> {
+  try {
+    let bytes: Uint8Array;
+    let mime: string;
+    const dataMatch = src.match(/^data:(image\/[\w+]+);base64,(.*)$/);
+    if (dataMatch) {
+      mime = dataMatch[1];
+      bytes = Uint8Array.from(atob(dataMatch[2]), (c) => c.charCodeAt(0));
+    } else {
+      if (!isStorageUrl(src)) {
+        console.log(`Skipping image outside project storage: ${src.slice(0, 100)}`);
+        return null;
+      }
+      const response = await fetch(src, { redirect: 'error', signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) });
+      if (!response.ok) return null;
+      mime = response.headers.get('content-type') ?? '';
+      bytes = new Uint8Array(await response.arrayBuffer());
+    }
+    if (mime.includes('png')) return await state.pdf.embedPng(bytes);
+    if (mime.includes('jpeg') || mime.includes('jpg')) return await state.pdf.embedJpg(bytes);
+  } catch (error) {
+    console.error('Could not embed image:', error);
+  }
+  return null;
+}
+
+async function drawImage(state: LayoutState, element: DomNode, left: number, width: number, align: Align) {
+  const image = await loadImage(state, element.getAttribute('src') ?? '');
+  if (!image) return;
+
+  const maxHeight = PAGE_HEIGHT - PAGE_MARGIN * 2;
+  const scale = Math.min(1, width / image.width, maxHeight / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+
+  ensureSpace(state, drawHeight);
+  let x = left;
+  if (align === 'center') x = left + (width - drawWidth) / 2;
+  if (align === 'right') x = left + width - drawWidth;
+  state.page.drawImage(image, { x, y: state.y - drawHeight, width: drawWidth, height: drawHeight });
+  state.y -= drawHeight + PARAGRAPH_SPACING;
+}
+
+async function layoutTextBlock(
+  state: LayoutState,
+  element: DomNode,
+  left: number,
+  width: number,
+  style: TextStyle,
+  align: Align,
+  prefix?: string
+) {
+  // Images inside a paragraph are laid out as their own blocks
+  const images = Array.from(element.querySelectorAll('img'));
+  images.forEach((img) => img.remove?.());
+
+  const pieces: InlinePiece[] = [];
+  if (prefix) pieces.push({ kind: 'text', text: `${prefix} `, style });
+  for (const child of element.childNodes) {
+    collectInline(child, style, pieces);
+  }
+
+  const hasText = pieces.some((p) => p.kind === 'break' || p.text.trim() !== '');
+  if (hasText || images.length === 0) {
+    const lines = wrapLines(toWords(pieces, state), width, state, style.size);
+    drawLines(state, lines, left, width, getAlign(element, align));
+  }
+
+  for (const img of images) {
+    await drawImage(state, img, left, width, getAlign(element, align));
+  }
+}
+
+async function layoutList(state: LayoutState, list: DomNode, left: number, width: number, depth: number) {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  let index = Number(list.getAttribute('start') ?? '1');
+  const indent = LIST_INDENT * (depth + 1);
+
+  for (const item of list.children) {
+    if (item.tagName.toLowerCase() !== 'li') continue;
+    const marker = ordered ? `${index++}.` : '•';
+    let first = true;
+
+    for (const child of Array.from(item.childNodes)) {
+      const tag = child.nodeType === 1 ? child.tagName.toLowerCase() : '';
+      if (tag === 'ul' || tag === 'ol') {
+        await layoutList(state, child, left, width, depth + 1);
+      } else {
+        if (child.nodeType !== 1 && !child.textContent?.trim()) continue;
+        const wrapper = tag === 'p' ? child : inlineWrapper([child]);
+        const style: TextStyle = { bold: false, italic: false, underline: false, size: BASE_FONT_SIZE };
+        const markerWidth = fontFor(state.fonts, style).widthOfTextAtSize(`${marker} `, BASE_FONT_SIZE);
+        if (first) {
+          await layoutTextBlock(state, wrapper, left + indent - markerWidth, width - indent + markerWidth, style, 'left', marker);
+          first = false;
+        } else {
+          await layoutTextBlock(state, wrapper, left + indent, width - indent, style, 'left');
+        }
+      }
+    }
+  }
+  if (depth === 0) state.y -= PARAGRAPH_SPACING;
+}
+
+async function layoutTable(state: LayoutState, table: DomNode, left: number, width: number) {
+  const rows = Array.from(table.querySelectorAll('tr'));
+  const columnCount = Math.max(1, ...rows.map((row) => row.children.length));
+  const columnWidth = width / columnCount;
+
+  for (const row of rows) {
+    const cells = Array.from(row.children);
+    const cellLines = cells.map((cell) => {
+      const style: TextStyle = {
+        bold: cell.tagName.toLowerCase() === 'th',
+        italic: false,
+        underline: false,
+        size: BASE_FONT_SIZE - 1,
+      };
+      const pieces: InlinePiece[] = [];
+      for (const child of cell.childNodes) collectInline(child, style, pieces);
+      return wrapLines(toWords(pieces, state), columnWidth - CELL_PADDING * 2, state, style.size);
+    });
+    const rowHeight = Math.max(...cellLines.map((lines) => lines.reduce((sum, l) => sum + l.height, 0))) + CELL_PADDING * 2;
+
+    ensureSpace(state, rowHeight);
+    const top = state.y;
+    cells.forEach((cell, i) => {
+      const cellLeft = left + i * columnWidth;
+      state.page.drawRectangle({
+        x: cellLeft,
+        y: top - rowHeight,
+        width: columnWidth,
+        height: rowHeight,
+        borderColor: rgb(0.4, 0.4, 0.4),
+        borderWidth: 0.5,
+      });
+      state.y = top - CELL_PADDING;
+      drawLines(state, cellLines[i], cellLeft + CELL_PADDING, columnWidth - CELL_PADDING * 2, getAlign(cell, 'left'));
+    });
+    state.y = top - rowHeight;
+  }
+  state.y -= PARAGRAPH_SPACING;
+}
+
+async function layoutBlocks(state: LayoutState, parent: DomNode, left: number, width: number) {
+  // Loose inline content between blocks is grouped into an implicit paragraph
+  let inlineBuffer: DomNode[] = [];
+  const flushInline = async () => {
+    if (inlineBuffer.some((n) => n.nodeType === 1 || n.textContent?.trim())) {
+      const wrapper = inlineWrapper(inlineBuffer);
+      const style: TextStyle = { bold: false, italic: false, underline: false, size: BASE_FONT_SIZE };
+      await layoutTextBlock(state, wrapper, left, width, style, 'left');
+      state.y -= PARAGRAPH_SPACING;
+    }
+    inlineBuffer = [];
+  };
+
+  for (const node of Array.from(parent.childNodes)) {
+    const tag = node.nodeType === 1 ? node.tagName.toLowerCase() : '';
+    const style: TextStyle = { bold: false, italic: false, underline: false, size: BASE_FONT_SIZE };
+
+    if (tag === 'p') {
+      await flushInline();
+      await layoutTextBlock(state, node, left, width, style, 'left');
+      state.y -= PARAGRAPH_SPACING;
+    } else if (HEADING_SIZES[tag]) {
+      await flushInline();
+      const size = HEADING_SIZES[tag];
+      ensureSpace(state, size * LINE_HEIGHT * 2);
+      state.y -= PARAGRAPH_SPACING;
+      await layoutTextBlock(state, node, left, width, { ...style, bold: true, size }, 'left');
+      state.y -= PARAGRAPH_SPACING;
+    } else if (tag === 'ul' || tag === 'ol') {
+      await flushInline();
+      await layoutList(state, node, left, width, 0);
+    } else if (tag === 'table') {
+      await flushInline();
+      await layoutTable(state, node, left, width);
+    } else if (tag === 'img') {
+      await flushInline();
+      await drawImage(state, node, left, width, 'left');
+    } else if (tag === 'hr') {
+      await flushInline();
+      ensureSpace(state, PARAGRAPH_SPACING * 2);
+      state.page.drawLine({
+        start: { x: left, y: state.y - PARAGRAPH_SPACING },
+        end: { x: left + width, y: state.y - PARAGRAPH_SPACING },
+        thickness: 0.5,
+        color: rgb(0.5, 0.5, 0.5),
+      });
+      state.y -= PARAGRAPH_SPACING * 2;
+    } else if (tag === 'blockquote') {
+      await flushInline();
+      await layoutBlocks(state, node, left + LIST_INDENT, width - LIST_INDENT);
+    } else if (['div', 'section', 'article', 'header', 'footer', 'tbody', 'body'].includes(tag)) {
+      await flushInline();
+      await layoutBlocks(state, node, left, width);
+    } else {
+      inlineBuffer.push(node);
+    }
+  }
+  await flushInline();
+}
+
+// Lay out the document HTML on A4 pages. markerLabels maps {{MARKER}} names to the text
+// printed in their place; their positions are returned so signatures can be placed on them.
+export async function htmlToPdf(html: string, markerLabels: Record<string, string> = {}): Promise<HtmlToPdfResult> {
+  const document = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  if (!document?.body) throw new Error('Could not parse document HTML');
+
+  const pdf = await PDFDocument.create();
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const fonts: Fonts = {
+    regular,
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+    boldItalic: await pdf.embedFont(StandardFonts.HelveticaBoldOblique),
+    charset: new Set(regular.getCharacterSet()),
+  };
+
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const state: LayoutState = { pdf, fonts, page, y: PAGE_HEIGHT - PAGE_MARGIN, markerLabels, markers: [] };
+
+  await layoutBlocks(state, document.body as unknown as DomNode, PAGE_MARGIN, PAGE_WIDTH - PAGE_MARGIN * 2);
+
+  return {
+    bytes: await pdf.save(),
+    pageCount: pdf.getPageCount(),
+    pageWidth: PAGE_WIDTH,
+    pageHeight: PAGE_HEIGHT,
+    margin: PAGE_MARGIN,
+    markers: state.markers,
+  };
+}
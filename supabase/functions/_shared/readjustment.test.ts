@@ -0,0 +1,89 @@
+// Run with: deno test --allow-env --allow-read supabase/functions/_shared
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { IndexRate } from "../../../src/lib/indexRates.ts";
+import {
+  accumulateRates,
+  calculateReadjustment,
+  describeReadjustment,
+  nextAnniversary,
+  type ReadjustmentConfig,
+} from "../../../src/lib/readjustment.ts";
+
+const config = (floor: number | null, cap: number | null): ReadjustmentConfig & { readjustment_index: "IPCA" } => ({
+  readjustment_index: "IPCA",
+  readjustment_month: 3,
+  readjustment_floor_percent: floor,
+  readjustment_cap_percent: cap,
+});
+
+// IPCA from 03/2025 to 02/2026 for a March 2026 anniversary, with two deflation months
+const MONTHLY = [0.5, 0.4, -0.2, 0.3, 0.6, -0.1, 0.4, 0.5, 0.3, 0.2, 0.4, 0.5];
+const rates: IndexRate[] = [
+  ...MONTHLY.map((rate, i) => ({
+    index_code: "IPCA" as const,
+    reference_month: `${i < 10 ? 2025 : 2026}-${String(((i + 2) % 12) + 1).padStart(2, "0")}-01`,
+    rate,
+  })),
+  // Other index and months outside the period are ignored
+  { index_code: "IGPM", reference_month: "2025-06-01", rate: 9 },
+  { index_code: "IPCA", reference_month: "2026-03-01", rate: 9 },
+];
+
+Deno.test("accumulateRates compounds monthly rates, deflation included", () => {
+  assertEquals(accumulateRates([1, 1]), 2.01);
+  assertEquals(accumulateRates([0.5, -0.5]), -0.0025);
+  assertEquals(accumulateRates([]), 0);
+});
+
+Deno.test("calculateReadjustment accumulates the 12 months before the anniversary", () => {
+  const breakdown = calculateReadjustment(config(null, null), "2026-03-01", 1000, rates);
+  assertEquals(breakdown.period_start, "2025-03-01");
+  assertEquals(breakdown.period_end, "2026-02-01");
+  assertEquals(breakdown.months.length, 12);
+  assertEquals(breakdown.months[2], { reference_month: "2025-05-01", rate: -0.2, accumulated_percent: 0.7002 });
+  assertEquals(breakdown.missing_months, []);
+  assertEquals(breakdown.accumulated_percent, accumulateRates(MONTHLY));
+  assertEquals(breakdown.accumulated_percent, 3.8635);
+  assertEquals(breakdown.limited_by, null);
+  assertEquals(breakdown.applied_percent, 3.8635);
+  assertEquals(breakdown.new_value, 1038.64);
+});
+
+Deno.test("calculateReadjustment applies the cap and the floor", () => {
+  const capped = calculateReadjustment(config(0, 3), "2026-03-01", 1000, rates);
+  assertEquals([capped.limited_by, capped.applied_percent, capped.new_value], ["cap", 3, 1030]);
+
+  const floored = calculateReadjustment(config(5, 10), "2026-03-01", 1000, rates);
+  assertEquals([floored.limited_by, floored.applied_percent, floored.new_value], ["floor", 5, 1050]);
+});
+
+Deno.test("calculateReadjustment lowers the value in a deflation year unless a floor is set", () => {
+  const deflation = MONTHLY.map((rate, i) => ({ ...rates[i], rate: -Math.abs(rate) }));
+  const breakdown = calculateReadjustment(config(null, null), "2026-03-01", 1000, deflation);
+  assertEquals(breakdown.accumulated_percent < 0, true);
+  assertEquals(breakdown.new_value, 956.87);
+
+  const floored = calculateReadjustment(config(0, null), "2026-03-01", 1000, deflation);
+  assertEquals([floored.limited_by, floored.applied_percent, floored.new_value], ["floor", 0, 1000]);
+});
+
+Deno.test("calculateReadjustment lists the months without a rate", () => {
+  const breakdown = calculateReadjustment(config(null, null), "2026-01-01", 1000, rates);
+  assertEquals(breakdown.period_start, "2025-01-01");
+  assertEquals(breakdown.missing_months, ["2025-01-01", "2025-02-01"]);
+  assertEquals(breakdown.months.length, 10);
+});
+
+Deno.test("nextAnniversary moves to next year once the month has passed", () => {
+  assertEquals(nextAnniversary(3, new Date(2026, 2, 31)), "2026-03-01");
+  assertEquals(nextAnniversary(3, new Date(2026, 3, 1)), "2027-03-01");
+  assertEquals(nextAnniversary(12, new Date(2026, 0, 1)), "2026-12-01");
+});
+
+Deno.test("describeReadjustment explains the limit applied", () => {
+  assertEquals(
+    describeReadjustment(calculateReadjustment(config(0, 3), "2026-03-01", 1000, rates)),
+    "Reajuste anual pelo IPCA acumulado de 03/2025 a 02/2026 (3,8635%), limitado ao teto contratual de 3,00%. " +
+      "O valor mensal passa de R$ 1.000,00 para R$ 1.030,00 a partir de 01/03/2026.",
+  );
+});
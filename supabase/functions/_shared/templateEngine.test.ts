@@ -0,0 +1,122 @@
+// Run with: deno test --allow-env --allow-read supabase/functions/_shared
+// The engine lives in src/lib and is shared with the app; these cover what the signed PDF depends on.
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildTemplateContext,
+  renderContractDocument,
+  renderTemplate,
+  type TemplateContract,
+  type TemplateVariable,
+} from "../../../src/lib/templateEngine.ts";
+
+const contract: TemplateContract = {
+  client_name: "Padaria Pão & Cia <Ltda>",
+  start_date: "2026-01-01",
+  end_date: "2027-01-01",
+  monthly_value: 1500,
+  total_value: "18000",
+  contract_category: "client",
+  custom_data: {
+    responsavel: "Maria",
+    servicos: "Gestão de redes\nTráfego pago",
+    testemunhas: ["Ana", "Bruno"],
+    observacoes: "",
+  },
+};
+
+const variables: TemplateVariable[] = [
+  { variable_name: "responsavel", field_type: "text" },
+  { variable_name: "servicos", field_type: "list" },
+  { variable_name: "testemunhas", field_type: "list" },
+  { variable_name: "observacoes", field_type: "textarea" },
+];
+
+const render = (template: string) => renderTemplate(template, buildTemplateContext(contract, variables));
+
+Deno.test("renderTemplate fills built-in fields and plan variables", () => {
+  assertEquals(render("<p>{{responsavel}}: {{monthly_value}} ({{monthly_value_extenso}}) de {{start_date}} a {{end_date}}, {{duration_months}} meses</p>"), {
+    html: "<p>Maria: R$ 1.500,00 (mil e quinhentos reais) de 01/01/2026 a 01/01/2027, 12 meses</p>",
+    unresolved: [],
+    errors: [],
+  });
+});
+
+Deno.test("renderTemplate escapes HTML in values but not in the template", () => {
+  assertEquals(render("<p><strong>{{client_name}}</strong></p>").html, "<p><strong>Padaria Pão &amp; Cia &lt;Ltda&gt;</strong></p>");
+});
+
+Deno.test("renderTemplate keeps and reports placeholders without a value", () => {
+  assertEquals(render("<p>{{observacoes}} {{nao_existe}} {{responsavel}}</p>"), {
+    html: "<p>{{observacoes}} {{nao_existe}} Maria</p>",
+    unresolved: ["observacoes", "nao_existe"],
+    errors: [],
+  });
+});
+
+Deno.test("renderTemplate uses the default filter for a missing value", () => {
+  assertEquals(render('<p>{{observacoes | default:"Nenhuma"}} / {{nao_existe | default:"—"}}</p>'), {
+    html: "<p>Nenhuma / —</p>",
+    unresolved: [],
+    errors: [],
+  });
+});
+
+Deno.test("renderTemplate leaves signature markers for the signing flow", () => {
+  assertEquals(render("<p>{{ASSINATURA_EMPRESA}} {{ASSINATURA_CLIENTE}} {{ASSINATURA_3}}</p>"), {
+    html: "<p>{{ASSINATURA_EMPRESA}} {{ASSINATURA_CLIENTE}} {{ASSINATURA_3}}</p>",
+    unresolved: [],
+    errors: [],
+  });
+});
+
+Deno.test("renderTemplate reports placeholders split by formatting", () => {
+  assertEquals(render("<p>{{client_</strong>name}} e {<b>{responsavel}}</p>").unresolved, ["{{client_name}}", "}}"]);
+});
+
+Deno.test("{{#if}} picks a branch by truthiness or comparison", () => {
+  assertEquals(
+    render('{{#if observacoes}}com{{else}}sem{{/if}} {{#if monthly_value >= 1000}}alto{{/if}} {{#if contract_category == "partner"}}parceria{{else}}cliente{{/if}}').html,
+    "sem alto cliente",
+  );
+});
+
+Deno.test("{{#if}} paragraphs leave no empty paragraphs behind", () => {
+  assertEquals(
+    render("<p>{{#if observacoes}}</p><p>{{observacoes}}</p><p>{{/if}}</p><p>Fim</p>"),
+    { html: "<p>Fim</p>", unresolved: [], errors: [] },
+  );
+});
+
+Deno.test("{{#each}} repeats its body per item and merges single-list iterations", () => {
+  assertEquals(
+    render("{{#each servicos}}<ul><li>{{@number}}. {{this}}</li></ul>{{/each}}").html,
+    "<ul><li>1. Gestão de redes</li><li>2. Tráfego pago</li></ul>",
+  );
+});
+
+Deno.test("nested {{#each}} reads the innermost item", () => {
+  assertEquals(
+    render("{{#each servicos}}[{{this}}: {{#each testemunhas}}{{this}}{{#if @number < 2}}, {{/if}}{{/each}}]{{/each}}").html,
+    "[Gestão de redes: Ana, Bruno][Tráfego pago: Ana, Bruno]",
+  );
+});
+
+Deno.test("{{#each}} over an empty list renders its {{else}}", () => {
+  assertEquals(render("{{#each nao_existe}}{{this}}{{else}}Nenhum item{{/each}}").html, "Nenhum item");
+});
+
+Deno.test("malformed blocks are reported as errors", () => {
+  assertEquals(render("{{#if responsavel}}sem fim {{/each}} {{responsavel | negrito}}").errors, [
+    "{{/each}} sem o {{#each}} correspondente",
+    'Filtro desconhecido "negrito" em {{responsavel | negrito}}',
+    "Bloco {{#if}} não foi fechado com {{/if}}",
+  ]);
+});
+
+Deno.test("renderContractDocument renders nothing without a template", () => {
+  assertEquals(renderContractDocument({ template_content: null }, variables, contract), {
+    html: "",
+    unresolved: [],
+    errors: [],
+  });
+});
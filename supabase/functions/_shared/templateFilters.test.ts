@@ -0,0 +1,59 @@
+// Run with: deno test --allow-env --allow-read supabase/functions/_shared
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { applyMask, formatDatePattern, TEMPLATE_FILTERS } from "../../../src/lib/templateFilters.ts";
+import { buildTemplateContext, renderTemplate } from "../../../src/lib/templateEngine.ts";
+
+const { brl, date, default: defaultFilter, extenso, lower, mask, upper } = TEMPLATE_FILTERS;
+
+Deno.test("formatDatePattern formats in Portuguese without timezone shifts", () => {
+  assertEquals(formatDatePattern("2026-03-01", "d 'de' MMMM 'de' yyyy"), "1 de março de 2026");
+  assertEquals(formatDatePattern("2026-03-01T23:30:00-03:00", "EEEE, dd/MM/yy"), "domingo, 01/03/26");
+  assertEquals(formatDatePattern("2026-12-31", "MMM/yyyy"), "dez/2026");
+  assertEquals(formatDatePattern("31/12/2026", "dd/MM/yyyy"), "31/12/2026");
+});
+
+Deno.test("applyMask applies named and literal patterns to the digits", () => {
+  assertEquals(applyMask("12345678909", "cpf"), "123.456.789-09");
+  assertEquals(applyMask("11222333000181", "cpf_cnpj"), "11.222.333/0001-81");
+  assertEquals(applyMask("11987654321", "phone"), "(11) 98765-4321");
+  assertEquals(applyMask("1133334444", "phone"), "(11) 3333-4444");
+  assertEquals(applyMask("1234", "##-##"), "12-34");
+  // Digit count does not fit: left as typed
+  assertEquals(applyMask("1234", "cpf"), "1234");
+});
+
+Deno.test("filters return undefined for empty values so the placeholder stays unresolved", () => {
+  for (const filter of [brl, date, extenso, upper, lower]) {
+    assertEquals(filter(""), undefined);
+    assertEquals(filter(null), undefined);
+  }
+  assertEquals(brl("abc"), undefined);
+});
+
+Deno.test("filters format numbers, dates and text", () => {
+  assertEquals(brl("1234.5"), "R$ 1.234,50");
+  assertEquals(extenso(2), "dois reais");
+  assertEquals(date("2026-07-15", "dd 'de' MMMM"), "15 de julho");
+  assertEquals(date("2026-07-15"), "15/07/2026");
+  assertEquals(upper("ação"), "AÇÃO");
+  assertEquals(lower("ÇÃO"), "ção");
+  assertEquals(mask("12345678", "cep"), "12345-678");
+});
+
+Deno.test("default only replaces empty values", () => {
+  assertEquals(defaultFilter("", "Nenhuma"), "Nenhuma");
+  assertEquals(defaultFilter(undefined, "Nenhuma"), "Nenhuma");
+  assertEquals(defaultFilter(undefined), "");
+  assertEquals(defaultFilter("Sim", "Nenhuma"), "Sim");
+});
+
+Deno.test("filters chain in placeholders, with pipes allowed inside quoted arguments", () => {
+  const context = buildTemplateContext(
+    { client_name: "acme", start_date: "2026-01-01", end_date: null, monthly_value: 99.9, total_value: null, custom_data: {} },
+    [],
+  );
+  assertEquals(
+    renderTemplate('{{client_name | upper}} {{monthly_value | extenso | upper}} {{start_date | date:"MMMM \'|\' yyyy"}} {{end_date | default:"a|b" | upper}}', context),
+    { html: "ACME NOVENTA E NOVE REAIS E NOVENTA CENTAVOS janeiro | 2026 A|B", unresolved: [], errors: [] },
+  );
+});
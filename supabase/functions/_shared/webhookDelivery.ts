@@ -0,0 +1,64 @@
+import { hmacSha256Hex } from "./hmac.ts";
+
+// Receivers verify X-Webhook-Signature: sha256=<hex HMAC-SHA256 of the raw body, keyed with secret_key>
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+export const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_SECONDS = 60;
+const MAX_RETRY_DELAY_SECONDS = 12 * 60 * 60;
+export const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+export interface WebhookPayload {
+  id: string;
+  event: string;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookResponse {
+  ok: boolean;
+  status: number | null;
+  body: string | null;
+  error: string | null;
+}
+
+// 1min, 2min, 4min... after each failed attempt, capped at 12h
+export function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_SECONDS);
+}
+
+export async function postWebhook(url: string, secret: string | null, payload: WebhookPayload): Promise<WebhookResponse> {
+  const body = JSON.stringify(payload);
+  const signature = await hmacSha256Hex(secret ?? "", body);
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Virtuz-Contracts-Webhooks/1.0",
+        "X-Webhook-Event": payload.event,
+        "X-Webhook-Delivery": payload.id,
+        [SIGNATURE_HEADER]: `sha256=${signature}`,
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    const responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+    return {
+      ok: response.ok,
+      status: response.status,
+      body: responseBody,
+      error: response.ok ? null : `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
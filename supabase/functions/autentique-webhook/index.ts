@@ -0,0 +1,514 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { recordContractEvent } from "../_shared/contractEvents.ts";
+import { hmacSha256Hex, timingSafeEqual } from "../_shared/hmac.ts";
+import { sha256Hex } from "../../../src/lib/documentHash.ts";
+
+const AUTENTIQUE_API_URL = "https://api.autentique.com.br/v2/graphql";
+
+type SignatureEventType = 'viewed' | 'signed' | 'rejected' | 'finished';
+
+// Autentique event types we act on; everything else is acknowledged and ignored
+const EVENT_TYPES: Record<string, SignatureEventType> = {
+  'signature.viewed': 'viewed',
+  'signature.accepted': 'signed',
+  'signature.rejected': 'rejected',
+  'document.finished': 'finished',
+};
+
+interface AutentiqueEvent {
+  id?: string;
+  type: string;
+  created_at?: string;
+  data: Record<string, unknown> & {
+    id?: string;
+    public_id?: string;
+    document?: string | { id?: string };
+    user?: { email?: string; name?: string };
+    email?: string;
+    reason?: string;
+    rejected?: { reason?: string };
+    files?: { signed?: string };
+  };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Webhook bodies wrap the event ({ event: { type, data } }); accept the bare event too
+function extractEvent(body: Record<string, unknown>): AutentiqueEvent | null {
+  const event = (body.event ?? body) as AutentiqueEvent;
+  if (!event?.type || !event.data) return null;
+  return event;
+}
+
+function getDocumentId(event: AutentiqueEvent): string | undefined {
+  const { data } = event;
+  if (event.type.startsWith('document.')) return data.id;
+  return typeof data.document === 'string' ? data.document : data.document?.id;
+}
+
+interface DocumentFiles {
+  original: string | null;
+  signed: string | null;
+}
+
+// Ask Autentique for the document files; the signed one is not always in the webhook
+async function fetchDocumentFiles(documentId: string): Promise<DocumentFiles> {
+  const token = Deno.env.get('AUTENTIQUE_API_TOKEN');
+  if (!token) return { original: null, signed: null };
+
+  const response = await fetch(AUTENTIQUE_API_URL, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      query: 'query($id: UUID!) { document(id: $id) { files { original signed } } }',
+      variables: { id: documentId },
+    }),
+  });
+  const result = await response.json();
+  const files = result.data?.document?.files;
+  return { original: files?.original ?? null, signed: files?.signed ?? null };
+}
+
+async function downloadFile(url: string): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// Copy the signed PDF into the contracts bucket (under signed/<folder>) so the link does not expire
+async function storeSignedDocument(
+  supabase: SupabaseClient,
+  folder: string,
+  signedUrl: string
+): Promise<{ url: string; sha256: string | null }> {
+  let bytes: Uint8Array;
+  try {
+    bytes = await downloadFile(signedUrl);
+  } catch (error) {
+    console.error('Could not download signed document, keeping Autentique URL:', error);
+    return { url: signedUrl, sha256: null };
+  }
+
+  const sha256 = await sha256Hex(bytes);
+  try {
+    const path = `signed/${folder}/${Date.now()}.pdf`;
+    const { error } = await supabase.storage
+      .from('contracts')
+      .upload(path, bytes, { contentType: 'application/pdf', upsert: true });
+    if (error) throw error;
+
+    return { url: supabase.storage.from('contracts').getPublicUrl(path).data.publicUrl, sha256 };
+  } catch (error) {
+    console.error('Could not copy signed document, keeping Autentique URL:', error);
+    return { url: signedUrl, sha256 };
+  }
+}
+
+// Compare the original file Autentique holds with the PDF we sent
+async function verifyOriginal(originalUrl: string | null, expectedSha256: string): Promise<boolean | null> {
+  if (!originalUrl) return null;
+  try {
+    return (await sha256Hex(await downloadFile(originalUrl))) === expectedSha256;
+  } catch (error) {
+    console.error('Could not download original document for verification:', error);
+    return null;
+  }
+}
+
+// Attach the signed copy to the snapshot that was sent; only the first completion counts
+async function attachSignedSnapshot(
+  supabase: SupabaseClient,
+  documentId: string,
+  files: DocumentFiles,
+  signed: { url: string; sha256: string | null } | null
+) {
+  const { data: snapshot } = await supabase
+    .from('contract_documents')
+    .select('id, pdf_sha256')
+    .eq('autentique_document_id', documentId)
+    .is('signed_pdf_sha256', null)
+    .maybeSingle();
+
+  if (!snapshot || !signed?.sha256) return;
+
+  const originalVerified = await verifyOriginal(files.original, snapshot.pdf_sha256);
+  if (originalVerified === false) {
+    console.error(`Original document ${documentId} at Autentique does not match snapshot ${snapshot.id}`);
+  }
+
+  const { error: snapshotError } = await supabase
+    .from('contract_documents')
+    .update({
+      signed_pdf_url: signed.url,
+      signed_pdf_sha256: signed.sha256,
+      original_verified: originalVerified,
+      signed_at: new Date().toISOString(),
+    })
+    .eq('id', snapshot.id);
+
+  if (snapshotError) {
+    console.error(`Failed to store signed document hash for snapshot ${snapshot.id}:`, snapshotError);
+  }
+}
+
+async function markAwaitingSignature(supabase: SupabaseClient, contract: { id: string; status: string }) {
+  if (contract.status !== 'sent_to_client') return;
+  const { error } = await supabase
+    .from('contracts')
+    .update({ status: 'awaiting_signature' })
+    .eq('id', contract.id)
+    .eq('status', 'sent_to_client');
+  if (error) throw new Error(`Failed to update contract status: ${error.message}`);
+}
+
+async function completeContract(supabase: SupabaseClient, contractId: string, documentId: string, signedUrl?: string) {
+  const files = await fetchDocumentFiles(documentId);
+  const fileUrl = signedUrl ?? files.signed;
+  const update: Record<string, unknown> = { status: 'active' };
+  const signed = fileUrl ? await storeSignedDocument(supabase, contractId, fileUrl) : null;
+  if (signed) {
+    update.generated_document_url = signed.url;
+  }
+
+  const { error } = await supabase
+    .from('contracts')
+    .update(update)
+    .eq('id', contractId)
+    .in('status', ['sent_to_client', 'awaiting_signature']);
+
+  if (error) throw new Error(`Failed to activate contract: ${error.message}`);
+  console.log(`Contract ${contractId} signed by everyone, now active`);
+
+  await attachSignedSnapshot(supabase, documentId, files, signed);
+}
+
+// Signing the amendment applies its terms to the contract (refresh_amended_contract trigger)
+async function completeAmendment(
+  supabase: SupabaseClient,
+  amendment: { id: string; contract_id: string },
+  documentId: string,
+  signedUrl?: string
+) {
+  const files = await fetchDocumentFiles(documentId);
+  const fileUrl = signedUrl ?? files.signed;
+  const update: Record<string, unknown> = { status: 'signed', signed_at: new Date().toISOString() };
+  const signed = fileUrl
+    ? await storeSignedDocument(supabase, `${amendment.contract_id}/amendments/${amendment.id}`, fileUrl)
+    : null;
+  if (signed) {
+    update.generated_document_url = signed.url;
+  }
+
+  const { error } = await supabase
+    .from('contract_amendments')
+    .update(update)
+    .eq('id', amendment.id)
+    .eq('status', 'sent_for_signature');
+
+  if (error) throw new Error(`Failed to sign amendment: ${error.message}`);
+  console.log(`Amendment ${amendment.id} signed by everyone, applied to contract ${amendment.contract_id}`);
+
+  await attachSignedSnapshot(supabase, documentId, files, signed);
+}
+
+interface SignatureEventRow {
+  contract_id: string;
+  amendment_id?: string;
+  signer_id: string | null;
+  signer_email: string | null;
+  event_type: SignatureEventType;
+  autentique_event_id: string | null;
+  autentique_document_id: string;
+  payload: AutentiqueEvent;
+  occurred_at: string;
+}
+
+// Autentique retries deliveries until one succeeds. Events are recorded only after they
+// were processed, so a failed attempt is retried in full and a processed one is a no-op.
+async function isProcessedEvent(supabase: SupabaseClient, eventId: string | undefined): Promise<boolean> {
+  if (!eventId) return false;
+  const { data, error } = await supabase
+    .from('signature_events')
+    .select('id')
+    .eq('autentique_event_id', eventId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to look up event: ${error.message}`);
+  return !!data;
+}
+
+// False when a concurrent delivery of the same event got recorded first
+async function recordSignatureEvent(supabase: SupabaseClient, row: SignatureEventRow): Promise<boolean> {
+  const { error } = await supabase.from('signature_events').insert(row);
+  if (error?.code === '23505') return false;
+  if (error) throw new Error(`Failed to record event: ${error.message}`);
+  return true;
+}
+
+function duplicateResponse(event: AutentiqueEvent) {
+  console.log(`Duplicate Autentique event ${event.id}`);
+  return jsonResponse({ received: true, duplicate: true });
+}
+
+// Events of an amendment document are recorded under its contract. The contract's signers
+// sign the amendment too, but their signed_at/viewed_at stay those of the contract itself.
+async function handleAmendmentEvent(
+  supabase: SupabaseClient,
+  event: AutentiqueEvent,
+  eventType: SignatureEventType,
+  documentId: string
+): Promise<Response | null> {
+  const { data: amendment, error: amendmentError } = await supabase
+    .from('contract_amendments')
+    .select('id, contract_id, amendment_number, status')
+    .eq('autentique_document_id', documentId)
+    .maybeSingle();
+
+  if (amendmentError) throw new Error(`Failed to load amendment: ${amendmentError.message}`);
+  if (!amendment) return null;
+  if (await isProcessedEvent(supabase, event.id)) return duplicateResponse(event);
+
+  const signerEmail = event.data.user?.email ?? event.data.email ?? null;
+  const { data: signers } = await supabase
+    .from('contract_signers')
+    .select('id, email')
+    .eq('contract_id', amendment.contract_id);
+
+  const signer = eventType === 'finished'
+    ? undefined
+    : signers?.find((s) => signerEmail && s.email.toLowerCase() === signerEmail.toLowerCase());
+
+  console.log(`Autentique ${event.type} for amendment ${amendment.id} (${signerEmail ?? 'document'})`);
+
+  switch (eventType) {
+    case 'signed': {
+      // Complete as soon as every signer has a signed event, in case document.finished is not
+      // subscribed. Signatures on a document replaced by a re-send do not count.
+      const { data: signedEvents } = await supabase
+        .from('signature_events')
+        .select('signer_id')
+        .eq('amendment_id', amendment.id)
+        .eq('autentique_document_id', documentId)
+        .eq('event_type', 'signed');
+      const signedIds = new Set(signedEvents?.map((e) => e.signer_id));
+      const allSigned = signers && signers.length > 0
+        && signers.every((s) => signedIds.has(s.id) || s.id === signer?.id);
+      if (allSigned) {
+        await completeAmendment(supabase, amendment, documentId);
+      }
+      break;
+    }
+    case 'rejected': {
+      // Only an amendment still out for signature can be rejected; a signed one stays in force
+      const { error } = await supabase
+        .from('contract_amendments')
+        .update({ status: 'rejected' })
+        .eq('id', amendment.id)
+        .eq('status', 'sent_for_signature');
+      if (error) throw new Error(`Failed to reject amendment: ${error.message}`);
+      console.log(`Amendment ${amendment.id} rejected by ${signerEmail}`);
+      break;
+    }
+    case 'finished': {
+      await completeAmendment(supabase, amendment, documentId, event.data.files?.signed);
+      break;
+    }
+  }
+
+  const recorded = await recordSignatureEvent(supabase, {
+    contract_id: amendment.contract_id,
+    amendment_id: amendment.id,
+    signer_id: signer?.id ?? null,
+    signer_email: signerEmail,
+    event_type: eventType,
+    autentique_event_id: event.id ?? null,
+    autentique_document_id: documentId,
+    payload: event,
+    occurred_at: event.created_at ?? new Date().toISOString(),
+  });
+  if (!recorded) return duplicateResponse(event);
+
+  const reason = event.data.reason ?? event.data.rejected?.reason ?? null;
+  await recordContractEvent(supabase, {
+    contractId: amendment.contract_id,
+    action: `amendment_signature_${eventType}`,
+    actorType: eventType === 'finished' ? 'system' : 'signer',
+    actorEmail: signerEmail,
+    metadata: {
+      amendment_id: amendment.id,
+      amendment_number: amendment.amendment_number,
+      autentique_event_id: event.id ?? null,
+      reason: eventType === 'rejected' ? reason : undefined,
+    },
+  });
+
+  return jsonResponse({ received: true });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const secret = Deno.env.get('AUTENTIQUE_WEBHOOK_SECRET');
+    if (!secret) {
+      console.error('AUTENTIQUE_WEBHOOK_SECRET not configured');
+      return jsonResponse({ error: 'Webhook secret not configured' }, 500);
+    }
+
+    // Autentique signs the raw body with the webhook secret
+    const rawBody = await req.text();
+    const signature = req.headers.get('x-autentique-signature') ?? '';
+    const expected = await hmacSha256Hex(secret, rawBody);
+    if (!timingSafeEqual(signature.toLowerCase(), expected)) {
+      console.error('Invalid Autentique webhook signature');
+      return jsonResponse({ error: 'Invalid signature' }, 401);
+    }
+
+    const event = extractEvent(JSON.parse(rawBody));
+    if (!event) {
+      return jsonResponse({ error: 'Invalid webhook payload' }, 400);
+    }
+
+    const eventType = EVENT_TYPES[event.type];
+    if (!eventType) {
+      console.log(`Ignoring Autentique event ${event.type}`);
+      return jsonResponse({ received: true, ignored: true });
+    }
+
+    const documentId = getDocumentId(event);
+    if (!documentId) {
+      return jsonResponse({ error: 'Event has no document id' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { data: contract, error: contractError } = await supabase
+      .from('contracts')
+      .select('id, status')
+      .eq('autentique_document_id', documentId)
+      .maybeSingle();
+
+    if (contractError) throw new Error(`Failed to load contract: ${contractError.message}`);
+    if (contract && await isProcessedEvent(supabase, event.id)) return duplicateResponse(event);
+    if (!contract) {
+      const amendmentResponse = await handleAmendmentEvent(supabase, event, eventType, documentId);
+      if (amendmentResponse) return amendmentResponse;
+
+      // Documents created outside this system also trigger the webhook
+      console.log(`No contract for Autentique document ${documentId}`);
+      return jsonResponse({ received: true, ignored: true });
+    }
+
+    // Match the signer by signature id first, then by e-mail
+    const signerEmail = event.data.user?.email ?? event.data.email ?? null;
+    const { data: signers } = await supabase
+      .from('contract_signers')
+      .select('id, email, autentique_signature_id, signed_at')
+      .eq('contract_id', contract.id);
+
+    const signer = eventType === 'finished'
+      ? undefined
+      : signers?.find((s) => event.data.public_id && s.autentique_signature_id === event.data.public_id)
+        ?? signers?.find((s) => signerEmail && s.email.toLowerCase() === signerEmail.toLowerCase());
+
+    const occurredAt = event.created_at ?? new Date().toISOString();
+
+    console.log(`Autentique ${event.type} for contract ${contract.id} (${signerEmail ?? 'document'})`);
+
+    switch (eventType) {
+      case 'viewed': {
+        if (signer) {
+          const { error } = await supabase
+            .from('contract_signers')
+            .update({ viewed_at: occurredAt })
+            .eq('id', signer.id)
+            .is('viewed_at', null);
+          if (error) throw new Error(`Failed to update signer: ${error.message}`);
+        }
+        await markAwaitingSignature(supabase, contract);
+        break;
+      }
+      case 'signed': {
+        if (signer) {
+          const { error } = await supabase.from('contract_signers').update({ signed_at: occurredAt }).eq('id', signer.id);
+          if (error) throw new Error(`Failed to update signer: ${error.message}`);
+        }
+        await markAwaitingSignature(supabase, contract);
+
+        // Activate as soon as the last signer signs, in case document.finished is not subscribed
+        const allSigned = signers && signers.length > 0
+          && signers.every((s) => s.signed_at || s.id === signer?.id);
+        if (allSigned) {
+          await completeContract(supabase, contract.id, documentId);
+        }
+        break;
+      }
+      case 'rejected': {
+        const reason = event.data.reason ?? event.data.rejected?.reason ?? null;
+        if (signer) {
+          const { error } = await supabase
+            .from('contract_signers')
+            .update({ rejected_at: occurredAt, rejection_reason: reason })
+            .eq('id', signer.id);
+          if (error) throw new Error(`Failed to update signer: ${error.message}`);
+        }
+        // A late rejection must not cancel a contract that was already signed
+        const { data: cancelled, error } = await supabase
+          .from('contracts')
+          .update({ status: 'cancelled' })
+          .eq('id', contract.id)
+          .in('status', ['sent_to_client', 'awaiting_signature'])
+          .select('id');
+        if (error) throw new Error(`Failed to cancel contract: ${error.message}`);
+        if (cancelled && cancelled.length > 0) {
+          console.log(`Contract ${contract.id} cancelled: signature rejected by ${signerEmail}`);
+        }
+        break;
+      }
+      case 'finished': {
+        await completeContract(supabase, contract.id, documentId, event.data.files?.signed);
+        break;
+      }
+    }
+
+    const recorded = await recordSignatureEvent(supabase, {
+      contract_id: contract.id,
+      signer_id: signer?.id ?? null,
+      signer_email: signerEmail,
+      event_type: eventType,
+      autentique_event_id: event.id ?? null,
+      autentique_document_id: documentId,
+      payload: event,
+      occurred_at: occurredAt,
+    });
+    if (!recorded) return duplicateResponse(event);
+
+    await recordContractEvent(supabase, {
+      contractId: contract.id,
+      action: `signature_${eventType}`,
+      actorType: eventType === 'finished' ? 'system' : 'signer',
+      actorEmail: signerEmail,
+      metadata: {
+        autentique_event_id: event.id ?? null,
+        reason: eventType === 'rejected' ? event.data.reason ?? event.data.rejected?.reason ?? null : undefined,
+      },
+    });
+
+    return jsonResponse({ received: true });
+  } catch (error) {
+    console.error('Error handling Autentique webhook:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
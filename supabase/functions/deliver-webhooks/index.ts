@@ -0,0 +1,131 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  getRetryDelaySeconds,
+  MAX_ATTEMPTS,
+  postWebhook,
+  REQUEST_TIMEOUT_MS,
+  type WebhookPayload,
+} from "../_shared/webhookDelivery.ts";
+
+// Deliveries processed per run; pg_cron calls this function every minute
+const BATCH_SIZE = 50;
+// Claims older than the slowest possible batch (every request timing out) plus a margin
+// belong to a run that crashed; a slow run keeps its claims and nothing is sent twice
+const STALE_CLAIM_MS = BATCH_SIZE * REQUEST_TIMEOUT_MS + 5 * 60 * 1000;
+
+interface DeliveryRow {
+  id: string;
+  attempts: number;
+  payload: WebhookPayload;
+  webhook_endpoints: { url: string; secret_key: string | null; is_active: boolean | null } | null;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, supabaseServiceKey);
+
+    // A run that crashed mid-batch leaves rows claimed; hand them back once the claim is stale
+    await supabase
+      .from("webhook_deliveries")
+      .update({ status: "pending" })
+      .eq("status", "delivering")
+      .lt("updated_at", new Date(Date.now() - STALE_CLAIM_MS).toISOString());
+
+    const { data: due, error: dueError } = await supabase
+      .from("webhook_deliveries")
+      .select("id")
+      .eq("status", "pending")
+      .lte("next_attempt_at", new Date().toISOString())
+      .order("next_attempt_at")
+      .limit(BATCH_SIZE);
+
+    if (dueError) throw new Error(`Failed to load deliveries: ${dueError.message}`);
+    if (!due || due.length === 0) {
+      return new Response(
+        JSON.stringify({ processed: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Claim the batch so an overlapping run does not send the same deliveries
+    const { data: claimed, error: claimError } = await supabase
+      .from("webhook_deliveries")
+      .update({ status: "delivering" })
+      .in("id", due.map((d) => d.id))
+      .eq("status", "pending")
+      .select("id, attempts, payload, webhook_endpoints(url, secret_key, is_active)");
+
+    if (claimError) throw new Error(`Failed to claim deliveries: ${claimError.message}`);
+
+    let succeeded = 0;
+    for (const delivery of (claimed ?? []) as DeliveryRow[]) {
+      const endpoint = delivery.webhook_endpoints;
+      const attempts = delivery.attempts + 1;
+      const now = new Date();
+
+      if (!endpoint?.is_active) {
+        await supabase
+          .from("webhook_deliveries")
+          .update({ status: "failed", last_error: "Endpoint inativo" })
+          .eq("id", delivery.id);
+        continue;
+      }
+
+      const result = await postWebhook(endpoint.url, endpoint.secret_key, delivery.payload);
+      const update: Record<string, unknown> = {
+        attempts,
+        last_attempt_at: now.toISOString(),
+        response_status: result.status,
+        response_body: result.body,
+        last_error: result.error,
+      };
+
+      if (result.ok) {
+        update.status = "success";
+        update.delivered_at = now.toISOString();
+        succeeded++;
+      } else if (attempts >= MAX_ATTEMPTS) {
+        update.status = "failed";
+      } else {
+        update.status = "pending";
+        update.next_attempt_at = new Date(now.getTime() + getRetryDelaySeconds(attempts) * 1000).toISOString();
+      }
+
+      const { error: updateError } = await supabase
+        .from("webhook_deliveries")
+        .update(update)
+        .eq("id", delivery.id);
+
+      if (updateError) {
+        console.error(`Error updating delivery ${delivery.id}:`, updateError);
+      }
+      console.log(`Delivery ${delivery.id} (${delivery.payload.event}) attempt ${attempts}: ${result.status ?? result.error}`);
+    }
+
+    return new Response(
+      JSON.stringify({ processed: claimed?.length ?? 0, succeeded }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error delivering webhooks:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,52 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  ClientFormError,
+  clientFormErrorResponse,
+  jsonResponse,
+  loadContractByToken,
+  loadFormVariables,
+} from "../_shared/clientForm.ts";
+
+// Public: returns what the client form needs for a token, and nothing else from the contract
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { token } = await req.json();
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const contract = await loadContractByToken(supabase, token);
+    const variables = await loadFormVariables(supabase, contract.plan_id);
+
+    // Prefill with values staff already entered for the declared fields
+    const customData = contract.custom_data ?? {};
+    const values: Record<string, string> = {};
+    for (const variable of variables) {
+      const value = customData[variable.variable_name];
+      values[variable.variable_name] = typeof value === "string" ? value : value == null ? "" : String(value);
+    }
+
+    return jsonResponse({
+      client_name: contract.client_name,
+      submitted: !!contract.client_filled_at || contract.status === "awaiting_signature",
+      expires_at: contract.client_token_expires_at,
+      variables,
+      values,
+    });
+  } catch (error) {
+    if (error instanceof ClientFormError) {
+      return clientFormErrorResponse(error);
+    }
+    console.error("Error loading client form:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,37 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { lookupCep } from "../_shared/cepProviders.ts";
+import { isValidCep } from "../../../src/lib/brDocuments.ts";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Public (the client form uses it): fills street, district, city and state for a CEP
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { cep } = await req.json();
+
+    if (typeof cep !== "string" || !isValidCep(cep)) {
+      return jsonResponse({ error: "cep must have 8 digits", code: "invalid_cep" }, 400);
+    }
+
+    const { address, provider } = await lookupCep(cep);
+    if (!address) {
+      return jsonResponse({ error: "CEP not found", code: "not_found" }, 404);
+    }
+
+    return jsonResponse({ address, provider });
+  } catch (error) {
+    console.error("Error looking up CEP:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: errorMessage }, 502);
+  }
+});
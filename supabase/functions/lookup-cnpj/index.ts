@@ -0,0 +1,73 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { AuthorizationError, requirePermission } from "../_shared/auth.ts";
+import { ClientFormError, clientFormErrorResponse, jsonResponse, loadContractByToken } from "../_shared/clientForm.ts";
+import { lookupCnpj } from "../_shared/cnpjProviders.ts";
+import { isValidCnpj, normalizeCnpj } from "../../../src/lib/brDocuments.ts";
+import type { CompanyData } from "../../../src/lib/companyLookup.ts";
+
+const DEFAULT_CACHE_TTL_DAYS = 30;
+
+// Staff (contracts.create) or a client holding a valid form link: returns the registry
+// data for a CNPJ, served from cnpj_lookups while it is fresh
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { cnpj: rawCnpj, token } = await req.json();
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    if (token !== undefined) {
+      await loadContractByToken(supabase, token);
+    } else {
+      await requirePermission(req, "contracts.create");
+    }
+
+    if (typeof rawCnpj !== "string" || !isValidCnpj(rawCnpj)) {
+      return jsonResponse({ error: "Invalid CNPJ", code: "invalid_cnpj" }, 400);
+    }
+    const cnpj = normalizeCnpj(rawCnpj);
+
+    const ttlDays = Number(Deno.env.get("CNPJ_CACHE_TTL_DAYS")) || DEFAULT_CACHE_TTL_DAYS;
+    const freshSince = new Date(Date.now() - ttlDays * 24 * 60 * 60 * 1000).toISOString();
+    const { data: cached } = await supabase
+      .from("cnpj_lookups")
+      .select("data, provider, fetched_at")
+      .eq("cnpj", cnpj)
+      .gte("fetched_at", freshSince)
+      .maybeSingle();
+
+    if (cached) {
+      return jsonResponse({ company: cached.data as CompanyData, provider: cached.provider, cached: true });
+    }
+
+    const { company, provider } = await lookupCnpj(cnpj);
+    if (!company) {
+      return jsonResponse({ error: "CNPJ not found", code: "not_found" }, 404);
+    }
+
+    const { error: cacheError } = await supabase
+      .from("cnpj_lookups")
+      .upsert({ cnpj, provider, data: company, fetched_at: new Date().toISOString() });
+    if (cacheError) console.error("Failed to cache CNPJ lookup:", cacheError);
+
+    return jsonResponse({ company, provider, cached: false });
+  } catch (error) {
+    if (error instanceof ClientFormError) {
+      return clientFormErrorResponse(error);
+    }
+    if (error instanceof AuthorizationError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("Error looking up CNPJ:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: errorMessage }, 502);
+  }
+});
@@ -0,0 +1,32 @@
+// Run with: deno test --allow-read supabase/functions/parse-docx
+// Each fixtures/<name>.docx is converted and compared with fixtures/<name>.html.
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { unzipSync } from "https://esm.sh/fflate@0.8.2";
+import { docxToHtml } from "./docxToHtml.ts";
+
+const FIXTURES = [
+  // Title/heading styles, alignment, run formatting, split highlighted placeholders, breaks, hidden text
+  "formatting",
+  // Bullets, plain numbering with restarts, outline numbering and lettered clauses kept as text
+  "lists",
+  // Header row, horizontal and vertical merges
+  "tables",
+  // Default header/footer around the body, embedded PNG, unsupported EMF skipped
+  "header-footer",
+];
+
+for (const name of FIXTURES) {
+  Deno.test(`docxToHtml converts ${name}.docx`, async () => {
+    const docx = await Deno.readFile(new URL(`./fixtures/${name}.docx`, import.meta.url));
+    const expected = await Deno.readTextFile(new URL(`./fixtures/${name}.html`, import.meta.url));
+    assertEquals(docxToHtml(unzipSync(docx)), expected.trim());
+  });
+}
+
+Deno.test("docxToHtml rejects a package without word/document.xml", () => {
+  assertThrows(
+    () => docxToHtml({ "[Content_Types].xml": new TextEncoder().encode("<Types/>") }),
+    Error,
+    "Could not find word/document.xml",
+  );
+});
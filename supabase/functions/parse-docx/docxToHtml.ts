@@ -0,0 +1,694 @@
+// Converts the parts of an unzipped DOCX into HTML the template editor (TipTap) accepts:
+// headings, aligned paragraphs, bold/italic/underline/strike runs, line breaks, bullet and
+// numbered lists, tables with merged cells, embedded images and the default header/footer.
+// Highlighted text is wrapped in <mark> so the editor can offer it as a placeholder.
+// Works only on the files it is given (no fetching), so sample documents can be fed to it directly.
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+
+export type DocxFiles = Record<string, Uint8Array>;
+
+interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlNode[];
+}
+
+type XmlNode = XmlElement | string;
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return ENTITIES[entity] ?? match;
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return isNaN(code) ? match : String.fromCodePoint(code);
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Minimal parser for the well-formed XML in OOXML parts
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#root', attrs: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  while (pos < xml.length) {
+    const tagStart = xml.indexOf('<', pos);
+    if (tagStart === -1) break;
+    if (tagStart > pos) stack[stack.length - 1].children.push(decodeEntities(xml.slice(pos, tagStart)));
+
+    if (xml.startsWith('<!--', tagStart)) {
+      pos = xml.indexOf('-->', tagStart) + 3;
+      if (pos < 3) break;
+      continue;
+    }
+    if (xml.startsWith('<![CDATA[', tagStart)) {
+      const end = xml.indexOf(']]>', tagStart);
+      stack[stack.length - 1].children.push(xml.slice(tagStart + 9, end));
+      pos = end + 3;
+      continue;
+    }
+
+    const tagEnd = xml.indexOf('>', tagStart);
+    if (tagEnd === -1) break;
+    const tag = xml.slice(tagStart + 1, tagEnd);
+    pos = tagEnd + 1;
+
+    if (tag[0] === '?' || tag[0] === '!') continue;
+    if (tag[0] === '/') {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameEnd = body.search(/\s|$/);
+    const element: XmlElement = { name: body.slice(0, nameEnd), attrs: {}, children: [] };
+    const attrRegex = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let attr;
+    while ((attr = attrRegex.exec(body.slice(nameEnd))) !== null) {
+      element.attrs[attr[1]] = decodeEntities(attr[2] ?? attr[3]);
+    }
+
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  return root;
+}
+
+function elements(node: XmlElement, name?: string): XmlElement[] {
+  return node.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && (!name || child.name === name)
+  );
+}
+
+function child(node: XmlElement | undefined, name: string): XmlElement | undefined {
+  return node ? elements(node, name)[0] : undefined;
+}
+
+function descendant(node: XmlElement, name: string): XmlElement | undefined {
+  for (const el of elements(node)) {
+    if (el.name === name) return el;
+    const found = descendant(el, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function textOf(node: XmlElement): string {
+  return node.children.map((c) => (typeof c === 'string' ? c : textOf(c))).join('');
+}
+
+// Toggle properties like <w:b/> are on unless w:val says otherwise
+function isOn(node: XmlElement | undefined): boolean {
+  if (!node) return false;
+  const val = node.attrs['w:val'];
+  return val === undefined || !['0', 'false', 'off', 'none'].includes(val);
+}
+
+function readXml(files: DocxFiles, path: string): XmlElement | undefined {
+  const bytes = files[path];
+  return bytes ? parseXml(new TextDecoder('utf-8').decode(bytes)) : undefined;
+}
+
+// ---- Relationships, styles and numbering ----
+
+interface Part {
+  // Relationship id -> path inside the package
+  rels: Map<string, string>;
+}
+
+function loadPart(files: DocxFiles, path: string): Part {
+  const slash = path.lastIndexOf('/');
+  const relsXml = readXml(files, `${path.slice(0, slash)}/_rels/${path.slice(slash + 1)}.rels`);
+  const rels = new Map<string, string>();
+  const relationships = relsXml ? child(relsXml, 'Relationships') : undefined;
+  for (const rel of relationships ? elements(relationships, 'Relationship') : []) {
+    if (rel.attrs.TargetMode === 'External') continue;
+    const target = rel.attrs.Target;
+    rels.set(rel.attrs.Id, target.startsWith('/') ? target.slice(1) : `${path.slice(0, slash)}/${target}`);
+  }
+  return { rels };
+}
+
+interface StyleInfo {
+  headingLevel?: number;
+  align?: string;
+  numId?: string;
+  ilvl?: number;
+}
+
+const HEADING_NAME_REGEX = /^(?:heading|t[ií]tulo)\s*(\d)$/i;
+const LEGACY_HEADING_IDS: Record<string, number> = { Ttulo1: 1, Ttulo2: 2, Ttulo3: 3 };
+
+function loadStyles(files: DocxFiles): Map<string, StyleInfo> {
+  const stylesXml = readXml(files, 'word/styles.xml');
+  const raw = new Map<string, { basedOn?: string; info: StyleInfo }>();
+
+  const stylesRoot = stylesXml ? child(stylesXml, 'w:styles') : undefined;
+  for (const style of stylesRoot ? elements(stylesRoot, 'w:style') : []) {
+    if (style.attrs['w:type'] !== 'paragraph') continue;
+    const id = style.attrs['w:styleId'];
+    const name = child(style, 'w:name')?.attrs['w:val'] ?? '';
+    const pPr = child(style, 'w:pPr');
+    const numPr = child(pPr, 'w:numPr');
+    const outline = child(pPr, 'w:outlineLvl')?.attrs['w:val'];
+
+    const headingMatch = name.match(HEADING_NAME_REGEX);
+    const info: StyleInfo = {
+      headingLevel: headingMatch
+        ? Number(headingMatch[1])
+        : name.toLowerCase() === 'title'
+          ? 1
+          : LEGACY_HEADING_IDS[id] ?? (outline !== undefined && Number(outline) < 6 ? Number(outline) + 1 : undefined),
+      align: child(pPr, 'w:jc')?.attrs['w:val'],
+      numId: child(numPr, 'w:numId')?.attrs['w:val'],
+      ilvl: numPr ? Number(child(numPr, 'w:ilvl')?.attrs['w:val'] ?? 0) : undefined,
+    };
+    raw.set(id, { basedOn: child(style, 'w:basedOn')?.attrs['w:val'], info });
+  }
+
+  // Inherit unset properties through basedOn
+  const resolved = new Map<string, StyleInfo>();
+  const resolve = (id: string, seen: Set<string>): StyleInfo => {
+    const cached = resolved.get(id);
+    if (cached) return cached;
+    const entry = raw.get(id);
+    if (!entry || seen.has(id)) return {};
+    seen.add(id);
+    const parent = entry.basedOn ? resolve(entry.basedOn, seen) : {};
+    const info: StyleInfo = {
+      headingLevel: entry.info.headingLevel ?? parent.headingLevel,
+      align: entry.info.align ?? parent.align,
+      numId: entry.info.numId ?? parent.numId,
+      ilvl: entry.info.ilvl ?? parent.ilvl,
+    };
+    resolved.set(id, info);
+    return info;
+  };
+  for (const id of raw.keys()) resolve(id, new Set());
+  return resolved;
+}
+
+interface NumberingLevel {
+  start: number;
+  format: string;
+  text: string;
+}
+
+class Numbering {
+  private abstracts = new Map<string, Map<number, NumberingLevel>>();
+  private nums = new Map<string, { abstractId: string; startOverrides: Map<number, number> }>();
+  private counters = new Map<string, number[]>();
+  private startedNums = new Set<string>();
+
+  constructor(files: DocxFiles) {
+    const numberingXml = readXml(files, 'word/numbering.xml');
+    const root = numberingXml ? child(numberingXml, 'w:numbering') : undefined;
+    if (!root) return;
+
+    for (const abstract of elements(root, 'w:abstractNum')) {
+      const levels = new Map<number, NumberingLevel>();
+      for (const lvl of elements(abstract, 'w:lvl')) {
+        levels.set(Number(lvl.attrs['w:ilvl']), {
+          start: Number(child(lvl, 'w:start')?.attrs['w:val'] ?? 1),
+          format: child(lvl, 'w:numFmt')?.attrs['w:val'] ?? 'decimal',
+          text: child(lvl, 'w:lvlText')?.attrs['w:val'] ?? '',
+        });
+      }
+      this.abstracts.set(abstract.attrs['w:abstractNumId'], levels);
+    }
+
+    for (const num of elements(root, 'w:num')) {
+      const startOverrides = new Map<number, number>();
+      for (const override of elements(num, 'w:lvlOverride')) {
+        const start = child(override, 'w:startOverride')?.attrs['w:val'];
+        if (start !== undefined) startOverrides.set(Number(override.attrs['w:ilvl']), Number(start));
+      }
+      this.nums.set(num.attrs['w:numId'], {
+        abstractId: child(num, 'w:abstractNumId')?.attrs['w:val'] ?? '',
+        startOverrides,
+      });
+    }
+  }
+
+  level(numId: string, ilvl: number): NumberingLevel | undefined {
+    const num = this.nums.get(numId);
+    const level = num && this.abstracts.get(num.abstractId)?.get(ilvl);
+    if (!num || !level) return undefined;
+    return { ...level, start: num.startOverrides.get(ilvl) ?? level.start };
+  }
+
+  // Outline numbering ("1.", "1.1.", "1.1.1.") refers to parent levels in the level text
+  isOutline(numId: string): boolean {
+    const num = this.nums.get(numId);
+    const levels = num ? this.abstracts.get(num.abstractId) : undefined;
+    return !!levels && [...levels.values()].some((level) => (level.text.match(/%\d/g) ?? []).length > 1);
+  }
+
+  // Advance the counter for this paragraph and return its number text, e.g. "2.1."
+  next(numId: string, ilvl: number): { label: string; value: number } | undefined {
+    const num = this.nums.get(numId);
+    const level = this.level(numId, ilvl);
+    if (!num || !level) return undefined;
+
+    // Lists sharing an abstract definition continue each other unless they restart
+    if (!this.startedNums.has(numId)) {
+      this.startedNums.add(numId);
+      if (num.startOverrides.size > 0) this.counters.delete(num.abstractId);
+    }
+
+    const counters = this.counters.get(num.abstractId) ?? [];
+    for (let i = 0; i < ilvl; i++) {
+      if (counters[i] === undefined) counters[i] = this.level(numId, i)?.start ?? 1;
+    }
+    counters[ilvl] = counters[ilvl] === undefined ? level.start : counters[ilvl] + 1;
+    counters.length = ilvl + 1;
+    this.counters.set(num.abstractId, counters);
+
+    const label = level.text.replace(/%(\d)/g, (_, n: string) => {
+      const index = Number(n) - 1;
+      const format = this.level(numId, index)?.format ?? 'decimal';
+      return formatNumber(counters[index] ?? 1, format);
+    });
+    return { label, value: counters[ilvl] };
+  }
+}
+
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ];
+  let result = '';
+  for (const [amount, numeral] of numerals) {
+    while (value >= amount) {
+      result += numeral;
+      value -= amount;
+    }
+  }
+  return result;
+}
+
+function toLetters(value: number): string {
+  const letter = String.fromCharCode(97 + ((value - 1) % 26));
+  return letter.repeat(Math.floor((value - 1) / 26) + 1);
+}
+
+function formatNumber(value: number, format: string): string {
+  switch (format) {
+    case 'decimalZero':
+      return String(value).padStart(2, '0');
+    case 'lowerLetter':
+      return toLetters(value);
+    case 'upperLetter':
+      return toLetters(value).toUpperCase();
+    case 'lowerRoman':
+      return toRoman(value);
+    case 'upperRoman':
+      return toRoman(value).toUpperCase();
+    case 'ordinal':
+      return `${value}º`;
+    case 'none':
+      return '';
+    default:
+      return String(value);
+  }
+}
+
+// ---- Inline content ----
+
+interface Marks {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  highlight: boolean;
+}
+
+interface Segment {
+  html: string;
+  marks: Marks;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+// EMUs per CSS pixel
+const EMU_PER_PIXEL = 9525;
+
+interface Converter {
+  files: DocxFiles;
+  styles: Map<string, StyleInfo>;
+  numbering: Numbering;
+}
+
+function renderImage(converter: Converter, part: Part, relId: string | undefined, extent?: XmlElement): string {
+  const path = relId ? part.rels.get(relId) : undefined;
+  const bytes = path ? converter.files[path] : undefined;
+  const mime = path ? IMAGE_TYPES[path.split('.').pop()!.toLowerCase()] : undefined;
+  if (!bytes || !mime) {
+    // EMF/WMF and linked images cannot be shown in the editor
+    console.log(`Skipping image ${path ?? relId}`);
+    return '';
+  }
+
+  const size = extent
+    ? ` width="${Math.round(Number(extent.attrs.cx) / EMU_PER_PIXEL)}" height="${Math.round(Number(extent.attrs.cy) / EMU_PER_PIXEL)}"`
+    : '';
+  return `<img src="data:${mime};base64,${encodeBase64(bytes)}"${size}>`;
+}
+
+function runMarks(rPr: XmlElement | undefined): Marks {
+  const underline = child(rPr, 'w:u');
+  const highlight = child(rPr, 'w:highlight');
+  return {
+    bold: isOn(child(rPr, 'w:b')),
+    italic: isOn(child(rPr, 'w:i')),
+    underline: !!underline && underline.attrs['w:val'] !== 'none',
+    strike: isOn(child(rPr, 'w:strike')) || isOn(child(rPr, 'w:dstrike')),
+    highlight: !!highlight && highlight.attrs['w:val'] !== 'none',
+  };
+}
+
+function collectRun(converter: Converter, part: Part, run: XmlElement, segments: Segment[]) {
+  const rPr = child(run, 'w:rPr');
+  if (isOn(child(rPr, 'w:vanish'))) return;
+  const marks = runMarks(rPr);
+  const caps = isOn(child(rPr, 'w:caps'));
+
+  for (const el of elements(run)) {
+    switch (el.name) {
+      case 'w:t': {
+        const text = textOf(el);
+        segments.push({ html: escapeHtml(caps ? text.toUpperCase() : text), marks });
+        break;
+      }
+      case 'w:tab':
+        segments.push({ html: ' ', marks });
+        break;
+      case 'w:noBreakHyphen':
+        segments.push({ html: '-', marks });
+        break;
+      case 'w:br':
+      case 'w:cr':
+        // Page breaks have no equivalent in the editor
+        if (el.attrs['w:type'] !== 'page') segments.push({ html: '<br>', marks });
+        break;
+      case 'w:drawing': {
+        const blip = descendant(el, 'a:blip');
+        segments.push({ html: renderImage(converter, part, blip?.attrs['r:embed'], descendant(el, 'wp:extent')), marks });
+        break;
+      }
+      case 'w:pict': {
+        const imageData = descendant(el, 'v:imagedata');
+        segments.push({ html: renderImage(converter, part, imageData?.attrs['r:id']), marks });
+        break;
+      }
+    }
+  }
+}
+
+// Wrappers around runs (links, tracked insertions, content controls) are unwrapped;
+// tracked deletions are dropped
+const INLINE_CONTAINERS = new Set(['w:hyperlink', 'w:ins', 'w:smartTag', 'w:customXml', 'w:fldSimple', 'w:moveTo']);
+
+function collectInline(converter: Converter, part: Part, node: XmlElement, segments: Segment[]) {
+  for (const el of elements(node)) {
+    if (el.name === 'w:r') {
+      collectRun(converter, part, el, segments);
+    } else if (INLINE_CONTAINERS.has(el.name)) {
+      collectInline(converter, part, el, segments);
+    } else if (el.name === 'w:sdt') {
+      const content = child(el, 'w:sdtContent');
+      if (content) collectInline(converter, part, content, segments);
+    }
+  }
+}
+
+const sameMarks = (a: Marks, b: Marks) =>
+  a.bold === b.bold && a.italic === b.italic && a.underline === b.underline && a.strike === b.strike
+  && a.highlight === b.highlight;
+
+// Word splits text into many runs (spell check, revisions); merging runs with the same
+// formatting keeps placeholders like {{client_name}} inside a single mark
+function segmentsToHtml(segments: Segment[]): string {
+  const merged: Segment[] = [];
+  for (const segment of segments) {
+    if (!segment.html) continue;
+    const last = merged[merged.length - 1];
+    if (last && sameMarks(last.marks, segment.marks)) {
+      last.html += segment.html;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  let html = '';
+  let highlighted = '';
+  for (const { html: text, marks } of merged) {
+    let formatted = text;
+    if (marks.strike) formatted = `<s>${formatted}</s>`;
+    if (marks.underline) formatted = `<u>${formatted}</u>`;
+    if (marks.italic) formatted = `<em>${formatted}</em>`;
+    if (marks.bold) formatted = `<strong>${formatted}</strong>`;
+
+    // Consecutive highlighted runs form a single marker, whatever their other formatting
+    if (marks.highlight) {
+      highlighted += formatted;
+      continue;
+    }
+    if (highlighted) html += `<mark>${highlighted}</mark>`;
+    highlighted = '';
+    html += formatted;
+  }
+  return highlighted ? `${html}<mark>${highlighted}</mark>` : html;
+}
+
+// ---- Blocks ----
+
+const ALIGNMENTS: Record<string, string> = {
+  center: 'center',
+  right: 'right',
+  end: 'right',
+  both: 'justify',
+  distribute: 'justify',
+};
+
+// Open lists in the current container; each one has an <li> still open
+interface OpenList {
+  tag: 'ul' | 'ol';
+  ilvl: number;
+  numId: string;
+}
+
+class BlockWriter {
+  html = '';
+  private lists: OpenList[] = [];
+
+  closeLists(toLevel = -1) {
+    while (this.lists.length > 0 && this.lists[this.lists.length - 1].ilvl > toLevel) {
+      this.html += `</li></${this.lists.pop()!.tag}>`;
+    }
+  }
+
+  listItem(tag: 'ul' | 'ol', numId: string, ilvl: number, start: number, content: string) {
+    this.closeLists(ilvl);
+    const top = this.lists[this.lists.length - 1];
+    if (top && top.ilvl === ilvl && (top.tag !== tag || top.numId !== numId)) {
+      this.closeLists(ilvl - 1);
+    }
+
+    const current = this.lists[this.lists.length - 1];
+    if (current && current.ilvl === ilvl) {
+      this.html += `</li><li>${content}`;
+    } else {
+      this.html += `<${tag}${tag === 'ol' && start !== 1 ? ` start="${start}"` : ''}><li>${content}`;
+      this.lists.push({ tag, ilvl, numId });
+    }
+  }
+
+  block(html: string) {
+    this.closeLists();
+    this.html += html;
+  }
+
+  finish(): string {
+    this.closeLists();
+    return this.html;
+  }
+}
+
+function renderParagraph(converter: Converter, part: Part, paragraph: XmlElement, writer: BlockWriter) {
+  const pPr = child(paragraph, 'w:pPr');
+  const style = converter.styles.get(child(pPr, 'w:pStyle')?.attrs['w:val'] ?? '') ?? {};
+
+  const segments: Segment[] = [];
+  collectInline(converter, part, paragraph, segments);
+  const content = segmentsToHtml(segments);
+
+  const align = ALIGNMENTS[child(pPr, 'w:jc')?.attrs['w:val'] ?? style.align ?? ''];
+  const styleAttr = align ? ` style="text-align: ${align}"` : '';
+
+  const numPr = child(pPr, 'w:numPr');
+  const numId = numPr ? child(numPr, 'w:numId')?.attrs['w:val'] : style.numId;
+  const ilvl = Number((numPr ? child(numPr, 'w:ilvl')?.attrs['w:val'] : undefined) ?? style.ilvl ?? 0);
+  const level = numId && numId !== '0' ? converter.numbering.level(numId, ilvl) : undefined;
+  const number = level && numId ? converter.numbering.next(numId, ilvl) : undefined;
+
+  // Bullets and plain "1." numbering become editor lists; anything else ("1.1.", "a)",
+  // "CLÁUSULA 1ª") keeps its number as text so the clause numbers stay exactly the same
+  if (level && number && !style.headingLevel) {
+    if (level.format === 'bullet') {
+      writer.listItem('ul', numId!, ilvl, 1, `<p${styleAttr}>${content || '<br>'}</p>`);
+      return;
+    }
+    if (level.format === 'decimal' && level.text === `%${ilvl + 1}.` && !converter.numbering.isOutline(numId!)) {
+      writer.listItem('ol', numId!, ilvl, number.value, `<p${styleAttr}>${content || '<br>'}</p>`);
+      return;
+    }
+  }
+
+  const label = number?.label && level?.format !== 'bullet' ? `${escapeHtml(number.label)} ` : '';
+  if (style.headingLevel) {
+    const tag = `h${Math.min(style.headingLevel, 6)}`;
+    writer.block(`<${tag}${styleAttr}>${label}${content}</${tag}>`);
+  } else if (label || content) {
+    writer.block(`<p${styleAttr}>${label}${content}</p>`);
+  } else {
+    // Empty paragraph - keep as spacing
+    writer.block('<p><br></p>');
+  }
+}
+
+interface TableCell {
+  tag: 'td' | 'th';
+  colspan: number;
+  rowspan: number;
+  html: string;
+}
+
+function renderTable(converter: Converter, part: Part, table: XmlElement): string {
+  const rows: TableCell[][] = [];
+  // Cell that started a vertical merge, by grid column
+  const mergeOrigins = new Map<number, TableCell>();
+
+  for (const tr of elements(table, 'w:tr')) {
+    const isHeader = isOn(child(child(tr, 'w:trPr'), 'w:tblHeader'));
+    const row: TableCell[] = [];
+    let column = 0;
+
+    for (const tc of elements(tr, 'w:tc')) {
+      const tcPr = child(tc, 'w:tcPr');
+      const colspan = Number(child(tcPr, 'w:gridSpan')?.attrs['w:val'] ?? 1);
+      const vMerge = child(tcPr, 'w:vMerge');
+
+      if (vMerge && vMerge.attrs['w:val'] !== 'restart' && mergeOrigins.has(column)) {
+        mergeOrigins.get(column)!.rowspan++;
+      } else {
+        const cell: TableCell = {
+          tag: isHeader ? 'th' : 'td',
+          colspan,
+          rowspan: 1,
+          html: renderBlocks(converter, part, tc) || '<p></p>',
+        };
+        row.push(cell);
+        if (vMerge) mergeOrigins.set(column, cell);
+        else mergeOrigins.delete(column);
+      }
+      column += colspan;
+    }
+    rows.push(row);
+  }
+
+  const body = rows
+    .map((row) => {
+      const cells = row
+        .map(({ tag, colspan, rowspan, html }) => {
+          const spans = `${colspan > 1 ? ` colspan="${colspan}"` : ''}${rowspan > 1 ? ` rowspan="${rowspan}"` : ''}`;
+          return `<${tag}${spans}>${html}</${tag}>`;
+        })
+        .join('');
+      return `<tr>${cells}</tr>`;
+    })
+    .join('');
+  return `<table><tbody>${body}</tbody></table>`;
+}
+
+function renderBlocks(converter: Converter, part: Part, container: XmlElement): string {
+  const writer = new BlockWriter();
+
+  const visit = (node: XmlElement) => {
+    for (const el of elements(node)) {
+      if (el.name === 'w:p') {
+        renderParagraph(converter, part, el, writer);
+      } else if (el.name === 'w:tbl') {
+        writer.block(renderTable(converter, part, el));
+      } else if (el.name === 'w:sdt') {
+        const content = child(el, 'w:sdtContent');
+        if (content) visit(content);
+      } else if (el.name === 'w:customXml' || el.name === 'w:ins') {
+        visit(el);
+      }
+    }
+  };
+
+  visit(container);
+  return writer.finish();
+}
+
+const hasContent = (html: string) => /<img/.test(html) || html.replace(/<[^>]+>|&nbsp;|\s/g, '') !== '';
+
+// Default header or footer of the document's last section
+function renderHeaderFooter(converter: Converter, part: Part, sectPr: XmlElement | undefined, kind: 'header' | 'footer'): string {
+  const references = sectPr ? elements(sectPr, `w:${kind}Reference`) : [];
+  const reference = references.find((r) => r.attrs['w:type'] === 'default')
+    ?? references.find((r) => r.attrs['w:type'] === 'first');
+  const path = reference ? part.rels.get(reference.attrs['r:id']) : undefined;
+  const xml = path ? readXml(converter.files, path) : undefined;
+  const root = xml ? child(xml, kind === 'header' ? 'w:hdr' : 'w:ftr') : undefined;
+  if (!path || !root) return '';
+
+  const html = renderBlocks(converter, loadPart(converter.files, path), root);
+  return hasContent(html) ? html : '';
+}
+
+export function docxToHtml(files: DocxFiles): string {
+  const documentXml = readXml(files, 'word/document.xml');
+  const body = documentXml ? child(child(documentXml, 'w:document'), 'w:body') : undefined;
+  if (!body) {
+    throw new Error('Could not find word/document.xml in DOCX');
+  }
+
+  const converter: Converter = {
+    files,
+    styles: loadStyles(files),
+    numbering: new Numbering(files),
+  };
+  const part = loadPart(files, 'word/document.xml');
+  const sectPr = child(body, 'w:sectPr');
+
+  let html = renderBlocks(converter, part, body);
+
+  // The editor has no page header/footer, so they frame the content instead
+  const header = renderHeaderFooter(converter, part, sectPr, 'header');
+  const footer = renderHeaderFooter(converter, part, sectPr, 'footer');
+  if (header) html = `${header}<hr>${html}`;
+  if (footer) html = `${html}<hr>${footer}`;
+
+  // Remove excessive empty paragraphs
+  html = html.replace(/(<p><br><\/p>){3,}/g, '<p><br></p><p><br></p>');
+
+  return html || '<p></p>';
+}
@@ -0,0 +1,72 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { AuthorizationError, requirePermission } from "../_shared/auth.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { renderContractPdf, SignedContractError, TemplateRenderError } from "../_shared/contractPdf.ts";
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    await requirePermission(req, "contracts.edit");
+
+    const { contractId, templateContent } = await req.json();
+
+    if (!contractId) {
+      return new Response(
+        JSON.stringify({ error: "contractId is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    // A preview only: nothing is stored or written to the contract until it is sent for
+    // signature, where send-to-autentique renders and stores the same document
+    const pdf = await renderContractPdf(supabase, contractId, templateContent);
+
+    // Geometry lets the signature placement step show exactly the pages that will be signed
+    return new Response(
+      JSON.stringify({
+        url: `data:application/pdf;base64,${encodeBase64(pdf.bytes)}`,
+        pageCount: pdf.pageCount,
+        pageWidth: pdf.pageWidth,
+        pageHeight: pdf.pageHeight,
+        margin: pdf.margin,
+        markers: pdf.markers,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (error instanceof SignedContractError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    console.error("Error rendering contract PDF:", error);
+    if (error instanceof TemplateRenderError) {
+      return new Response(
+        JSON.stringify({ error: error.message, errors: error.errors, unresolved: error.unresolved }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,5 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AuthorizationError, requirePermission } from "../_shared/auth.ts";
+import { recordContractEvent } from "../_shared/contractEvents.ts";
+import {
+  generateAmendmentPdf,
+  generateContractPdf,
+  StoredSigner,
+  TemplateRenderError,
+} from "../_shared/contractPdf.ts";
+import { AUTENTIQUE_SIGNER_ACTIONS } from "../../../src/lib/signers.ts";
+import { sha256Hex } from "../../../src/lib/documentHash.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -21,36 +31,316 @@ interface ContractData {
   documentName: string;
   signerName: string;
   signerEmail: string;
-  documentContent: string; // HTML content
-  contractCategory: string; // client, service_provider_pj, service_provider_pf, vendor_service, partnership, other
-  signaturePositions?: SignaturePosition[]; // Visual positions from drag and drop
+  templateContent?: string; // Template HTML edited for this contract (defaults to the plan template)
+  signaturePositions?: SignaturePosition[]; // Visual positions from drag and drop, by signer id
+  amendmentId?: string; // Sends this amendment of the contract instead of the contract itself
 }
 
-// Company signer info
-const COMPANY_NAME = "Virtuz Mídia";
-const COMPANY_EMAIL = "comercial@virtuzmidia.com.br";
-
-// Determine signer roles based on contract category
-// Returns: { companyAction: string, clientAction: string, companyFirst: boolean }
-function getSignerRoles(category: string) {
-  switch (category) {
-    case 'client':
-      // Virtuz is CONTRATADA (contracted party), client is CONTRATANTE
-      return { companyAction: 'SIGN', clientAction: 'SIGN', companyFirst: false };
-    case 'service_provider_pj':
-    case 'service_provider_pf':
-    case 'vendor_service':
-      // Virtuz is CONTRATANTE (contracting party), other party is CONTRATADA
-      return { companyAction: 'SIGN', clientAction: 'SIGN', companyFirst: true };
-    case 'partnership':
-      // Both are partners, Virtuz signs first
-      return { companyAction: 'SIGN', clientAction: 'SIGN', companyFirst: true };
-    default:
-      // Default: Virtuz signs first
-      return { companyAction: 'SIGN', clientAction: 'SIGN', companyFirst: true };
+interface AutentiqueDocument {
+  id: string;
+  name: string;
+  created_at: string;
+  signatures?: {
+    public_id: string;
+    name?: string;
+    email?: string;
+    created_at: string;
+    action?: { name: string };
+    link?: { short_link: string } | null;
+  }[];
+}
+
+const CREATE_DOCUMENT_MUTATION = `
+  mutation CreateDocumentMutation(
+    $document: DocumentInput!
+    $signers: [SignerInput!]!
+    $file: Upload!
+  ) {
+    createDocument(
+      sandbox: false,
+      document: $document,
+      signers: $signers,
+      file: $file
+    ) {
+      id
+      name
+      created_at
+      signatures {
+        public_id
+        name
+        email
+        created_at
+        action { name }
+        link { short_link }
+      }
+    }
+  }
+`;
+
+// Signers come from contract_signers, already in signing order. Positions are matched
+// by signer id ('company'/'client' for contracts without saved signers).
+// Autentique uses coordinates where:
+// x: horizontal position (0-100% from left)
+// y: vertical position (0-100% from top)
+// z: page number (1-indexed)
+function buildAutentiqueSigners(contractSigners: StoredSigner[], signaturePositions?: SignaturePosition[]) {
+  const signers = contractSigners.map((contractSigner) => {
+    const position = signaturePositions?.find(
+      (p) => p.id === (contractSigner.id ?? contractSigner.role)
+    );
+    const signer: Record<string, unknown> = {
+      email: contractSigner.email,
+      name: contractSigner.name,
+      action: AUTENTIQUE_SIGNER_ACTIONS[contractSigner.action] ?? 'SIGN',
+    };
+
+    if (contractSigner.cpf) {
+      signer.configs = { cpf: contractSigner.cpf.replace(/\D/g, '') };
+    }
+
+    if (position) {
+      signer.positions = [{
+        x: Math.round(position.x),  // X coordinate (percentage from left)
+        y: Math.round(position.y),  // Y coordinate (percentage from top)
+        z: position.page,           // Page number
+      }];
+      console.log(`Signer ${contractSigner.name} position: page ${position.page}, x=${position.x}%, y=${position.y}%`);
+    }
+
+    return signer;
+  });
+
+  console.log(`Signers with positions:`, JSON.stringify(signers));
+  return signers;
+}
+
+// Upload the PDF to Autentique as a new document (multipart GraphQL request)
+async function createAutentiqueDocument(
+  token: string,
+  { name, fileName, bytes, signers }: { name: string; fileName: string; bytes: Uint8Array; signers: Record<string, unknown>[] }
+): Promise<AutentiqueDocument> {
+  const blob = new Blob([bytes], { type: 'application/pdf' });
+
+  // Create FormData for multipart upload
+  const formData = new FormData();
+
+  const operations = JSON.stringify({
+    query: CREATE_DOCUMENT_MUTATION,
+    variables: {
+      // sortable: each signer is only notified after the previous one signs
+      document: { name, sortable: true },
+      signers,
+      file: null
+    }
+  });
+
+  formData.append('operations', operations);
+  formData.append('map', JSON.stringify({ "0": ["variables.file"] }));
+  formData.append('0', blob, fileName);
+
+  console.log('Sending request to Autentique API...');
+
+  const response = await fetch(AUTENTIQUE_API_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+    body: formData,
+  });
+
+  const responseText = await response.text();
+  console.log('Autentique API response:', responseText);
+
+  let result;
+  try {
+    result = JSON.parse(responseText);
+  } catch {
+    console.error('Failed to parse Autentique response:', responseText);
+    throw new Error(`Autentique API returned invalid response: ${responseText}`);
+  }
+
+  if (result.errors) {
+    console.error('Autentique API errors:', result.errors);
+    throw new Error(`Autentique API error: ${JSON.stringify(result.errors)}`);
+  }
+
+  const document = result.data?.createDocument;
+  if (!document) {
+    throw new Error('No document returned from Autentique');
+  }
+  return document;
+}
+
+// Cancels the outdated document so signers cannot sign it anymore; failures only leave it pending
+async function deleteAutentiqueDocument(token: string, documentId: string) {
+  try {
+    const response = await fetch(AUTENTIQUE_API_URL, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        query: 'mutation($id: UUID!) { deleteDocument(id: $id) }',
+        variables: { id: documentId },
+      }),
+    });
+    const result = await response.json();
+    if (result.errors) throw new Error(JSON.stringify(result.errors));
+    console.log(`Deleted previous Autentique document ${documentId}`);
+  } catch (error) {
+    console.error(`Could not delete previous Autentique document ${documentId}:`, error);
   }
 }
 
+// Amendments go to the contract's signers as a separate Autentique document; the contract
+// itself stays active and its signers keep the signature ids of the contract document
+async function sendAmendment(
+  supabase: SupabaseClient,
+  autentiqueToken: string,
+  caller: { userId: string; email: string | null },
+  { contractId, amendmentId, signerEmail, signaturePositions }: ContractData & { amendmentId: string }
+) {
+  const { data: amendment, error: amendmentError } = await supabase
+    .from('contract_amendments')
+    .select('id, contract_id, amendment_number, title, status, autentique_document_id, contracts(status, client_name)')
+    .eq('id', amendmentId)
+    .single();
+
+  if (amendmentError) throw new Error(`Failed to load amendment: ${amendmentError.message}`);
+  if (amendment.contract_id !== contractId) {
+    throw new Error('Amendment does not belong to the contract');
+  }
+  if (amendment.status !== 'draft' && amendment.status !== 'sent_for_signature') {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Amendment is no longer pending' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 409
+      }
+    );
+  }
+  if (amendment.contracts?.status !== 'active') {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Only active contracts can be amended' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 409
+      }
+    );
+  }
+  const previousDocumentId: string | null = amendment.autentique_document_id;
+
+  let pdf;
+  try {
+    pdf = await generateAmendmentPdf(supabase, amendmentId);
+  } catch (error) {
+    if (!(error instanceof TemplateRenderError)) throw error;
+    console.error('Amendment template could not be rendered:', error.message);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message,
+        errors: error.errors,
+        unresolved: error.unresolved,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 422
+      }
+    );
+  }
+
+  const { data: snapshot, error: snapshotError } = await supabase
+    .from('contract_documents')
+    .insert({
+      contract_id: contractId,
+      amendment_id: amendmentId,
+      template_version_id: null,
+      html: pdf.html,
+      html_sha256: await sha256Hex(pdf.html),
+      pdf_url: pdf.url,
+      pdf_path: pdf.path,
+      pdf_sha256: await sha256Hex(pdf.bytes),
+      created_by: caller.userId,
+    })
+    .select('id, pdf_sha256')
+    .single();
+
+  if (snapshotError) {
+    throw new Error(`Failed to store document snapshot: ${snapshotError.message}`);
+  }
+
+  const documentName = `Aditivo nº ${amendment.amendment_number} - ${amendment.contracts.client_name}`;
+  const document = await createAutentiqueDocument(autentiqueToken, {
+    name: documentName,
+    fileName: `aditivo-${amendment.amendment_number}.pdf`,
+    bytes: pdf.bytes,
+    signers: buildAutentiqueSigners(pdf.signers, signaturePositions),
+  });
+
+  console.log('Amendment document created in Autentique:', document.id);
+
+  const clientSignature = document.signatures?.find(
+    (s) => s.email?.toLowerCase() === signerEmail.toLowerCase()
+  );
+  const signatureLink = (clientSignature ?? document.signatures?.[0])?.link?.short_link;
+
+  const { error: updateError } = await supabase
+    .from('contract_amendments')
+    .update({
+      autentique_document_id: document.id,
+      autentique_signature_link: signatureLink,
+      sent_to_autentique_at: new Date().toISOString(),
+      status: 'sent_for_signature'
+    })
+    .eq('id', amendmentId);
+
+  if (updateError) {
+    console.error('Error updating amendment:', updateError);
+    throw new Error(`Failed to update amendment: ${updateError.message}`);
+  }
+
+  const { error: snapshotUpdateError } = await supabase
+    .from('contract_documents')
+    .update({ autentique_document_id: document.id })
+    .eq('id', snapshot.id);
+  if (snapshotUpdateError) {
+    console.error('Error linking document snapshot to Autentique:', snapshotUpdateError);
+  }
+
+  if (previousDocumentId && previousDocumentId !== document.id) {
+    await deleteAutentiqueDocument(autentiqueToken, previousDocumentId);
+  }
+
+  await recordContractEvent(supabase, {
+    contractId,
+    action: 'amendment_sent_for_signature',
+    actorType: 'user',
+    actorId: caller.userId,
+    actorEmail: caller.email,
+    metadata: {
+      amendment_id: amendmentId,
+      amendment_number: amendment.amendment_number,
+      title: amendment.title,
+      autentique_document_id: document.id,
+      previous_autentique_document_id: previousDocumentId,
+      document_snapshot_id: snapshot.id,
+      pdf_sha256: snapshot.pdf_sha256,
+    },
+  });
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      documentId: document.id,
+      signatureLink,
+      message: 'Aditivo enviado para assinatura no Autentique'
+    }),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    }
+  );
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -58,6 +348,8 @@ serve(async (req) => {
   }
 
   try {
+    const caller = await requirePermission(req, 'contracts.edit');
+
     const autentiqueToken = Deno.env.get('AUTENTIQUE_API_TOKEN');
     if (!autentiqueToken) {
       console.error('AUTENTIQUE_API_TOKEN not configured');
@@ -68,168 +360,97 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const { contractId, documentName, signerName, signerEmail, documentContent, contractCategory, signaturePositions }: ContractData = await req.json();
+    const body: ContractData = await req.json();
+    const { contractId, documentName, signerName, signerEmail, templateContent, signaturePositions, amendmentId } = body;
 
-    console.log(`Sending contract ${contractId} to Autentique for ${signerEmail}, category: ${contractCategory}`);
+    console.log(`Sending contract ${contractId} to Autentique for ${signerEmail}`);
     console.log(`Signature positions received:`, JSON.stringify(signaturePositions));
 
-    if (!contractId || !signerEmail || !documentContent) {
-      throw new Error('Missing required fields: contractId, signerEmail, or documentContent');
+    if (!contractId || !signerEmail) {
+      throw new Error('Missing required fields: contractId or signerEmail');
     }
 
-    // Replace signature markers with actual signature placeholders for the document
-    let processedContent = documentContent;
-    processedContent = processedContent.replace(/\{\{ASSINATURA_EMPRESA\}\}/g, COMPANY_NAME);
-    processedContent = processedContent.replace(/\{\{ASSINATURA_CLIENTE\}\}/g, signerName);
-
-    // Convert HTML to PDF using a simple approach - create a blob
-    const htmlDocument = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <style>
-    body { font-family: Arial, sans-serif; margin: 40px; line-height: 1.6; }
-    h1, h2, h3 { color: #333; }
-    p { margin-bottom: 10px; }
-    strong { font-weight: bold; }
-  </style>
-</head>
-<body>
-${processedContent}
-</body>
-</html>`;
-
-    // Create a Blob from HTML for upload
-    const encoder = new TextEncoder();
-    const htmlBytes = encoder.encode(htmlDocument);
-    const blob = new Blob([htmlBytes], { type: 'text/html' });
-
-    // Create FormData for multipart upload
-    const formData = new FormData();
-    
-    const query = `
-      mutation CreateDocumentMutation(
-        $document: DocumentInput!
-        $signers: [SignerInput!]!
-        $file: Upload!
-      ) {
-        createDocument(
-          sandbox: false,
-          document: $document,
-          signers: $signers,
-          file: $file
-        ) {
-          id
-          name
-          created_at
-          signatures {
-            public_id
-            name
-            email
-            created_at
-            action { name }
-            link { short_link }
-          }
-        }
-      }
-    `;
-
-    // Determine signer order based on contract category
-    const { companyFirst } = getSignerRoles(contractCategory || 'client');
-
-    // Find positions for each signer
-    const companyPosition = signaturePositions?.find(p => p.id === 'company');
-    const clientPosition = signaturePositions?.find(p => p.id === 'client');
-
-    // Build signers with positions if provided
-    // Autentique uses coordinates where:
-    // x: horizontal position (0-100% from left)
-    // y: vertical position (0-100% from top)
-    // z: page number (1-indexed)
-    const buildSignerWithPosition = (
-      email: string, 
-      name: string, 
-      position?: SignaturePosition
-    ) => {
-      const signer: Record<string, unknown> = {
-        email,
-        name,
-        action: "SIGN",
-      };
-
-      // Add position if provided
-      if (position) {
-        signer.positions = [{
-          x: Math.round(position.x),  // X coordinate (percentage from left)
-          y: Math.round(position.y),  // Y coordinate (percentage from top)
-          z: position.page,           // Page number
-        }];
-        console.log(`Signer ${name} position: page ${position.page}, x=${position.x}%, y=${position.y}%`);
-      }
-
-      return signer;
-    };
-
-    const companySigner = buildSignerWithPosition(COMPANY_EMAIL, COMPANY_NAME, companyPosition);
-    const clientSigner = buildSignerWithPosition(signerEmail, signerName, clientPosition);
-    
-    // Order signers based on contract type
-    const signers = companyFirst 
-      ? [companySigner, clientSigner] 
-      : [clientSigner, companySigner];
-    
-    console.log(`Signers order: ${companyFirst ? 'Company first' : 'Client first'}`);
-    console.log(`Signers with positions:`, JSON.stringify(signers));
-
-    const operations = JSON.stringify({
-      query,
-      variables: {
-        document: { name: documentName || `Contrato - ${signerName}` },
-        signers,
-        file: null
-      }
-    });
-
-    formData.append('operations', operations);
-    formData.append('map', JSON.stringify({ "0": ["variables.file"] }));
-    formData.append('0', blob, `${documentName || 'contrato'}.html`);
-
-    console.log('Sending request to Autentique API...');
-
-    const response = await fetch(AUTENTIQUE_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${autentiqueToken}`,
-      },
-      body: formData,
-    });
+    if (amendmentId) {
+      return await sendAmendment(supabase, autentiqueToken, caller, { ...body, amendmentId });
+    }
 
-    const responseText = await response.text();
-    console.log('Autentique API response:', responseText);
+    // A contract edited after being sent replaces its pending Autentique document
+    const { data: currentContract, error: currentError } = await supabase
+      .from('contracts')
+      .select('status, autentique_document_id, contract_category')
+      .eq('id', contractId)
+      .single();
+
+    if (currentError) throw new Error(`Failed to load contract: ${currentError.message}`);
+    console.log(`Contract category: ${currentContract.contract_category}`);
+    if (currentContract.status === 'active' || currentContract.status === 'expired') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Contract is already signed' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 409
+        }
+      );
+    }
+    const previousDocumentId: string | null = currentContract.autentique_document_id;
 
-    let result;
+    // Render the stored contract data into the same paginated PDF the placement step showed
+    let pdf;
     try {
-      result = JSON.parse(responseText);
-    } catch {
-      console.error('Failed to parse Autentique response:', responseText);
-      throw new Error(`Autentique API returned invalid response: ${responseText}`);
+      pdf = await generateContractPdf(supabase, contractId, templateContent);
+    } catch (error) {
+      if (!(error instanceof TemplateRenderError)) throw error;
+      console.error('Template could not be rendered:', error.message);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: error.message,
+          errors: error.errors,
+          unresolved: error.unresolved,
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 422
+        }
+      );
     }
 
-    if (result.errors) {
-      console.error('Autentique API errors:', result.errors);
-      throw new Error(`Autentique API error: ${JSON.stringify(result.errors)}`);
-    }
+    // Keep the exact document being sent before it leaves; the detail page shows this
+    // snapshot instead of re-rendering the (possibly changed) template
+    const { data: snapshot, error: snapshotError } = await supabase
+      .from('contract_documents')
+      .insert({
+        contract_id: contractId,
+        template_version_id: pdf.templateVersionId,
+        html: pdf.html,
+        html_sha256: await sha256Hex(pdf.html),
+        pdf_url: pdf.url,
+        pdf_path: pdf.path,
+        pdf_sha256: await sha256Hex(pdf.bytes),
+        created_by: caller.userId,
+      })
+      .select('id, pdf_sha256')
+      .single();
 
-    const document = result.data?.createDocument;
-    if (!document) {
-      throw new Error('No document returned from Autentique');
+    if (snapshotError) {
+      throw new Error(`Failed to store document snapshot: ${snapshotError.message}`);
     }
 
+    const signers = buildAutentiqueSigners(pdf.signers, signaturePositions);
+    const document = await createAutentiqueDocument(autentiqueToken, {
+      name: documentName || `Contrato - ${signerName}`,
+      fileName: `${documentName || 'contrato'}.pdf`,
+      bytes: pdf.bytes,
+      signers,
+    });
+
     console.log('Document created in Autentique:', document.id);
 
-    // Get the signature link
-    const signatureLink = document.signatures?.[0]?.link?.short_link;
+    // Get the client's signature link
+    const clientSignature = document.signatures?.find(
+      (s) => s.email?.toLowerCase() === signerEmail.toLowerCase()
+    );
+    const signatureLink = (clientSignature ?? document.signatures?.[0])?.link?.short_link;
 
     // Update contract in database
     const { error: updateError } = await supabase
@@ -238,7 +459,9 @@ ${processedContent}
         autentique_document_id: document.id,
         autentique_signature_link: signatureLink,
         sent_to_autentique_at: new Date().toISOString(),
-        status: 'sent_to_client'
+        status: 'sent_to_client',
+        // The document now holds the client's data, so the form link stops working
+        client_token: null
       })
       .eq('id', contractId);
 
@@ -247,6 +470,68 @@ ${processedContent}
       throw new Error(`Failed to update contract: ${updateError.message}`);
     }
 
+    const { error: snapshotUpdateError } = await supabase
+      .from('contract_documents')
+      .update({ autentique_document_id: document.id })
+      .eq('id', snapshot.id);
+    if (snapshotUpdateError) {
+      console.error('Error linking document snapshot to Autentique:', snapshotUpdateError);
+    }
+
+    // Progress on the replaced document does not carry over; the webhook completes the
+    // contract once every signer has signed the new one
+    if (previousDocumentId) {
+      const { error: resetError } = await supabase
+        .from('contract_signers')
+        .update({
+          autentique_signature_id: null,
+          viewed_at: null,
+          signed_at: null,
+          rejected_at: null,
+          rejection_reason: null,
+        })
+        .eq('contract_id', contractId);
+      if (resetError) {
+        console.error('Error resetting signer progress:', resetError);
+        throw new Error(`Failed to reset signer progress: ${resetError.message}`);
+      }
+    }
+
+    // Keep each signer's Autentique signature id so webhook events can be matched to it
+    for (const contractSigner of pdf.signers) {
+      if (!contractSigner.id) continue;
+      const signature = document.signatures?.find(
+        (s) => s.email?.toLowerCase() === contractSigner.email.toLowerCase()
+      );
+      if (!signature) continue;
+      const { error: signerError } = await supabase
+        .from('contract_signers')
+        .update({ autentique_signature_id: signature.public_id })
+        .eq('id', contractSigner.id);
+      if (signerError) {
+        console.error(`Error saving signature id for ${contractSigner.email}:`, signerError);
+      }
+    }
+
+    if (previousDocumentId && previousDocumentId !== document.id) {
+      await deleteAutentiqueDocument(autentiqueToken, previousDocumentId);
+    }
+
+    await recordContractEvent(supabase, {
+      contractId,
+      action: previousDocumentId ? 'resent_for_signature' : 'sent_for_signature',
+      actorType: 'user',
+      actorId: caller.userId,
+      actorEmail: caller.email,
+      metadata: {
+        autentique_document_id: document.id,
+        previous_autentique_document_id: previousDocumentId,
+        document_snapshot_id: snapshot.id,
+        pdf_sha256: snapshot.pdf_sha256,
+        signers: pdf.signers.map((s) => ({ name: s.name, email: s.email, signing_order: s.signing_order })),
+      },
+    });
+
     console.log('Contract updated successfully');
 
     return new Response(
@@ -263,6 +548,15 @@ ${processedContent}
     );
 
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return new Response(
+        JSON.stringify({ success: false, error: error.message }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: error.status
+        }
+      );
+    }
     console.error('Error in send-to-autentique function:', error);
     return new Response(
       JSON.stringify({ 
@@ -0,0 +1,123 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getClientIp, recordContractEvent } from "../_shared/contractEvents.ts";
+import { isFieldEmpty, validateFieldValue } from "../../../src/lib/fieldTypes.ts";
+import {
+  ClientFormError,
+  clientFormErrorResponse,
+  jsonResponse,
+  loadContractByToken,
+  loadFormVariables,
+  type ClientFormVariable,
+} from "../_shared/clientForm.ts";
+
+const MAX_VALUE_LENGTH = 5000;
+
+// Checks submitted values against the plan's declared variables; returns one message per problem
+function validateSubmission(variables: ClientFormVariable[], data: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+  const declared = new Map(variables.map((v) => [v.variable_name, v]));
+
+  for (const key of Object.keys(data)) {
+    if (!declared.has(key)) problems.push(`Unknown field: ${key}`);
+  }
+
+  for (const variable of variables) {
+    const value = data[variable.variable_name];
+    if (value !== undefined && typeof value !== "string") {
+      problems.push(`${variable.variable_name} must be a string`);
+      continue;
+    }
+    const text = (value ?? "").trim();
+    if (variable.required && isFieldEmpty(variable.field_type, text)) {
+      problems.push(`${variable.variable_name} is required`);
+    } else if (text.length > MAX_VALUE_LENGTH) {
+      problems.push(`${variable.variable_name} is too long`);
+    } else if (text && variable.field_type === "select" && variable.options && !variable.options.includes(text)) {
+      problems.push(`${variable.variable_name} is not one of the options`);
+    } else if (text && validateFieldValue(variable.field_type, text)) {
+      // CPF/CNPJ check digits, CEP, RG, Pix key and address format
+      problems.push(`${variable.variable_name} is not a valid ${variable.field_type}`);
+    }
+  }
+  return problems;
+}
+
+// Public: stores the client's answers once; staff reopen the form to allow another submission
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { token, data } = await req.json();
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const contract = await loadContractByToken(supabase, token);
+    if (contract.client_filled_at || contract.status === "awaiting_signature") {
+      throw new ClientFormError("Form already submitted", "already_submitted", 409);
+    }
+
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      throw new ClientFormError("data must be an object", "invalid_data", 400);
+    }
+
+    const variables = await loadFormVariables(supabase, contract.plan_id);
+    const problems = validateSubmission(variables, data);
+    if (problems.length > 0) {
+      throw new ClientFormError("Invalid form data", "invalid_data", 400, problems);
+    }
+
+    // Keep fields staff filled that are not part of the form
+    const customData: Record<string, unknown> = { ...(contract.custom_data ?? {}) };
+    for (const variable of variables) {
+      customData[variable.variable_name] = ((data[variable.variable_name] as string | undefined) ?? "").trim();
+    }
+
+    // The client_filled_at and status guards make concurrent submissions lose instead of overwrite
+    const { data: updated, error } = await supabase
+      .from("contracts")
+      .update({
+        custom_data: customData,
+        client_filled_at: new Date().toISOString(),
+        status: "awaiting_signature",
+      })
+      .eq("id", contract.id)
+      .is("client_filled_at", null)
+      .in("status", ["draft", "sent_to_client"])
+      .select("id");
+
+    if (error) throw new Error(`Failed to save client form: ${error.message}`);
+    if (!updated || updated.length === 0) {
+      throw new ClientFormError("Form already submitted", "already_submitted", 409);
+    }
+
+    await recordContractEvent(supabase, {
+      contractId: contract.id,
+      action: "client_form_submitted",
+      actorType: "client",
+      changes: Object.fromEntries(
+        variables
+          .filter((v) => contract.custom_data?.[v.variable_name] !== customData[v.variable_name])
+          .map((v) => [v.variable_name, { old: contract.custom_data?.[v.variable_name] ?? null, new: customData[v.variable_name] }])
+      ),
+      metadata: { user_agent: req.headers.get("user-agent") },
+      ipAddress: getClientIp(req),
+    });
+
+    console.log(`Client form submitted for contract ${contract.id}`);
+    return jsonResponse({ success: true });
+  } catch (error) {
+    if (error instanceof ClientFormError) {
+      return clientFormErrorResponse(error);
+    }
+    console.error("Error submitting client form:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,103 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { AuthorizationError, requirePermission } from "../_shared/auth.ts";
+import { postWebhook, type WebhookPayload } from "../_shared/webhookDelivery.ts";
+
+// Sample contract sent by the "send test event" button; shaped like the real payloads
+function buildSamplePayload(eventType: string, category: string): WebhookPayload {
+  const today = new Date();
+  const endDate = new Date(today);
+  endDate.setFullYear(today.getFullYear() + 1);
+
+  const contract = {
+    id: "00000000-0000-0000-0000-000000000000",
+    client_name: "Cliente de Teste Ltda",
+    client_email: "cliente@example.com",
+    client_phone: "(11) 99999-9999",
+    plan_id: null,
+    status: eventType === "contract.signed" ? "active" : eventType === "contract.expired" ? "expired" : "draft",
+    contract_category: category,
+    start_date: today.toISOString().slice(0, 10),
+    end_date: endDate.toISOString().slice(0, 10),
+    monthly_value: 1500,
+    total_value: 18000,
+    custom_data: {},
+    generated_document_url: null,
+    autentique_document_id: null,
+    created_at: today.toISOString(),
+    updated_at: today.toISOString(),
+  };
+
+  const data: Record<string, unknown> = { contract, test: true };
+  if (eventType === "contract.status_changed") data.previous_status = "awaiting_signature";
+  if (eventType === "contract.expiring") data.days_until_expiration = 30;
+  if (eventType === "contract.expired") data.days_since_expiration = 1;
+  if (eventType === "contract.stale") data.idle_days = 30;
+
+  return {
+    id: crypto.randomUUID(),
+    event: eventType,
+    created_at: today.toISOString(),
+    data,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only admins, who manage the endpoints, can trigger test deliveries
+    await requirePermission(req, "webhooks.manage");
+
+    const { endpointId, eventType } = await req.json();
+    if (!endpointId) {
+      return new Response(
+        JSON.stringify({ error: "endpointId is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const { data: endpoint, error: endpointError } = await supabase
+      .from("webhook_endpoints")
+      .select("url, secret_key, events, contract_categories")
+      .eq("id", endpointId)
+      .single();
+
+    if (endpointError || !endpoint) {
+      return new Response(
+        JSON.stringify({ error: "Webhook endpoint not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const payload = buildSamplePayload(
+      eventType || endpoint.events?.[0] || "contract.created",
+      endpoint.contract_categories?.[0] || "client"
+    );
+
+    console.log(`Sending test ${payload.event} to ${endpoint.url}`);
+    const result = await postWebhook(endpoint.url, endpoint.secret_key, payload);
+
+    return new Response(
+      JSON.stringify({ ...result, payload }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    console.error("Error sending test webhook:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
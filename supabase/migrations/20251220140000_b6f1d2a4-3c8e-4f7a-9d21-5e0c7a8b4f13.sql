@@ -0,0 +1,44 @@
+-- Signers of each contract, sent to Autentique in signing_order
+CREATE TYPE public.signer_role AS ENUM ('company', 'client', 'representative', 'partner', 'witness');
+CREATE TYPE public.signer_action AS ENUM ('SIGN', 'APPROVE', 'WITNESS');
+
+CREATE TABLE public.contract_signers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID REFERENCES public.contracts(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  cpf TEXT,
+  role signer_role DEFAULT 'client' NOT NULL,
+  action signer_action DEFAULT 'SIGN' NOT NULL,
+  signing_order INTEGER DEFAULT 1 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_signers_contract_id ON public.contract_signers(contract_id, signing_order);
+
+ALTER TABLE public.contract_signers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view contract_signers"
+  ON public.contract_signers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert contract_signers"
+  ON public.contract_signers FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update contract_signers"
+  ON public.contract_signers FOR UPDATE
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can delete contract_signers"
+  ON public.contract_signers FOR DELETE
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_contract_signers_updated_at
+  BEFORE UPDATE ON public.contract_signers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,31 @@
+-- Signature progress reported by Autentique webhooks
+ALTER TABLE public.contract_signers
+ADD COLUMN IF NOT EXISTS autentique_signature_id TEXT,
+ADD COLUMN IF NOT EXISTS viewed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS signed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+-- Every webhook event received for a contract, one row per Autentique event
+CREATE TABLE public.signature_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID REFERENCES public.contracts(id) ON DELETE CASCADE NOT NULL,
+  signer_id UUID REFERENCES public.contract_signers(id) ON DELETE SET NULL,
+  signer_email TEXT,
+  event_type TEXT NOT NULL CHECK (event_type IN ('viewed', 'signed', 'rejected', 'finished')),
+  autentique_event_id TEXT UNIQUE,
+  payload JSONB DEFAULT '{}' NOT NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_signature_events_contract_id ON public.signature_events(contract_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_contracts_autentique_document_id ON public.contracts(autentique_document_id);
+
+ALTER TABLE public.signature_events ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the autentique-webhook edge function (service role)
+CREATE POLICY "Authenticated users can view signature_events"
+  ON public.signature_events FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,161 @@
+-- Outbound webhook delivery log. Each event emitted for a contract gets one row per active
+-- endpoint; the deliver-webhooks edge function sends pending rows and retries failures.
+CREATE TABLE public.webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE NOT NULL,
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'delivering', 'success', 'failed')),
+  attempts INTEGER DEFAULT 0 NOT NULL,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  response_status INTEGER,
+  response_body TEXT,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON public.webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON public.webhook_deliveries(endpoint_id, created_at DESC);
+
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view webhook_deliveries"
+  ON public.webhook_deliveries FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Staff can re-queue a failed delivery from the settings page
+CREATE POLICY "Authenticated users can update webhook_deliveries"
+  ON public.webhook_deliveries FOR UPDATE
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+  BEFORE UPDATE ON public.webhook_deliveries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queue an event for every active endpoint
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(_event_type TEXT, _data JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID := gen_random_uuid();
+BEGIN
+  INSERT INTO public.webhook_deliveries (endpoint_id, event_id, event_type, payload)
+  SELECT
+    e.id,
+    _event_id,
+    _event_type,
+    jsonb_build_object('id', _event_id, 'event', _event_type, 'created_at', now(), 'data', _data)
+  FROM public.webhook_endpoints e
+  WHERE e.is_active;
+END;
+$$;
+
+-- Contract lifecycle events
+CREATE OR REPLACE FUNCTION public.emit_contract_webhook_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  -- The client token gives access to the public form, never send it out
+  _contract JSONB := to_jsonb(NEW) - 'client_token';
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_webhook_event('contract.created', jsonb_build_object('contract', _contract));
+    RETURN NEW;
+  END IF;
+
+  IF OLD.client_filled_at IS NULL AND NEW.client_filled_at IS NOT NULL THEN
+    PERFORM public.enqueue_webhook_event('contract.client_filled', jsonb_build_object('contract', _contract));
+  END IF;
+
+  IF NEW.sent_to_autentique_at IS NOT NULL AND NEW.sent_to_autentique_at IS DISTINCT FROM OLD.sent_to_autentique_at THEN
+    PERFORM public.enqueue_webhook_event('contract.sent_for_signature', jsonb_build_object('contract', _contract));
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.enqueue_webhook_event(
+      'contract.status_changed',
+      jsonb_build_object('contract', _contract, 'previous_status', OLD.status)
+    );
+
+    IF NEW.status = 'active' AND NEW.autentique_document_id IS NOT NULL THEN
+      PERFORM public.enqueue_webhook_event('contract.signed', jsonb_build_object('contract', _contract));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER contracts_webhook_events
+  AFTER INSERT OR UPDATE ON public.contracts
+  FOR EACH ROW EXECUTE FUNCTION public.emit_contract_webhook_events();
+
+-- contract.expiring is emitted once per contract, _days before end_date
+ALTER TABLE public.contracts ADD COLUMN IF NOT EXISTS expiring_notified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.enqueue_expiring_contract_events(_days INTEGER DEFAULT 30)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _contract public.contracts%ROWTYPE;
+  _count INTEGER := 0;
+BEGIN
+  FOR _contract IN
+    SELECT * FROM public.contracts
+    WHERE status = 'active'
+      AND expiring_notified_at IS NULL
+      AND end_date BETWEEN current_date AND current_date + _days
+  LOOP
+    PERFORM public.enqueue_webhook_event(
+      'contract.expiring',
+      jsonb_build_object(
+        'contract', to_jsonb(_contract) - 'client_token',
+        'days_until_expiration', _contract.end_date - current_date
+      )
+    );
+    UPDATE public.contracts SET expiring_notified_at = now() WHERE id = _contract.id;
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+-- Scheduling. Requires the project_url and service_role_key secrets in Vault:
+--   select vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'deliver-webhooks',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/deliver-webhooks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+SELECT cron.schedule(
+  'enqueue-expiring-contract-events',
+  '0 9 * * *',
+  $$ SELECT public.enqueue_expiring_contract_events(30); $$
+);
@@ -0,0 +1,40 @@
+-- Per-endpoint event subscriptions and optional contract category filter
+ALTER TABLE public.webhook_endpoints
+ADD COLUMN IF NOT EXISTS events TEXT[] DEFAULT ARRAY[
+  'contract.created',
+  'contract.client_filled',
+  'contract.sent_for_signature',
+  'contract.signed',
+  'contract.status_changed',
+  'contract.expiring'
+] NOT NULL,
+ADD COLUMN IF NOT EXISTS contract_categories TEXT[];
+
+COMMENT ON COLUMN public.webhook_endpoints.contract_categories IS 'Only send events for these contract categories; NULL or empty sends all';
+
+-- Only queue events the endpoint subscribed to, for the categories it accepts
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(_event_type TEXT, _data JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _event_id UUID := gen_random_uuid();
+  _category TEXT := _data -> 'contract' ->> 'contract_category';
+BEGIN
+  INSERT INTO public.webhook_deliveries (endpoint_id, event_id, event_type, payload)
+  SELECT
+    e.id,
+    _event_id,
+    _event_type,
+    jsonb_build_object('id', _event_id, 'event', _event_type, 'created_at', now(), 'data', _data)
+  FROM public.webhook_endpoints e
+  WHERE e.is_active
+    AND _event_type = ANY(e.events)
+    AND (
+      e.contract_categories IS NULL
+      OR cardinality(e.contract_categories) = 0
+      OR _category = ANY(e.contract_categories)
+    );
+END;
+$$;
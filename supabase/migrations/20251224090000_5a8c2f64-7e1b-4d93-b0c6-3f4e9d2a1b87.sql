@@ -0,0 +1,277 @@
+-- Roles replace the domain-only check: every policy below requires one of them
+CREATE TYPE public.app_role AS ENUM ('admin', 'legal', 'sales', 'viewer');
+
+-- One role per user, kept beside profiles (not in it) so "Users can update own profile"
+-- cannot be used to grant yourself a role
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL DEFAULT 'viewer',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_user_roles_updated_at
+  BEFORE UPDATE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- SECURITY DEFINER so policies can check roles without recursing into user_roles RLS
+CREATE OR REPLACE FUNCTION public.has_any_role(_user_id UUID, _roles public.app_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = ANY(_roles)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.has_any_role(_user_id, ARRAY[_role]);
+$$;
+
+-- Existing accounts could already do everything; keep them as admins
+INSERT INTO public.user_roles (user_id, role)
+SELECT user_id, 'admin' FROM public.profiles
+ON CONFLICT (user_id) DO NOTHING;
+
+-- New company accounts start read-only; other domains get no role and therefore no access
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  user_domain TEXT;
+BEGIN
+  -- Extract domain from email
+  user_domain := split_part(NEW.email, '@', 2);
+  
+  INSERT INTO public.profiles (user_id, email, full_name, avatar_url, domain)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data ->> 'full_name', NEW.raw_user_meta_data ->> 'name'),
+    NEW.raw_user_meta_data ->> 'avatar_url',
+    user_domain
+  );
+
+  IF user_domain = 'virtuzmidia.com.br' THEN
+    INSERT INTO public.user_roles (user_id, role) VALUES (NEW.id, 'viewer');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- user_roles: everyone reads their own role, admins manage all of them
+CREATE POLICY "Users can view own role"
+  ON public.user_roles FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert roles"
+  ON public.user_roles FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update roles"
+  ON public.user_roles FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete roles"
+  ON public.user_roles FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Admins list profiles to assign roles
+CREATE POLICY "Admins can view all profiles"
+  ON public.profiles FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- plans and plan_variables: readable by any role, templates managed by admin and legal
+DROP POLICY "Authenticated users can view plans" ON public.plans;
+DROP POLICY "Authenticated users can insert plans" ON public.plans;
+DROP POLICY "Authenticated users can update plans" ON public.plans;
+DROP POLICY "Authenticated users can delete plans" ON public.plans;
+
+CREATE POLICY "Users with a role can view plans"
+  ON public.plans FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales', 'viewer']::public.app_role[]));
+
+CREATE POLICY "Admin and legal can insert plans"
+  ON public.plans FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+CREATE POLICY "Admin and legal can update plans"
+  ON public.plans FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+CREATE POLICY "Admin and legal can delete plans"
+  ON public.plans FOR DELETE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+DROP POLICY "Authenticated users can view plan_variables" ON public.plan_variables;
+DROP POLICY "Authenticated users can insert plan_variables" ON public.plan_variables;
+DROP POLICY "Authenticated users can update plan_variables" ON public.plan_variables;
+DROP POLICY "Authenticated users can delete plan_variables" ON public.plan_variables;
+
+CREATE POLICY "Users with a role can view plan_variables"
+  ON public.plan_variables FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales', 'viewer']::public.app_role[]));
+
+CREATE POLICY "Admin and legal can insert plan_variables"
+  ON public.plan_variables FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+CREATE POLICY "Admin and legal can update plan_variables"
+  ON public.plan_variables FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+CREATE POLICY "Admin and legal can delete plan_variables"
+  ON public.plan_variables FOR DELETE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+-- contracts: sales creates and edits, only admin and legal delete.
+-- The anonymous client_token policies are left untouched.
+DROP POLICY "Authenticated users can view contracts" ON public.contracts;
+DROP POLICY "Authenticated users can insert contracts" ON public.contracts;
+DROP POLICY "Authenticated users can update contracts" ON public.contracts;
+DROP POLICY "Authenticated users can delete contracts" ON public.contracts;
+
+CREATE POLICY "Users with a role can view contracts"
+  ON public.contracts FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales', 'viewer']::public.app_role[]));
+
+CREATE POLICY "Admin, legal and sales can insert contracts"
+  ON public.contracts FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales']::public.app_role[]));
+
+CREATE POLICY "Admin, legal and sales can update contracts"
+  ON public.contracts FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales']::public.app_role[]));
+
+CREATE POLICY "Admin and legal can delete contracts"
+  ON public.contracts FOR DELETE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+-- contract_signers follow contract editing
+DROP POLICY "Authenticated users can view contract_signers" ON public.contract_signers;
+DROP POLICY "Authenticated users can insert contract_signers" ON public.contract_signers;
+DROP POLICY "Authenticated users can update contract_signers" ON public.contract_signers;
+DROP POLICY "Authenticated users can delete contract_signers" ON public.contract_signers;
+
+CREATE POLICY "Users with a role can view contract_signers"
+  ON public.contract_signers FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales', 'viewer']::public.app_role[]));
+
+CREATE POLICY "Admin, legal and sales can insert contract_signers"
+  ON public.contract_signers FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales']::public.app_role[]));
+
+CREATE POLICY "Admin, legal and sales can update contract_signers"
+  ON public.contract_signers FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales']::public.app_role[]));
+
+CREATE POLICY "Admin, legal and sales can delete contract_signers"
+  ON public.contract_signers FOR DELETE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales']::public.app_role[]));
+
+DROP POLICY "Authenticated users can view signature_events" ON public.signature_events;
+
+CREATE POLICY "Users with a role can view signature_events"
+  ON public.signature_events FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales', 'viewer']::public.app_role[]));
+
+-- Webhooks hold signing secrets: admin only
+DROP POLICY "Authenticated users can view webhook_endpoints" ON public.webhook_endpoints;
+DROP POLICY "Authenticated users can insert webhook_endpoints" ON public.webhook_endpoints;
+DROP POLICY "Authenticated users can update webhook_endpoints" ON public.webhook_endpoints;
+DROP POLICY "Authenticated users can delete webhook_endpoints" ON public.webhook_endpoints;
+
+CREATE POLICY "Admins can view webhook_endpoints"
+  ON public.webhook_endpoints FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert webhook_endpoints"
+  ON public.webhook_endpoints FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update webhook_endpoints"
+  ON public.webhook_endpoints FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete webhook_endpoints"
+  ON public.webhook_endpoints FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY "Authenticated users can view webhook_deliveries" ON public.webhook_deliveries;
+DROP POLICY "Authenticated users can update webhook_deliveries" ON public.webhook_deliveries;
+
+CREATE POLICY "Admins can view webhook_deliveries"
+  ON public.webhook_deliveries FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update webhook_deliveries"
+  ON public.webhook_deliveries FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Storage: template files follow plan management, contract files follow contract editing
+DROP POLICY "Authenticated users can upload templates" ON storage.objects;
+DROP POLICY "Authenticated users can delete templates" ON storage.objects;
+DROP POLICY "Authenticated users can upload contracts" ON storage.objects;
+DROP POLICY "Authenticated users can delete contracts" ON storage.objects;
+
+CREATE POLICY "Admin and legal can upload templates"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'templates' AND public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+CREATE POLICY "Admin and legal can delete templates"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'templates' AND public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+CREATE POLICY "Admin, legal and sales can upload contracts"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'contracts' AND public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales']::public.app_role[]));
+
+CREATE POLICY "Admin and legal can delete contracts"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'contracts' AND public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
@@ -0,0 +1,8 @@
+-- The client form now goes through the get-client-form/submit-client-form edge functions,
+-- so contracts no longer need to be readable or writable by anyone holding a token
+DROP POLICY "Anyone can view contract by token" ON public.contracts;
+DROP POLICY "Anyone can update contract by token" ON public.contracts;
+
+-- Client form links stop working after this date; staff extend it when reopening the form
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS client_token_expires_at TIMESTAMP WITH TIME ZONE DEFAULT (now() + interval '30 days');
@@ -0,0 +1,98 @@
+-- Append-only history of everything that happens to a contract. contract_id has no foreign
+-- key so the history of deleted contracts is kept.
+CREATE TABLE public.contract_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  contract_id UUID NOT NULL,
+  action TEXT NOT NULL,
+  actor_type TEXT NOT NULL DEFAULT 'system' CHECK (actor_type IN ('user', 'client', 'signer', 'system')),
+  actor_id UUID,
+  actor_email TEXT,
+  -- { field: { old, new } }; created/deleted events only carry new/old
+  changes JSONB,
+  metadata JSONB,
+  ip_address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_events_contract_id ON public.contract_events(contract_id, created_at);
+
+ALTER TABLE public.contract_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the trigger below and by edge functions with the service role;
+-- no insert/update/delete policies for users
+CREATE POLICY "Users with a role can view contract_events"
+  ON public.contract_events FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales', 'viewer']::public.app_role[]));
+
+-- Not even the service role may rewrite history
+CREATE OR REPLACE FUNCTION public.prevent_contract_event_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'contract_events is append-only';
+END;
+$$;
+
+CREATE TRIGGER contract_events_append_only
+  BEFORE UPDATE OR DELETE ON public.contract_events
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_contract_event_changes();
+
+-- Columns that change on their own or are secret; never part of a diff
+CREATE OR REPLACE FUNCTION public.contract_audit_ignored_columns()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY['updated_at', 'client_token', 'expiring_notified_at'];
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_contract_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _old JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  _new JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  _changes JSONB;
+  _action TEXT;
+  _actor_id UUID := auth.uid();
+BEGIN
+  SELECT jsonb_object_agg(key, jsonb_build_object('old', _old -> key, 'new', _new -> key))
+  INTO _changes
+  FROM (SELECT jsonb_object_keys(_old || _new) AS key) keys
+  WHERE key <> ALL (public.contract_audit_ignored_columns())
+    AND (_old -> key) IS DISTINCT FROM (_new -> key)
+    AND NOT (TG_OP = 'INSERT' AND _new -> key = 'null'::jsonb);
+
+  IF TG_OP = 'UPDATE' AND _changes IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _action := CASE
+    WHEN TG_OP = 'INSERT' THEN 'created'
+    WHEN TG_OP = 'DELETE' THEN 'deleted'
+    WHEN _changes ? 'status' THEN 'status_changed'
+    ELSE 'updated'
+  END;
+
+  -- Changes made with the service role (edge functions, cron) have no user
+  INSERT INTO public.contract_events (contract_id, action, actor_type, actor_id, actor_email, changes)
+  VALUES (
+    COALESCE(NEW.id, OLD.id),
+    _action,
+    CASE WHEN _actor_id IS NULL THEN 'system' ELSE 'user' END,
+    _actor_id,
+    auth.jwt() ->> 'email',
+    _changes
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_contract_events
+  AFTER INSERT OR UPDATE OR DELETE ON public.contracts
+  FOR EACH ROW EXECUTE FUNCTION public.log_contract_event();
@@ -0,0 +1,28 @@
+-- Once signed, the fields printed in the contract document can no longer be edited by users.
+-- Changes made with the service role (edge functions, scheduled jobs) are not restricted.
+CREATE OR REPLACE FUNCTION public.prevent_signed_contract_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status IN ('active', 'expired') AND auth.uid() IS NOT NULL AND (
+    NEW.client_name IS DISTINCT FROM OLD.client_name OR
+    NEW.plan_id IS DISTINCT FROM OLD.plan_id OR
+    NEW.contract_category IS DISTINCT FROM OLD.contract_category OR
+    NEW.start_date IS DISTINCT FROM OLD.start_date OR
+    NEW.end_date IS DISTINCT FROM OLD.end_date OR
+    NEW.monthly_value IS DISTINCT FROM OLD.monthly_value OR
+    NEW.total_value IS DISTINCT FROM OLD.total_value OR
+    NEW.custom_data IS DISTINCT FROM OLD.custom_data OR
+    NEW.generated_document_url IS DISTINCT FROM OLD.generated_document_url
+  ) THEN
+    RAISE EXCEPTION 'Signed contracts cannot have their document fields changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_signed_contract_changes
+  BEFORE UPDATE ON public.contracts
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_signed_contract_changes();
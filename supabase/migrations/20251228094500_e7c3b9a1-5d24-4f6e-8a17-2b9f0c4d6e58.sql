@@ -0,0 +1,113 @@
+-- Every saved template is kept as an immutable version; plans.template_content is the
+-- content of plans.current_version_id
+CREATE TABLE public.template_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  plan_id UUID NOT NULL REFERENCES public.plans(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  -- DOCX the content was imported from, kept so the original file is never lost
+  source_url TEXT,
+  -- Set when the version was created by restoring an older one
+  restored_from_version_id UUID REFERENCES public.template_versions(id) ON DELETE SET NULL,
+  comment TEXT,
+  author_id UUID,
+  author_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (plan_id, version_number)
+);
+
+ALTER TABLE public.template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users with a role can view template_versions"
+  ON public.template_versions FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales', 'viewer']::public.app_role[]));
+
+CREATE POLICY "Admins and legal can create template_versions"
+  ON public.template_versions FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+-- Versions are history: no update or delete policies, and not even the service role may edit them
+CREATE OR REPLACE FUNCTION public.prevent_template_version_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'template_versions is append-only';
+END;
+$$;
+
+CREATE TRIGGER template_versions_append_only
+  BEFORE UPDATE ON public.template_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_template_version_changes();
+
+ALTER TABLE public.plans
+  ADD COLUMN current_version_id UUID REFERENCES public.template_versions(id) ON DELETE SET NULL;
+
+-- Version the contract document was rendered from
+ALTER TABLE public.contracts
+  ADD COLUMN template_version_id UUID REFERENCES public.template_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_template_versions_plan_id ON public.template_versions(plan_id, version_number);
+CREATE INDEX IF NOT EXISTS idx_contracts_template_version_id ON public.contracts(template_version_id);
+
+-- Store a new version and make it the plan's current template. Runs with the caller's
+-- rights, so the template_versions and plans policies decide who may save.
+CREATE OR REPLACE FUNCTION public.save_template_version(
+  _plan_id UUID,
+  _content TEXT,
+  _comment TEXT DEFAULT NULL,
+  _source_url TEXT DEFAULT NULL,
+  _restored_from_version_id UUID DEFAULT NULL
+)
+RETURNS public.template_versions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _version public.template_versions;
+  _next_number INTEGER;
+BEGIN
+  -- Lock the plan so concurrent saves get consecutive version numbers
+  PERFORM 1 FROM public.plans WHERE id = _plan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan % not found', _plan_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO _next_number
+  FROM public.template_versions
+  WHERE plan_id = _plan_id;
+
+  INSERT INTO public.template_versions (
+    plan_id, version_number, content, source_url, restored_from_version_id, comment, author_id, author_email
+  )
+  VALUES (
+    _plan_id, _next_number, _content, _source_url, _restored_from_version_id,
+    NULLIF(trim(_comment), ''), auth.uid(), auth.jwt() ->> 'email'
+  )
+  RETURNING * INTO _version;
+
+  -- The DOCX stays in storage and on its version; the plan is now driven by the editor content
+  UPDATE public.plans
+  SET template_content = _content,
+      template_url = NULL,
+      current_version_id = _version.id
+  WHERE id = _plan_id;
+
+  RETURN _version;
+END;
+$$;
+
+-- Existing templates become version 1
+WITH initial AS (
+  INSERT INTO public.template_versions (plan_id, version_number, content, source_url, comment, created_at)
+  SELECT id, 1, template_content, template_url, 'Versão inicial', updated_at
+  FROM public.plans
+  WHERE template_content IS NOT NULL AND trim(template_content) <> ''
+  RETURNING id, plan_id
+)
+UPDATE public.plans p
+SET current_version_id = initial.id
+FROM initial
+WHERE p.id = initial.plan_id;
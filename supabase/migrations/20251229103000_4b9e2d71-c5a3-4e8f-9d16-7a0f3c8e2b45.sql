@@ -0,0 +1,67 @@
+-- Exact document sent for signature, one row per send (re-sends add a new snapshot).
+-- The HTML and PDF are fixed once stored; only the signed copy returned by Autentique
+-- is added later.
+CREATE TABLE public.contract_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  contract_id UUID NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  -- No foreign key: deleting a plan must not touch the snapshots of its contracts
+  template_version_id UUID,
+  html TEXT NOT NULL,
+  html_sha256 TEXT NOT NULL,
+  pdf_url TEXT NOT NULL,
+  pdf_path TEXT NOT NULL,
+  pdf_sha256 TEXT NOT NULL,
+  autentique_document_id TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  signed_pdf_url TEXT,
+  signed_pdf_sha256 TEXT,
+  -- Whether the original file kept by Autentique has the same hash as pdf_sha256
+  original_verified BOOLEAN,
+  signed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_contract_documents_contract_id ON public.contract_documents(contract_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_contract_documents_autentique_document_id ON public.contract_documents(autentique_document_id);
+
+ALTER TABLE public.contract_documents ENABLE ROW LEVEL SECURITY;
+
+-- Written by send-to-autentique and autentique-webhook with the service role
+CREATE POLICY "Users with a role can view contract_documents"
+  ON public.contract_documents FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales', 'viewer']::public.app_role[]));
+
+-- The Autentique id is filled in once the document is created there, and the signed copy
+-- once everyone signed; nothing else may change, not even with the service role
+CREATE OR REPLACE FUNCTION public.protect_contract_document_snapshot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.contract_id IS DISTINCT FROM OLD.contract_id
+    OR NEW.template_version_id IS DISTINCT FROM OLD.template_version_id
+    OR NEW.html IS DISTINCT FROM OLD.html
+    OR NEW.html_sha256 IS DISTINCT FROM OLD.html_sha256
+    OR NEW.pdf_url IS DISTINCT FROM OLD.pdf_url
+    OR NEW.pdf_path IS DISTINCT FROM OLD.pdf_path
+    OR NEW.pdf_sha256 IS DISTINCT FROM OLD.pdf_sha256
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR (OLD.autentique_document_id IS NOT NULL
+      AND NEW.autentique_document_id IS DISTINCT FROM OLD.autentique_document_id)
+    OR (OLD.signed_pdf_sha256 IS NOT NULL AND (
+      NEW.signed_pdf_url IS DISTINCT FROM OLD.signed_pdf_url
+      OR NEW.signed_pdf_sha256 IS DISTINCT FROM OLD.signed_pdf_sha256
+      OR NEW.original_verified IS DISTINCT FROM OLD.original_verified
+      OR NEW.signed_at IS DISTINCT FROM OLD.signed_at))
+  THEN
+    RAISE EXCEPTION 'contract document snapshots cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER contract_documents_immutable
+  BEFORE UPDATE ON public.contract_documents
+  FOR EACH ROW EXECUTE FUNCTION public.protect_contract_document_snapshot();
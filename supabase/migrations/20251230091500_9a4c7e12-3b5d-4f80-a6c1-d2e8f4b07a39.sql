@@ -0,0 +1,12 @@
+-- Company data returned by the CNPJ registry provider, so repeated lookups of the same
+-- company do not hit the (rate limited) provider again. lookup-cnpj refreshes entries
+-- older than CNPJ_CACHE_TTL_DAYS.
+CREATE TABLE public.cnpj_lookups (
+  cnpj TEXT NOT NULL PRIMARY KEY,
+  provider TEXT NOT NULL,
+  data JSONB NOT NULL,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Read and written only by lookup-cnpj with the service role
+ALTER TABLE public.cnpj_lookups ENABLE ROW LEVEL SECURITY;
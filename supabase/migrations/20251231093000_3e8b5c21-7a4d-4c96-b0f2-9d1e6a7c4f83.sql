@@ -0,0 +1,8 @@
+-- Every contract has a category: it decides the party labels, the signing order and the
+-- webhook filters, so rows created before it was saved by the app fall back to 'client'
+UPDATE public.contracts SET contract_category = 'client' WHERE contract_category IS NULL;
+
+ALTER TABLE public.contracts ALTER COLUMN contract_category SET NOT NULL;
+
+-- Contracts list and dashboard filter by category
+CREATE INDEX IF NOT EXISTS idx_contracts_contract_category ON public.contracts (contract_category);
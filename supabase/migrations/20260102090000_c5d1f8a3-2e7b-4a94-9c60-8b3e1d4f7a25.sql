@@ -0,0 +1,127 @@
+-- Scheduled status maintenance: active contracts past end_date become expired, and drafts or
+-- forms sent to the client that nobody touched for a while are flagged as stale.
+-- Both run daily through pg_cron; locally, call public.run_contract_status_scheduler()
+-- (optionally with another reference date) and check contract_events / webhook_deliveries.
+
+-- Set when the contract is flagged as stale; an edit after that (updated_at moves past it)
+-- clears the flag, so the contract is flagged again if it stalls once more
+ALTER TABLE public.contracts ADD COLUMN IF NOT EXISTS stale_notified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.contract_audit_ignored_columns()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY['updated_at', 'client_token', 'expiring_notified_at', 'stale_notified_at'];
+$$;
+
+-- The status change itself is logged and sent as contract.status_changed by the contracts
+-- triggers; contract.expired is the dedicated event for integrations that only need this one
+CREATE OR REPLACE FUNCTION public.expire_contracts(_today DATE DEFAULT current_date)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _contract public.contracts%ROWTYPE;
+  _count INTEGER := 0;
+BEGIN
+  FOR _contract IN
+    UPDATE public.contracts
+    SET status = 'expired'
+    WHERE status = 'active'
+      AND end_date < _today
+    RETURNING *
+  LOOP
+    PERFORM public.enqueue_webhook_event(
+      'contract.expired',
+      jsonb_build_object(
+        'contract', to_jsonb(_contract) - 'client_token',
+        'days_since_expiration', _today - _contract.end_date
+      )
+    );
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.flag_stale_contracts(_days INTEGER DEFAULT 30, _today DATE DEFAULT current_date)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _contract public.contracts%ROWTYPE;
+  _idle_days INTEGER;
+  _count INTEGER := 0;
+BEGIN
+  FOR _contract IN
+    SELECT * FROM public.contracts
+    WHERE status IN ('draft', 'sent_to_client')
+      AND updated_at < _today - _days
+      AND (stale_notified_at IS NULL OR updated_at > stale_notified_at)
+  LOOP
+    _idle_days := _today - _contract.updated_at::date;
+
+    INSERT INTO public.contract_events (contract_id, action, actor_type, metadata)
+    VALUES (
+      _contract.id,
+      'flagged_stale',
+      'system',
+      jsonb_build_object('status', _contract.status, 'idle_days', _idle_days)
+    );
+    PERFORM public.enqueue_webhook_event(
+      'contract.stale',
+      jsonb_build_object(
+        'contract', to_jsonb(_contract) - 'client_token',
+        'idle_days', _idle_days
+      )
+    );
+    UPDATE public.contracts SET stale_notified_at = now() WHERE id = _contract.id;
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_contract_status_scheduler(_stale_days INTEGER DEFAULT 30, _today DATE DEFAULT current_date)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  RETURN jsonb_build_object(
+    'expired', public.expire_contracts(_today),
+    'stale', public.flag_stale_contracts(_stale_days, _today)
+  );
+END;
+$$;
+
+-- New events: endpoints following contract.expiring also get contract.expired; contract.stale
+-- is opt-in for existing endpoints and part of the default for new ones
+ALTER TABLE public.webhook_endpoints
+ALTER COLUMN events SET DEFAULT ARRAY[
+  'contract.created',
+  'contract.client_filled',
+  'contract.sent_for_signature',
+  'contract.signed',
+  'contract.status_changed',
+  'contract.expiring',
+  'contract.expired',
+  'contract.stale'
+];
+
+UPDATE public.webhook_endpoints
+SET events = array_append(events, 'contract.expired')
+WHERE 'contract.expiring' = ANY(events)
+  AND NOT 'contract.expired' = ANY(events);
+
+-- Just after midnight, so contracts ending yesterday are expired before the working day
+SELECT cron.schedule(
+  'contract-status-scheduler',
+  '5 0 * * *',
+  $$ SELECT public.run_contract_status_scheduler(30); $$
+);
@@ -0,0 +1,156 @@
+-- Renewals: a renewal is a new draft contract cloned from its predecessor (renewed_from_id),
+-- with the value optionally readjusted and dates following on from the previous term.
+-- Contracts with auto_renew get their renewal created by the daily scheduler
+-- auto_renew_days_before days before end_date.
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS renewed_from_id UUID REFERENCES public.contracts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS auto_renew BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS auto_renew_days_before INTEGER NOT NULL DEFAULT 30 CHECK (auto_renew_days_before > 0),
+  -- Readjustment (%) applied by automatic renewals; NULL keeps the current value
+  ADD COLUMN IF NOT EXISTS auto_renew_readjustment_percent NUMERIC(7, 4);
+
+-- A contract is renewed once; deleting the renewal draft allows renewing it again
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contracts_renewed_from_id
+  ON public.contracts(renewed_from_id) WHERE renewed_from_id IS NOT NULL;
+
+-- Clone a signed contract into a renewal draft. Runs with the caller's rights, so the
+-- contracts and contract_signers policies decide who may renew; the scheduler runs it
+-- without a user.
+CREATE OR REPLACE FUNCTION public.renew_contract(
+  _contract_id UUID,
+  _readjustment_percent NUMERIC DEFAULT NULL,
+  _start_date DATE DEFAULT NULL,
+  _duration_months INTEGER DEFAULT NULL
+)
+RETURNS public.contracts
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _source public.contracts;
+  _renewal public.contracts;
+  _term INTERVAL;
+  _months INTEGER;
+  _start DATE;
+  _factor NUMERIC := 1 + COALESCE(_readjustment_percent, 0) / 100;
+  _monthly_value NUMERIC;
+  _template_version_id UUID;
+BEGIN
+  SELECT * INTO _source FROM public.contracts WHERE id = _contract_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contract % not found', _contract_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF _source.status NOT IN ('active', 'expired') THEN
+    RAISE EXCEPTION 'Only signed contracts can be renewed' USING ERRCODE = 'check_violation';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.contracts WHERE renewed_from_id = _contract_id) THEN
+    RAISE EXCEPTION 'Contract % was already renewed', _contract_id USING ERRCODE = 'unique_violation';
+  END IF;
+
+  -- Same term as the current contract, starting where it ends
+  _term := age(_source.end_date, _source.start_date);
+  _months := COALESCE(_duration_months, GREATEST(1, (EXTRACT(YEAR FROM _term) * 12 + EXTRACT(MONTH FROM _term))::INTEGER));
+  _start := COALESCE(_start_date, _source.end_date);
+  _monthly_value := round(_source.monthly_value * _factor, 2);
+
+  -- The renewal is rendered from the plan's current template, not the one signed before
+  SELECT current_version_id INTO _template_version_id FROM public.plans WHERE id = _source.plan_id;
+
+  INSERT INTO public.contracts (
+    client_name, client_email, client_phone, plan_id, contract_category, custom_data,
+    start_date, end_date, monthly_value, total_value, status, template_version_id, created_by,
+    renewed_from_id, auto_renew, auto_renew_days_before, auto_renew_readjustment_percent
+  )
+  VALUES (
+    _source.client_name, _source.client_email, _source.client_phone, _source.plan_id,
+    _source.contract_category, _source.custom_data,
+    _start, (_start + make_interval(months => _months))::DATE,
+    _monthly_value,
+    COALESCE(_monthly_value * _months, round(_source.total_value * _factor, 2)),
+    'draft', _template_version_id, auth.uid(),
+    _source.id, _source.auto_renew, _source.auto_renew_days_before, _source.auto_renew_readjustment_percent
+  )
+  RETURNING * INTO _renewal;
+
+  INSERT INTO public.contract_signers (contract_id, name, email, cpf, role, action, signing_order)
+  SELECT _renewal.id, name, email, cpf, role, action, signing_order
+  FROM public.contract_signers
+  WHERE contract_id = _source.id;
+
+  RETURN _renewal;
+END;
+$$;
+
+-- The renewal's own history starts with "created"; the predecessor records that it was renewed
+CREATE OR REPLACE FUNCTION public.log_contract_renewal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _actor_id UUID := auth.uid();
+BEGIN
+  INSERT INTO public.contract_events (contract_id, action, actor_type, actor_id, actor_email, metadata)
+  VALUES (
+    NEW.renewed_from_id,
+    'renewed',
+    CASE WHEN _actor_id IS NULL THEN 'system' ELSE 'user' END,
+    _actor_id,
+    auth.jwt() ->> 'email',
+    jsonb_build_object(
+      'renewal_contract_id', NEW.id,
+      'start_date', NEW.start_date,
+      'end_date', NEW.end_date,
+      'monthly_value', NEW.monthly_value
+    )
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_contract_renewal
+  AFTER INSERT ON public.contracts
+  FOR EACH ROW
+  WHEN (NEW.renewed_from_id IS NOT NULL)
+  EXECUTE FUNCTION public.log_contract_renewal();
+
+CREATE OR REPLACE FUNCTION public.auto_renew_contracts(_today DATE DEFAULT current_date)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _contract public.contracts%ROWTYPE;
+  _count INTEGER := 0;
+BEGIN
+  FOR _contract IN
+    SELECT * FROM public.contracts c
+    WHERE c.status = 'active'
+      AND c.auto_renew
+      AND c.end_date - c.auto_renew_days_before <= _today
+      AND NOT EXISTS (SELECT 1 FROM public.contracts r WHERE r.renewed_from_id = c.id)
+  LOOP
+    PERFORM public.renew_contract(_contract.id, _contract.auto_renew_readjustment_percent);
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+-- Renew before expiring, so contracts that ended yesterday are still picked up while active
+CREATE OR REPLACE FUNCTION public.run_contract_status_scheduler(_stale_days INTEGER DEFAULT 30, _today DATE DEFAULT current_date)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _renewed INTEGER := public.auto_renew_contracts(_today);
+BEGIN
+  RETURN jsonb_build_object(
+    'renewed', _renewed,
+    'expired', public.expire_contracts(_today),
+    'stale', public.flag_stale_contracts(_stale_days, _today)
+  );
+END;
+$$;
@@ -0,0 +1,232 @@
+-- Annual readjustment of monthly_value by an inflation index. The monthly index variations
+-- are imported from CSV (Configurações > Índices), so no external API is needed; the
+-- readjustment itself is proposed as an amendment draft and applied once it is signed.
+CREATE TABLE public.index_rates (
+  index_code TEXT NOT NULL CHECK (index_code IN ('IPCA', 'IGPM')),
+  -- First day of the month the variation refers to
+  reference_month DATE NOT NULL CHECK (EXTRACT(DAY FROM reference_month) = 1),
+  -- Monthly variation in percent (0.4500 = 0,45%); negative in deflation months
+  rate NUMERIC(8, 4) NOT NULL,
+  imported_by UUID,
+  imported_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (index_code, reference_month)
+);
+
+ALTER TABLE public.index_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users with a role can view index_rates"
+  ON public.index_rates FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales', 'viewer']::public.app_role[]));
+
+-- Re-importing a month overwrites it, so admin and legal need insert and update
+CREATE POLICY "Admin and legal can insert index_rates"
+  ON public.index_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+CREATE POLICY "Admin and legal can update index_rates"
+  ON public.index_rates FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+CREATE POLICY "Admin and legal can delete index_rates"
+  ON public.index_rates FOR DELETE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+-- Readjustment configuration: the index accumulated over the 12 months before the
+-- anniversary month, limited to [floor, cap] when those are set
+ALTER TABLE public.contracts
+  ADD COLUMN IF NOT EXISTS readjustment_index TEXT CHECK (readjustment_index IN ('IPCA', 'IGPM')),
+  ADD COLUMN IF NOT EXISTS readjustment_month INTEGER CHECK (readjustment_month BETWEEN 1 AND 12),
+  ADD COLUMN IF NOT EXISTS readjustment_floor_percent NUMERIC(7, 4),
+  ADD COLUMN IF NOT EXISTS readjustment_cap_percent NUMERIC(7, 4),
+  ADD CONSTRAINT contracts_readjustment_limits_check
+    CHECK (readjustment_floor_percent IS NULL OR readjustment_cap_percent IS NULL
+      OR readjustment_floor_percent <= readjustment_cap_percent);
+
+-- Amendments (aditivos) to a contract. A signed amendment carries the new monthly_value
+-- and/or end_date into the contract.
+CREATE TABLE public.contract_amendments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  contract_id UUID NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  -- Sequential per contract, assigned on insert
+  amendment_number INTEGER NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'general' CHECK (kind IN ('general', 'readjustment')),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'signed', 'cancelled')),
+  title TEXT NOT NULL,
+  description TEXT,
+  -- New values agreed in the amendment; NULL keeps the contract's current value
+  monthly_value DECIMAL(10, 2),
+  end_date DATE,
+  effective_date DATE NOT NULL,
+  -- Calculation behind a readjustment amendment: index, period, monthly rates, floor/cap
+  readjustment JSONB,
+  signed_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (contract_id, amendment_number)
+);
+
+-- One readjustment per anniversary; cancelling the amendment allows generating it again
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contract_amendments_readjustment_anniversary
+  ON public.contract_amendments(contract_id, (readjustment ->> 'anniversary'))
+  WHERE kind = 'readjustment' AND status <> 'cancelled';
+
+ALTER TABLE public.contract_amendments ENABLE ROW LEVEL SECURITY;
+
+-- contract_amendments follow contract editing
+CREATE POLICY "Users with a role can view contract_amendments"
+  ON public.contract_amendments FOR SELECT
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales', 'viewer']::public.app_role[]));
+
+CREATE POLICY "Admin, legal and sales can insert contract_amendments"
+  ON public.contract_amendments FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales']::public.app_role[]));
+
+CREATE POLICY "Admin, legal and sales can update contract_amendments"
+  ON public.contract_amendments FOR UPDATE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal', 'sales']::public.app_role[]));
+
+CREATE POLICY "Admin and legal can delete contract_amendments"
+  ON public.contract_amendments FOR DELETE
+  TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'legal']::public.app_role[]));
+
+CREATE TRIGGER update_contract_amendments_updated_at
+  BEFORE UPDATE ON public.contract_amendments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.set_contract_amendment_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT COALESCE(MAX(amendment_number), 0) + 1 INTO NEW.amendment_number
+  FROM public.contract_amendments
+  WHERE contract_id = NEW.contract_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_contract_amendment_number
+  BEFORE INSERT ON public.contract_amendments
+  FOR EACH ROW EXECUTE FUNCTION public.set_contract_amendment_number();
+
+-- A signed amendment is part of the contract: users can no longer change or reopen it
+CREATE OR REPLACE FUNCTION public.prevent_signed_amendment_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status = 'signed' AND auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Signed amendments cannot be changed' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_signed_amendment_changes
+  BEFORE UPDATE ON public.contract_amendments
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_signed_amendment_changes();
+
+-- Signed contracts reject user changes to their document fields; applying a signed
+-- amendment is the one sanctioned way to change them, flagged for this transaction only
+CREATE OR REPLACE FUNCTION public.prevent_signed_contract_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status IN ('active', 'expired') AND auth.uid() IS NOT NULL
+    AND current_setting('app.applying_amendment', true) IS DISTINCT FROM 'on' AND (
+    NEW.client_name IS DISTINCT FROM OLD.client_name OR
+    NEW.plan_id IS DISTINCT FROM OLD.plan_id OR
+    NEW.contract_category IS DISTINCT FROM OLD.contract_category OR
+    NEW.start_date IS DISTINCT FROM OLD.start_date OR
+    NEW.end_date IS DISTINCT FROM OLD.end_date OR
+    NEW.monthly_value IS DISTINCT FROM OLD.monthly_value OR
+    NEW.total_value IS DISTINCT FROM OLD.total_value OR
+    NEW.custom_data IS DISTINCT FROM OLD.custom_data OR
+    NEW.generated_document_url IS DISTINCT FROM OLD.generated_document_url
+  ) THEN
+    RAISE EXCEPTION 'Signed contracts cannot have their document fields changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Amendments are logged on the parent contract's history; the value change itself is
+-- logged by the contracts trigger when a signed amendment is applied
+CREATE OR REPLACE FUNCTION public.log_contract_amendment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _actor_id UUID := auth.uid();
+  _action TEXT;
+BEGIN
+  _action := CASE
+    WHEN TG_OP = 'INSERT' THEN 'amendment_created'
+    WHEN NEW.status = 'signed' THEN 'amendment_signed'
+    ELSE 'amendment_cancelled'
+  END;
+
+  INSERT INTO public.contract_events (contract_id, action, actor_type, actor_id, actor_email, metadata)
+  VALUES (
+    NEW.contract_id,
+    _action,
+    CASE WHEN _actor_id IS NULL THEN 'system' ELSE 'user' END,
+    _actor_id,
+    auth.jwt() ->> 'email',
+    jsonb_build_object(
+      'amendment_id', NEW.id,
+      'amendment_number', NEW.amendment_number,
+      'title', NEW.title,
+      'monthly_value', NEW.monthly_value,
+      'end_date', NEW.end_date
+    )
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_contract_amendment_created
+  AFTER INSERT ON public.contract_amendments
+  FOR EACH ROW EXECUTE FUNCTION public.log_contract_amendment();
+
+CREATE TRIGGER log_contract_amendment_status
+  AFTER UPDATE OF status ON public.contract_amendments
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.status IN ('signed', 'cancelled'))
+  EXECUTE FUNCTION public.log_contract_amendment();
+
+CREATE OR REPLACE FUNCTION public.apply_signed_contract_amendment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.applying_amendment', 'on', true);
+  UPDATE public.contracts
+  SET monthly_value = COALESCE(NEW.monthly_value, monthly_value),
+      end_date = COALESCE(NEW.end_date, end_date)
+  WHERE id = NEW.contract_id;
+  PERFORM set_config('app.applying_amendment', 'off', true);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_signed_contract_amendment
+  AFTER UPDATE OF status ON public.contract_amendments
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.status = 'signed')
+  EXECUTE FUNCTION public.apply_signed_contract_amendment();
+
+CREATE INDEX IF NOT EXISTS idx_contract_amendments_contract_id ON public.contract_amendments(contract_id, amendment_number);
@@ -0,0 +1,192 @@
+-- Amendments (aditivos) become documents of their own: rendered from the plan's amendment
+-- template, sent for signature through send-to-autentique and tracked by autentique-webhook.
+-- The contract row keeps what was originally agreed in original_terms, and its monthly_value
+-- and end_date are derived from the latest signed amendment that changes them.
+
+-- Template of the plan's amendments; NULL uses the default in templateEngine.ts
+ALTER TABLE public.plans ADD COLUMN IF NOT EXISTS amendment_template_content TEXT;
+
+ALTER TABLE public.contract_amendments DROP CONSTRAINT IF EXISTS contract_amendments_status_check;
+ALTER TABLE public.contract_amendments
+  ADD CONSTRAINT contract_amendments_status_check
+    CHECK (status IN ('draft', 'sent_for_signature', 'signed', 'rejected', 'cancelled')),
+  ADD COLUMN IF NOT EXISTS autentique_document_id TEXT,
+  ADD COLUMN IF NOT EXISTS autentique_signature_link TEXT,
+  ADD COLUMN IF NOT EXISTS sent_to_autentique_at TIMESTAMP WITH TIME ZONE,
+  -- PDF sent for signature, replaced by the signed copy once everyone signed
+  ADD COLUMN IF NOT EXISTS generated_document_url TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_contract_amendments_autentique_document_id
+  ON public.contract_amendments(autentique_document_id);
+
+-- Amendment documents are snapshotted and their webhook events recorded like the contract's,
+-- under the parent contract
+ALTER TABLE public.contract_documents
+  ADD COLUMN IF NOT EXISTS amendment_id UUID REFERENCES public.contract_amendments(id) ON DELETE CASCADE;
+
+ALTER TABLE public.signature_events
+  ADD COLUMN IF NOT EXISTS amendment_id UUID REFERENCES public.contract_amendments(id) ON DELETE CASCADE;
+
+CREATE OR REPLACE FUNCTION public.protect_contract_document_snapshot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.contract_id IS DISTINCT FROM OLD.contract_id
+    OR NEW.amendment_id IS DISTINCT FROM OLD.amendment_id
+    OR NEW.template_version_id IS DISTINCT FROM OLD.template_version_id
+    OR NEW.html IS DISTINCT FROM OLD.html
+    OR NEW.html_sha256 IS DISTINCT FROM OLD.html_sha256
+    OR NEW.pdf_url IS DISTINCT FROM OLD.pdf_url
+    OR NEW.pdf_path IS DISTINCT FROM OLD.pdf_path
+    OR NEW.pdf_sha256 IS DISTINCT FROM OLD.pdf_sha256
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR (OLD.autentique_document_id IS NOT NULL
+      AND NEW.autentique_document_id IS DISTINCT FROM OLD.autentique_document_id)
+    OR (OLD.signed_pdf_sha256 IS NOT NULL AND (
+      NEW.signed_pdf_url IS DISTINCT FROM OLD.signed_pdf_url
+      OR NEW.signed_pdf_sha256 IS DISTINCT FROM OLD.signed_pdf_sha256
+      OR NEW.original_verified IS DISTINCT FROM OLD.original_verified
+      OR NEW.signed_at IS DISTINCT FROM OLD.signed_at))
+  THEN
+    RAISE EXCEPTION 'contract document snapshots cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- { monthly_value, end_date } as signed, before any amendment; NULL while no amendment
+-- has been signed, when the row itself still holds the original values
+ALTER TABLE public.contracts ADD COLUMN IF NOT EXISTS original_terms JSONB;
+
+CREATE OR REPLACE FUNCTION public.contract_audit_ignored_columns()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY['updated_at', 'client_token', 'expiring_notified_at', 'stale_notified_at', 'original_terms'];
+$$;
+
+-- Amendments signed before this migration were applied over the contract's values; the
+-- readjustment breakdown still has the value they replaced
+UPDATE public.contracts c
+SET original_terms = jsonb_build_object(
+  'monthly_value', COALESCE(
+    (SELECT (a.readjustment ->> 'current_value')::NUMERIC
+     FROM public.contract_amendments a
+     WHERE a.contract_id = c.id AND a.status = 'signed' AND a.readjustment IS NOT NULL
+     ORDER BY a.amendment_number
+     LIMIT 1),
+    c.monthly_value
+  ),
+  'end_date', c.end_date
+)
+WHERE EXISTS (SELECT 1 FROM public.contract_amendments a WHERE a.contract_id = c.id AND a.status = 'signed');
+
+-- Recompute the contract's effective monthly_value and end_date from its original terms and
+-- signed amendments. Signed contracts only accept these changes through here.
+CREATE OR REPLACE FUNCTION public.refresh_contract_amended_terms(_contract_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _contract public.contracts;
+  _original JSONB;
+BEGIN
+  SELECT * INTO _contract FROM public.contracts WHERE id = _contract_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _original := COALESCE(
+    _contract.original_terms,
+    jsonb_build_object('monthly_value', _contract.monthly_value, 'end_date', _contract.end_date)
+  );
+
+  PERFORM set_config('app.applying_amendment', 'on', true);
+  UPDATE public.contracts
+  SET original_terms = _original,
+      monthly_value = COALESCE(
+        (SELECT a.monthly_value FROM public.contract_amendments a
+         WHERE a.contract_id = _contract_id AND a.status = 'signed' AND a.monthly_value IS NOT NULL
+         ORDER BY a.signed_at DESC NULLS LAST, a.amendment_number DESC
+         LIMIT 1),
+        (_original ->> 'monthly_value')::NUMERIC
+      ),
+      end_date = COALESCE(
+        (SELECT a.end_date FROM public.contract_amendments a
+         WHERE a.contract_id = _contract_id AND a.status = 'signed' AND a.end_date IS NOT NULL
+         ORDER BY a.signed_at DESC NULLS LAST, a.amendment_number DESC
+         LIMIT 1),
+        (_original ->> 'end_date')::DATE
+      )
+  WHERE id = _contract_id;
+  PERFORM set_config('app.applying_amendment', 'off', true);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_signed_contract_amendment ON public.contract_amendments;
+DROP FUNCTION IF EXISTS public.apply_signed_contract_amendment();
+
+CREATE OR REPLACE FUNCTION public.refresh_amended_contract()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_contract_amended_terms(NEW.contract_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_amended_contract
+  AFTER UPDATE OF status ON public.contract_amendments
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.status = 'signed')
+  EXECUTE FUNCTION public.refresh_amended_contract();
+
+-- Rejections by a signer are part of the contract's history too
+CREATE OR REPLACE FUNCTION public.log_contract_amendment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _actor_id UUID := auth.uid();
+  _action TEXT;
+BEGIN
+  _action := CASE
+    WHEN TG_OP = 'INSERT' THEN 'amendment_created'
+    WHEN NEW.status = 'signed' THEN 'amendment_signed'
+    WHEN NEW.status = 'rejected' THEN 'amendment_rejected'
+    ELSE 'amendment_cancelled'
+  END;
+
+  INSERT INTO public.contract_events (contract_id, action, actor_type, actor_id, actor_email, metadata)
+  VALUES (
+    NEW.contract_id,
+    _action,
+    CASE WHEN _actor_id IS NULL THEN 'system' ELSE 'user' END,
+    _actor_id,
+    auth.jwt() ->> 'email',
+    jsonb_build_object(
+      'amendment_id', NEW.id,
+      'amendment_number', NEW.amendment_number,
+      'title', NEW.title,
+      'monthly_value', NEW.monthly_value,
+      'end_date', NEW.end_date
+    )
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_contract_amendment_status ON public.contract_amendments;
+
+CREATE TRIGGER log_contract_amendment_status
+  AFTER UPDATE OF status ON public.contract_amendments
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.status IN ('signed', 'rejected', 'cancelled'))
+  EXECUTE FUNCTION public.log_contract_amendment();
@@ -0,0 +1,26 @@
+-- Deliveries are signed and sent with whatever payload the row holds, so nobody may rewrite
+-- them; staff only put a failed delivery back in the queue, through retry_webhook_delivery
+DROP POLICY IF EXISTS "Admins can update webhook_deliveries" ON public.webhook_deliveries;
+
+CREATE OR REPLACE FUNCTION public.retry_webhook_delivery(_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can retry webhook deliveries' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.webhook_deliveries
+  SET status = 'pending', attempts = 0, next_attempt_at = now()
+  WHERE id = _delivery_id AND status = 'failed';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery % is not a failed delivery', _delivery_id USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.retry_webhook_delivery(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.retry_webhook_delivery(UUID) TO authenticated;
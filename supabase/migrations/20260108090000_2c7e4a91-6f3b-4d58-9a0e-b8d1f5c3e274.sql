@@ -0,0 +1,6 @@
+-- Events are only queued by the triggers and the scheduler. Through PostgREST anyone could
+-- queue a made-up event, which would then be signed with each endpoint's secret and delivered.
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_event(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enqueue_expiring_contract_events(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_webhook_event(TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.enqueue_expiring_contract_events(INTEGER) TO service_role;
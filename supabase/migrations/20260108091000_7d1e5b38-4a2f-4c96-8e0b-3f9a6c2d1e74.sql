@@ -0,0 +1,11 @@
+-- The role backfill in 20251224090000 made every existing profile an admin, but profiles were
+-- created for any signup and the domain was only checked in the UI. Drop the admin role it gave
+-- to other domains. Backfilled rows all carry that migration's timestamp, the earliest in the
+-- table; roles an admin granted or changed since then are left alone.
+DELETE FROM public.user_roles r
+USING public.profiles p
+WHERE p.user_id = r.user_id
+  AND p.domain IS DISTINCT FROM 'virtuzmidia.com.br'
+  AND r.role = 'admin'
+  AND r.updated_at = r.created_at
+  AND r.created_at = (SELECT min(created_at) FROM public.user_roles);
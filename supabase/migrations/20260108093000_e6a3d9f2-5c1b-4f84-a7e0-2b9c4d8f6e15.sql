@@ -0,0 +1,17 @@
+-- Only pg_cron (as postgres) and the service role run the scheduler; through PostgREST anyone
+-- could otherwise expire every active contract by passing a future _today
+REVOKE EXECUTE ON FUNCTION public.expire_contracts(DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.flag_stale_contracts(INTEGER, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.run_contract_status_scheduler(INTEGER, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_contracts(DATE) TO service_role;
+GRANT EXECUTE ON FUNCTION public.flag_stale_contracts(INTEGER, DATE) TO service_role;
+GRANT EXECUTE ON FUNCTION public.run_contract_status_scheduler(INTEGER, DATE) TO service_role;
+
+-- pg_cron runs in UTC: 03:05 UTC is just after midnight in São Paulo (UTC-3), when
+-- current_date is already the Brazilian day, so contracts ending yesterday are expired
+-- before the working day. Scheduling under the same name replaces the 00:05 job.
+SELECT cron.schedule(
+  'contract-status-scheduler',
+  '5 3 * * *',
+  $$ SELECT public.run_contract_status_scheduler(30); $$
+);
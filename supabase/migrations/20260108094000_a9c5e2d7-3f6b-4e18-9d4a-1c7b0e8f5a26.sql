@@ -0,0 +1,4 @@
+-- Run by the scheduler only, like expire_contracts: through PostgREST anyone could otherwise
+-- renew every auto-renewing contract early by passing a future _today
+REVOKE EXECUTE ON FUNCTION public.auto_renew_contracts(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.auto_renew_contracts(DATE) TO service_role;
@@ -0,0 +1,27 @@
+-- Signing an amendment rewrites the contract's terms through apply_signed_contract_amendment,
+-- so the contract UPDATE policy is not enough: sales could mark their own amendment signed.
+-- Only admin and legal record a signature; the service role is not restricted.
+CREATE OR REPLACE FUNCTION public.prevent_signed_amendment_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+BEGIN
+  IF _user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'signed' THEN
+    RAISE EXCEPTION 'Signed amendments cannot be changed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'signed'
+    AND NOT public.has_any_role(_user_id, ARRAY['admin', 'legal']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only admin and legal can mark an amendment as signed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
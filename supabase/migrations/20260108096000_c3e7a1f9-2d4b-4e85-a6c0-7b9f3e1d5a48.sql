@@ -0,0 +1,65 @@
+-- What gets signed is the rendered document, so an amendment's terms are frozen once it leaves
+-- draft (the webhook would otherwise apply values that differ from the signed PDF). Users only
+-- cancel it; signing comes from the webhook (service role), or from an admin recording an
+-- amendment signed outside Autentique together with the signed file.
+CREATE OR REPLACE FUNCTION public.prevent_signed_amendment_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+BEGIN
+  IF OLD.status <> 'draft' AND (
+    NEW.contract_id IS DISTINCT FROM OLD.contract_id OR
+    NEW.amendment_number IS DISTINCT FROM OLD.amendment_number OR
+    NEW.kind IS DISTINCT FROM OLD.kind OR
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.monthly_value IS DISTINCT FROM OLD.monthly_value OR
+    NEW.end_date IS DISTINCT FROM OLD.end_date OR
+    NEW.effective_date IS DISTINCT FROM OLD.effective_date OR
+    NEW.readjustment IS DISTINCT FROM OLD.readjustment
+  ) THEN
+    RAISE EXCEPTION 'Amendments sent for signature cannot be changed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'signed' THEN
+    RAISE EXCEPTION 'Signed amendments cannot be changed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'signed' AND NOT (
+    OLD.status = 'draft'
+    AND public.has_role(_user_id, 'admin')
+    AND NEW.generated_document_url IS NOT NULL
+    AND NEW.generated_document_url IS DISTINCT FROM OLD.generated_document_url
+  ) THEN
+    RAISE EXCEPTION 'Only admins can record an amendment signed outside Autentique, with its signed file'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status NOT IN ('signed', 'cancelled') THEN
+    RAISE EXCEPTION 'Amendments are sent for signature through send-to-autentique'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status <> 'signed' AND (
+    NEW.generated_document_url IS DISTINCT FROM OLD.generated_document_url OR
+    NEW.signed_at IS DISTINCT FROM OLD.signed_at
+  ) OR NEW.autentique_document_id IS DISTINCT FROM OLD.autentique_document_id
+    OR NEW.autentique_signature_link IS DISTINCT FROM OLD.autentique_signature_link
+    OR NEW.sent_to_autentique_at IS DISTINCT FROM OLD.sent_to_autentique_at
+  THEN
+    RAISE EXCEPTION 'Amendment documents are managed by the signing flow' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Only reached through the amendment trigger; callers must not switch app.applying_amendment on
+REVOKE EXECUTE ON FUNCTION public.refresh_contract_amended_terms(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_contract_amended_terms(UUID) TO service_role;
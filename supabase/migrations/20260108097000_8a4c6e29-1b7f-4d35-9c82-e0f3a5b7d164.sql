@@ -0,0 +1,13 @@
+-- Flagging a contract as stale is not an edit: the stale_notified_at update used to bump
+-- updated_at too, and "edited since flagged" (updated_at > stale_notified_at) only held because
+-- both got the same transaction timestamp. Skip the bump when stale_notified_at is all that changed.
+DROP TRIGGER IF EXISTS update_contracts_updated_at ON public.contracts;
+
+CREATE TRIGGER update_contracts_updated_at
+  BEFORE UPDATE ON public.contracts
+  FOR EACH ROW
+  WHEN (NOT (
+    NEW.stale_notified_at IS DISTINCT FROM OLD.stale_notified_at
+    AND to_jsonb(NEW) - 'stale_notified_at' = to_jsonb(OLD) - 'stale_notified_at'
+  ))
+  EXECUTE FUNCTION public.update_updated_at_column();
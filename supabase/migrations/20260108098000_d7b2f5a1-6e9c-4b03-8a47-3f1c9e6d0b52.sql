@@ -0,0 +1,16 @@
+-- The Autentique document each signature event belongs to. A re-sent amendment gets a new
+-- document, and only signatures on that document count towards completing it.
+ALTER TABLE public.signature_events ADD COLUMN IF NOT EXISTS autentique_document_id TEXT;
+
+-- Same lookup as the webhook: document.* events carry the document itself, signature events
+-- reference it
+UPDATE public.signature_events
+SET autentique_document_id = CASE
+  WHEN payload ->> 'type' LIKE 'document.%' THEN payload -> 'data' ->> 'id'
+  WHEN jsonb_typeof(payload -> 'data' -> 'document') = 'string' THEN payload -> 'data' ->> 'document'
+  ELSE payload -> 'data' -> 'document' ->> 'id'
+END
+WHERE autentique_document_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_signature_events_autentique_document_id
+  ON public.signature_events(autentique_document_id);
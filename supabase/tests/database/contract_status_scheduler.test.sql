@@ -0,0 +1,109 @@
+-- Run with: supabase test db
+-- Drives run_contract_status_scheduler with fixed contracts and checks what it changed.
+-- Everything runs in a transaction that is rolled back.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(13);
+
+INSERT INTO public.contracts (id, client_name, status, start_date, end_date, monthly_value, total_value, updated_at)
+VALUES
+  -- Ended yesterday: expired
+  ('00000000-0000-4000-8000-000000000001', 'Encerrado ontem', 'active', current_date - 365, current_date - 1, 1000, 12000, now()),
+  -- Ends today: still active
+  ('00000000-0000-4000-8000-000000000002', 'Encerra hoje', 'active', current_date - 364, current_date, 1000, 12000, now()),
+  -- Draft untouched for 40 days: flagged as stale
+  ('00000000-0000-4000-8000-000000000003', 'Rascunho parado', 'draft', current_date, current_date + 365, 1000, 12000, now() - interval '40 days'),
+  -- Draft edited 5 days ago: left alone
+  ('00000000-0000-4000-8000-000000000004', 'Rascunho recente', 'draft', current_date, current_date + 365, 1000, 12000, now() - interval '5 days');
+
+-- Inside its auto-renew window (30 days before end_date): renewed with a 10% readjustment
+INSERT INTO public.contracts (
+  id, client_name, status, start_date, end_date, monthly_value, total_value,
+  auto_renew, auto_renew_days_before, auto_renew_readjustment_percent
+)
+VALUES (
+  '00000000-0000-4000-8000-000000000005', 'Renovação automática', 'active',
+  current_date - 355, current_date + 10, 1000, 12000, true, 30, 10
+);
+
+SELECT is(
+  public.run_contract_status_scheduler(30, current_date),
+  '{"renewed": 1, "expired": 1, "stale": 1}'::jsonb,
+  'first run renews, expires and flags one contract each'
+);
+
+SELECT is(
+  (SELECT status::text FROM public.contracts WHERE id = '00000000-0000-4000-8000-000000000001'),
+  'expired',
+  'a contract that ended yesterday is expired'
+);
+
+SELECT is(
+  (SELECT status::text FROM public.contracts WHERE id = '00000000-0000-4000-8000-000000000002'),
+  'active',
+  'a contract that ends today stays active'
+);
+
+SELECT isnt(
+  (SELECT stale_notified_at FROM public.contracts WHERE id = '00000000-0000-4000-8000-000000000003'),
+  NULL,
+  'an idle draft is marked as notified'
+);
+
+SELECT is(
+  (SELECT metadata FROM public.contract_events
+   WHERE contract_id = '00000000-0000-4000-8000-000000000003' AND action = 'flagged_stale'),
+  '{"status": "draft", "idle_days": 40}'::jsonb,
+  'an idle draft gets a flagged_stale event with its idle days'
+);
+
+SELECT ok(
+  (SELECT updated_at < now() - interval '39 days' FROM public.contracts
+   WHERE id = '00000000-0000-4000-8000-000000000003'),
+  'flagging an idle draft does not count as an edit'
+);
+
+SELECT is(
+  (SELECT stale_notified_at FROM public.contracts WHERE id = '00000000-0000-4000-8000-000000000004'),
+  NULL,
+  'a recently edited draft is not flagged'
+);
+
+SELECT results_eq(
+  $$ SELECT status::text, start_date, monthly_value FROM public.contracts
+     WHERE renewed_from_id = '00000000-0000-4000-8000-000000000005' $$,
+  $$ VALUES ('draft', current_date + 10, 1100.00::numeric) $$,
+  'auto-renew creates a readjusted draft starting when the contract ends'
+);
+
+SELECT is(
+  public.run_contract_status_scheduler(30, current_date),
+  '{"renewed": 0, "expired": 0, "stale": 0}'::jsonb,
+  'a second run on the same day changes nothing'
+);
+
+SELECT is(
+  public.run_contract_status_scheduler(30, current_date + 1),
+  '{"renewed": 0, "expired": 1, "stale": 0}'::jsonb,
+  'passing a later reference date expires the contract that ended the day before'
+);
+
+-- Only the scheduler may run these; through the API anyone could expire contracts early
+SELECT ok(
+  NOT has_function_privilege('anon', 'public.run_contract_status_scheduler(integer, date)', 'EXECUTE'),
+  'anon cannot run the scheduler'
+);
+
+SELECT ok(
+  NOT has_function_privilege('authenticated', 'public.run_contract_status_scheduler(integer, date)', 'EXECUTE'),
+  'authenticated users cannot run the scheduler'
+);
+
+SELECT ok(
+  has_function_privilege('service_role', 'public.run_contract_status_scheduler(integer, date)', 'EXECUTE'),
+  'the service role can run the scheduler'
+);
+
+SELECT * FROM finish();
+ROLLBACK;